@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { AlertStore, AlertStoreError, sourceUnavailableAlert } from './alert-store';
+import type { Alert, EcosystemEnv } from './types';
+import { createMockBucket } from '../test-utils';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15, 12, 0, 0);
+
+function createStore() {
+  const bucket = createMockBucket();
+  const env = { ECOSYSTEM_BUCKET: bucket } as unknown as EcosystemEnv;
+  return { bucket, store: new AlertStore(env) };
+}
+
+function alert(type: string, overrides: Partial<Alert> = {}): Alert {
+  return {
+    id: `USDGB-${Date.now()}`,
+    type,
+    source: 'USDGB',
+    severity: 'HIGH',
+    message: `${type} message`,
+    timestamp: NOW,
+    acknowledged: false,
+    ...overrides,
+  };
+}
+
+describe('AlertStore', () => {
+  it('deduplicates regenerated alerts by fingerprint with a stable id', async () => {
+    const { store } = createStore();
+
+    const [first] = await store.sync([alert('PEG_DEVIATION', { id: 'USDGB-1' })], NOW);
+    const [second] = await store.sync([alert('PEG_DEVIATION', { id: 'USDGB-2', message: 'worse' })], NOW + MINUTE);
+
+    expect(second.id).toBe(first.id);
+    expect(second.id).toMatch(/^ALT-[0-9a-f]{8}$/);
+    expect(second.state).toBe('OPEN');
+    expect(second.occurrences).toBe(2);
+    expect(second.firstSeen).toBe(NOW);
+    expect(second.lastSeen).toBe(NOW + MINUTE);
+    expect(second.message).toBe('worse');
+  });
+
+  it('keeps alerts about different subjects apart', async () => {
+    const { store } = createStore();
+
+    const records = await store.sync([
+      alert('LAUNCH_NEAR_COMPLETION', { source: 'MARKETPLACE', subject: '0xaaa' }),
+      alert('LAUNCH_NEAR_COMPLETION', { source: 'MARKETPLACE', subject: '0xbbb' }),
+    ], NOW);
+
+    expect(records).toHaveLength(2);
+    expect(records[0].id).not.toBe(records[1].id);
+  });
+
+  it('resolves cleared conditions and reopens them when they recur', async () => {
+    const { store } = createStore();
+    await store.sync([alert('PEG_DEVIATION')], NOW);
+
+    const [resolved] = await store.sync([], NOW + MINUTE);
+    expect(resolved.state).toBe('RESOLVED');
+    expect(resolved.resolvedAt).toBe(NOW + MINUTE);
+
+    const [reopened] = await store.sync([alert('PEG_DEVIATION')], NOW + 2 * MINUTE);
+    expect(reopened.state).toBe('OPEN');
+    expect(reopened.history.map(h => h.state)).toEqual(['OPEN', 'RESOLVED', 'OPEN']);
+  });
+
+  it('keeps acknowledged alerts acknowledged while the condition persists', async () => {
+    const { store } = createStore();
+    const [record] = await store.sync([alert('PEG_DEVIATION')], NOW);
+
+    const acked = await store.ack(record.id, 'ops');
+    expect(acked.state).toBe('ACKED');
+    expect(acked.acknowledged).toBe(true);
+    expect(acked.ackedBy).toBe('ops');
+
+    const [after] = await store.sync([alert('PEG_DEVIATION')], NOW + MINUTE);
+    expect(after.state).toBe('ACKED');
+  });
+
+  it('returns snoozed alerts to OPEN once the snooze expires', async () => {
+    const { store } = createStore();
+    const [record] = await store.sync([alert('PEG_DEVIATION')], NOW);
+
+    const snoozed = await store.snooze(record.id, 30, 'ops');
+    expect(snoozed.state).toBe('SNOOZED');
+
+    const [still] = await store.sync([alert('PEG_DEVIATION')], Date.now() + 10 * MINUTE);
+    expect(still.state).toBe('SNOOZED');
+
+    const [expired] = await store.sync([alert('PEG_DEVIATION')], Date.now() + 31 * MINUTE);
+    expect(expired.state).toBe('OPEN');
+  });
+
+  it('expires snoozes between syncs and queues the reopened alert', async () => {
+    const { store } = createStore();
+    const [record] = await store.sync([alert('PEG_DEVIATION')], NOW);
+    await store.takePendingNotifications();
+    await store.snooze(record.id, 30, 'ops');
+
+    expect(await store.expireSnoozes(Date.now() + 10 * MINUTE)).toEqual([]);
+
+    const [reopened] = await store.expireSnoozes(Date.now() + 31 * MINUTE);
+    expect(reopened).toMatchObject({ id: record.id, state: 'OPEN', snoozedUntil: undefined });
+    expect(reopened.history.at(-1)?.note).toBe('Snooze expired');
+    expect((await store.takePendingNotifications()).map(r => r.id)).toEqual([record.id]);
+  });
+
+  it('rejects unknown ids and invalid transitions', async () => {
+    const { store } = createStore();
+    const [record] = await store.sync([alert('PEG_DEVIATION')], NOW);
+    await store.resolve(record.id, 'ops', 'false positive');
+
+    await expect(store.ack('ALT-missing')).rejects.toMatchObject({ status: 404 });
+    await expect(store.ack(record.id)).rejects.toMatchObject({ status: 409 });
+    await expect(store.snooze(record.id, 0)).rejects.toBeInstanceOf(AlertStoreError);
+  });
+
+  it('keeps records of a source that could not be checked instead of resolving them', async () => {
+    const { store } = createStore();
+    const breach = alert('SUPPLY_INVARIANT_BREACH', { source: 'GOVERNOR', severity: 'CRITICAL' });
+    const stuck = alert('CROSSCHAIN_MESSAGE_STUCK', { source: 'GOVERNOR', subject: '0xguid' });
+    const [first] = await store.sync([breach, stuck], NOW);
+
+    const records = await store.sync([
+      sourceUnavailableAlert('GOVERNOR', new Error('RPC down'), { subject: 'supplyInvariant', covers: ['SUPPLY_INVARIANT_'] }),
+    ], NOW + MINUTE);
+
+    const byType = Object.fromEntries(records.map(r => [r.type, r]));
+    expect(byType.SUPPLY_INVARIANT_BREACH).toMatchObject({ id: first.id, state: 'OPEN', lastSeen: NOW });
+    expect(byType.CROSSCHAIN_MESSAGE_STUCK.state).toBe('RESOLVED');
+    expect(byType.SOURCE_UNAVAILABLE).toMatchObject({ state: 'OPEN', subject: 'supplyInvariant' });
+
+    const [recovered] = await store.sync([breach], NOW + 2 * MINUTE);
+    expect(recovered.history.map(h => h.state)).toEqual(['OPEN']);
+  });
+
+  it('holds every record of an agent whose alerts could not be checked', async () => {
+    const { store } = createStore();
+    await store.sync([alert('PEG_DEVIATION'), alert('LOW_LIQUIDITY', { source: 'USDCA' })], NOW);
+
+    const records = await store.sync([sourceUnavailableAlert('USDGB', new Error('RPC down'))], NOW + MINUTE);
+
+    expect(records.find(r => r.type === 'PEG_DEVIATION')?.state).toBe('OPEN');
+    expect(records.find(r => r.type === 'LOW_LIQUIDITY')?.state).toBe('RESOLVED');
+  });
+
+  it('queues only state transitions for notification', async () => {
+    const { store } = createStore();
+
+    await store.sync([alert('PEG_DEVIATION')], NOW);
+    expect((await store.takePendingNotifications()).map(r => r.state)).toEqual(['OPEN']);
+
+    await store.sync([alert('PEG_DEVIATION')], NOW + MINUTE);
+    expect(await store.takePendingNotifications()).toEqual([]);
+
+    await store.sync([], NOW + 2 * MINUTE);
+    expect((await store.takePendingNotifications()).map(r => r.state)).toEqual(['RESOLVED']);
+  });
+
+  it('does not notify operator actions or conditions that never got announced', async () => {
+    const { store } = createStore();
+
+    const [record] = await store.sync([alert('PEG_DEVIATION')], NOW);
+    await store.ack(record.id);
+    expect(await store.takePendingNotifications()).toEqual([]);
+
+    await store.sync([alert('PEG_DEVIATION'), alert('RESERVE_LOW')], NOW + MINUTE);
+    await store.sync([alert('PEG_DEVIATION')], NOW + 2 * MINUTE);
+    expect(await store.takePendingNotifications()).toEqual([]);
+  });
+
+  it('prunes resolved alerts after the retention window', async () => {
+    const { store, bucket } = createStore();
+    await store.sync([alert('PEG_DEVIATION')], NOW);
+    await store.sync([], NOW + MINUTE);
+
+    const records = await store.sync([], NOW + 8 * 24 * 60 * MINUTE);
+
+    expect(records).toEqual([]);
+    expect(JSON.parse(bucket.store.get('alerts/index.json') as string)).toEqual([]);
+  });
+});
@@ -0,0 +1,285 @@
+// Alert Store - Persistent alert lifecycle
+// Part of ChiefOS Ecosystem Manager
+
+import type { EcosystemEnv, Alert, AlertRecord, AlertState } from './types';
+import { StateDocument } from './ecosystem-state';
+import { HttpStatusError, serializeWithBigInt } from './utils';
+
+const INDEX_KEY = "alerts/index.json";
+const RESOLVED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_HISTORY = 50;
+const SOURCE_UNAVAILABLE = "SOURCE_UNAVAILABLE";
+
+/**
+ * Error raised for operator actions on unknown alerts or invalid transitions
+ */
+export class AlertStoreError extends HttpStatusError {
+    constructor(message: string, status: number) {
+        super(message, status);
+        this.name = "AlertStoreError";
+    }
+}
+
+/**
+ * Dedup key for an alert condition
+ */
+export function alertFingerprint(alert: Alert): string {
+    return `${alert.type}:${alert.source ?? "UNKNOWN"}:${alert.subject ?? "-"}`;
+}
+
+/**
+ * Stand-in for the alerts of a source that could not be checked this run
+ * While it stands, sync() keeps the records of that source open instead of
+ * resolving them; `covers` narrows that to alert types with the given prefixes
+ */
+export function sourceUnavailableAlert(
+    source: NonNullable<Alert["source"]>,
+    error: unknown,
+    scope?: { subject: string; covers: string[] }
+): Alert {
+    return {
+        id: `${source}-UNAVAILABLE-${Date.now()}`,
+        type: SOURCE_UNAVAILABLE,
+        source,
+        subject: scope?.subject,
+        severity: "HIGH",
+        message: `${scope?.subject ?? source} alerts could not be checked: ${String(error)}`,
+        data: { error: String(error), covers: scope?.covers },
+        timestamp: Date.now(),
+        acknowledged: false
+    };
+}
+
+/**
+ * Alert Store: One record per alert condition, kept in the ecosystem state
+ * document alerts/index.json
+ *
+ * Agents regenerate alerts on every run; sync() folds them into records keyed
+ * by fingerprint so the same condition keeps one stable id:
+ * - new condition -> OPEN (a RESOLVED record is reopened)
+ * - condition still present -> lastSeen/occurrences updated, state kept
+ * - condition gone -> RESOLVED, unless its source reported itself unavailable
+ * - SNOOZED records return to OPEN once the snooze expires (here or in expireSnoozes())
+ *
+ * Operators move records with ack(), snooze() and resolve(). Transitions made
+ * by sync() are queued for notification; operator actions are not.
+ */
+export class AlertStore {
+    private document: StateDocument<Map<string, AlertRecord>>;
+
+    constructor(env: EcosystemEnv) {
+        this.document = new StateDocument(env, INDEX_KEY, {
+            empty: () => new Map(),
+            parse: text => new Map((JSON.parse(text) as AlertRecord[]).map(r => [r.fingerprint, r])),
+            serialize: records => serializeWithBigInt(Array.from(records.values()))
+        });
+    }
+
+    /**
+     * Fold the current set of alerts into the store
+     */
+    async sync(alerts: Alert[], now: number = Date.now()): Promise<AlertRecord[]> {
+        return this.document.update(records => this.fold(records, alerts, now));
+    }
+
+    private fold(records: Map<string, AlertRecord>, alerts: Alert[], now: number): AlertRecord[] {
+        const current = new Map<string, Alert>();
+        for (const alert of alerts) current.set(alertFingerprint(alert), alert);
+
+        for (const [fingerprint, alert] of current) {
+            const existing = records.get(fingerprint);
+
+            if (!existing) {
+                records.set(fingerprint, {
+                    ...alert,
+                    id: alertId(fingerprint),
+                    fingerprint,
+                    acknowledged: false,
+                    state: "OPEN",
+                    firstSeen: now,
+                    lastSeen: now,
+                    occurrences: 1,
+                    history: [{ state: "OPEN", at: now }]
+                });
+                continue;
+            }
+
+            // Keep the latest message, severity and data; identity and lifecycle stay
+            Object.assign(existing, {
+                severity: alert.severity,
+                message: alert.message,
+                data: alert.data,
+                timestamp: alert.timestamp,
+                lastSeen: now,
+                occurrences: existing.occurrences + 1
+            });
+
+            if (existing.state === "RESOLVED") {
+                transition(existing, "OPEN", now, undefined, "Condition recurred");
+            } else if (existing.state === "SNOOZED" && (existing.snoozedUntil ?? 0) <= now) {
+                transition(existing, "OPEN", now, undefined, "Snooze expired");
+            }
+        }
+
+        const unavailable = alerts.filter(a => a.type === SOURCE_UNAVAILABLE);
+
+        for (const [fingerprint, record] of records) {
+            if (current.has(fingerprint)) continue;
+
+            if (record.state !== "RESOLVED") {
+                // Not checked this run: the condition may well still be there
+                if (unavailable.some(marker => coveredBy(marker, record))) continue;
+                transition(record, "RESOLVED", now, undefined, "Condition cleared");
+            } else if (now - (record.resolvedAt ?? record.lastSeen) > RESOLVED_RETENTION_MS) {
+                records.delete(fingerprint);
+            }
+        }
+
+        return Array.from(records.values());
+    }
+
+    /**
+     * Return SNOOZED records whose snooze is over to OPEN
+     * The reopened records are queued for notification like sync() transitions
+     */
+    async expireSnoozes(now: number = Date.now()): Promise<AlertRecord[]> {
+        return this.document.update(records => {
+            const expired = Array.from(records.values())
+                .filter(r => r.state === "SNOOZED" && (r.snoozedUntil ?? 0) <= now);
+
+            for (const record of expired) transition(record, "OPEN", now, undefined, "Snooze expired");
+            return expired;
+        });
+    }
+
+    /**
+     * List records, optionally filtered by state
+     */
+    async list(state?: AlertState): Promise<AlertRecord[]> {
+        const records = Array.from((await this.document.read()).values());
+        return state ? records.filter(r => r.state === state) : records;
+    }
+
+    /**
+     * Get a record by its stable id
+     */
+    async get(id: string): Promise<AlertRecord | null> {
+        return (await this.list()).find(r => r.id === id) ?? null;
+    }
+
+    /**
+     * Records whose state changed since the last notification, marked as notified
+     */
+    async takePendingNotifications(): Promise<AlertRecord[]> {
+        return this.document.update(records => {
+            const pending = Array.from(records.values()).filter(r => r.state !== r.notifiedState);
+
+            // A condition that opened and cleared between runs was never announced
+            const announce = pending.filter(r => !(r.state === "RESOLVED" && r.notifiedState === undefined));
+
+            for (const record of pending) record.notifiedState = record.state;
+            return announce;
+        });
+    }
+
+    /**
+     * Acknowledge an OPEN or SNOOZED alert
+     */
+    async ack(id: string, by?: string): Promise<AlertRecord> {
+        return this.update(id, record => {
+            if (record.state === "RESOLVED" || record.state === "ACKED") {
+                throw new AlertStoreError(`Cannot acknowledge ${record.state} alert`, 409);
+            }
+            transition(record, "ACKED", Date.now(), by);
+        });
+    }
+
+    /**
+     * Silence an alert for a number of minutes
+     */
+    async snooze(id: string, minutes: number, by?: string): Promise<AlertRecord> {
+        if (!Number.isFinite(minutes) || minutes <= 0) {
+            throw new AlertStoreError("minutes must be a positive number", 400);
+        }
+
+        return this.update(id, record => {
+            if (record.state === "RESOLVED") {
+                throw new AlertStoreError("Cannot snooze RESOLVED alert", 409);
+            }
+            const now = Date.now();
+            record.snoozedUntil = now + minutes * 60 * 1000;
+            transition(record, "SNOOZED", now, by, `Snoozed for ${minutes}m`);
+        });
+    }
+
+    /**
+     * Manually resolve an alert; it reopens if the condition is still present on the next sync
+     */
+    async resolve(id: string, by?: string, note?: string): Promise<AlertRecord> {
+        return this.update(id, record => {
+            if (record.state === "RESOLVED") {
+                throw new AlertStoreError("Alert is already RESOLVED", 409);
+            }
+            transition(record, "RESOLVED", Date.now(), by, note);
+        });
+    }
+
+    private async update(id: string, apply: (record: AlertRecord) => void): Promise<AlertRecord> {
+        return this.document.update(records => {
+            const record = Array.from(records.values()).find(r => r.id === id);
+            if (!record) throw new AlertStoreError(`Alert ${id} not found`, 404);
+
+            apply(record);
+            // Operator actions are not announced back to the operators
+            record.notifiedState = record.state;
+            return record;
+        });
+    }
+}
+
+function transition(record: AlertRecord, state: AlertState, at: number, by?: string, note?: string): void {
+    record.state = state;
+    record.acknowledged = state === "ACKED";
+
+    if (state === "ACKED") {
+        record.ackedAt = at;
+        record.ackedBy = by;
+    }
+    if (state !== "SNOOZED") {
+        record.snoozedUntil = undefined;
+    }
+    if (state === "RESOLVED") {
+        record.resolvedAt = at;
+        record.resolvedBy = by;
+    } else {
+        record.resolvedAt = undefined;
+        record.resolvedBy = undefined;
+    }
+
+    record.history.push({ state, at, by, note });
+    if (record.history.length > MAX_HISTORY) {
+        record.history.splice(0, record.history.length - MAX_HISTORY);
+    }
+}
+
+/**
+ * Whether an unavailable-source marker stands in for a record
+ */
+function coveredBy(marker: Alert, record: AlertRecord): boolean {
+    if (record.type === SOURCE_UNAVAILABLE || record.source !== marker.source) return false;
+
+    const covers = (marker.data as { covers?: string[] } | undefined)?.covers;
+    return !covers || covers.some(prefix => record.type.startsWith(prefix));
+}
+
+/**
+ * Stable id derived from the fingerprint (FNV-1a, 32-bit)
+ */
+function alertId(fingerprint: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < fingerprint.length; i++) {
+        hash ^= fingerprint.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `ALT-${(hash >>> 0).toString(16).padStart(8, "0")}`;
+}
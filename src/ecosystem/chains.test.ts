@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChainRegistry, CHAIN_REGISTRY_KEY, parseChainRegistry } from './chains';
+import type { EcosystemEnv } from './types';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+function createEnv(overrides: Partial<EcosystemEnv> = {}): EcosystemEnv {
+  return {
+    ECOSYSTEM_ENABLED: 'true',
+    ECOSYSTEM_BUCKET: createMockBucket(),
+    BASE_RPC_URL: 'https://base.example',
+    LZ_ENDPOINT_ADDRESS: '0x1a44076050125825900e736c501f859c50fE728c',
+    ...overrides,
+  };
+}
+
+const arbitrum = {
+  chainId: 42161,
+  name: 'Arbitrum',
+  lzEndpointId: 30110,
+  rpcUrl: 'https://arb.example',
+  contracts: { usdgb: '0x' + '22'.repeat(20) },
+};
+
+describe('ChainRegistry', () => {
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('defaults to Base built from env vars', async () => {
+    const registry = new ChainRegistry(createEnv({ USDGB_TOKEN_ADDRESS: '0xabc' }));
+
+    const chains = await registry.getChains();
+
+    expect(chains).toHaveLength(1);
+    expect(chains[0]).toMatchObject({ chainId: 8453, lzEndpointId: 30184, rpcUrl: 'https://base.example' });
+    expect(await registry.getChainsFor('usdgb')).toHaveLength(1);
+    expect(await registry.getChainsFor('usdca')).toHaveLength(0);
+  });
+
+  it('loads the registry from R2 when no env override is set', async () => {
+    const bucket = createMockBucket({ [CHAIN_REGISTRY_KEY]: JSON.stringify({ chains: [arbitrum] }) });
+    const registry = new ChainRegistry(createEnv({ ECOSYSTEM_BUCKET: bucket }));
+
+    expect(await registry.getChainByEid(30110)).toMatchObject({ chainId: 42161 });
+  });
+
+  it('prefers ECOSYSTEM_CHAINS over R2', async () => {
+    const bucket = createMockBucket({ [CHAIN_REGISTRY_KEY]: JSON.stringify([arbitrum]) });
+    const registry = new ChainRegistry(createEnv({
+      ECOSYSTEM_BUCKET: bucket,
+      ECOSYSTEM_CHAINS: JSON.stringify([{ ...arbitrum, chainId: 10, name: 'Optimism' }]),
+    }));
+
+    const chains = await registry.getChains();
+
+    expect(chains.map(c => c.chainId)).toEqual([10]);
+    expect(bucket.get).not.toHaveBeenCalled();
+  });
+
+  it('reuses one RPC client per chain', async () => {
+    const registry = new ChainRegistry(createEnv(), [arbitrum]);
+    const [chain] = await registry.getChains();
+
+    expect(registry.getClient(chain)).toBe(registry.getClient(chain));
+  });
+});
+
+describe('parseChainRegistry', () => {
+  it('rejects entries without a valid rpcUrl', () => {
+    expect(() => parseChainRegistry(JSON.stringify([{ ...arbitrum, rpcUrl: 'ws://nope' }]))).toThrow(/rpcUrl/);
+  });
+
+  it('rejects non-array documents', () => {
+    expect(() => parseChainRegistry('{"foo":1}')).toThrow(/array/);
+  });
+});
@@ -0,0 +1,150 @@
+// Chain Registry - Multi-chain configuration
+// Part of ChiefOS Ecosystem Manager
+
+import type { ChainConfig, EcosystemEnv } from './types';
+import { JsonRpcClient } from './rpc';
+
+/**
+ * R2 key for the chain registry document
+ */
+export const CHAIN_REGISTRY_KEY = "config/chains.json";
+
+/**
+ * Base mainnet (primary chain - Uniswap launch)
+ */
+const BASE_CHAIN_ID = 8453;
+const BASE_LZ_EID = 30184;
+
+export type ContractKey = keyof ChainConfig["contracts"];
+
+/**
+ * Chain Registry: Where each ecosystem contract lives
+ *
+ * Sources, in priority order:
+ * 1. ECOSYSTEM_CHAINS env var (JSON array of ChainConfig)
+ * 2. config/chains.json in ECOSYSTEM_BUCKET
+ * 3. Base only, built from BASE_RPC_URL and the *_ADDRESS vars
+ */
+export class ChainRegistry {
+    private env: EcosystemEnv;
+    private chains: ChainConfig[] | null = null;
+    private clients: Map<number, JsonRpcClient> = new Map();
+
+    constructor(env: EcosystemEnv, chains?: ChainConfig[]) {
+        this.env = env;
+        if (chains) this.chains = chains.map(validateChainConfig);
+    }
+
+    /**
+     * Get all configured chains
+     */
+    async getChains(): Promise<ChainConfig[]> {
+        if (!this.chains) {
+            this.chains = await this.load();
+        }
+        return this.chains;
+    }
+
+    /**
+     * Get a chain by chain ID
+     */
+    async getChain(chainId: number): Promise<ChainConfig | null> {
+        const chains = await this.getChains();
+        return chains.find(c => c.chainId === chainId) || null;
+    }
+
+    /**
+     * Get a chain by LayerZero endpoint ID
+     */
+    async getChainByEid(eid: number): Promise<ChainConfig | null> {
+        const chains = await this.getChains();
+        return chains.find(c => c.lzEndpointId === eid) || null;
+    }
+
+    /**
+     * Get chains where a given contract is deployed
+     */
+    async getChainsFor(contract: ContractKey): Promise<ChainConfig[]> {
+        const chains = await this.getChains();
+        return chains.filter(c => !!c.contracts[contract]);
+    }
+
+    /**
+     * Get the RPC client for a chain (one per chain, reused across calls)
+     */
+    getClient(chain: ChainConfig): JsonRpcClient {
+        let client = this.clients.get(chain.chainId);
+        if (!client) {
+            client = new JsonRpcClient(chain.rpcUrl);
+            this.clients.set(chain.chainId, client);
+        }
+        return client;
+    }
+
+    private async load(): Promise<ChainConfig[]> {
+        if (this.env.ECOSYSTEM_CHAINS) {
+            return parseChainRegistry(this.env.ECOSYSTEM_CHAINS);
+        }
+
+        try {
+            const object = await this.env.ECOSYSTEM_BUCKET.get(CHAIN_REGISTRY_KEY);
+            if (object) {
+                return parseChainRegistry(await object.text());
+            }
+        } catch (error) {
+            console.error("[Chains] Failed to load chain registry from R2:", error);
+        }
+
+        return [this.defaultBaseChain()];
+    }
+
+    private defaultBaseChain(): ChainConfig {
+        return {
+            chainId: BASE_CHAIN_ID,
+            name: "Base",
+            lzEndpointId: BASE_LZ_EID,
+            rpcUrl: this.env.BASE_RPC_URL,
+            contracts: {
+                usdgb: this.env.USDGB_TOKEN_ADDRESS,
+                usdca: this.env.USDCA_TOKEN_ADDRESS,
+                marketplace: this.env.MARKETPLACE_ADDRESS,
+                feeReceiver: this.env.MARKETPLACE_FEE_RECEIVER,
+                feeToken: this.env.MARKETPLACE_FEE_TOKEN
+            }
+        };
+    }
+}
+
+/**
+ * Parse and validate a chain registry JSON document
+ */
+export function parseChainRegistry(json: string): ChainConfig[] {
+    const parsed = JSON.parse(json);
+    const list = Array.isArray(parsed) ? parsed : parsed?.chains;
+
+    if (!Array.isArray(list)) {
+        throw new Error("Chain registry must be an array or { chains: [...] }");
+    }
+
+    return list.map(validateChainConfig);
+}
+
+function validateChainConfig(raw: ChainConfig): ChainConfig {
+    if (!Number.isInteger(raw?.chainId) || raw.chainId <= 0) {
+        throw new Error(`Invalid chainId in chain registry: ${JSON.stringify(raw?.chainId)}`);
+    }
+    if (!Number.isInteger(raw.lzEndpointId)) {
+        throw new Error(`Chain ${raw.chainId}: lzEndpointId must be an integer`);
+    }
+    if (typeof raw.rpcUrl !== "string" || !/^https?:\/\//.test(raw.rpcUrl)) {
+        throw new Error(`Chain ${raw.chainId}: rpcUrl must be an http(s) URL`);
+    }
+
+    return {
+        chainId: raw.chainId,
+        name: raw.name || `chain-${raw.chainId}`,
+        lzEndpointId: raw.lzEndpointId,
+        rpcUrl: raw.rpcUrl,
+        contracts: { ...raw.contracts }
+    };
+}
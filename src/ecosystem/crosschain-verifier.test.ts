@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { encodeUint256 } from './rpc';
+import type { RpcRequest } from './rpc';
+import {
+  CrossChainVerifier,
+  CrossChainError,
+  checkCrossChainAlerts,
+  decodePacket,
+  decodeOftMessage,
+  PACKET_SENT_TOPIC,
+  PACKET_DELIVERED_TOPIC,
+  LZ_RECEIVE_ALERT_TOPIC,
+  OFT_SENT_TOPIC,
+  OFT_RECEIVED_TOPIC,
+} from './crosschain-verifier';
+import type { EcosystemEnv, LayerZeroMessage } from './types';
+import { createMockBucket, stubJsonRpc, suppressConsole } from '../test-utils';
+
+const ENDPOINT = '0x1a44076050125825900e736c501f859c50fe728c';
+const BASE_EID = 30184;
+const ETH_EID = 30101;
+const SRC_OFT = '0x' + 'aa'.repeat(20);
+const DST_OFT = '0x' + 'bb'.repeat(20);
+const RECIPIENT = '0x' + 'cc'.repeat(20);
+const GUID = '0x' + '11'.repeat(32);
+const SRC_TX = '0x' + '51'.repeat(32);
+const DST_TX = '0x' + 'd1'.repeat(32);
+const AMOUNT_LD = 10n ** 18n;
+
+const pad32 = (hex: string) => hex.replace(/^0x/, '').padStart(64, '0');
+const uint = (value: bigint | number, bytes: number) => BigInt(value).toString(16).padStart(bytes * 2, '0');
+
+// 1 token in 6 shared decimals
+const PAYLOAD = '0x' + pad32(RECIPIENT) + uint(1_000_000, 8);
+
+function encodePacket(overrides: { nonce?: bigint; message?: string } = {}): string {
+  return '01'
+    + uint(overrides.nonce ?? 7n, 8)
+    + uint(BASE_EID, 4) + pad32(SRC_OFT)
+    + uint(ETH_EID, 4) + pad32(DST_OFT)
+    + pad32(GUID)
+    + (overrides.message ?? PAYLOAD).replace(/^0x/, '');
+}
+
+/**
+ * ABI-encode PacketSent(bytes encodedPayload, bytes options, address sendLibrary)
+ */
+function packetSentData(packet: string): string {
+  const length = packet.length / 2;
+  const padded = packet.padEnd(Math.ceil(length / 32) * 64, '0');
+  return '0x' + encodeUint256(96) + encodeUint256(96 + 32 + padded.length / 2) + pad32('0x' + 'ee'.repeat(20))
+    + encodeUint256(length) + padded + encodeUint256(0);
+}
+
+interface Log { address: string; topics: string[]; data: string; transactionHash: string }
+
+function sourceChain(packet = encodePacket()) {
+  const logs: Log[] = [
+    { address: ENDPOINT, topics: [PACKET_SENT_TOPIC], data: packetSentData(packet), transactionHash: SRC_TX },
+    {
+      address: SRC_OFT,
+      topics: [OFT_SENT_TOPIC, GUID, '0x' + pad32('0x' + '99'.repeat(20))],
+      data: '0x' + encodeUint256(ETH_EID) + encodeUint256(AMOUNT_LD) + encodeUint256(AMOUNT_LD),
+      transactionHash: SRC_TX,
+    },
+  ];
+  return logs;
+}
+
+function destinationChain(amount = AMOUNT_LD) {
+  const logs: Log[] = [
+    {
+      address: ENDPOINT,
+      topics: [PACKET_DELIVERED_TOPIC],
+      data: '0x' + encodeUint256(BASE_EID) + pad32(SRC_OFT) + encodeUint256(7) + pad32(DST_OFT),
+      transactionHash: DST_TX,
+    },
+    {
+      address: DST_OFT,
+      topics: [OFT_RECEIVED_TOPIC, GUID, '0x' + pad32(RECIPIENT)],
+      data: '0x' + encodeUint256(BASE_EID) + encodeUint256(amount),
+      transactionHash: DST_TX,
+    },
+  ];
+  return logs;
+}
+
+/**
+ * Serve eth_blockNumber, eth_getLogs and eth_getTransactionReceipt from per-RPC log lists
+ */
+function stubChains(chains: Record<string, Log[]>) {
+  return stubJsonRpc((request, url) => {
+    const logs = chains[url] ?? [];
+
+    if (request.method === 'eth_blockNumber') return { result: '0x100000' };
+    if (request.method === 'eth_getLogs') {
+      const { address, topics } = request.params[0] as { address: string; topics: string[] };
+      return { result: logs.filter(l => l.address === address.toLowerCase() && topics.every((t, i) => l.topics[i] === t)) };
+    }
+    if (request.method === 'eth_getTransactionReceipt') {
+      const txLogs = logs.filter(l => l.transactionHash === request.params[0]);
+      return { result: txLogs.length ? { transactionHash: request.params[0], logs: txLogs } : null };
+    }
+    return { result: null };
+  });
+}
+
+function createEnv(): EcosystemEnv {
+  return {
+    ECOSYSTEM_ENABLED: 'true',
+    ECOSYSTEM_BUCKET: createMockBucket(),
+    BASE_RPC_URL: 'http://base',
+    LZ_ENDPOINT_ADDRESS: ENDPOINT,
+    LZ_STUCK_TIMEOUT_MINUTES: '30',
+    ECOSYSTEM_CHAINS: JSON.stringify([
+      { chainId: 8453, name: 'Base', lzEndpointId: BASE_EID, rpcUrl: 'http://base', contracts: { usdgb: SRC_OFT } },
+      { chainId: 1, name: 'Ethereum', lzEndpointId: ETH_EID, rpcUrl: 'http://eth', contracts: { usdgb: DST_OFT } },
+    ]),
+  };
+}
+
+const message: LayerZeroMessage = {
+  guid: GUID,
+  nonce: 7n,
+  srcEid: BASE_EID,
+  srcAddress: SRC_OFT,
+  dstEid: ETH_EID,
+  dstAddress: DST_OFT,
+  payload: PAYLOAD,
+  status: 'PENDING',
+};
+
+describe('LayerZero decoding', () => {
+  it('decodes packet headers and OFT payloads', () => {
+    const packet = decodePacket(encodePacket());
+
+    expect(packet).toMatchObject({ nonce: 7n, srcEid: BASE_EID, dstEid: ETH_EID, guid: GUID, message: PAYLOAD });
+    expect(packet.sender).toBe('0x' + pad32(SRC_OFT));
+    expect(decodeOftMessage(PAYLOAD)).toEqual({ sendTo: '0x' + pad32(RECIPIENT), amountSD: 1_000_000n, composed: false });
+    expect(() => decodeOftMessage('0x1234')).toThrow('not an OFT message');
+  });
+});
+
+describe('CrossChainVerifier', () => {
+  let env: EcosystemEnv;
+
+  beforeEach(() => {
+    suppressConsole();
+    env = createEnv();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('verifies a delivered message against both endpoints', async () => {
+    stubChains({ 'http://base': sourceChain(), 'http://eth': destinationChain() });
+    const verifier = new CrossChainVerifier(env);
+
+    const record = await verifier.verify(message);
+
+    expect(record.status).toBe('DELIVERED');
+    expect(record.issues).toEqual([]);
+    expect(record).toMatchObject({ srcTxHash: SRC_TX, dstTxHash: DST_TX });
+    expect(record.transfer?.amountReceivedLD).toBe(AMOUNT_LD);
+    expect((await verifier.refresh()).messagesVerified).toBe(1);
+    expect((await verifier.getMessage(BASE_EID, ETH_EID, GUID))?.status).toBe('DELIVERED');
+  });
+
+  it('queries the log lookback in bounded block ranges', async () => {
+    const fetchMock = stubChains({ 'http://base': sourceChain(), 'http://eth': destinationChain() });
+
+    await new CrossChainVerifier(env).verify(message);
+
+    const ranges = fetchMock.mock.calls
+      .filter(([url]) => url === 'http://base')
+      .flatMap(([, init]) => [JSON.parse(init.body as string)].flat())
+      .filter((request: RpcRequest) => request.method === 'eth_getLogs')
+      .map((request: RpcRequest) => request.params[0] as { fromBlock: string; toBlock: string })
+      .map(({ fromBlock, toBlock }) => [Number(fromBlock), Number(toBlock)]);
+
+    const head = 0x100000;
+    expect(ranges.length).toBeGreaterThan(1);
+    expect(ranges.every(([from, to]) => from <= to && to - from < 10000)).toBe(true);
+    expect(Math.min(...ranges.map(([from]) => from))).toBe(head - 50000);
+    expect(Math.max(...ranges.map(([, to]) => to))).toBe(head);
+  });
+
+  it('keeps undelivered messages PENDING and flags them stuck after the timeout', async () => {
+    stubChains({ 'http://base': sourceChain(), 'http://eth': [] });
+    const verifier = new CrossChainVerifier(env);
+    const now = 1_700_000_000_000;
+
+    expect((await verifier.verify(message, now)).status).toBe('PENDING');
+    expect((await verifier.refresh(now + 10 * 60_000)).pending[0].stuck).toBe(false);
+
+    const status = await verifier.refresh(now + 31 * 60_000);
+
+    expect(status.pending[0].stuck).toBe(true);
+    expect(checkCrossChainAlerts(status).map(a => [a.type, a.severity, a.subject])).toEqual([
+      ['CROSSCHAIN_MESSAGE_STUCK', 'HIGH', GUID],
+    ]);
+
+    stubChains({ 'http://base': sourceChain(), 'http://eth': destinationChain() });
+    const delivered = await verifier.refresh(now + 40 * 60_000);
+    expect(delivered).toMatchObject({ messagesVerified: 1, pending: [], failed: [] });
+  });
+
+  it('fails a message whose payload differs from the PacketSent', async () => {
+    const tampered = '0x' + pad32(RECIPIENT) + uint(999_000_000, 8);
+    stubChains({ 'http://base': sourceChain(encodePacket({ message: tampered })), 'http://eth': [] });
+
+    const record = await new CrossChainVerifier(env).verify(message);
+
+    expect(record.status).toBe('FAILED');
+    expect(record.issues).toContain('Payload does not match the PacketSent message');
+  });
+
+  it('fails a delivery that has no source packet or credits the wrong amount', async () => {
+    stubChains({ 'http://base': [], 'http://eth': destinationChain(AMOUNT_LD * 1000n) });
+    const verifier = new CrossChainVerifier(env);
+
+    const record = await verifier.verify(message);
+    expect(record.issues).toEqual(['Delivered without a matching PacketSent on the source chain']);
+
+    stubChains({ 'http://base': sourceChain(), 'http://eth': destinationChain(AMOUNT_LD * 1000n) });
+    const status = await verifier.refresh();
+
+    expect(status.failed[0].issues).toEqual([`Credited ${AMOUNT_LD * 1000n} but ${AMOUNT_LD} was sent`]);
+    expect(checkCrossChainAlerts(status)[0]).toMatchObject({ type: 'CROSSCHAIN_MESSAGE_FAILED', severity: 'CRITICAL' });
+  });
+
+  it('fails a message whose lzReceive reverted on the destination', async () => {
+    const reason = '0x08c379a0' + '00'.repeat(28);
+    const alert: Log = {
+      address: ENDPOINT,
+      topics: [LZ_RECEIVE_ALERT_TOPIC, '0x' + pad32(DST_OFT), '0x' + pad32('0x' + '77'.repeat(20))],
+      data: '0x' + encodeUint256(BASE_EID) + pad32(SRC_OFT) + encodeUint256(7) + pad32(GUID)
+        + encodeUint256(200_000) + encodeUint256(0)
+        + encodeUint256(288) + encodeUint256(320) + encodeUint256(352)
+        + encodeUint256(0) + encodeUint256(0) + encodeUint256(32) + reason.slice(2),
+      transactionHash: DST_TX,
+    };
+    stubChains({ 'http://base': sourceChain(), 'http://eth': [alert] });
+
+    const record = await new CrossChainVerifier(env).verify(message);
+
+    expect(record.status).toBe('FAILED');
+    expect(record.issues).toEqual(['lzReceive reverted on destination (reason 0x08c379a0)']);
+  });
+
+  it('rejects malformed messages', async () => {
+    const verifier = new CrossChainVerifier(env);
+
+    await expect(verifier.verify({ ...message, guid: '0x1234' })).rejects.toBeInstanceOf(CrossChainError);
+    await expect(verifier.verify({ ...message, nonce: 'abc' as unknown as bigint })).rejects.toThrow('nonce');
+    await expect(verifier.verify({ ...message, srcTxHash: 'latest' })).rejects.toThrow('srcTxHash');
+  });
+
+  it('tracks only the message fields of a submitted message', async () => {
+    stubChains({ 'http://base': sourceChain(), 'http://eth': [] });
+    const submitted = { ...message, status: 'DELIVERED', stuck: true, issues: ['forged'], note: 'x'.repeat(1000) } as LayerZeroMessage;
+
+    const record = await new CrossChainVerifier(env).verify(submitted);
+
+    expect(record).toMatchObject({ status: 'PENDING', stuck: false, issues: [] });
+    expect(record).not.toHaveProperty('note');
+    const stored = JSON.parse(await (await env.ECOSYSTEM_BUCKET.get('crosschain/index.json'))!.text());
+    expect(stored.open[0]).not.toHaveProperty('note');
+  });
+});
@@ -0,0 +1,554 @@
+// Cross-Chain Verifier - LayerZero OFT message verification
+// Part of ChiefOS Ecosystem Manager
+
+import type {
+    Alert,
+    ChainConfig,
+    CrossChainMessageRecord,
+    CrossChainStatus,
+    EcosystemEnv,
+    LayerZeroMessage,
+    OftTransfer
+} from './types';
+import { ChainRegistry } from './chains';
+import { JsonRpcClient, decodeUint256, splitWords } from './rpc';
+import type { RpcRequest } from './rpc';
+import { serializeWithBigInt, HttpStatusError } from './utils';
+import { StateDocument } from './ecosystem-state';
+
+const INDEX_KEY = "crosschain/index.json";
+const FAILED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_STUCK_TIMEOUT_MINUTES = 60;
+const DEFAULT_LOG_LOOKBACK_BLOCKS = 50000;
+const BLOCKS_PER_QUERY = 10000;
+
+/**
+ * EndpointV2 PacketSent(bytes encodedPayload, bytes options, address sendLibrary)
+ */
+export const PACKET_SENT_TOPIC = "0x1ab700d4ced0c005b164c0f789fd09fcbb0156d4c2041b8a3bfbcd961cd1567f";
+
+/**
+ * EndpointV2 PacketDelivered((uint32 srcEid, bytes32 sender, uint64 nonce) origin, address receiver)
+ */
+export const PACKET_DELIVERED_TOPIC = "0x3cd5e48f9730b129dc7550f0fcea9c767b7be37837cd10e55eb35f734f4bca04";
+
+/**
+ * EndpointV2 LzReceiveAlert, emitted when the executor's lzReceive reverts
+ */
+export const LZ_RECEIVE_ALERT_TOPIC = "0x7edfa10fe10193301ad8a8bea7e968c7bcabcc64981f368e3aeada40ce26ae2c";
+
+/**
+ * OFTSent(bytes32 indexed guid, uint32 dstEid, address indexed from, uint256 amountSentLD, uint256 amountReceivedLD)
+ */
+export const OFT_SENT_TOPIC = "0x85496b760a4b7f8d66384b9df21b381f5d1b1e79f229a47aaf4c232edc2fe59a";
+
+/**
+ * OFTReceived(bytes32 indexed guid, uint32 srcEid, address indexed to, uint256 amountReceivedLD)
+ */
+export const OFT_RECEIVED_TOPIC = "0xefed6d3500546b29533b128a29e3a94d70788727f0507505ac12eaf2e578fd9c";
+
+/**
+ * Header fields and message of an EndpointV2 packet
+ */
+export interface DecodedPacket {
+    nonce: bigint;
+    srcEid: number;
+    sender: string;
+    dstEid: number;
+    receiver: string;
+    guid: string;
+    message: string;
+}
+
+interface RpcLog {
+    address: string;
+    topics: string[];
+    data: string;
+    transactionHash: string;
+}
+
+interface RpcReceipt {
+    transactionHash: string;
+    logs: RpcLog[];
+}
+
+interface SentEvidence {
+    txHash: string;
+    packet: DecodedPacket | null;
+    amountReceivedLD: bigint | null;
+}
+
+interface DeliveredEvidence {
+    txHash: string;
+    origin: { srcEid: number; sender: string; nonce: bigint; receiver: string } | null;
+    to: string;
+    amountReceivedLD: bigint;
+}
+
+/**
+ * Error raised for messages that cannot be tracked at all
+ */
+export class CrossChainError extends HttpStatusError {
+    constructor(message: string, status: number) {
+        super(message, status);
+        this.name = "CrossChainError";
+    }
+}
+
+/**
+ * Decode a v1 packet as emitted in PacketSent
+ * version(1) | nonce(8) | srcEid(4) | sender(32) | dstEid(4) | receiver(32) | guid(32) | message
+ */
+export function decodePacket(hex: string): DecodedPacket {
+    const data = hex.replace(/^0x/, "").toLowerCase();
+    if (data.length < 226) throw new Error("Packet shorter than its header");
+
+    const version = parseInt(data.slice(0, 2), 16);
+    if (version !== 1) throw new Error(`Unsupported packet version ${version}`);
+
+    return {
+        nonce: BigInt("0x" + data.slice(2, 18)),
+        srcEid: parseInt(data.slice(18, 26), 16),
+        sender: "0x" + data.slice(26, 90),
+        dstEid: parseInt(data.slice(90, 98), 16),
+        receiver: "0x" + data.slice(98, 162),
+        guid: "0x" + data.slice(162, 226),
+        message: "0x" + data.slice(226)
+    };
+}
+
+/**
+ * Decode an OFT message
+ * sendTo(32) | amountSD(8), optionally followed by composeFrom(32) | composeMsg
+ */
+export function decodeOftMessage(hex: string): OftTransfer {
+    const data = hex.replace(/^0x/, "").toLowerCase();
+    if (/[^0-9a-f]/.test(data) || data.length < 80 || (data.length > 80 && data.length < 144)) {
+        throw new Error("Payload is not an OFT message");
+    }
+
+    return {
+        sendTo: "0x" + data.slice(0, 64),
+        amountSD: BigInt("0x" + data.slice(64, 80)),
+        composed: data.length > 80
+    };
+}
+
+/**
+ * Left-pad an address (or bytes32) to a lowercase bytes32
+ */
+function toBytes32(value: string): string {
+    return "0x" + value.replace(/^0x/, "").toLowerCase().padStart(64, "0");
+}
+
+/**
+ * Low 20 bytes of a bytes32 as an address
+ */
+function toAddress(value: string): string {
+    return "0x" + toBytes32(value).slice(-40);
+}
+
+/**
+ * Read a dynamic `bytes` argument whose offset is at word `index`
+ */
+function decodeBytes(hex: string, index: number): string {
+    const data = hex.replace(/^0x/, "");
+    const offset = Number(BigInt("0x" + splitWords(data)[index])) * 2;
+    const length = Number(BigInt("0x" + data.slice(offset, offset + 64))) * 2;
+    return "0x" + data.slice(offset + 64, offset + 64 + length);
+}
+
+/**
+ * Cross-Chain Verifier: Confirms LayerZero OFT messages on both endpoints
+ *
+ * A message is checked against on-chain evidence rather than trusted as submitted:
+ * - source: the OFTSent log (located by guid) and the PacketSent emitted in the
+ *   same transaction must carry the same header and payload
+ * - destination: the OFTReceived log and the PacketDelivered in its transaction
+ *   must match the origin, receiver, recipient and amount
+ * - an LzReceiveAlert for the guid means the DVNs verified it but execution reverted
+ *
+ * Outcomes: DELIVERED (verified), FAILED (mismatch, reverted or forged delivery)
+ * or PENDING, flagged stuck after LZ_STUCK_TIMEOUT_MINUTES. PENDING and FAILED
+ * messages stay in the ecosystem state document crosschain/index.json and are
+ * re-checked on every refresh();
+ * every outcome is also written to crosschain/<srcEid>-<dstEid>/<guid>.json.
+ * Messages are checked against the chains before the state update, which only
+ * applies the outcomes, so a retried update does not repeat the RPC reads.
+ */
+export class CrossChainVerifier {
+    private env: EcosystemEnv;
+    private chains: ChainRegistry;
+    private document: StateDocument<CrossChainIndex>;
+
+    constructor(env: EcosystemEnv, chains: ChainRegistry = new ChainRegistry(env)) {
+        this.env = env;
+        this.chains = chains;
+        this.document = new StateDocument<CrossChainIndex>(env, INDEX_KEY, {
+            empty: () => ({ messagesVerified: 0, open: [] }),
+            parse: text => {
+                const raw = JSON.parse(text);
+                return { messagesVerified: raw.messagesVerified ?? 0, open: (raw.open ?? []).map(reviveRecord) };
+            },
+            serialize: index => serializeWithBigInt(index)
+        });
+    }
+
+    /**
+     * Check a message and start tracking it
+     */
+    async verify(msg: LayerZeroMessage, now: number = Date.now()): Promise<CrossChainMessageRecord> {
+        if (!/^0x[0-9a-fA-F]{64}$/.test(msg?.guid ?? "")) {
+            throw new CrossChainError("guid must be a 32-byte hex string", 400);
+        }
+        if (!Number.isInteger(msg.srcEid) || !Number.isInteger(msg.dstEid)) {
+            throw new CrossChainError("srcEid and dstEid must be integers", 400);
+        }
+        if (!msg.srcAddress || !msg.dstAddress || typeof msg.payload !== "string") {
+            throw new CrossChainError("srcAddress, dstAddress and payload are required", 400);
+        }
+        if (!/^\d+$/.test(String(msg.nonce))) {
+            throw new CrossChainError("nonce must be a non-negative integer", 400);
+        }
+        if (msg.srcTxHash !== undefined && !/^0x[0-9a-fA-F]{64}$/.test(msg.srcTxHash)) {
+            throw new CrossChainError("srcTxHash must be a 32-byte hex string", 400);
+        }
+
+        const guid = msg.guid.toLowerCase();
+        const archived = await this.getMessage(msg.srcEid, msg.dstEid, guid);
+        if (archived?.status === "DELIVERED") return archived;
+
+        // Only the message fields are kept from the request; status and the rest are ours
+        const record: CrossChainMessageRecord = (await this.document.read()).open.find(r => r.guid === guid) ?? {
+            guid,
+            nonce: BigInt(msg.nonce),
+            srcEid: msg.srcEid,
+            srcAddress: msg.srcAddress,
+            dstEid: msg.dstEid,
+            dstAddress: msg.dstAddress,
+            payload: msg.payload,
+            srcTxHash: msg.srcTxHash?.toLowerCase(),
+            status: "PENDING",
+            transfer: null,
+            firstSeen: now,
+            checkedAt: now,
+            stuck: false,
+            issues: []
+        };
+
+        await this.check(record, now);
+        return this.document.update(async index => {
+            await this.track(index, record);
+            return record;
+        });
+    }
+
+    /**
+     * Re-check every PENDING and FAILED message and summarize
+     */
+    async refresh(now: number = Date.now()): Promise<CrossChainStatus> {
+        const unchecked: CrossChainStatus["unchecked"] = [];
+        const checked: CrossChainMessageRecord[] = [];
+
+        for (const record of (await this.document.read()).open) {
+            try {
+                await this.check(record, now);
+                checked.push(record);
+            } catch (error) {
+                unchecked.push({ guid: record.guid, error: String(error) });
+            }
+        }
+
+        return this.document.update(async index => {
+            for (const record of checked) {
+                // Left as recorded when a concurrent pass already closed it
+                if (!index.open.some(r => r.guid === record.guid)) continue;
+                await this.track(index, record);
+            }
+
+            index.open = index.open.filter(r => !(r.status === "FAILED" && now - (r.failedAt ?? now) > FAILED_RETENTION_MS));
+
+            return {
+                messagesVerified: index.messagesVerified,
+                pending: index.open.filter(r => r.status === "PENDING"),
+                failed: index.open.filter(r => r.status === "FAILED"),
+                unchecked,
+                stuckTimeoutMinutes: this.stuckTimeoutMinutes()
+            };
+        });
+    }
+
+    /**
+     * Get the last recorded outcome for a message
+     */
+    async getMessage(srcEid: number, dstEid: number, guid: string): Promise<CrossChainMessageRecord | null> {
+        const object = await this.env.ECOSYSTEM_BUCKET.get(messageKey(srcEid, dstEid, guid.toLowerCase()));
+        return object ? reviveRecord(JSON.parse(await object.text())) : null;
+    }
+
+    private async check(record: CrossChainMessageRecord, now: number): Promise<void> {
+        const issues: string[] = [];
+
+        try {
+            record.transfer = { ...decodeOftMessage(record.payload), amountReceivedLD: record.transfer?.amountReceivedLD };
+        } catch (error) {
+            record.transfer = null;
+            issues.push(error instanceof Error ? error.message : String(error));
+        }
+
+        const [src, dst] = await Promise.all([
+            this.chains.getChainByEid(record.srcEid),
+            this.chains.getChainByEid(record.dstEid)
+        ]);
+        if (!src) issues.push(`No chain configured for srcEid ${record.srcEid}`);
+        if (!dst) issues.push(`No chain configured for dstEid ${record.dstEid}`);
+
+        const sent = src ? await this.findSent(src, record) : null;
+        if (sent) {
+            record.srcTxHash = sent.txHash;
+            if (record.transfer && sent.amountReceivedLD !== null) {
+                record.transfer.amountReceivedLD = sent.amountReceivedLD;
+            }
+            issues.push(...comparePacket(record, sent.packet));
+        }
+
+        const delivered = dst ? await this.findDelivered(dst, record) : null;
+        if (delivered) {
+            record.dstTxHash = delivered.txHash;
+            if (!sent) issues.push("Delivered without a matching PacketSent on the source chain");
+            issues.push(...compareDelivery(record, delivered));
+        }
+
+        const reverted = dst && !delivered ? await this.findReceiveAlert(dst, record) : null;
+        if (reverted) issues.push(`lzReceive reverted on destination (reason ${reverted})`);
+
+        record.issues = issues;
+        record.checkedAt = now;
+        record.status = issues.length > 0 ? "FAILED" : delivered ? "DELIVERED" : "PENDING";
+        record.stuck = record.status === "PENDING" && now - record.firstSeen > this.stuckTimeoutMinutes() * 60 * 1000;
+        if (record.status === "FAILED") record.failedAt ??= now;
+        else delete record.failedAt;
+    }
+
+    private async findSent(chain: ChainConfig, record: CrossChainMessageRecord): Promise<SentEvidence | null> {
+        const client = this.chains.getClient(chain);
+        const txHash = record.srcTxHash
+            ?? (await this.findLog(client, toAddress(record.srcAddress), [OFT_SENT_TOPIC, record.guid]))?.transactionHash;
+        if (!txHash) return null;
+
+        const receipt = await client.call<RpcReceipt | null>("eth_getTransactionReceipt", [txHash]);
+        if (!receipt) return null;
+
+        const packet = this.endpointLogs(receipt, PACKET_SENT_TOPIC)
+            .map(log => decodePacket(decodeBytes(log.data, 0)))
+            .find(p => p.guid === record.guid) ?? null;
+        const oftSent = receipt.logs.find(log => log.topics[0] === OFT_SENT_TOPIC && log.topics[1]?.toLowerCase() === record.guid);
+
+        return {
+            txHash,
+            packet,
+            amountReceivedLD: oftSent ? decodeUint256("0x" + splitWords(oftSent.data)[2]) : null
+        };
+    }
+
+    private async findDelivered(chain: ChainConfig, record: CrossChainMessageRecord): Promise<DeliveredEvidence | null> {
+        const client = this.chains.getClient(chain);
+        const received = await this.findLog(client, toAddress(record.dstAddress), [OFT_RECEIVED_TOPIC, record.guid]);
+        if (!received) return null;
+
+        const receipt = await client.call<RpcReceipt | null>("eth_getTransactionReceipt", [received.transactionHash]);
+        const receiver = toBytes32(record.dstAddress);
+        const delivery = (receipt ? this.endpointLogs(receipt, PACKET_DELIVERED_TOPIC) : [])
+            .map(log => splitWords(log.data))
+            .find(words => "0x" + words[3] === receiver);
+
+        return {
+            txHash: received.transactionHash,
+            origin: delivery ? {
+                srcEid: Number(BigInt("0x" + delivery[0])),
+                sender: "0x" + delivery[1],
+                nonce: BigInt("0x" + delivery[2]),
+                receiver: "0x" + delivery[3]
+            } : null,
+            to: toBytes32(received.topics[2] ?? "0x"),
+            amountReceivedLD: decodeUint256("0x" + splitWords(received.data)[1])
+        };
+    }
+
+    /**
+     * Revert reason selector of an LzReceiveAlert for the message, if any
+     */
+    private async findReceiveAlert(chain: ChainConfig, record: CrossChainMessageRecord): Promise<string | null> {
+        const logs = await this.getLogs(
+            this.chains.getClient(chain),
+            this.env.LZ_ENDPOINT_ADDRESS,
+            [LZ_RECEIVE_ALERT_TOPIC, toBytes32(record.dstAddress)]
+        );
+        const alert = logs.find(log => "0x" + splitWords(log.data)[3] === record.guid);
+        if (!alert) return null;
+
+        const reason = decodeBytes(alert.data, 8);
+        return reason.length > 2 ? reason.slice(0, 10) : "empty";
+    }
+
+    private async findLog(client: JsonRpcClient, address: string, topics: string[]): Promise<RpcLog | null> {
+        const logs = await this.getLogs(client, address, topics);
+        return logs[0] ?? null;
+    }
+
+    /**
+     * Logs over the lookback window, queried in BLOCKS_PER_QUERY ranges (oldest first)
+     * so the window stays within provider eth_getLogs range limits
+     */
+    private async getLogs(client: JsonRpcClient, address: string, topics: string[]): Promise<RpcLog[]> {
+        const head = Number(await client.call<string>("eth_blockNumber"));
+        const fromBlock = Math.max(0, head - this.lookbackBlocks());
+
+        const ranges: RpcRequest[] = [];
+        for (let start = fromBlock; start <= head; start += BLOCKS_PER_QUERY) {
+            ranges.push({
+                method: "eth_getLogs",
+                params: [{
+                    address,
+                    topics,
+                    fromBlock: "0x" + start.toString(16),
+                    toBlock: "0x" + Math.min(start + BLOCKS_PER_QUERY - 1, head).toString(16)
+                }]
+            });
+        }
+
+        return (await client.batch<RpcLog[]>(ranges)).flat();
+    }
+
+    private endpointLogs(receipt: RpcReceipt, topic: string): RpcLog[] {
+        const endpoint = this.env.LZ_ENDPOINT_ADDRESS.toLowerCase();
+        return receipt.logs.filter(log => log.address.toLowerCase() === endpoint && log.topics[0] === topic);
+    }
+
+    private async track(index: CrossChainIndex, record: CrossChainMessageRecord): Promise<void> {
+        const position = index.open.findIndex(r => r.guid === record.guid);
+
+        if (record.status === "DELIVERED") {
+            if (position >= 0) index.open.splice(position, 1);
+            index.messagesVerified++;
+        } else if (position < 0) {
+            index.open.push(record);
+        } else {
+            index.open[position] = record;
+        }
+
+        await this.env.ECOSYSTEM_BUCKET.put(
+            messageKey(record.srcEid, record.dstEid, record.guid),
+            serializeWithBigInt(record)
+        );
+    }
+
+    private stuckTimeoutMinutes(): number {
+        return Number(this.env.LZ_STUCK_TIMEOUT_MINUTES) || DEFAULT_STUCK_TIMEOUT_MINUTES;
+    }
+
+    private lookbackBlocks(): number {
+        return Number(this.env.LZ_LOG_LOOKBACK_BLOCKS) || DEFAULT_LOG_LOOKBACK_BLOCKS;
+    }
+}
+
+interface CrossChainIndex {
+    /** Lifetime count of DELIVERED messages */
+    messagesVerified: number;
+    /** PENDING and FAILED messages */
+    open: CrossChainMessageRecord[];
+}
+
+function messageKey(srcEid: number, dstEid: number, guid: string): string {
+    return `crosschain/${srcEid}-${dstEid}/${guid}.json`;
+}
+
+/**
+ * Restore the BigInt fields that serializeWithBigInt wrote out as strings
+ */
+function reviveRecord(raw: CrossChainMessageRecord): CrossChainMessageRecord {
+    return {
+        ...raw,
+        nonce: BigInt(raw.nonce),
+        transfer: raw.transfer ? {
+            ...raw.transfer,
+            amountSD: BigInt(raw.transfer.amountSD),
+            amountReceivedLD: raw.transfer.amountReceivedLD === undefined ? undefined : BigInt(raw.transfer.amountReceivedLD)
+        } : null
+    };
+}
+
+/**
+ * Differences between the submitted message and the packet the source endpoint emitted
+ */
+function comparePacket(record: CrossChainMessageRecord, packet: DecodedPacket | null): string[] {
+    if (!packet) return ["Source transaction has no PacketSent for this guid"];
+
+    const issues: string[] = [];
+    if (packet.nonce !== record.nonce) issues.push(`Nonce ${record.nonce} does not match PacketSent nonce ${packet.nonce}`);
+    if (packet.srcEid !== record.srcEid) issues.push(`PacketSent srcEid is ${packet.srcEid}`);
+    if (packet.dstEid !== record.dstEid) issues.push(`PacketSent dstEid is ${packet.dstEid}`);
+    if (packet.sender !== toBytes32(record.srcAddress)) issues.push(`PacketSent sender is ${packet.sender}`);
+    if (packet.receiver !== toBytes32(record.dstAddress)) issues.push(`PacketSent receiver is ${packet.receiver}`);
+    if (packet.message !== record.payload.toLowerCase()) issues.push("Payload does not match the PacketSent message");
+    return issues;
+}
+
+/**
+ * Differences between what was sent and what the destination credited
+ */
+function compareDelivery(record: CrossChainMessageRecord, delivered: DeliveredEvidence): string[] {
+    const origin = delivered.origin;
+    if (!origin) return ["OFTReceived without a PacketDelivered from the endpoint"];
+
+    const issues: string[] = [];
+    if (origin.srcEid !== record.srcEid) issues.push(`PacketDelivered srcEid is ${origin.srcEid}`);
+    if (origin.sender !== toBytes32(record.srcAddress)) issues.push(`PacketDelivered sender is ${origin.sender}`);
+    if (origin.nonce !== record.nonce) issues.push(`PacketDelivered nonce is ${origin.nonce}`);
+
+    const transfer = record.transfer;
+    if (transfer && toAddress(delivered.to) !== toAddress(transfer.sendTo)) {
+        issues.push(`Credited ${toAddress(delivered.to)} instead of ${toAddress(transfer.sendTo)}`);
+    }
+    if (transfer?.amountReceivedLD !== undefined && transfer.amountReceivedLD !== delivered.amountReceivedLD) {
+        issues.push(`Credited ${delivered.amountReceivedLD} but ${transfer.amountReceivedLD} was sent`);
+    }
+    return issues;
+}
+
+/**
+ * Alerts for failed and stuck messages (one per guid)
+ */
+export function checkCrossChainAlerts(status: CrossChainStatus): Alert[] {
+    const alerts: Alert[] = [];
+
+    for (const record of status.failed) {
+        alerts.push({
+            id: `GOV-XCHAIN-${Date.now()}`,
+            type: "CROSSCHAIN_MESSAGE_FAILED",
+            source: "GOVERNOR",
+            subject: record.guid,
+            severity: "CRITICAL",
+            message: `LayerZero message ${record.guid.slice(0, 10)} (${record.srcEid}→${record.dstEid}) failed verification: ${record.issues[0]}`,
+            data: { guid: record.guid, srcTxHash: record.srcTxHash, dstTxHash: record.dstTxHash, issues: record.issues },
+            timestamp: Date.now(),
+            acknowledged: false
+        });
+    }
+
+    for (const record of status.pending.filter(r => r.stuck)) {
+        alerts.push({
+            id: `GOV-XCHAIN-${Date.now()}`,
+            type: "CROSSCHAIN_MESSAGE_STUCK",
+            source: "GOVERNOR",
+            subject: record.guid,
+            severity: "HIGH",
+            message: `LayerZero message ${record.guid.slice(0, 10)} (${record.srcEid}→${record.dstEid}) undelivered for over ${status.stuckTimeoutMinutes}m`,
+            data: { guid: record.guid, srcTxHash: record.srcTxHash, firstSeen: record.firstSeen },
+            timestamp: Date.now(),
+            acknowledged: false
+        });
+    }
+
+    return alerts;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeDay, formatDailyBrief } from './daily-brief';
+import type { Alert, OperationalReport, RiskLevel } from './types';
+
+const HOUR = 60 * 60 * 1000;
+const FROM = Date.UTC(2026, 0, 14);
+const TO = FROM + 24 * HOUR;
+const E18 = 10n ** 18n;
+
+// Agents regenerate alerts every run, so ids carry the run's timestamp
+function alert(type: string, severity: Alert['severity'], hour: number, subject?: string): Alert {
+  const timestamp = FROM + hour * HOUR;
+  return { id: `USDGB-${type}-${timestamp}`, type, source: 'USDGB', subject, severity, message: type, timestamp };
+}
+
+function report(hour: number, usdgbPeg: number, reserve: number, overall: RiskLevel, alerts: Alert[]): OperationalReport {
+  return {
+    timestamp: FROM + hour * HOUR,
+    period: '4h',
+    agents: {
+      usdgb: { pegPrice: usdgbPeg, pegOracle: { method: 'median' }, goldReserveRatio: reserve, reserveStatus: { source: 'attestation' } },
+      usdca: { pegPrice: 0, pegOracle: { method: 'unconfigured' } },
+      governor: { riskStatus: { overall, alerts } },
+    },
+    summary: '',
+  } as unknown as OperationalReport;
+}
+
+const reports = [
+  report(4, 0.998, 1.02, 'GREEN', [alert('PEG', 'MEDIUM', 4)]),
+  report(8, 1.002, 1.01, 'YELLOW', [alert('PEG', 'HIGH', 8), alert('LIQ', 'LOW', 8, 'pool-a')]),
+  report(12, 1.0, 0.99, 'GREEN', [alert('LIQ', 'LOW', 12, 'pool-a')]),
+];
+
+const marketplace = { launchesCompleted: 2, totalRaised: 150n * E18, feesCollected: 375n * E18 / 100n, feeDiscrepancies: 1 };
+
+describe('summarizeDay', () => {
+  it('rolls up pegs, reserve trend, distinct alerts and the worst risk', () => {
+    const day = summarizeDay(reports, marketplace, FROM, TO);
+
+    expect(day.reportCount).toBe(3);
+    expect(day.peg.USDGB).toEqual({ min: 0.998, max: 1.002, avg: expect.closeTo(1, 9), latest: 1.0 });
+    expect(day.peg.USDca).toBeNull();
+    expect(day.reserve).toMatchObject({ min: 0.99, max: 1.02, latest: 0.99, change: expect.closeTo(-0.03, 9) });
+    expect(day.alertsBySeverity).toEqual({ LOW: 1, WARNING: 0, MEDIUM: 0, HIGH: 1, CRITICAL: 0 });
+    expect(day.worstRisk).toBe('YELLOW');
+    expect(day).toMatchObject(marketplace);
+  });
+
+  it('counts alerts on different subjects separately', () => {
+    const day = summarizeDay([
+      report(4, 1, 1, 'GREEN', [alert('LIQ', 'LOW', 4, 'pool-a'), alert('LIQ', 'LOW', 4, 'pool-b')]),
+      report(8, 1, 1, 'GREEN', [alert('LIQ', 'WARNING', 8, 'pool-b')]),
+    ], marketplace, FROM, TO);
+
+    expect(day.alertsBySeverity).toEqual({ LOW: 1, WARNING: 1, MEDIUM: 0, HIGH: 0, CRITICAL: 0 });
+  });
+});
+
+describe('formatDailyBrief', () => {
+  it('renders the roll-up in the daily template', () => {
+    const daily = { ...report(24, 1, 1, 'GREEN', []), period: '24h' as const, daily: summarizeDay(reports, marketplace, FROM, TO) };
+    const brief = formatDailyBrief(daily);
+
+    expect(brief).toContain('DAILY BRIEF - 2026-01-14');
+    expect(brief).toContain('Worst risk today: YELLOW | Now: GREEN');
+    expect(brief).toContain('USDGB: $1.0000 avg | $0.9980 - $1.0020');
+    expect(brief).toContain('USDca: no oracle configured');
+    expect(brief).toContain('USDGB Reserve: 99.0% (-3.00 pts, low 99.0%)');
+    expect(brief).toContain('Alerts: 1 HIGH, 1 LOW');
+    expect(brief).toContain('Fees: 3.75 CAMP (1 unreconciled)');
+    expect(brief).not.toMatch(/[*_`[]/);
+  });
+});
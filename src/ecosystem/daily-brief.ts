@@ -0,0 +1,141 @@
+// Daily Brief - 24h roll-up of the 4h operational reports
+// Part of ChiefOS Ecosystem Manager
+
+import type { Alert, DailyRollup, MetricRange, OperationalReport } from './types';
+import { worstRisk } from './risk-engine';
+import { alertFingerprint } from './alert-store';
+import { formatTokenAmount } from './supply-ledger';
+import { RISK_EMOJI, operationalReportView, renderPlainText } from './report-format';
+import type { ReportView } from './report-format';
+
+const SEVERITY_ORDER: Alert["severity"][] = ["LOW", "WARNING", "MEDIUM", "HIGH", "CRITICAL"];
+
+/**
+ * Marketplace totals for the day, read from the marketplace agent
+ */
+export interface DailyMarketplaceTotals {
+    launchesCompleted: number;
+    totalRaised: bigint;
+    feesCollected: bigint;
+    feeDiscrepancies: number;
+}
+
+function metricRange(values: number[]): MetricRange | null {
+    if (values.length === 0) return null;
+    return {
+        min: Math.min(...values),
+        max: Math.max(...values),
+        avg: values.reduce((sum, v) => sum + v, 0) / values.length,
+        latest: values[values.length - 1]
+    };
+}
+
+/**
+ * Aggregate a day of 4h reports (oldest first)
+ *
+ * Peg ranges skip reports without a configured or readable oracle and the reserve trend
+ * skips reports without a reserve reading. An alert standing across several
+ * reports (same alert-store fingerprint) is counted once, at the highest
+ * severity it reached.
+ */
+export function summarizeDay(
+    reports: OperationalReport[],
+    marketplace: DailyMarketplaceTotals,
+    from: number,
+    to: number
+): DailyRollup {
+    const pegs = (token: "usdgb" | "usdca") => reports
+        .map(r => r.agents[token])
+        .filter(agent => agent.pegOracle?.method !== "unconfigured" && agent.pegOracle?.method !== "unavailable")
+        .map(agent => agent.pegPrice);
+
+    const ratios = reports
+        .filter(r => r.agents.usdgb.reserveStatus?.source !== "none" && r.agents.usdgb.reserveStatus?.state !== "INCOMPLETE")
+        .map(r => r.agents.usdgb.goldReserveRatio);
+    const reserve = metricRange(ratios);
+
+    const severities = new Map<string, Alert["severity"]>();
+    for (const alert of reports.flatMap(r => r.agents.governor.riskStatus.alerts)) {
+        const fingerprint = alertFingerprint(alert);
+        const seen = severities.get(fingerprint);
+        if (!seen || SEVERITY_ORDER.indexOf(alert.severity) > SEVERITY_ORDER.indexOf(seen)) {
+            severities.set(fingerprint, alert.severity);
+        }
+    }
+
+    const alertsBySeverity = { LOW: 0, WARNING: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 };
+    for (const severity of severities.values()) alertsBySeverity[severity]++;
+
+    return {
+        from,
+        to,
+        reportCount: reports.length,
+        peg: { USDGB: metricRange(pegs("usdgb")), USDca: metricRange(pegs("usdca")) },
+        reserve: reserve && { ...reserve, change: reserve.latest - ratios[0] },
+        alertsBySeverity,
+        worstRisk: worstRisk(reports.map(r => r.agents.governor.riskStatus.overall)),
+        ...marketplace
+    };
+}
+
+/**
+ * Layout of the daily brief; a report without a roll-up keeps its 4h layout
+ */
+export function dailyBriefView(report: OperationalReport): ReportView {
+    const day = report.daily;
+    if (!day) return operationalReportView(report);
+
+    const price = (value: number) => `$${value.toFixed(4)}`;
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    const peg = (range: MetricRange | null) => range
+        ? `${price(range.avg)} avg | ${price(range.min)} - ${price(range.max)}`
+        : "no oracle configured";
+
+    const reserve = day.reserve
+        ? `${percent(day.reserve.latest)} (${day.reserve.change >= 0 ? "+" : ""}${(day.reserve.change * 100).toFixed(2)} pts, low ${percent(day.reserve.min)})`
+        : "no reserve reading";
+
+    const alerts = SEVERITY_ORDER.slice().reverse()
+        .filter(severity => day.alertsBySeverity[severity] > 0)
+        .map(severity => `${day.alertsBySeverity[severity]} ${severity}`)
+        .join(", ") || "none";
+
+    return {
+        headline: [
+            `📰 DAILY BRIEF - ${new Date(day.from).toISOString().slice(0, 10)}`,
+            `${RISK_EMOJI[day.worstRisk]} Worst risk today: ${day.worstRisk} | Now: ${report.agents.governor.riskStatus.overall}`
+        ],
+        risk: day.worstRisk,
+        sections: [
+            {
+                icon: "📊",
+                title: "Pegs",
+                items: [{ label: "USDGB", value: peg(day.peg.USDGB) }, { label: "USDca", value: peg(day.peg.USDca) }]
+            },
+            { icon: "🏦", title: "USDGB Reserve", value: reserve },
+            { icon: "🚨", title: "Alerts", value: alerts },
+            {
+                icon: "🚀",
+                title: "Marketplace",
+                items: [
+                    { label: "Launches completed", value: String(day.launchesCompleted) },
+                    { label: "Raised", value: `${formatTokenAmount(day.totalRaised)} CAMP` },
+                    {
+                        label: "Fees",
+                        value: `${formatTokenAmount(day.feesCollected)} CAMP${day.feeDiscrepancies > 0 ? ` (${day.feeDiscrepancies} unreconciled)` : ""}`
+                    }
+                ]
+            }
+        ],
+        footer: `📅 ${day.reportCount} reports, ${new Date(day.from).toISOString()} to ${new Date(day.to).toISOString()}`,
+        timestamp: report.timestamp
+    };
+}
+
+/**
+ * Daily brief as plain text (no markdown, safe for every channel)
+ */
+export function formatDailyBrief(report: OperationalReport): string {
+    if (!report.daily) return report.summary;
+    return renderPlainText(dailyBriefView(report));
+}
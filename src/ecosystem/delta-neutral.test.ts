@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { DeltaNeutralBook, loadDeltaNeutralMetrics, parsePositions } from './delta-neutral';
+import type { EcosystemEnv } from './types';
+import { createMockBucket } from '../test-utils';
+
+const hedgedBook = {
+  spot: [
+    { asset: 'ETH', venue: 'lido', quantity: 100, priceUsd: 3000, stakingAPR: 0.03 },
+    { asset: 'SOL', venue: 'jito', quantity: 1000, priceUsd: 100, stakingAPR: 0.07 },
+  ],
+  perps: [
+    { asset: 'ETH', venue: 'hyperliquid', size: -100, entryPrice: 3100, markPrice: 3000, marginUsd: 40000, realizedFunding24hUsd: 90 },
+    { asset: 'SOL', venue: 'hyperliquid', size: -900, entryPrice: 100, markPrice: 100, marginUsd: 10000, realizedFunding24hUsd: 10 },
+  ],
+};
+
+describe('DeltaNeutralBook', () => {
+  it('computes net delta, collateral and yields', () => {
+    const metrics = new DeltaNeutralBook(parsePositions(JSON.stringify(hedgedBook))).metrics(350_000);
+
+    expect(metrics.spotValueUsd).toBe(400_000);
+    expect(metrics.shortNotionalUsd).toBe(390_000);
+    expect(metrics.netDeltaUsd).toBe(10_000);
+    // spot 400k + margin 50k + ETH short PnL 10k
+    expect(metrics.collateralValueUsd).toBe(460_000);
+    expect(metrics.collateralRatio).toBeCloseTo(460_000 / 350_000, 6);
+    expect(metrics.fundingAPY).toBeCloseTo((100 * 365) / 390_000, 6);
+    expect(metrics.spotStakingAPR).toBeCloseTo((300_000 * 0.03 + 100_000 * 0.07) / 400_000, 6);
+  });
+
+  it('reports the worst per-asset drift as the hedge drift', () => {
+    const metrics = new DeltaNeutralBook(parsePositions(JSON.stringify(hedgedBook))).metrics(350_000);
+
+    expect(metrics.perAsset.find(a => a.asset === 'ETH')?.drift).toBe(0);
+    expect(metrics.perAsset.find(a => a.asset === 'SOL')?.drift).toBeCloseTo(0.1, 6);
+    expect(metrics.hedgeDrift).toBeCloseTo(0.1, 6);
+  });
+
+  it('treats a naked perp as fully drifted', () => {
+    const metrics = new DeltaNeutralBook({
+      spot: [],
+      perps: [{ asset: 'BTC', venue: 'x', size: -1, entryPrice: 1, markPrice: 1, marginUsd: 0, realizedFunding24hUsd: 0 }],
+    }).metrics(1);
+
+    expect(metrics.hedgeDrift).toBe(1);
+  });
+});
+
+describe('loadDeltaNeutralMetrics', () => {
+  it('loads positions from the default R2 key', async () => {
+    const env = {
+      ECOSYSTEM_BUCKET: createMockBucket({ 'usdca/positions.json': JSON.stringify(hedgedBook) }),
+    } as unknown as EcosystemEnv;
+
+    const metrics = await loadDeltaNeutralMetrics(env, 350_000);
+
+    expect(metrics.state).toBe('OK');
+    expect(metrics.sources).toEqual(['r2:usdca/positions.json']);
+  });
+
+  it('is UNCONFIGURED before any positions are reported', async () => {
+    const env = { ECOSYSTEM_BUCKET: createMockBucket() } as unknown as EcosystemEnv;
+
+    const metrics = await loadDeltaNeutralMetrics(env, 0);
+
+    expect(metrics.state).toBe('UNCONFIGURED');
+    expect(metrics.failedSources).toEqual([]);
+  });
+
+  it('is UNAVAILABLE when the default positions document cannot be parsed', async () => {
+    const env = { ECOSYSTEM_BUCKET: createMockBucket({ 'usdca/positions.json': '{not json' }) } as unknown as EcosystemEnv;
+
+    const metrics = await loadDeltaNeutralMetrics(env, 350_000);
+
+    expect(metrics.state).toBe('UNAVAILABLE');
+    expect(metrics.failedSources.map(f => f.source)).toEqual(['r2:usdca/positions.json']);
+  });
+
+  it('flags a partial book as DEGRADED when some configured sources fail', async () => {
+    const env = {
+      ECOSYSTEM_BUCKET: createMockBucket({ 'usdca/cex.json': JSON.stringify(hedgedBook) }),
+      USDCA_POSITION_SOURCES: JSON.stringify([{ type: 'r2', key: 'usdca/cex.json' }, { type: 'r2', key: 'usdca/missing.json' }]),
+    } as unknown as EcosystemEnv;
+
+    const metrics = await loadDeltaNeutralMetrics(env, 350_000);
+
+    expect(metrics.state).toBe('DEGRADED');
+    expect(metrics.failedSources.map(f => f.source)).toEqual(['r2:usdca/missing.json']);
+  });
+
+  it('flags the book as DEGRADED when supply could not be read on every chain', async () => {
+    const env = {
+      ECOSYSTEM_BUCKET: createMockBucket({ 'usdca/positions.json': JSON.stringify(hedgedBook) }),
+    } as unknown as EcosystemEnv;
+
+    const metrics = await loadDeltaNeutralMetrics(env, 200_000, [{ chainId: 10, error: 'rpc down' }]);
+
+    expect(metrics.state).toBe('DEGRADED');
+    expect(metrics.failedSources).toEqual([{ source: 'supply:10', error: 'rpc down' }]);
+  });
+
+  it('is UNAVAILABLE when no configured source answers', async () => {
+    const env = {
+      ECOSYSTEM_BUCKET: createMockBucket(),
+      USDCA_POSITION_SOURCES: JSON.stringify([{ type: 'r2', key: 'usdca/missing.json' }]),
+    } as unknown as EcosystemEnv;
+
+    const metrics = await loadDeltaNeutralMetrics(env, 350_000);
+
+    expect(metrics.state).toBe('UNAVAILABLE');
+    expect(metrics.collateralRatio).toBe(0);
+  });
+});
+
+describe('parsePositions', () => {
+  it('rejects legs without numeric sizes', () => {
+    expect(() => parsePositions(JSON.stringify({ perps: [{ asset: 'ETH', size: '1', markPrice: 1 }] }))).toThrow(/perp leg/);
+  });
+});
@@ -0,0 +1,265 @@
+// Delta-Neutral Position Model - USDca collateral and yield
+// Part of ChiefOS Ecosystem Manager
+
+import type { EcosystemEnv, DeltaNeutralMetrics, SupplySnapshot } from './types';
+
+const DEFAULT_POSITIONS_KEY = "usdca/positions.json";
+
+/**
+ * Staked spot holding (e.g. stETH, cbBTC, jitoSOL)
+ */
+export interface SpotLeg {
+    asset: string;
+    venue: string;
+    quantity: number;
+    priceUsd: number;
+    /** Staking APR on this holding (0.035 = 3.5%) */
+    stakingAPR: number;
+}
+
+/**
+ * Perpetual futures leg; size is negative for shorts
+ */
+export interface PerpLeg {
+    asset: string;
+    venue: string;
+    size: number;
+    entryPrice: number;
+    markPrice: number;
+    /** USD collateral posted to the venue for this leg */
+    marginUsd: number;
+    /** Funding received (positive) or paid (negative) over the last 24h, USD */
+    realizedFunding24hUsd: number;
+}
+
+export interface VenuePositions {
+    spot: SpotLeg[];
+    perps: PerpLeg[];
+}
+
+/**
+ * A pluggable source of positions (exchange API, custody report, etc.)
+ */
+export interface VenueAdapter {
+    readonly name: string;
+    fetchPositions(): Promise<VenuePositions>;
+}
+
+/**
+ * Position source configuration (USDCA_POSITION_SOURCES)
+ */
+export type PositionSourceConfig =
+    | { type: "r2"; key?: string }
+    | { type: "http"; name: string; url: string; token?: string };
+
+/**
+ * Raised by a source that has no positions document yet
+ * (as opposed to one that could not be read or parsed)
+ */
+export class PositionsNotFoundError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PositionsNotFoundError";
+    }
+}
+
+/**
+ * Reads positions pushed to R2 by an off-chain reporter
+ */
+export class R2PositionsAdapter implements VenueAdapter {
+    readonly name: string;
+    private env: EcosystemEnv;
+    private key: string;
+
+    constructor(env: EcosystemEnv, key: string = DEFAULT_POSITIONS_KEY) {
+        this.env = env;
+        this.key = key;
+        this.name = `r2:${key}`;
+    }
+
+    async fetchPositions(): Promise<VenuePositions> {
+        const object = await this.env.ECOSYSTEM_BUCKET.get(this.key);
+        if (!object) throw new PositionsNotFoundError(`${this.key} not found`);
+        return parsePositions(await object.text());
+    }
+}
+
+/**
+ * Reads positions from a venue or reporting service speaking the VenuePositions JSON shape
+ */
+export class HttpPositionsAdapter implements VenueAdapter {
+    readonly name: string;
+    private url: string;
+    private token?: string;
+
+    constructor(name: string, url: string, token?: string) {
+        this.name = name;
+        this.url = url;
+        this.token = token;
+    }
+
+    async fetchPositions(): Promise<VenuePositions> {
+        const response = await fetch(this.url, {
+            headers: this.token ? { "Authorization": `Bearer ${this.token}` } : {}
+        });
+        if (!response.ok) {
+            throw new Error(`${this.name} HTTP ${response.status}`);
+        }
+        return parsePositions(await response.text());
+    }
+}
+
+/**
+ * Delta-Neutral Book: Spot legs hedged by short perps
+ *
+ * - Net delta per asset = spot value + perp notional (shorts are negative)
+ * - Collateral = spot value + perp margin + unrealised perp PnL
+ * - Funding APY = last 24h realised funding, annualised over short notional
+ * - Hedge drift = worst per-asset |net delta| / spot value
+ */
+export class DeltaNeutralBook {
+    private spot: SpotLeg[];
+    private perps: PerpLeg[];
+
+    constructor(positions: VenuePositions) {
+        this.spot = positions.spot;
+        this.perps = positions.perps;
+    }
+
+    /**
+     * Compute metrics against outstanding USDca (in USD, i.e. token count at $1 face value)
+     */
+    metrics(outstandingUsd: number): Omit<DeltaNeutralMetrics, "state" | "sources" | "failedSources"> {
+        const assets = new Set([...this.spot.map(l => l.asset), ...this.perps.map(l => l.asset)]);
+
+        const perAsset = Array.from(assets).sort().map(asset => {
+            const spotUsd = sum(this.spot.filter(l => l.asset === asset).map(l => l.quantity * l.priceUsd));
+            const perpUsd = sum(this.perps.filter(l => l.asset === asset).map(l => l.size * l.markPrice));
+            const netDeltaUsd = spotUsd + perpUsd;
+            return {
+                asset,
+                spotUsd,
+                shortUsd: -perpUsd,
+                netDeltaUsd,
+                drift: spotUsd > 0 ? Math.abs(netDeltaUsd) / spotUsd : (netDeltaUsd !== 0 ? 1 : 0)
+            };
+        });
+
+        const spotValueUsd = sum(perAsset.map(a => a.spotUsd));
+        const shortNotionalUsd = sum(perAsset.map(a => a.shortUsd));
+        const netDeltaUsd = sum(perAsset.map(a => a.netDeltaUsd));
+
+        const perpEquity = sum(this.perps.map(l => l.marginUsd + l.size * (l.markPrice - l.entryPrice)));
+        const collateralValueUsd = spotValueUsd + perpEquity;
+
+        const funding24h = sum(this.perps.map(l => l.realizedFunding24hUsd));
+        const stakingIncomeAnnual = sum(this.spot.map(l => l.quantity * l.priceUsd * l.stakingAPR));
+        const liabilities = Math.max(outstandingUsd, 1);
+
+        return {
+            spotValueUsd,
+            shortNotionalUsd,
+            netDeltaUsd,
+            collateralValueUsd,
+            collateralRatio: collateralValueUsd / liabilities,
+            fundingAPY: shortNotionalUsd > 0 ? (funding24h * 365) / shortNotionalUsd : 0,
+            spotStakingAPR: spotValueUsd > 0 ? stakingIncomeAnnual / spotValueUsd : 0,
+            grossYieldAPY: (funding24h * 365 + stakingIncomeAnnual) / liabilities,
+            hedgeDrift: Math.max(0, ...perAsset.map(a => a.drift)),
+            perAsset
+        };
+    }
+}
+
+/**
+ * Build the USDca position model from every configured source
+ * Sources that fail are reported but do not block the others; the book is
+ * DEGRADED when some failed and UNAVAILABLE when none answered. Chains whose
+ * supply could not be read count as failed sources too, since outstandingUsd
+ * then understates what the book has to cover
+ */
+export async function loadDeltaNeutralMetrics(
+    env: EcosystemEnv,
+    outstandingUsd: number,
+    supplyFailed: NonNullable<SupplySnapshot["failed"]> = []
+): Promise<DeltaNeutralMetrics> {
+    const configs: PositionSourceConfig[] = env.USDCA_POSITION_SOURCES
+        ? JSON.parse(env.USDCA_POSITION_SOURCES)
+        : [{ type: "r2" }];
+
+    const adapters: VenueAdapter[] = configs.map(config => config.type === "http"
+        ? new HttpPositionsAdapter(config.name, config.url, config.token)
+        : new R2PositionsAdapter(env, config.key));
+
+    const settled = await Promise.allSettled(adapters.map(a => a.fetchPositions()));
+    const positions: VenuePositions = { spot: [], perps: [] };
+    const sources: string[] = [];
+    const failedSources: DeltaNeutralMetrics["failedSources"] = [];
+
+    settled.forEach((outcome, i) => {
+        if (outcome.status === "fulfilled") {
+            positions.spot.push(...outcome.value.spot);
+            positions.perps.push(...outcome.value.perps);
+            sources.push(adapters[i].name);
+        } else {
+            failedSources.push({ source: adapters[i].name, error: String(outcome.reason) });
+        }
+    });
+
+    // Nothing reported yet and nothing explicitly configured (pre-launch);
+    // a default document that exists but cannot be parsed is UNAVAILABLE
+    const notReported = settled.every(o => o.status === "rejected" && o.reason instanceof PositionsNotFoundError);
+    if (!env.USDCA_POSITION_SOURCES && notReported) {
+        return {
+            ...new DeltaNeutralBook(positions).metrics(outstandingUsd),
+            state: "UNCONFIGURED",
+            collateralRatio: 1.10,
+            sources,
+            failedSources: []
+        };
+    }
+
+    failedSources.push(...supplyFailed.map(f => ({ source: `supply:${f.chainId}`, error: f.error })));
+
+    return {
+        ...new DeltaNeutralBook(positions).metrics(outstandingUsd),
+        state: sources.length === 0 ? "UNAVAILABLE" : failedSources.length > 0 ? "DEGRADED" : "OK",
+        sources,
+        failedSources
+    };
+}
+
+/**
+ * Parse and validate a VenuePositions document
+ */
+export function parsePositions(json: string): VenuePositions {
+    const raw = JSON.parse(json) as Partial<VenuePositions>;
+    const spot = raw.spot ?? [];
+    const perps = raw.perps ?? [];
+
+    for (const leg of spot) {
+        if (!leg.asset || !isFiniteNumber(leg.quantity) || !isFiniteNumber(leg.priceUsd)) {
+            throw new Error(`Invalid spot leg: ${JSON.stringify(leg)}`);
+        }
+        leg.stakingAPR = isFiniteNumber(leg.stakingAPR) ? leg.stakingAPR : 0;
+    }
+
+    for (const leg of perps) {
+        if (!leg.asset || !isFiniteNumber(leg.size) || !isFiniteNumber(leg.markPrice)) {
+            throw new Error(`Invalid perp leg: ${JSON.stringify(leg)}`);
+        }
+        leg.entryPrice = isFiniteNumber(leg.entryPrice) ? leg.entryPrice : leg.markPrice;
+        leg.marginUsd = isFiniteNumber(leg.marginUsd) ? leg.marginUsd : 0;
+        leg.realizedFunding24hUsd = isFiniteNumber(leg.realizedFunding24hUsd) ? leg.realizedFunding24hUsd : 0;
+    }
+
+    return { spot, perps };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value);
+}
+
+function sum(values: number[]): number {
+    return values.reduce((total, v) => total + v, 0);
+}
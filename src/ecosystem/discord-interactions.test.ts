@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import {
+  DiscordCommandHandler,
+  DiscordError,
+  isAllowedInteraction,
+  parseDiscordInteraction,
+  verifyDiscordSignature,
+  INTERACTION_APPLICATION_COMMAND,
+  INTERACTION_PING,
+  RESPONSE_CHANNEL_MESSAGE,
+  RESPONSE_DEFERRED_CHANNEL_MESSAGE,
+  RESPONSE_PONG,
+} from './discord-interactions';
+import type { DiscordInteraction } from './discord-interactions';
+import type { EcosystemManager } from './index';
+import { AlertStore } from './alert-store';
+import { operationalReportView, renderDiscordEmbeds } from './report-format';
+import type { Alert, AlertOverview, EcosystemEnv, OperationalReport } from './types';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+const NOW = Date.UTC(2026, 0, 15, 12, 0);
+const TIMESTAMP = String(Math.floor(NOW / 1000));
+
+let keys: CryptoKeyPair;
+let publicKey: string;
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function signedHeaders(body: string, timestamp: string = TIMESTAMP): Promise<Headers> {
+  const signature = await crypto.subtle.sign({ name: 'Ed25519' }, keys.privateKey, new TextEncoder().encode(timestamp + body));
+  return new Headers({ 'X-Signature-Ed25519': toHex(signature), 'X-Signature-Timestamp': timestamp });
+}
+
+function createEnv(overrides: Partial<EcosystemEnv> = {}): EcosystemEnv {
+  return {
+    ECOSYSTEM_BUCKET: createMockBucket(),
+    DISCORD_PUBLIC_KEY: publicKey,
+    DISCORD_ALLOWED_USERS: 'U1',
+    ...overrides,
+  } as unknown as EcosystemEnv;
+}
+
+function command(name: string, options?: NonNullable<DiscordInteraction['data']>['options']): DiscordInteraction {
+  return {
+    id: '1',
+    application_id: 'app',
+    type: INTERACTION_APPLICATION_COMMAND,
+    token: 'tok',
+    data: { name, options },
+    member: { user: { id: 'U1', username: 'ops' }, roles: ['R1'] },
+  };
+}
+
+function alert(type: string): Alert {
+  return { id: type, type, source: 'USDGB', severity: 'HIGH', message: `${type} check`, timestamp: NOW };
+}
+
+function createManager(overview: Partial<AlertOverview> = {}) {
+  return {
+    getAlerts: vi.fn(async () => ({
+      count: 0,
+      alerts: [],
+      risk: 'YELLOW',
+      categories: { collateral: 'GREEN', peg: 'YELLOW', liquidity: 'GREEN', crossChain: 'GREEN' },
+      assessedAt: NOW,
+      ...overview,
+    })),
+    build4HourReport: vi.fn(async () => {
+      throw new Error('RPC unavailable');
+    }),
+  } as unknown as EcosystemManager;
+}
+
+let fetchMock: ReturnType<typeof vi.spyOn>;
+
+beforeAll(async () => {
+  keys = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  publicKey = toHex(await crypto.subtle.exportKey('raw', keys.publicKey) as ArrayBuffer);
+});
+
+beforeEach(() => {
+  suppressConsole();
+  fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('ok'));
+});
+
+afterEach(() => {
+  fetchMock.mockRestore();
+});
+
+describe('verifyDiscordSignature', () => {
+  it('accepts the application key signature and rejects tampering and stale requests', async () => {
+    const body = '{"type":1}';
+    const headers = await signedHeaders(body);
+    const parts = { signature: headers.get('X-Signature-Ed25519'), timestamp: headers.get('X-Signature-Timestamp') };
+
+    expect(await verifyDiscordSignature(publicKey, parts, body, 300, NOW)).toBe(true);
+    expect(await verifyDiscordSignature(publicKey, parts, body + ' ', 300, NOW)).toBe(false);
+    expect(await verifyDiscordSignature(publicKey, parts, body, 300, NOW + 301 * 1000)).toBe(false);
+    expect(await verifyDiscordSignature('00'.repeat(32), parts, body, 300, NOW)).toBe(false);
+    expect(await verifyDiscordSignature(publicKey, { ...parts, signature: 'zz' }, body, 300, NOW)).toBe(false);
+  });
+});
+
+describe('parseDiscordInteraction', () => {
+  it('rejects unsigned requests and malformed payloads', async () => {
+    const env = createEnv();
+    const body = JSON.stringify({ type: INTERACTION_PING, token: 'tok' });
+
+    await expect(parseDiscordInteraction(env, new Headers(), body, NOW)).rejects.toMatchObject({ status: 401 });
+    await expect(parseDiscordInteraction(env, await signedHeaders('{}'), '{}', NOW)).rejects.toMatchObject({ status: 400 });
+    await expect(parseDiscordInteraction(createEnv({ DISCORD_PUBLIC_KEY: undefined }), await signedHeaders(body), body, NOW))
+      .rejects.toBeInstanceOf(DiscordError);
+
+    expect((await parseDiscordInteraction(env, await signedHeaders(body), body, NOW)).type).toBe(INTERACTION_PING);
+  });
+});
+
+describe('isAllowedInteraction', () => {
+  it('allows listed users and roles and fails closed', () => {
+    const interaction = command('risk');
+
+    expect(isAllowedInteraction(createEnv(), interaction)).toBe(true);
+    expect(isAllowedInteraction(createEnv({ DISCORD_ALLOWED_USERS: 'U2' }), interaction)).toBe(false);
+    expect(isAllowedInteraction(createEnv({ DISCORD_ALLOWED_USERS: undefined, DISCORD_ALLOWED_ROLES: 'R0, R1' }), interaction)).toBe(true);
+    expect(isAllowedInteraction(createEnv({ DISCORD_ALLOWED_USERS: undefined, DISCORD_ALLOWED_ROLES: 'R1' }), { ...interaction, member: undefined, user: { id: 'U1' } }))
+      .toBe(false);
+    expect(isAllowedInteraction(createEnv({ DISCORD_ALLOWED_USERS: undefined }), interaction)).toBe(false);
+  });
+});
+
+describe('DiscordCommandHandler', () => {
+  it('answers pings with a pong', async () => {
+    const handler = new DiscordCommandHandler(createEnv(), createManager());
+
+    expect(await handler.handle({ ...command('risk'), type: INTERACTION_PING }, () => {})).toEqual({ type: RESPONSE_PONG });
+  });
+
+  it('refuses commands from users that are not allowed', async () => {
+    const manager = createManager();
+    const handler = new DiscordCommandHandler(createEnv({ DISCORD_ALLOWED_USERS: 'U2' }), manager);
+
+    expect(await handler.handle(command('risk'), () => {})).toEqual({
+      type: RESPONSE_CHANNEL_MESSAGE,
+      data: { content: 'You are not allowed to use this command', flags: 64 },
+    });
+    expect(manager.getAlerts).not.toHaveBeenCalled();
+  });
+
+  it('answers /risk with the risk embed of the latest assessment', async () => {
+    const env = createEnv();
+    const records = await new AlertStore(env).sync([alert('PEG_DEVIATION')], NOW);
+    const handler = new DiscordCommandHandler(env, createManager({ count: 1, alerts: records }));
+
+    const response = await handler.handle(command('risk'), () => {});
+    expect(response.type).toBe(RESPONSE_CHANNEL_MESSAGE);
+
+    const [embed] = response.data!.embeds!;
+    expect(embed.title).toBe('🟡 RISK STATUS: YELLOW');
+    expect(embed.fields![0].value).toContain('**peg:** 🟡 YELLOW');
+    expect(embed.fields![1]).toMatchObject({ name: '🚨 Open alerts (1)', value: `🔴 [OPEN] HIGH PEG_DEVIATION check (${records[0].id})` });
+    expect(embed.footer?.text).toBe(`📅 Assessed: ${new Date(NOW).toISOString()}`);
+
+    const unassessed = new DiscordCommandHandler(env, createManager({ risk: null, categories: null, assessedAt: null }));
+    expect((await unassessed.handle(command('risk'), () => {})).data?.content).toContain('No risk assessment yet');
+  });
+
+  it('reports a failed /report in the deferred message', async () => {
+    const handler = new DiscordCommandHandler(createEnv(), createManager());
+    const pending: Promise<unknown>[] = [];
+
+    expect(await handler.handle(command('report'), promise => pending.push(promise)))
+      .toEqual({ type: RESPONSE_DEFERRED_CHANNEL_MESSAGE });
+
+    await Promise.all(pending);
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://discord.com/api/v10/webhooks/app/tok/messages/@original');
+    expect(init.method).toBe('PATCH');
+    expect(JSON.parse(init.body as string)).toEqual({ content: '⚠️ /report failed: RPC unavailable' });
+  });
+
+  it('builds /report without storing it in the 4h history', async () => {
+    const report = {
+      timestamp: NOW,
+      period: '4h',
+      agents: {
+        usdgb: { pegPrice: 0.9987, goldReserveRatio: 1.0234 },
+        usdca: { pegPrice: 1.0012, deltaCollateralization: 0.985 },
+        marketplace: { activeLaunches: 3 },
+        governor: { riskStatus: { overall: 'GREEN', alerts: [] }, crossChainMessagesVerified: 12, supplyInvariant: null, emergencyStatus: 'STANDBY' },
+        observer: { skillsHarvested: 4, securityAlerts: 0 },
+      },
+      summary: '',
+    } as unknown as OperationalReport;
+    const manager = { build4HourReport: vi.fn(async () => report), generate4HourReport: vi.fn() };
+    const handler = new DiscordCommandHandler(createEnv(), manager as unknown as EcosystemManager);
+    const pending: Promise<unknown>[] = [];
+
+    await handler.handle(command('report'), promise => pending.push(promise));
+    await Promise.all(pending);
+
+    const update = JSON.parse((fetchMock.mock.calls[0] as [string, RequestInit])[1].body as string);
+    expect(update.embeds).toEqual(renderDiscordEmbeds(operationalReportView(report)));
+    expect(manager.generate4HourReport).not.toHaveBeenCalled();
+  });
+
+  it('acks alerts as the Discord user and answers failures ephemerally', async () => {
+    const env = createEnv();
+    const [record] = await new AlertStore(env).sync([alert('PEG_DEVIATION')], NOW);
+    const handler = new DiscordCommandHandler(env, createManager());
+
+    expect(await handler.handle(command('ack', [{ name: 'id', type: 3, value: record.id }]), () => {})).toEqual({
+      type: RESPONSE_CHANNEL_MESSAGE,
+      data: { content: `✅ ${record.id} acknowledged by discord:ops` },
+    });
+    expect(await handler.handle(command('ack', [{ name: 'id', type: 3, value: 'ALT-missing' }]), () => {})).toEqual({
+      type: RESPONSE_CHANNEL_MESSAGE,
+      data: { content: 'Could not acknowledge ALT-missing: Alert ALT-missing not found', flags: 64 },
+    });
+  });
+
+  it('lists ChiefPM tasks when ChiefPM is enabled', async () => {
+    const task = { id: 't1', name: 'Cashflow Trustee', status: 'in_progress', priority: 'high', successCriteria: ['a', 'b'], completedCriteria: ['a'] };
+    const kv = { get: vi.fn(async (key: string) => (key === 'tasks' ? JSON.stringify([task]) : null)) };
+    const tasks = command('chiefpm', [{ name: 'tasks', type: 1 }]);
+
+    const disabled = new DiscordCommandHandler(createEnv(), createManager());
+    expect((await disabled.handle(tasks, () => {})).data).toEqual({ content: 'ChiefPM is not enabled', flags: 64 });
+
+    const env = createEnv({ CHIEFPM_ENABLED: 'true', CHIEFPM_TASKS_KV: kv } as Partial<EcosystemEnv>);
+    const response = await new DiscordCommandHandler(env, createManager()).handle(tasks, () => {});
+    expect(response.data?.content).toBe('📋 **ChiefPM tasks**: 1 active, 0 completed\n• [in_progress] **Cashflow Trustee** (high) 1/2 criteria');
+  });
+});
@@ -0,0 +1,358 @@
+// Discord Interactions - Slash commands over the signed interactions endpoint
+// Part of ChiefOS Ecosystem Manager
+
+import type { AlertRecord, EcosystemEnv } from './types';
+import type { DiscordEmbed } from './notifications';
+import type { ReportView } from './report-format';
+import type { ChiefPMEnv } from '../chiefpm';
+import { ChiefPMAgent } from '../chiefpm';
+import { EcosystemManager } from './index';
+import { AlertStore, AlertStoreError } from './alert-store';
+import { StateConflictError } from './ecosystem-state';
+import { formatAlertLine } from './notification-router';
+import { DISCORD_MESSAGE_LIMIT, RISK_EMOJI, operationalReportView, renderDiscordEmbeds } from './report-format';
+import { hexToBytes, HttpStatusError } from './utils';
+
+export const DISCORD_SIGNATURE_HEADER = "X-Signature-Ed25519";
+export const DISCORD_TIMESTAMP_HEADER = "X-Signature-Timestamp";
+
+const DISCORD_API = "https://discord.com/api/v10";
+const MAX_EMBEDS = 10;
+const MAX_LINES = 20;
+const EPHEMERAL = 1 << 6;
+
+/** Interaction and interaction callback types used by the endpoint */
+export const INTERACTION_PING = 1;
+export const INTERACTION_APPLICATION_COMMAND = 2;
+export const RESPONSE_PONG = 1;
+export const RESPONSE_CHANNEL_MESSAGE = 4;
+export const RESPONSE_DEFERRED_CHANNEL_MESSAGE = 5;
+
+/**
+ * Slash commands registered by registerDiscordCommands
+ * default_member_permissions "0" hides them from everyone but server admins
+ * until access is granted under Server Settings > Integrations
+ */
+export const DISCORD_COMMANDS = [
+    { name: "risk", description: "Current risk level, categories and open alerts", type: 1, default_member_permissions: "0" },
+    { name: "report", description: "Generate a fresh 4h operational report", type: 1, default_member_permissions: "0" },
+    {
+        name: "ack",
+        description: "Acknowledge an alert",
+        type: 1,
+        default_member_permissions: "0",
+        options: [{ type: 3, name: "id", description: "Alert id, e.g. ALT-1a2b3c4d", required: true }]
+    },
+    {
+        name: "chiefpm",
+        description: "ChiefPM project tasks",
+        type: 1,
+        default_member_permissions: "0",
+        options: [{ type: 1, name: "tasks", description: "List ChiefPM tasks" }]
+    }
+];
+
+/**
+ * Error raised for interaction requests that cannot be handled
+ */
+export class DiscordError extends HttpStatusError {
+    constructor(message: string, status: number) {
+        super(message, status);
+        this.name = "DiscordError";
+    }
+}
+
+interface DiscordUser {
+    id: string;
+    username?: string;
+}
+
+interface DiscordCommandOption {
+    name: string;
+    type: number;
+    value?: string | number | boolean;
+    options?: DiscordCommandOption[];
+}
+
+/**
+ * The parts of an interaction payload the ecosystem reads
+ */
+export interface DiscordInteraction {
+    id: string;
+    application_id: string;
+    type: number;
+    token: string;
+    data?: { name: string; options?: DiscordCommandOption[] };
+    /** Set for guild interactions, `user` for DMs */
+    member?: { user: DiscordUser; roles?: string[] };
+    user?: DiscordUser;
+}
+
+export interface DiscordMessage {
+    content?: string;
+    embeds?: DiscordEmbed[];
+    flags?: number;
+}
+
+export interface DiscordInteractionResponse {
+    type: number;
+    data?: DiscordMessage;
+}
+
+/**
+ * Verify a Discord request signature: Ed25519 over "<timestamp><body>" with
+ * the application public key. Rejects timestamps further than
+ * toleranceSeconds from now to limit replays.
+ */
+export async function verifyDiscordSignature(
+    publicKey: string,
+    headers: { signature: string | null; timestamp: string | null },
+    body: string,
+    toleranceSeconds: number = 300,
+    now: number = Date.now()
+): Promise<boolean> {
+    const timestamp = Number(headers.timestamp);
+    if (!headers.signature || !Number.isInteger(timestamp)) return false;
+    if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+    try {
+        const key = await crypto.subtle.importKey("raw", hexToBytes(publicKey), { name: "Ed25519" }, false, ["verify"]);
+        return await crypto.subtle.verify(
+            { name: "Ed25519" },
+            key,
+            hexToBytes(headers.signature),
+            new TextEncoder().encode(headers.timestamp + body)
+        );
+    } catch {
+        // Malformed key or signature
+        return false;
+    }
+}
+
+/**
+ * Check the signature of an interaction request and parse its payload
+ */
+export async function parseDiscordInteraction(
+    env: EcosystemEnv,
+    headers: Headers,
+    body: string,
+    now: number = Date.now()
+): Promise<DiscordInteraction> {
+    if (!env.DISCORD_PUBLIC_KEY) throw new DiscordError("DISCORD_PUBLIC_KEY not set", 503);
+
+    const signed = await verifyDiscordSignature(env.DISCORD_PUBLIC_KEY, {
+        signature: headers.get(DISCORD_SIGNATURE_HEADER),
+        timestamp: headers.get(DISCORD_TIMESTAMP_HEADER)
+    }, body, 300, now);
+    if (!signed) throw new DiscordError("Invalid Discord signature", 401);
+
+    try {
+        const interaction = JSON.parse(body) as DiscordInteraction;
+        if (typeof interaction?.type !== "number" || !interaction.token) throw new Error("missing type or token");
+        return interaction;
+    } catch (error) {
+        throw new DiscordError(`Invalid interaction payload: ${error instanceof Error ? error.message : error}`, 400);
+    }
+}
+
+/**
+ * Whether the interaction comes from a user in DISCORD_ALLOWED_USERS or a
+ * member holding a role in DISCORD_ALLOWED_ROLES. Without either list every
+ * command is refused.
+ */
+export function isAllowedInteraction(env: EcosystemEnv, interaction: DiscordInteraction): boolean {
+    const user = interaction.member?.user ?? interaction.user;
+    if (user && idList(env.DISCORD_ALLOWED_USERS).includes(user.id)) return true;
+
+    const roles = idList(env.DISCORD_ALLOWED_ROLES);
+    return (interaction.member?.roles ?? []).some(role => roles.includes(role));
+}
+
+/**
+ * Register (overwrite) the application's global slash commands
+ * Requires DISCORD_APPLICATION_ID and DISCORD_BOT_TOKEN
+ */
+export async function registerDiscordCommands(env: EcosystemEnv): Promise<{ success: boolean; error?: string; count?: number }> {
+    if (!env.DISCORD_BOT_TOKEN || !env.DISCORD_APPLICATION_ID) {
+        return { success: false, error: "DISCORD_BOT_TOKEN and DISCORD_APPLICATION_ID are required" };
+    }
+
+    try {
+        const response = await fetch(`${DISCORD_API}/applications/${env.DISCORD_APPLICATION_ID}/commands`, {
+            method: "PUT",
+            headers: { "Authorization": `Bot ${env.DISCORD_BOT_TOKEN}`, "Content-Type": "application/json" },
+            body: JSON.stringify(DISCORD_COMMANDS)
+        });
+        if (!response.ok) return { success: false, error: `Discord API error (${response.status}): ${await response.text()}` };
+        return { success: true, count: DISCORD_COMMANDS.length };
+    } catch (error) {
+        return { success: false, error: String(error) };
+    }
+}
+
+/**
+ * Discord Command Handler: answers the ecosystem slash commands
+ *
+ * /risk, /ack and /chiefpm tasks answer straight away from stored state.
+ * /report hits the chains and can take longer than the 3 second interaction
+ * deadline, so it answers with a deferred response and edits in the result
+ * once it is ready.
+ * Acks are attributed to "discord:<username>". Commands are registered for
+ * admins only and are also checked against DISCORD_ALLOWED_USERS / _ROLES,
+ * which covers DMs and servers where the command permissions were widened.
+ */
+export class DiscordCommandHandler {
+    private env: EcosystemEnv;
+    private manager: EcosystemManager;
+
+    constructor(env: EcosystemEnv, manager: EcosystemManager = new EcosystemManager(env)) {
+        this.env = env;
+        this.manager = manager;
+    }
+
+    /**
+     * Answer an interaction; deferred work is handed to waitUntil
+     */
+    async handle(
+        interaction: DiscordInteraction,
+        waitUntil: (promise: Promise<unknown>) => void
+    ): Promise<DiscordInteractionResponse> {
+        if (interaction.type === INTERACTION_PING) return { type: RESPONSE_PONG };
+        if (interaction.type !== INTERACTION_APPLICATION_COMMAND || !interaction.data) {
+            return reply({ content: "Unsupported interaction", flags: EPHEMERAL });
+        }
+
+        const { name, options = [] } = interaction.data;
+        const user = interaction.member?.user ?? interaction.user;
+        const actor = `discord:${user?.username ?? user?.id ?? "unknown"}`;
+
+        if (!isAllowedInteraction(this.env, interaction)) {
+            console.warn(`[Discord] Refusing /${name} from user ${user?.id ?? "unknown"}`);
+            return reply({ content: "You are not allowed to use this command", flags: EPHEMERAL });
+        }
+
+        switch (name) {
+            case "risk":
+                return reply(await this.risk());
+            case "report":
+                return this.defer(interaction, waitUntil, () => this.report());
+            case "ack":
+                return reply(await this.ack(String(options.find(o => o.name === "id")?.value ?? ""), actor));
+            case "chiefpm":
+                return reply(await this.chiefpm(options[0]?.name));
+            default:
+                return reply({ content: `Unknown command /${name}`, flags: EPHEMERAL });
+        }
+    }
+
+    private defer(
+        interaction: DiscordInteraction,
+        waitUntil: (promise: Promise<unknown>) => void,
+        build: () => Promise<DiscordMessage>
+    ): DiscordInteractionResponse {
+        waitUntil(this.followUp(interaction, build));
+        return { type: RESPONSE_DEFERRED_CHANNEL_MESSAGE };
+    }
+
+    /**
+     * Replace the deferred "thinking…" message with the command result
+     * Errors become the message: there is no HTTP response left to carry them
+     */
+    private async followUp(interaction: DiscordInteraction, build: () => Promise<DiscordMessage>): Promise<void> {
+        let message: DiscordMessage;
+        try {
+            message = await build();
+        } catch (error) {
+            console.error(`[Discord] /${interaction.data?.name} failed:`, error);
+            message = { content: `⚠️ /${interaction.data?.name} failed: ${error instanceof Error ? error.message : error}` };
+        }
+
+        const url = `${DISCORD_API}/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`;
+        try {
+            const response = await fetch(url, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(message)
+            });
+            if (!response.ok) console.error(`[Discord] Follow-up error (${response.status}): ${await response.text()}`);
+        } catch (error) {
+            console.error("[Discord] Follow-up network error:", error);
+        }
+    }
+
+    private async risk(): Promise<DiscordMessage> {
+        const overview = await this.manager.getAlerts();
+        if (!overview.risk || !overview.categories || overview.assessedAt === null) {
+            return { content: "No risk assessment yet: the first 4h report has not run", flags: EPHEMERAL };
+        }
+        const open = overview.alerts.filter(a => a.state === "OPEN");
+
+        const view: ReportView = {
+            headline: [`${RISK_EMOJI[overview.risk]} RISK STATUS: ${overview.risk}`],
+            risk: overview.risk,
+            sections: [
+                {
+                    icon: "📊",
+                    title: "Categories",
+                    items: Object.entries(overview.categories).map(([category, level]) => ({
+                        label: category,
+                        value: `${RISK_EMOJI[level]} ${level}`
+                    }))
+                },
+                { icon: "🚨", title: `Open alerts (${open.length})`, value: alertLines(open) || "None" }
+            ],
+            footer: `📅 Assessed: ${new Date(overview.assessedAt).toISOString()}`,
+            timestamp: overview.assessedAt
+        };
+
+        return { embeds: renderDiscordEmbeds(view).slice(0, MAX_EMBEDS) };
+    }
+
+    private async report(): Promise<DiscordMessage> {
+        // Ad-hoc: kept out of the 4h report history the daily brief rolls up
+        const report = await this.manager.build4HourReport();
+        return { embeds: renderDiscordEmbeds(operationalReportView(report)).slice(0, MAX_EMBEDS) };
+    }
+
+    private async ack(id: string, actor: string): Promise<DiscordMessage> {
+        if (!id) return { content: "Usage: /ack id:<alert id>", flags: EPHEMERAL };
+
+        try {
+            const record = await new AlertStore(this.env).ack(id, actor);
+            return { content: `✅ ${record.id} acknowledged by ${record.ackedBy}` };
+        } catch (error) {
+            if (!(error instanceof AlertStoreError || error instanceof StateConflictError)) throw error;
+            return { content: `Could not acknowledge ${id}: ${error.message}`, flags: EPHEMERAL };
+        }
+    }
+
+    private async chiefpm(subcommand: string | undefined): Promise<DiscordMessage> {
+        if (subcommand !== "tasks") return { content: "Usage: /chiefpm tasks", flags: EPHEMERAL };
+
+        const env = this.env as unknown as ChiefPMEnv;
+        if (env.CHIEFPM_ENABLED !== "true") return { content: "ChiefPM is not enabled", flags: EPHEMERAL };
+
+        const status = await new ChiefPMAgent(env).getStatus();
+        const lines = status.tasks.slice(0, MAX_LINES).map(task =>
+            `• [${task.status}] **${task.name}** (${task.priority}) ${task.completedCriteria.length}/${task.successCriteria.length} criteria`
+        );
+        if (status.tasks.length > MAX_LINES) lines.push(`+${status.tasks.length - MAX_LINES} more`);
+
+        const content = [`📋 **ChiefPM tasks**: ${status.activeTasks} active, ${status.completedTasks} completed`, ...lines].join("\n");
+        return { content: content.length <= DISCORD_MESSAGE_LIMIT ? content : content.slice(0, DISCORD_MESSAGE_LIMIT - 1) + "…" };
+    }
+}
+
+function reply(message: DiscordMessage): DiscordInteractionResponse {
+    return { type: RESPONSE_CHANNEL_MESSAGE, data: message };
+}
+
+function idList(value: string | undefined): string[] {
+    return (value ?? "").split(",").map(id => id.trim()).filter(Boolean);
+}
+
+function alertLines(records: AlertRecord[]): string {
+    const lines = records.slice(0, MAX_LINES).map(formatAlertLine);
+    if (records.length > MAX_LINES) lines.push(`+${records.length - MAX_LINES} more`);
+    return lines.join("\n");
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { EcosystemStateObject, StateDocument, StateConflictError } from './ecosystem-state';
+import { AlertStore } from './alert-store';
+import { SupplyLedger } from './supply-ledger';
+import type { Alert, EcosystemEnv } from './types';
+import { createMockBucket } from '../test-utils';
+
+/**
+ * Env with ECOSYSTEM_STATE routed to one in-memory EcosystemStateObject
+ */
+function createEnv(initial: Record<string, string> = {}) {
+  const bucket = createMockBucket(initial);
+  const storage = new Map<string, unknown>();
+  // Like the runtime, blockConcurrencyWhile runs one callback at a time
+  let queue: Promise<unknown> = Promise.resolve();
+  const state = {
+    storage: {
+      get: async (key: string) => storage.get(key),
+      put: async (key: string, value: unknown) => { storage.set(key, structuredClone(value)); },
+    },
+    blockConcurrencyWhile: <T>(fn: () => Promise<T>) => {
+      const run = queue.then(fn);
+      queue = run.catch(() => {});
+      return run;
+    },
+  } as unknown as DurableObjectState;
+
+  const env = { ECOSYSTEM_BUCKET: bucket } as unknown as EcosystemEnv;
+  const object = new EcosystemStateObject(state, env);
+  env.ECOSYSTEM_STATE = {
+    idFromName: () => 'ecosystem',
+    get: () => ({ fetch: (url: string, init?: RequestInit) => object.fetch(new Request(url, init)) }),
+  } as unknown as DurableObjectNamespace;
+
+  return { env, bucket, object };
+}
+
+function counter(env: EcosystemEnv) {
+  return new StateDocument<{ count: number }>(env, 'counters.json', {
+    empty: () => ({ count: 0 }),
+    parse: text => JSON.parse(text),
+    serialize: value => JSON.stringify(value),
+  });
+}
+
+describe('EcosystemStateObject', () => {
+  it('migrates a document from R2 on first read and mirrors writes back', async () => {
+    const { bucket, object } = createEnv({ 'counters.json': '{"count":4}' });
+    const url = 'https://ecosystem-state/documents/counters.json';
+
+    expect(await (await object.fetch(new Request(url))).json()).toMatchObject({ text: '{"count":4}', version: 0 });
+
+    const put = (version: number) => object.fetch(new Request(url, {
+      method: 'PUT',
+      body: JSON.stringify({ text: '{"count":5}', version }),
+    }));
+    expect((await put(0)).status).toBe(200);
+    expect((await put(0)).status).toBe(409);
+
+    bucket.store.set('counters.json', '{"count":0}');
+    expect(await (await object.fetch(new Request(url))).json()).toMatchObject({ text: '{"count":5}', version: 1 });
+
+    await put(1);
+    expect(bucket.store.get('counters.json')).toBe('{"count":5}');
+  });
+});
+
+describe('StateDocument', () => {
+  it('re-applies an update when another writer got in first', async () => {
+    const { env } = createEnv();
+    let interleaved = false;
+
+    await counter(env).update(async value => {
+      if (!interleaved) {
+        interleaved = true;
+        await counter(env).update(other => { other.count += 10; });
+      }
+      value.count += 1;
+    });
+
+    expect(await counter(env).read()).toEqual({ count: 11 });
+  });
+
+  it('gives up with a 409 when the document keeps changing', async () => {
+    const { env } = createEnv();
+
+    const update = counter(env).update(async value => {
+      await counter(env).update(other => { other.count += 1; });
+      value.count = -1;
+    });
+
+    await expect(update).rejects.toBeInstanceOf(StateConflictError);
+    expect(await counter(env).read()).toEqual({ count: 3 });
+  });
+
+  it('shares alert state between per-request store instances', async () => {
+    const { env } = createEnv();
+    const alert: Alert = {
+      id: 'USDGB-1',
+      type: 'DEPEG',
+      source: 'USDGB',
+      severity: 'HIGH',
+      message: 'depeg',
+      timestamp: 0,
+      acknowledged: false,
+    };
+
+    const [record] = await new AlertStore(env).sync([alert]);
+    await new AlertStore(env).ack(record.id, 'ops@example.com');
+
+    const [synced] = await new AlertStore(env).sync([alert]);
+    expect(synced).toMatchObject({ state: 'ACKED', ackedBy: 'ops@example.com', occurrences: 2 });
+  });
+
+  it('keeps concurrent ledger entries and records a transaction once', async () => {
+    const { env } = createEnv();
+    const record = (txHash: string) => new SupplyLedger(env, 'USDGB').record({ type: 'MINT', amount: '1', chainId: 8453, txHash }, 'ops');
+
+    await Promise.all([record('0x01'), record('0x02')]);
+    expect((await new SupplyLedger(env, 'USDGB').list()).map(e => e.txHash).sort()).toEqual(['0x01', '0x02']);
+
+    const results = await Promise.allSettled([record('0x03'), record('0x03')]);
+    expect(results.filter(r => r.status === 'rejected')).toEqual([
+      { status: 'rejected', reason: expect.objectContaining({ status: 409 }) },
+    ]);
+    expect(await new SupplyLedger(env, 'USDGB').list()).toHaveLength(3);
+  });
+});
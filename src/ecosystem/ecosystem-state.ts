@@ -0,0 +1,220 @@
+// Ecosystem State - Durable Object that owns state shared by routes and the cron
+// Part of ChiefOS Ecosystem Manager
+
+import type { EcosystemEnv } from './types';
+import { HttpStatusError } from './utils';
+
+const OBJECT_NAME = "ecosystem";
+const DOCUMENT_PATH = "/documents/";
+const MAX_UPDATE_ATTEMPTS = 3;
+
+/**
+ * Error raised when a document keeps changing underneath an update
+ */
+export class StateConflictError extends HttpStatusError {
+    constructor(message: string, status: number = 409) {
+        super(message, status);
+        this.name = "StateConflictError";
+    }
+}
+
+/**
+ * Document text and the version it was read at
+ * text is null when the document has never been written
+ */
+export interface VersionedText {
+    text: string | null;
+    version: number;
+}
+
+interface StoredDocument extends VersionedText {
+    /** When the document was copied in from R2 */
+    migratedAt: number;
+}
+
+/**
+ * Ecosystem State Object: Single Durable Object instance holding documents
+ * that every request and the cron read and write
+ *
+ * EcosystemManager and its agents are constructed fresh per request, so state
+ * kept in class fields is lost and R2 read-modify-write cycles can overwrite
+ * each other. Documents here are versioned and a write is only accepted at the
+ * version it was read at.
+ *
+ * Documents keep the R2 key they used to live under. The first read of a key
+ * copies the R2 object in (the migration path); every write is mirrored back
+ * to R2 so the R2 fallback and backups keep current data.
+ *
+ * Protocol: GET /documents/<key> -> VersionedText
+ *           PUT /documents/<key> { text, version } -> VersionedText, or 409
+ */
+export class EcosystemStateObject {
+    private state: DurableObjectState;
+    private env: EcosystemEnv;
+
+    constructor(state: DurableObjectState, env: EcosystemEnv) {
+        this.state = state;
+        this.env = env;
+    }
+
+    async fetch(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+        const key = url.pathname.startsWith(DOCUMENT_PATH)
+            ? decodeURIComponent(url.pathname.slice(DOCUMENT_PATH.length))
+            : "";
+        if (!key) return json({ error: "Not found" }, 404);
+
+        if (request.method === "GET") {
+            return json(await this.state.blockConcurrencyWhile(() => this.load(key)));
+        }
+
+        if (request.method === "PUT") {
+            const body = await request.json() as Partial<VersionedText>;
+            if (typeof body.text !== "string" || !Number.isInteger(body.version)) {
+                return json({ error: "text and version are required" }, 400);
+            }
+
+            const written = await this.state.blockConcurrencyWhile(() => this.write(key, body.text!, body.version!));
+            return written ? json(written) : json({ error: `${key} has changed since version ${body.version}` }, 409);
+        }
+
+        return json({ error: "Method not allowed" }, 405);
+    }
+
+    /**
+     * Stored document, migrating it from R2 on first access
+     */
+    private async load(key: string): Promise<StoredDocument> {
+        const stored = await this.state.storage.get<StoredDocument>(key);
+        if (stored) return stored;
+
+        const object = await this.env.ECOSYSTEM_BUCKET.get(key);
+        const migrated: StoredDocument = {
+            text: object ? await object.text() : null,
+            version: 0,
+            migratedAt: Date.now()
+        };
+        await this.state.storage.put(key, migrated);
+        return migrated;
+    }
+
+    private async write(key: string, text: string, version: number): Promise<StoredDocument | null> {
+        const current = await this.load(key);
+        if (current.version !== version) return null;
+
+        const next: StoredDocument = { ...current, text, version: version + 1 };
+        await this.state.storage.put(key, next);
+        await this.env.ECOSYSTEM_BUCKET.put(key, text);
+        return next;
+    }
+}
+
+/**
+ * Ecosystem State: Client for the state object
+ *
+ * Without an ECOSYSTEM_STATE binding documents are read and written straight
+ * to R2 (every read is version 0 and writes always succeed), which is how
+ * state was kept before the object existed.
+ */
+export class EcosystemState {
+    private env: EcosystemEnv;
+
+    constructor(env: EcosystemEnv) {
+        this.env = env;
+    }
+
+    async read(key: string): Promise<VersionedText> {
+        if (!this.env.ECOSYSTEM_STATE) {
+            const object = await this.env.ECOSYSTEM_BUCKET.get(key);
+            return { text: object ? await object.text() : null, version: 0 };
+        }
+
+        const response = await this.stub().fetch(documentUrl(key));
+        if (!response.ok) throw new Error(`State read for ${key} failed: ${response.status}`);
+        const { text, version } = await response.json() as VersionedText;
+        return { text, version };
+    }
+
+    /**
+     * Write a document at the version it was read at; false if it has changed since
+     */
+    async write(key: string, text: string, version: number): Promise<boolean> {
+        if (!this.env.ECOSYSTEM_STATE) {
+            await this.env.ECOSYSTEM_BUCKET.put(key, text);
+            return true;
+        }
+
+        const response = await this.stub().fetch(documentUrl(key), {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ text, version })
+        });
+        if (response.status === 409) return false;
+        if (!response.ok) throw new Error(`State write for ${key} failed: ${response.status}`);
+        return true;
+    }
+
+    private stub(): DurableObjectStub {
+        const namespace = this.env.ECOSYSTEM_STATE!;
+        return namespace.get(namespace.idFromName(OBJECT_NAME));
+    }
+}
+
+/**
+ * Typed view of one state document
+ */
+export class StateDocument<T> {
+    private state: EcosystemState;
+    private key: string;
+    private empty: () => T;
+    private parse: (text: string) => T;
+    private serialize: (value: T) => string;
+
+    constructor(
+        env: EcosystemEnv,
+        key: string,
+        codec: { empty: () => T; parse: (text: string) => T; serialize: (value: T) => string }
+    ) {
+        this.state = new EcosystemState(env);
+        this.key = key;
+        this.empty = codec.empty;
+        this.parse = codec.parse;
+        this.serialize = codec.serialize;
+    }
+
+    async read(): Promise<T> {
+        const { text } = await this.state.read(this.key);
+        return text === null ? this.empty() : this.parse(text);
+    }
+
+    /**
+     * Read-modify-write: `apply` mutates the value in place and its result is returned
+     *
+     * If another writer gets in first, the document is re-read and `apply` runs
+     * again; anything else it does (RPC reads, R2 archive writes) must be safe to
+     * repeat. Errors thrown by `apply` abort the update without writing.
+     */
+    async update<R>(apply: (value: T) => R | Promise<R>): Promise<R> {
+        for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+            const { text, version } = await this.state.read(this.key);
+            const value = text === null ? this.empty() : this.parse(text);
+            const result = await apply(value);
+
+            const next = this.serialize(value);
+            if (next === text || await this.state.write(this.key, next, version)) return result;
+        }
+
+        throw new StateConflictError(`${this.key} is being updated concurrently, retry the request`);
+    }
+}
+
+function documentUrl(key: string): string {
+    return `https://ecosystem-state${DOCUMENT_PATH}${encodeURIComponent(key)}`;
+}
+
+function json(body: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" }
+    });
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { encodeUint256 } from './rpc';
+import { EmergencyPauseService, EmergencyPauseError, computeSafeTxHash, recoverSafeSigner } from './emergency-pause';
+import type { EcosystemEnv } from './types';
+import { createMockBucket, stubJsonRpc, suppressConsole } from '../test-utils';
+
+const SAFE = '0x' + '5a'.repeat(20);
+const TOKEN = '0x' + '70'.repeat(20);
+const OTHER_TOKEN = '0x' + '71'.repeat(20);
+const SAFE_TX_HASH = '0x6f24d6a883ccec69af506a0aa4808ce67e654800678aaf607f3e1f4d0487ba94';
+
+// Owners are the keys 1 and 2; key 3 is not an owner. Signatures over SAFE_TX_HASH.
+const OWNER_1 = '0x7e5f4552091a69125d5dfcb7b8c2659029395bdf';
+const OWNER_2 = '0x2b5ad5c4795c026514f8317c7a215e218dccd6cf';
+const SIG_1 = '0xd1c7644b82eb7651933c276c1c711f03d080b6a9388bcfd3e95361c4321bdd217b62723985a7999acf35f1f9ac166160988e4768ddef01386925786f0f18dbb81c';
+const SIG_3 = '0x2383b9eaccc41179909935741eb92b1e5eb012d4dad23ecdc0d7486e77434268193852c4f18d3d1dad3f7eaffb8d2b9bf02c108ff0ce9b9cb81844a1c1cdf6bf1c';
+// eth_sign variant (v + 4) from key 2
+const ETH_SIGN_2 = '0x9680241112d370b56da22eb535745d9e314380e568229e09f7241066003bc4710ea9f6d41c0d052da7131b2f2b8c5a6036c105fec03256a293c2baf57c0db9581f';
+
+const chain = { safeNonce: 4, paused: false };
+
+function stubSafe() {
+  stubJsonRpc(request => {
+    const { to, data } = request.params[0] as { to: string; data: string };
+    const responses: Record<string, string> = {
+      [`${SAFE}:0xaffed0e0`]: '0x' + encodeUint256(chain.safeNonce),
+      [`${SAFE}:0xe75235b8`]: '0x' + encodeUint256(2),
+      [`${SAFE}:0xa0e67e2b`]: '0x' + encodeUint256(32) + encodeUint256(2)
+        + OWNER_1.slice(2).padStart(64, '0') + OWNER_2.slice(2).padStart(64, '0'),
+      [`${TOKEN}:0x5c975abb`]: '0x' + encodeUint256(chain.paused ? 1 : 0),
+      [`${OTHER_TOKEN}:0x5c975abb`]: '0x' + encodeUint256(0),
+    };
+    return { result: responses[`${to}:${data}`] ?? '0x' };
+  });
+}
+
+function createEnv(safe?: string): EcosystemEnv {
+  return {
+    ECOSYSTEM_ENABLED: 'true',
+    ECOSYSTEM_BUCKET: createMockBucket(),
+    BASE_RPC_URL: 'http://rpc',
+    LZ_ENDPOINT_ADDRESS: '0x0',
+    EMERGENCY_SAFE_ADDRESS: safe,
+  };
+}
+
+describe('Safe transaction hashing', () => {
+  it('computes the EIP-712 safeTxHash and recovers owner signatures', () => {
+    const hash = computeSafeTxHash({
+      safe: SAFE,
+      chainId: 8453,
+      to: TOKEN,
+      value: '0',
+      data: '0x8456cb59',
+      operation: 0,
+      safeTxGas: '0',
+      baseGas: '0',
+      gasPrice: '0',
+      gasToken: '0x0000000000000000000000000000000000000000',
+      refundReceiver: '0x0000000000000000000000000000000000000000',
+      nonce: 4,
+    });
+
+    expect(hash).toBe(SAFE_TX_HASH);
+    expect(recoverSafeSigner(hash, SIG_1)).toBe(OWNER_1);
+    expect(recoverSafeSigner(hash, ETH_SIGN_2)).toBe(OWNER_2);
+  });
+});
+
+describe('EmergencyPauseService', () => {
+  let env: EcosystemEnv;
+
+  beforeEach(() => {
+    suppressConsole();
+    chain.safeNonce = 4;
+    chain.paused = false;
+    env = createEnv(SAFE);
+    stubSafe();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('proposes a Safe pause() at the next free nonce and goes ACTIVE', async () => {
+    const service = new EmergencyPauseService(env);
+
+    const proposal = await service.propose(TOKEN, 'Bridge exploit suspected', 'ops@example.com', 1000);
+    const second = await service.propose(OTHER_TOKEN, 'Same incident', 'ops@example.com', 2000);
+
+    expect(proposal.safeTx).toMatchObject({ safe: SAFE, chainId: 8453, to: TOKEN, data: '0x8456cb59', nonce: 4, safeTxHash: SAFE_TX_HASH });
+    expect(proposal).toMatchObject({ state: 'AWAITING_SIGNATURES', threshold: 2 });
+    expect(second.safeTx.nonce).toBe(5);
+    await expect(service.propose(TOKEN, 'again', 'ops')).rejects.toMatchObject({ status: 409 });
+
+    const state = await new EmergencyPauseService(env).getState();
+    expect(state.status).toBe('ACTIVE');
+    expect(state.transitions).toEqual([
+      { from: 'STANDBY', to: 'ACTIVE', at: 1000, by: 'ops@example.com', reason: `Pause proposed for ${TOKEN}: Bridge exploit suspected` },
+    ]);
+  });
+
+  it('collects owner signatures until the threshold and exports them sorted by owner', async () => {
+    const service = new EmergencyPauseService(env);
+    const { id } = await service.propose(TOKEN, 'incident', 'ops');
+
+    await expect(service.approve(id, SIG_3, 'ops')).rejects.toMatchObject({ status: 403 });
+    await expect(service.approve(id, '0x1234', 'ops')).rejects.toMatchObject({ status: 400 });
+    expect((await service.approve(id, SIG_1, 'alice')).state).toBe('AWAITING_SIGNATURES');
+    await expect(service.approve(id, SIG_1, 'alice')).rejects.toMatchObject({ status: 409 });
+    expect((await service.approve(id, ETH_SIGN_2, 'bob')).state).toBe('READY');
+
+    const exported = await service.exportSafeTransaction(id);
+    expect(exported.confirmations.map(c => c.owner)).toEqual([OWNER_2, OWNER_1]);
+    expect(exported.signatures).toBe('0x' + ETH_SIGN_2.slice(2) + SIG_1.slice(2));
+    expect(exported.confirmationsRequired).toBe(2);
+  });
+
+  it('persists PAUSED once the pause lands and returns to STANDBY when lifted', async () => {
+    const { id } = await new EmergencyPauseService(env).propose(TOKEN, 'incident', 'ops');
+
+    chain.paused = true;
+    chain.safeNonce = 5;
+    const paused = await new EmergencyPauseService(env).refresh(5000);
+    expect(paused.status).toBe('PAUSED');
+    expect(paused.proposals[0]).toMatchObject({ id, state: 'EXECUTED', executedAt: 5000 });
+    expect((await new EmergencyPauseService(env).getState()).status).toBe('PAUSED');
+
+    chain.paused = false;
+    const lifted = await new EmergencyPauseService(env).refresh(9000);
+    expect(lifted.status).toBe('STANDBY');
+    expect(lifted.transitions.map(t => t.to)).toEqual(['ACTIVE', 'PAUSED', 'STANDBY']);
+  });
+
+  it('cancels proposals and marks ones overtaken by the Safe nonce STALE', async () => {
+    const service = new EmergencyPauseService(env);
+    const first = await service.propose(TOKEN, 'incident', 'ops');
+    const second = await service.propose(OTHER_TOKEN, 'incident', 'ops');
+
+    expect((await service.cancel(second.id, 'ops', 'false alarm')).state).toBe('CANCELLED');
+    await expect(service.cancel(second.id, 'ops')).rejects.toBeInstanceOf(EmergencyPauseError);
+
+    chain.safeNonce = 5;
+    const state = await service.refresh();
+    expect(state.proposals.find(p => p.id === first.id)?.state).toBe('STALE');
+    expect(state.status).toBe('STANDBY');
+  });
+
+  it('moves later proposals into a cancelled nonce and resets their signatures', async () => {
+    const service = new EmergencyPauseService(env);
+    const first = await service.propose(OTHER_TOKEN, 'incident', 'ops');
+    const second = await service.propose(TOKEN, 'incident', 'ops');
+    // Signed at nonce 5 before the cancel
+    const signed = await service.getState();
+    Object.assign(signed.proposals[1], { state: 'READY', signatures: [{ signer: OWNER_2, signature: ETH_SIGN_2, at: 0, submittedBy: 'bob' }] });
+    await env.ECOSYSTEM_BUCKET.put('emergency/state.json', JSON.stringify(signed));
+    expect((await service.getState()).proposals[1].state).toBe('READY');
+
+    await service.cancel(first.id, 'ops', 'wrong contract', 7000);
+
+    const moved = (await service.getState()).proposals.find(p => p.id === second.id)!;
+    expect(moved).toMatchObject({ state: 'AWAITING_SIGNATURES', signatures: [], renoncedAt: 7000 });
+    expect(moved.safeTx).toMatchObject({ nonce: 4, safeTxHash: SAFE_TX_HASH });
+    expect((await service.approve(second.id, SIG_1, 'alice')).signatures.map(s => s.signer)).toEqual([OWNER_1]);
+    expect((await service.propose(OTHER_TOKEN, 'incident', 'ops')).safeTx.nonce).toBe(5);
+  });
+
+  it('refuses to propose without a configured Safe', async () => {
+    const service = new EmergencyPauseService(createEnv());
+
+    await expect(service.propose(TOKEN, 'incident', 'ops')).rejects.toMatchObject({ status: 503 });
+  });
+});
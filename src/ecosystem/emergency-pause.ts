@@ -0,0 +1,386 @@
+// Emergency Pause - Safe multisig pause proposals and signature tracking
+// Part of ChiefOS Ecosystem Manager
+
+import type {
+    EcosystemEnv,
+    EmergencyState,
+    EmergencyStatus,
+    PauseProposal,
+    SafeTransaction
+} from './types';
+import { ChainRegistry } from './chains';
+import { JsonRpcClient, decodeUint256, encodeUint256, splitWords } from './rpc';
+import { keccak256 } from './keccak';
+import { recoverAddress } from './secp256k1';
+import { hexToBytes, HttpStatusError } from './utils';
+import { StateDocument } from './ecosystem-state';
+
+const STATE_KEY = "emergency/state.json";
+const DEFAULT_SAFE_CHAIN_ID = 8453;
+const CLOSED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_TRANSITIONS = 50;
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+const PAUSE_SELECTOR = "0x8456cb59";       // pause()
+const PAUSED_SELECTOR = "0x5c975abb";      // paused()
+const NONCE_SELECTOR = "0xaffed0e0";       // Safe nonce()
+const GET_OWNERS_SELECTOR = "0xa0e67e2b";  // Safe getOwners()
+const GET_THRESHOLD_SELECTOR = "0xe75235b8"; // Safe getThreshold()
+
+/**
+ * keccak256("EIP712Domain(uint256 chainId,address verifyingContract)")
+ */
+const DOMAIN_SEPARATOR_TYPEHASH = "0x47e79534a245952e8b16893a336b85a3d9ea9fa8c573f3d803afb92a79469218";
+
+/**
+ * keccak256("SafeTx(address to,uint256 value,bytes data,uint8 operation,uint256 safeTxGas,
+ * uint256 baseGas,uint256 gasPrice,address gasToken,address refundReceiver,uint256 nonce)")
+ */
+const SAFE_TX_TYPEHASH = "0xbb8310d486368db6bd6f849402fdd73ad53d316b5a4b2644ad6efe0f941286d8";
+
+/**
+ * Error raised for invalid pause requests and transitions
+ */
+export class EmergencyPauseError extends HttpStatusError {
+    constructor(message: string, status: number) {
+        super(message, status);
+        this.name = "EmergencyPauseError";
+    }
+}
+
+function encodeAddress(address: string): string {
+    return address.replace(/^0x/, "").toLowerCase().padStart(64, "0");
+}
+
+/**
+ * EIP-712 hash of a Safe transaction (Safe >= 1.3.0)
+ */
+export function computeSafeTxHash(tx: Omit<SafeTransaction, "safeTxHash">): string {
+    const domainSeparator = keccak256(
+        "0x" + DOMAIN_SEPARATOR_TYPEHASH.slice(2) + encodeUint256(tx.chainId) + encodeAddress(tx.safe)
+    );
+    const structHash = keccak256("0x" + [
+        SAFE_TX_TYPEHASH.slice(2),
+        encodeAddress(tx.to),
+        encodeUint256(BigInt(tx.value)),
+        keccak256(tx.data).slice(2),
+        encodeUint256(tx.operation),
+        encodeUint256(BigInt(tx.safeTxGas)),
+        encodeUint256(BigInt(tx.baseGas)),
+        encodeUint256(BigInt(tx.gasPrice)),
+        encodeAddress(tx.gasToken),
+        encodeAddress(tx.refundReceiver),
+        encodeUint256(tx.nonce)
+    ].join(""));
+
+    return keccak256("0x1901" + domainSeparator.slice(2) + structHash.slice(2));
+}
+
+/**
+ * Recover the owner behind a Safe signature
+ * Accepts EIP-712 signatures (v = 27/28) and eth_sign signatures (v = 31/32)
+ */
+export function recoverSafeSigner(safeTxHash: string, signature: string): string {
+    const hex = signature.replace(/^0x/, "");
+    if (hex.length !== 130) throw new Error("Signature must be 65 bytes");
+
+    const v = parseInt(hex.slice(128), 16);
+    if (v === 31 || v === 32) {
+        const prefix = new TextEncoder().encode("\x19Ethereum Signed Message:\n32");
+        const message = new Uint8Array([...prefix, ...hexToBytes(safeTxHash)]);
+        const prefixed = keccak256(message);
+        return recoverAddress(prefixed, "0x" + hex.slice(0, 128) + (v - 4).toString(16));
+    }
+    if (v !== 27 && v !== 28) throw new Error(`Unsupported signature type v=${v}`);
+    return recoverAddress(safeTxHash, signature);
+}
+
+/**
+ * Emergency Pause Service: pause() proposals for the governance Safe
+ *
+ * Workflow:
+ * 1. propose() builds a pause() Safe transaction at the next free Safe nonce
+ *    and exports it with its safeTxHash (status -> ACTIVE)
+ * 2. Owners sign the safeTxHash; approve() recovers each signer and checks it
+ *    against getOwners(), and the proposal is READY at the Safe threshold
+ * 3. An owner executes it with the exported signatures; refresh() sees
+ *    paused() on the contract and marks it EXECUTED (status -> PAUSED)
+ *
+ * Proposals are CANCELLED by operators or STALE once the Safe nonce moves past
+ * them without the pause landing. Cancelling moves later open proposals down
+ * one nonce so the queue has no gap the Safe would stall on; their safeTxHash
+ * changes, so signatures collected for them are dropped. State lives in the ecosystem state document
+ * emergency/state.json so the status survives across worker invocations.
+ */
+export class EmergencyPauseService {
+    private env: EcosystemEnv;
+    private chains: ChainRegistry;
+    private document: StateDocument<EmergencyState>;
+
+    constructor(env: EcosystemEnv, chains: ChainRegistry = new ChainRegistry(env)) {
+        this.env = env;
+        this.chains = chains;
+        this.document = new StateDocument<EmergencyState>(env, STATE_KEY, {
+            empty: () => ({ status: "STANDBY", updatedAt: 0, proposals: [], transitions: [] }),
+            parse: text => JSON.parse(text),
+            serialize: state => JSON.stringify(state)
+        });
+    }
+
+    /**
+     * Current status and proposals (as last persisted)
+     */
+    async getState(): Promise<EmergencyState> {
+        return this.document.read();
+    }
+
+    /**
+     * Propose pausing a contract through the Safe
+     */
+    async propose(contract: string, reason: string, actor: string, now: number = Date.now()): Promise<PauseProposal> {
+        if (!/^0x[0-9a-fA-F]{40}$/.test(contract ?? "")) {
+            throw new EmergencyPauseError("contract must be an address", 400);
+        }
+        if (!reason || typeof reason !== "string") {
+            throw new EmergencyPauseError("reason is required", 400);
+        }
+
+        const safe = this.safeAddress();
+        return this.document.update(async state => {
+            const target = contract.toLowerCase();
+            if (state.proposals.some(p => p.contract === target && isOpen(p))) {
+                throw new EmergencyPauseError(`A pause for ${target} is already pending`, 409);
+            }
+
+            const { client, chainId } = await this.safeClient();
+            const [nonceHex, thresholdHex] = await client.batch<string>([
+                { method: "eth_call", params: [{ to: safe, data: NONCE_SELECTOR }, "latest"] },
+                { method: "eth_call", params: [{ to: safe, data: GET_THRESHOLD_SELECTOR }, "latest"] }
+            ]);
+
+            // Queue behind proposals already holding a nonce
+            const queued = state.proposals.filter(isOpen).map(p => p.safeTx.nonce + 1);
+            const nonce = Math.max(Number(decodeUint256(nonceHex)), ...queued);
+
+            const tx: Omit<SafeTransaction, "safeTxHash"> = {
+                safe,
+                chainId,
+                to: target,
+                value: "0",
+                data: PAUSE_SELECTOR,
+                operation: 0,
+                safeTxGas: "0",
+                baseGas: "0",
+                gasPrice: "0",
+                gasToken: ZERO_ADDRESS,
+                refundReceiver: ZERO_ADDRESS,
+                nonce
+            };
+
+            const proposal: PauseProposal = {
+                id: `PAUSE-${now}-${nonce}`,
+                contract: target,
+                reason,
+                state: "AWAITING_SIGNATURES",
+                proposedAt: now,
+                proposedBy: actor,
+                safeTx: { ...tx, safeTxHash: computeSafeTxHash(tx) },
+                threshold: Number(decodeUint256(thresholdHex)),
+                signatures: []
+            };
+
+            state.proposals.push(proposal);
+            setStatus(state, derivedStatus(state), now, actor, `Pause proposed for ${target}: ${reason}`);
+            return proposal;
+        });
+    }
+
+    /**
+     * Record an owner's signature over the proposal's safeTxHash
+     */
+    async approve(id: string, signature: string, actor: string, now: number = Date.now()): Promise<PauseProposal> {
+        return this.document.update(async state => {
+            const proposal = findProposal(state, id);
+            if (!isOpen(proposal)) {
+                throw new EmergencyPauseError(`Cannot approve ${proposal.state} proposal`, 409);
+            }
+
+            let signer: string;
+            try {
+                signer = recoverSafeSigner(proposal.safeTx.safeTxHash, signature);
+            } catch (error) {
+                throw new EmergencyPauseError(`Invalid signature: ${error instanceof Error ? error.message : error}`, 400);
+            }
+
+            const { client } = await this.safeClient();
+            const [ownersHex, thresholdHex] = await client.batch<string>([
+                { method: "eth_call", params: [{ to: proposal.safeTx.safe, data: GET_OWNERS_SELECTOR }, "latest"] },
+                { method: "eth_call", params: [{ to: proposal.safeTx.safe, data: GET_THRESHOLD_SELECTOR }, "latest"] }
+            ]);
+
+            if (!decodeAddressArray(ownersHex).includes(signer)) {
+                throw new EmergencyPauseError(`Signer ${signer} is not a Safe owner`, 403);
+            }
+            if (proposal.signatures.some(s => s.signer === signer)) {
+                throw new EmergencyPauseError(`${signer} has already signed`, 409);
+            }
+
+            proposal.signatures.push({ signer, signature: signature.toLowerCase(), at: now, submittedBy: actor });
+            proposal.threshold = Number(decodeUint256(thresholdHex));
+            proposal.state = proposal.signatures.length >= proposal.threshold ? "READY" : "AWAITING_SIGNATURES";
+
+            return proposal;
+        });
+    }
+
+    /**
+     * Withdraw a proposal that has not been executed, moving later open
+     * proposals down into the freed nonce
+     */
+    async cancel(id: string, actor: string, reason?: string, now: number = Date.now()): Promise<PauseProposal> {
+        return this.document.update(async state => {
+            const proposal = findProposal(state, id);
+            if (!isOpen(proposal)) {
+                throw new EmergencyPauseError(`Cannot cancel ${proposal.state} proposal`, 409);
+            }
+
+            proposal.state = "CANCELLED";
+            proposal.cancelledAt = now;
+            proposal.cancelledBy = actor;
+            proposal.cancelReason = reason;
+
+            for (const later of state.proposals.filter(p => isOpen(p) && p.safeTx.nonce > proposal.safeTx.nonce)) {
+                const tx = { ...later.safeTx, nonce: later.safeTx.nonce - 1 };
+                later.safeTx = { ...tx, safeTxHash: computeSafeTxHash(tx) };
+                later.signatures = [];
+                later.state = "AWAITING_SIGNATURES";
+                later.renoncedAt = now;
+            }
+
+            setStatus(state, derivedStatus(state), now, actor, `Pause ${id} cancelled${reason ? `: ${reason}` : ""}`);
+            return proposal;
+        });
+    }
+
+    /**
+     * Safe transaction for a proposal, with collected signatures packed for execTransaction
+     * (Safe requires them sorted by owner address)
+     */
+    async exportSafeTransaction(id: string): Promise<SafeTransaction & {
+        signatures: string;
+        confirmations: { owner: string; signature: string }[];
+        confirmationsRequired: number;
+    }> {
+        const proposal = findProposal(await this.document.read(), id);
+        const sorted = [...proposal.signatures].sort((a, b) => a.signer.localeCompare(b.signer));
+
+        return {
+            ...proposal.safeTx,
+            signatures: "0x" + sorted.map(s => s.signature.replace(/^0x/, "")).join(""),
+            confirmations: sorted.map(s => ({ owner: s.signer, signature: s.signature })),
+            confirmationsRequired: proposal.threshold
+        };
+    }
+
+    /**
+     * Reconcile proposals with the chain and persist the resulting status
+     * - open proposal whose contract is paused() -> EXECUTED
+     * - open proposal whose nonce the Safe has used otherwise -> STALE
+     * - executed pause whose contract is unpaused again -> unpausedAt set
+     * Read failures leave the affected proposal unchanged.
+     */
+    async refresh(now: number = Date.now()): Promise<EmergencyState> {
+        return this.document.update(async state => {
+            const watched = state.proposals.filter(p => isOpen(p) || (p.state === "EXECUTED" && !p.unpausedAt));
+            if (watched.length === 0) return state;
+
+            try {
+                const { client } = await this.safeClient();
+                const safeNonce = Number(decodeUint256(
+                    await client.ethCall(watched[0].safeTx.safe, NONCE_SELECTOR)
+                ));
+
+                for (const proposal of watched) {
+                    const paused = decodeUint256(await client.ethCall(proposal.contract, PAUSED_SELECTOR)) !== 0n;
+
+                    if (isOpen(proposal) && paused) {
+                        proposal.state = "EXECUTED";
+                        proposal.executedAt = now;
+                    } else if (isOpen(proposal) && safeNonce > proposal.safeTx.nonce) {
+                        proposal.state = "STALE";
+                    } else if (proposal.state === "EXECUTED" && !paused) {
+                        proposal.unpausedAt = now;
+                    }
+                }
+            } catch (error) {
+                console.error("[EmergencyPause] Failed to reconcile proposals:", error);
+            }
+
+            state.proposals = state.proposals.filter(p => isOpen(p) || now - closedAt(p) <= CLOSED_RETENTION_MS);
+            setStatus(state, derivedStatus(state), now, "chain", "Reconciled with on-chain state");
+            return state;
+        });
+    }
+
+    private safeAddress(): string {
+        const safe = this.env.EMERGENCY_SAFE_ADDRESS;
+        if (!safe || !/^0x[0-9a-fA-F]{40}$/.test(safe)) {
+            throw new EmergencyPauseError("EMERGENCY_SAFE_ADDRESS is not configured", 503);
+        }
+        return safe.toLowerCase();
+    }
+
+    private async safeClient(): Promise<{ client: JsonRpcClient; chainId: number }> {
+        const chainId = Number(this.env.EMERGENCY_SAFE_CHAIN_ID) || DEFAULT_SAFE_CHAIN_ID;
+        const chain = await this.chains.getChain(chainId);
+        if (!chain) {
+            throw new EmergencyPauseError(`Safe chain ${chainId} is not in the chain registry`, 503);
+        }
+        return { client: this.chains.getClient(chain), chainId };
+    }
+}
+
+function isOpen(proposal: PauseProposal): boolean {
+    return proposal.state === "AWAITING_SIGNATURES" || proposal.state === "READY";
+}
+
+function closedAt(proposal: PauseProposal): number {
+    if (proposal.state === "EXECUTED") return proposal.unpausedAt ?? Infinity;
+    return proposal.cancelledAt ?? proposal.proposedAt;
+}
+
+function findProposal(state: EmergencyState, id: string): PauseProposal {
+    const proposal = state.proposals.find(p => p.id === id);
+    if (!proposal) throw new EmergencyPauseError(`Pause proposal ${id} not found`, 404);
+    return proposal;
+}
+
+/**
+ * PAUSED while any executed pause holds, ACTIVE while any proposal is open
+ */
+function derivedStatus(state: EmergencyState): EmergencyStatus {
+    if (state.proposals.some(p => p.state === "EXECUTED" && !p.unpausedAt)) return "PAUSED";
+    if (state.proposals.some(isOpen)) return "ACTIVE";
+    return "STANDBY";
+}
+
+function setStatus(state: EmergencyState, next: EmergencyStatus, at: number, by: string, reason?: string): void {
+    if (state.status === next) return;
+
+    state.transitions.push({ from: state.status, to: next, at, by, reason });
+    if (state.transitions.length > MAX_TRANSITIONS) {
+        state.transitions = state.transitions.slice(-MAX_TRANSITIONS);
+    }
+    state.status = next;
+    state.updatedAt = at;
+}
+
+/**
+ * Decode an ABI-encoded address[] return value
+ */
+function decodeAddressArray(hex: string): string[] {
+    const words = splitWords(hex);
+    const start = Number(BigInt("0x" + words[0])) / 32;
+    const length = Number(BigInt("0x" + words[start]));
+    return words.slice(start + 1, start + 1 + length).map(w => "0x" + w.slice(24));
+}
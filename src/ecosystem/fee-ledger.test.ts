@@ -0,0 +1,236 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { encodeUint256 } from './rpc';
+import { LAUNCH_CREATED_TOPIC, LAUNCH_GRADUATED_TOPIC } from './launch-indexer';
+import { FeeLedger, TRANSFER_TOPIC, checkFeeAlerts, feeLedgerToCsv, reconcileFee } from './fee-ledger';
+import { AlertStore } from './alert-store';
+import { MarketplaceAgent } from './marketplace-agent';
+import type { EcosystemEnv, FeeLedgerEntry } from './types';
+import { createMockBucket, stubJsonRpc } from '../test-utils';
+
+const FACTORY = '0x' + 'fa'.repeat(20);
+const FEE_TOKEN = '0x' + 'fe'.repeat(20);
+const RECEIVER = '0x' + 'ee'.repeat(20);
+const POOL = '0x' + 'd0'.repeat(20);
+const E18 = 10n ** 18n;
+const HEAD = 1000;
+
+const pad32 = (hex: string) => hex.replace(/^0x/, '').padStart(64, '0');
+const token = (n: number) => '0x' + String(n).repeat(40);
+const tx = (n: number) => '0x' + String(n).repeat(64);
+
+interface Log { address: string; topics: string[]; data: string; blockNumber: string; logIndex: string; transactionHash: string }
+
+function log(address: string, block: number, topics: string[], data: string, txHash: string): Log {
+  return { address, topics, data: '0x' + data, blockNumber: '0x' + block.toString(16), logIndex: '0x0', transactionHash: txHash };
+}
+
+function created(block: number, launch: string): Log {
+  const name = encodeUint256(4) + Buffer.from('Test').toString('hex').padEnd(64, '0');
+  const data = encodeUint256(160) + encodeUint256(160 + name.length / 2)
+    + encodeUint256(1000n * E18) + encodeUint256(1) + encodeUint256(1) + name + name;
+  return log(FACTORY, block, [LAUNCH_CREATED_TOPIC, '0x' + pad32(launch), '0x' + pad32(token(9))], data, tx(0));
+}
+
+function graduated(block: number, launch: string, raised: bigint, txHash: string): Log {
+  return log(FACTORY, block, [LAUNCH_GRADUATED_TOPIC, '0x' + pad32(launch)], pad32(POOL) + encodeUint256(raised), txHash);
+}
+
+function feeTransfer(block: number, amount: bigint, txHash: string, to = RECEIVER, from = FACTORY): Log {
+  return log(FEE_TOKEN, block, [TRANSFER_TOPIC, '0x' + pad32(from), '0x' + pad32(to)], encodeUint256(amount), txHash);
+}
+
+/**
+ * Serve eth_blockNumber, eth_getLogs (address, topic0 and topic2 filters) and block timestamps
+ */
+function stubChain(logs: Log[], now: number, head = HEAD) {
+  stubJsonRpc(request => {
+    if (request.method === 'eth_blockNumber') return { result: '0x' + head.toString(16) };
+    if (request.method === 'eth_getLogs') {
+      const { address, topics: [topic0, , topic2], fromBlock, toBlock } = request.params[0] as {
+        address: string;
+        topics: (string | string[] | null)[];
+        fromBlock: string;
+        toBlock: string;
+      };
+      return {
+        result: logs.filter(l => l.address === address && [topic0].flat().includes(l.topics[0])
+          && (!topic2 || l.topics[2] === topic2)
+          && Number(l.blockNumber) >= Number(fromBlock) && Number(l.blockNumber) <= Number(toBlock)),
+      };
+    }
+    if (request.method === 'eth_getBlockByNumber') {
+      return { result: { timestamp: '0x' + (now / 1000 + Number(request.params[0])).toString(16) } };
+    }
+    return { result: null };
+  });
+}
+
+function createEnv(): EcosystemEnv {
+  return {
+    ECOSYSTEM_ENABLED: 'true',
+    ECOSYSTEM_BUCKET: createMockBucket(),
+    BASE_RPC_URL: 'http://base',
+    LZ_ENDPOINT_ADDRESS: '0x' + '00'.repeat(20),
+    MARKETPLACE_START_BLOCK: '100',
+    ECOSYSTEM_CHAINS: JSON.stringify([{
+      chainId: 8453, name: 'Base', lzEndpointId: 30184, rpcUrl: 'http://base',
+      contracts: { marketplace: FACTORY, feeReceiver: RECEIVER, feeToken: FEE_TOKEN },
+    }]),
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('FeeLedger', () => {
+  it('reconciles fee transfers with each graduation and records stray transfers', async () => {
+    const now = Math.floor(Date.now() / 1000) * 1000 - 60 * 60 * 1000;
+    stubChain([
+      created(200, token(1)), created(210, token(2)), created(220, token(3)),
+      graduated(400, token(1), 100n * E18, tx(1)), feeTransfer(400, 25n * E18 / 10n, tx(1)),
+      graduated(450, token(2), 40n * E18, tx(2)), feeTransfer(450, E18 / 2n, tx(2)),
+      graduated(500, token(3), 10n * E18, tx(3)),
+      feeTransfer(600, 3n * E18, tx(4)),
+      feeTransfer(650, 7n * E18, tx(5), '0x' + '11'.repeat(20)),
+    ], now);
+    const env = createEnv();
+    const agent = new MarketplaceAgent(env);
+
+    const entries = (await agent.getFeeLedger24h())!;
+    expect(entries.map(e => [e.id, e.status, e.collectedFee])).toEqual([
+      [`8453:${token(1)}`, 'MATCHED', 25n * E18 / 10n],
+      [`8453:${token(2)}`, 'UNDERPAID', E18 / 2n],
+      [`8453:${token(3)}`, 'MISSING', 0n],
+      [`8453:${tx(4)}:0`, 'UNATTRIBUTED', 3n * E18],
+    ]);
+    expect(entries[1]).toMatchObject({ expectedFee: E18, difference: -E18 / 2n, txHash: tx(2) });
+    expect(await agent.getFeesCollected24h()).toBe(6n * E18);
+
+    // A second pass has nothing new to reconcile
+    const again = await new FeeLedger(env).sync();
+    expect(again.entries).toEqual([]);
+    expect(again.cursors).toEqual({ 8453: HEAD - 5 });
+
+    const report = await new MarketplaceAgent(env).generateReport();
+    expect(report).toMatchObject({ feeCollected24h: 6n * E18, feeDiscrepancies24h: 3 });
+  });
+
+  it('keeps unpaid fees outstanding until a later transfer covers the shortfall or an operator resolves them', async () => {
+    const now = Math.floor(Date.now() / 1000) * 1000 - 60 * 60 * 1000;
+    const logs = [
+      created(200, token(1)), created(210, token(2)),
+      graduated(400, token(1), 100n * E18, tx(1)),
+      graduated(450, token(2), 40n * E18, tx(2)), feeTransfer(450, E18 / 2n, tx(2)),
+    ];
+    stubChain(logs, now);
+    const env = createEnv();
+
+    const agent = new MarketplaceAgent(env);
+    expect((await agent.getOutstandingFees())!.map(e => [e.id, e.status])).toEqual([
+      [`8453:${token(1)}`, 'MISSING'],
+      [`8453:${token(2)}`, 'UNDERPAID'],
+    ]);
+    expect((await agent.checkAlerts()).map(a => a.type)).toEqual(['FEE_MISSING', 'FEE_UNDERPAID']);
+
+    // The launch 1 fee is paid late in its own transaction; it no longer alerts
+    stubChain([...logs, feeTransfer(HEAD, 25n * E18 / 10n, tx(6))], now, HEAD + 100);
+
+    const later = new MarketplaceAgent(env);
+    expect((await later.getOutstandingFees())!.map(e => e.id)).toEqual([`8453:${token(2)}`]);
+    expect((await later.getFeeLedger24h())!.at(-1)).toMatchObject({
+      tokenAddress: token(1), txHash: tx(6), expectedFee: 25n * E18 / 10n, difference: 0n, status: 'MATCHED',
+    });
+
+    expect(await later.resolveOutstandingFee(`8453:${token(2)}`)).toMatchObject({ status: 'UNDERPAID' });
+    expect(await later.resolveOutstandingFee(`8453:${token(2)}`)).toBeNull();
+    expect(await new MarketplaceAgent(env).getOutstandingFees()).toEqual([]);
+  });
+
+  it('settles shortfalls only from the launch payers and keeps the remainder of a partial payment outstanding', async () => {
+    const now = Math.floor(Date.now() / 1000) * 1000 - 60 * 60 * 1000;
+    const logs = [created(200, token(1)), graduated(400, token(1), 100n * E18, tx(1))];
+    stubChain(logs, now);
+    const env = createEnv();
+    expect(await new MarketplaceAgent(env).getOutstandingFees()).toHaveLength(1);
+
+    // The exact amount from an unrelated sender, then part of the fee from the marketplace
+    const stranger = '0x' + '22'.repeat(20);
+    const partial = [...logs, feeTransfer(HEAD, 25n * E18 / 10n, tx(6), RECEIVER, stranger), feeTransfer(HEAD + 1, E18, tx(7))];
+    stubChain(partial, now, HEAD + 100);
+
+    const later = new MarketplaceAgent(env);
+    expect(await later.getOutstandingFees()).toMatchObject([
+      { id: `8453:${token(1)}`, status: 'UNDERPAID', collectedFee: E18, difference: -3n * E18 / 2n },
+    ]);
+    expect((await later.getFeeLedger24h())!.slice(-2).map(e => [e.txHash, e.tokenAddress, e.status])).toEqual([
+      [tx(6), null, 'UNATTRIBUTED'],
+      [tx(7), token(1), 'UNDERPAID'],
+    ]);
+
+    // The rest is paid later and clears the launch
+    stubChain([...partial, feeTransfer(HEAD + 101, 3n * E18 / 2n, tx(8))], now, HEAD + 200);
+
+    const settled = new MarketplaceAgent(env);
+    expect(await settled.getOutstandingFees()).toEqual([]);
+    expect((await settled.getFeeLedger24h())!.at(-1)).toMatchObject({
+      txHash: tx(8), tokenAddress: token(1), expectedFee: 3n * E18 / 2n, status: 'MATCHED',
+    });
+  });
+
+  it('falls back to the expected fee when no fee receiver is configured', async () => {
+    stubChain([created(200, token(1)), graduated(400, token(1), 100n * E18, tx(1))], Math.floor(Date.now() / 1000) * 1000 - 60 * 60 * 1000);
+    const env = { ...createEnv(), ECOSYSTEM_CHAINS: undefined, MARKETPLACE_ADDRESS: FACTORY, MARKETPLACE_FEE_BPS: '100' };
+    const agent = new MarketplaceAgent(env);
+
+    expect(await agent.getFeeLedger24h()).toBeNull();
+    expect(await agent.getFeesCollected24h()).toBe(E18);
+  });
+});
+
+describe('fee reconciliation helpers', () => {
+  const entry: FeeLedgerEntry = {
+    id: `8453:${token(1)}`,
+    date: '2026-01-15',
+    at: Date.UTC(2026, 0, 15),
+    chainId: 8453,
+    tokenAddress: token(1),
+    symbol: 'CCAT',
+    txHash: tx(1),
+    raised: 100n * E18,
+    expectedFee: 25n * E18 / 10n,
+    collectedFee: 0n,
+    difference: -25n * E18 / 10n,
+    status: 'MISSING',
+  };
+
+  it('treats differences within 1 bps of the expected fee as rounding', () => {
+    expect(reconcileFee(10000n, 10001n)).toBe('MATCHED');
+    expect(reconcileFee(10000n, 10002n)).toBe('OVERPAID');
+    expect(reconcileFee(10000n, 9000n)).toBe('UNDERPAID');
+    expect(reconcileFee(10000n, 0n)).toBe('MISSING');
+  });
+
+  it('exports entries as CSV in wei', () => {
+    expect(feeLedgerToCsv([entry])).toBe(
+      'date,chain_id,token,symbol,tx_hash,raised_wei,expected_fee_wei,collected_fee_wei,difference_wei,status\n'
+      + `2026-01-15,8453,${token(1)},CCAT,${tx(1)},100000000000000000000,2500000000000000000,0,-2500000000000000000,MISSING\n`
+    );
+  });
+
+  it('alerts on entries that did not reconcile', () => {
+    const alerts = checkFeeAlerts([entry, { ...entry, id: 'matched', status: 'MATCHED' }]);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ id: `MARKETPLACE-FEE-8453:${token(1)}`, type: 'FEE_MISSING', severity: 'HIGH', subject: token(1) });
+    expect(alerts[0].message).toContain('expected 2.50 CAMP, collected 0.00 CAMP');
+  });
+
+  it('stores fee alerts with their BigInt amounts in the alert store', async () => {
+    const env = { ECOSYSTEM_BUCKET: createMockBucket() } as unknown as EcosystemEnv;
+    await new AlertStore(env).sync(checkFeeAlerts([entry]));
+
+    const [stored] = await new AlertStore(env).list();
+    expect(stored).toMatchObject({ type: 'FEE_MISSING', state: 'OPEN' });
+    expect(stored.data).toMatchObject({ raised: (100n * E18).toString(), difference: (-25n * E18 / 10n).toString() });
+  });
+});
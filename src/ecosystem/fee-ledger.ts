@@ -0,0 +1,447 @@
+// Fee Ledger - Marketplace fee accounting reconciled against the fee receiver
+// Part of ChiefOS Ecosystem Manager
+
+import type {
+    Alert,
+    BondcurveLaunch,
+    ChainConfig,
+    EcosystemEnv,
+    FeeLedgerEntry,
+    FeeReconciliationStatus,
+    FeeSyncResult
+} from './types';
+import { ChainRegistry } from './chains';
+import { LaunchIndexer } from './launch-indexer';
+import { splitWords, type RpcRequest } from './rpc';
+import { serializeWithBigInt } from './utils';
+import { formatTokenAmount } from './supply-ledger';
+import { StateDocument } from './ecosystem-state';
+
+const STATE_KEY = "marketplace/fees/cursors.json";
+const DAY_KEY_PREFIX = "marketplace/fees/";
+const DEFAULT_FEE_BPS = 250;
+const DEFAULT_START_LOOKBACK_BLOCKS = 50000;
+const BLOCKS_PER_QUERY = 10000;
+const MAX_QUERIES_PER_SYNC = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Transfer(address indexed from, address indexed to, uint256 value)
+ */
+export const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+const CSV_COLUMNS = [
+    "date", "chain_id", "token", "symbol", "tx_hash",
+    "raised_wei", "expected_fee_wei", "collected_fee_wei", "difference_wei", "status"
+] as const;
+
+interface RpcLog {
+    topics: string[];
+    data: string;
+    blockNumber: string;
+    logIndex: string;
+    transactionHash: string;
+}
+
+interface FeeTransfer {
+    txHash: string;
+    logIndex: number;
+    block: number;
+    from: string;
+    amount: bigint;
+}
+
+interface FeeScan {
+    chainId: number;
+    /** Marketplace contract on the chain (lowercase), a payer of every launch's fee */
+    marketplace: string | null;
+    transfers: FeeTransfer[];
+    /** Block timestamps in ms, by block number */
+    timestamps: Map<number, number>;
+    fromBlock: number;
+    toBlock: number;
+}
+
+/**
+ * Outstanding entry with the addresses whose later transfers pay it down
+ */
+interface OutstandingFee extends FeeLedgerEntry {
+    payers: string[];
+}
+
+interface FeeState {
+    /** Last reconciled block per chain ID */
+    cursors: Record<number, number>;
+    /** MISSING and UNDERPAID entries not yet paid or resolved, by entry id */
+    outstanding: Record<string, OutstandingFee>;
+}
+
+const OUTSTANDING_STATUSES: FeeReconciliationStatus[] = ["MISSING", "UNDERPAID"];
+
+/**
+ * Marketplace fee on the amount raised, in basis points (MARKETPLACE_FEE_BPS, default 250)
+ */
+export function loadFeeBps(env: EcosystemEnv): bigint {
+    const configured = Number(env.MARKETPLACE_FEE_BPS);
+    return BigInt(Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_FEE_BPS);
+}
+
+/**
+ * Fee the marketplace should have collected for a graduated launch
+ */
+export function expectedFee(raised: bigint, feeBps: bigint): bigint {
+    return (raised * feeBps) / 10000n;
+}
+
+/**
+ * Compare collected with expected; differences up to 1 bps of the expected fee are rounding
+ */
+export function reconcileFee(expected: bigint, collected: bigint): FeeReconciliationStatus {
+    if (collected === 0n && expected > 0n) return "MISSING";
+
+    const difference = collected - expected;
+    const tolerance = expected / 10000n;
+    if (difference > tolerance) return "OVERPAID";
+    if (-difference > tolerance) return "UNDERPAID";
+    return "MATCHED";
+}
+
+/**
+ * UTC day (YYYY-MM-DD) of a timestamp
+ */
+export function ledgerDate(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Fee ledger entries as CSV for finance (amounts in wei, one line per entry)
+ */
+export function feeLedgerToCsv(entries: FeeLedgerEntry[]): string {
+    const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const rows = entries.map(e => [
+        e.date, String(e.chainId), e.tokenAddress ?? "", e.symbol ?? "", e.txHash ?? "",
+        e.raised.toString(), e.expectedFee.toString(), e.collectedFee.toString(), e.difference.toString(), e.status
+    ].map(escape).join(","));
+
+    return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+function reviveEntry(entry: FeeLedgerEntry): FeeLedgerEntry {
+    return {
+        ...entry,
+        raised: BigInt(entry.raised),
+        expectedFee: BigInt(entry.expectedFee),
+        collectedFee: BigInt(entry.collectedFee),
+        difference: BigInt(entry.difference)
+    };
+}
+
+/**
+ * Fee Ledger: Reconciles marketplace fees with what the fee receiver actually got
+ *
+ * Each sync() scans ERC-20 Transfer logs of the fee token into the fee receiver
+ * (per chain, from ChainConfig.contracts) up to the launch indexer's cursor, so
+ * every graduation in the scanned range is already indexed. A graduated launch
+ * is credited with the transfers in its LaunchGraduated transaction and compared
+ * with MARKETPLACE_FEE_BPS of the amount raised; transfers outside any
+ * graduation are recorded as UNATTRIBUTED. Entries are appended to one R2
+ * document per UTC day (marketplace/fees/<YYYY-MM-DD>.json) and the block
+ * cursors live in the ecosystem state document marketplace/fees/cursors.json.
+ *
+ * MISSING and UNDERPAID entries stay outstanding in the state document until
+ * later transfers cover the shortfall or an operator resolves them. Only a
+ * transfer from one of the launch's payers (the launch token, the marketplace,
+ * or a sender of its graduation fee) counts, and only up to what is owed; a
+ * partial payment is recorded as UNDERPAID and the remainder stays outstanding.
+ */
+export class FeeLedger {
+    private env: EcosystemEnv;
+    private chains: ChainRegistry;
+    private indexer: LaunchIndexer;
+    private document: StateDocument<FeeState>;
+
+    constructor(
+        env: EcosystemEnv,
+        chains: ChainRegistry = new ChainRegistry(env),
+        indexer: LaunchIndexer = new LaunchIndexer(env, chains)
+    ) {
+        this.env = env;
+        this.chains = chains;
+        this.indexer = indexer;
+        this.document = new StateDocument<FeeState>(env, STATE_KEY, {
+            empty: () => ({ cursors: {}, outstanding: {} }),
+            parse: text => {
+                const state = JSON.parse(text) as Partial<FeeState>;
+                const outstanding = Object.values(state.outstanding ?? {}).map(e => ({
+                    ...reviveEntry(e),
+                    payers: e.payers ?? (e.tokenAddress ? [e.tokenAddress.toLowerCase()] : [])
+                }));
+                return { cursors: state.cursors ?? {}, outstanding: Object.fromEntries(outstanding.map(e => [e.id, e])) };
+            },
+            serialize: state => serializeWithBigInt(state)
+        });
+    }
+
+    /**
+     * Chains with a marketplace, fee receiver and fee token configured
+     */
+    async getChains(): Promise<ChainConfig[]> {
+        const chains = await this.chains.getChainsFor("marketplace");
+        return chains.filter(c => c.contracts.feeReceiver && c.contracts.feeToken);
+    }
+
+    /**
+     * Entries recorded for one UTC day, in the order they were reconciled
+     */
+    async getDay(date: string): Promise<FeeLedgerEntry[]> {
+        const object = await this.env.ECOSYSTEM_BUCKET.get(DAY_KEY_PREFIX + date + ".json");
+        if (!object) return [];
+        return (JSON.parse(await object.text()) as FeeLedgerEntry[]).map(reviveEntry);
+    }
+
+    /**
+     * Entries with `at` in [since, until], oldest day first
+     */
+    async getEntries(since: number, until: number = Date.now()): Promise<FeeLedgerEntry[]> {
+        const entries: FeeLedgerEntry[] = [];
+        for (let day = Date.parse(ledgerDate(since)); day <= until; day += DAY_MS) {
+            entries.push(...await this.getDay(ledgerDate(day)));
+        }
+        return entries.filter(e => e.at >= since && e.at <= until);
+    }
+
+    /**
+     * MISSING and UNDERPAID entries still owed, oldest first
+     */
+    async getOutstanding(): Promise<FeeLedgerEntry[]> {
+        const { outstanding } = await this.document.read();
+        return Object.values(outstanding).sort((a, b) => a.at - b.at);
+    }
+
+    /**
+     * Stop tracking an outstanding entry (settled off-chain or written off)
+     * Returns the entry, or null when it is not outstanding
+     */
+    async resolveOutstanding(id: string): Promise<FeeLedgerEntry | null> {
+        return this.document.update(state => {
+            const entry = state.outstanding[id] ?? null;
+            delete state.outstanding[id];
+            return entry;
+        });
+    }
+
+    /**
+     * Reconcile fee transfers up to the launch indexer's cursor on every configured chain
+     */
+    async sync(): Promise<FeeSyncResult> {
+        const deployments = await this.getChains();
+        if (deployments.length === 0) return { entries: [], cursors: {} };
+
+        const [{ cursors }, launchCursors, completed] = await Promise.all([
+            this.document.read(),
+            this.indexer.getCursors(),
+            this.indexer.getCompletedLaunches()
+        ]);
+
+        const scans: FeeScan[] = [];
+        for (const chain of deployments) {
+            const indexed = launchCursors[chain.chainId];
+            if (indexed === undefined) continue;
+            scans.push(await this.scan(chain, cursors[chain.chainId], indexed));
+        }
+
+        const feeBps = loadFeeBps(this.env);
+
+        return this.document.update(async state => {
+            const added: FeeLedgerEntry[] = [];
+
+            for (const scan of scans) {
+                const from = Math.max((state.cursors[scan.chainId] ?? -1) + 1, scan.fromBlock);
+                if (from > scan.toBlock) continue;
+
+                const inRange = (block: number | undefined) => block !== undefined && block >= from && block <= scan.toBlock;
+                const unmatched = scan.transfers.filter(t => inRange(t.block));
+
+                for (const launch of completed) {
+                    if (launch.chainId !== scan.chainId || !inRange(launch.graduationBlock)) continue;
+
+                    const paid = unmatched.filter(t => t.txHash === launch.graduationTx);
+                    paid.forEach(t => unmatched.splice(unmatched.indexOf(t), 1));
+                    const entry = launchEntry(launch, feeBps, paid.reduce((sum, t) => sum + t.amount, 0n));
+                    if (OUTSTANDING_STATUSES.includes(entry.status)) {
+                        const payers = [launch.tokenAddress.toLowerCase(), ...paid.map(t => t.from)];
+                        if (scan.marketplace) payers.push(scan.marketplace);
+                        state.outstanding[entry.id] = { ...entry, payers: [...new Set(payers)] };
+                    }
+                    added.push(entry);
+                }
+
+                for (const transfer of unmatched) {
+                    const at = scan.timestamps.get(transfer.block) ?? Date.now();
+
+                    // A later transfer from a launch's payer pays down its shortfall:
+                    // an exact payment first, otherwise the oldest shortfall it does not exceed
+                    const linked = Object.values(state.outstanding)
+                        .filter(e => e.chainId === scan.chainId && e.payers.includes(transfer.from) && transfer.amount > 0n
+                            && reconcileFee(-e.difference, transfer.amount) !== "OVERPAID")
+                        .sort((a, b) => a.at - b.at);
+                    const owed = linked.find(e => reconcileFee(-e.difference, transfer.amount) === "MATCHED") ?? linked[0];
+                    const expected = owed ? -owed.difference : 0n;
+                    const status = owed ? reconcileFee(expected, transfer.amount) : "UNATTRIBUTED";
+
+                    if (owed && status === "UNDERPAID") {
+                        owed.collectedFee += transfer.amount;
+                        owed.difference += transfer.amount;
+                        owed.status = "UNDERPAID";
+                    } else if (owed) {
+                        delete state.outstanding[owed.id];
+                    }
+
+                    added.push({
+                        id: `${scan.chainId}:${transfer.txHash}:${transfer.logIndex}`,
+                        date: ledgerDate(at),
+                        at,
+                        chainId: scan.chainId,
+                        tokenAddress: owed?.tokenAddress ?? null,
+                        symbol: owed?.symbol ?? null,
+                        txHash: transfer.txHash,
+                        raised: 0n,
+                        expectedFee: expected,
+                        collectedFee: transfer.amount,
+                        difference: transfer.amount - expected,
+                        status
+                    });
+                }
+
+                state.cursors[scan.chainId] = scan.toBlock;
+            }
+
+            if (added.length > 0) await this.append(added);
+            return { entries: added, cursors: state.cursors };
+        });
+    }
+
+    private async scan(chain: ChainConfig, cursor: number | undefined, indexed: number): Promise<FeeScan> {
+        const fromBlock = cursor === undefined ? this.startBlock(indexed) : cursor + 1;
+        const toBlock = Math.min(indexed, fromBlock + BLOCKS_PER_QUERY * MAX_QUERIES_PER_SYNC - 1);
+        const scan: FeeScan = {
+            chainId: chain.chainId,
+            marketplace: chain.contracts.marketplace?.toLowerCase() ?? null,
+            transfers: [],
+            timestamps: new Map(),
+            fromBlock,
+            toBlock
+        };
+        if (fromBlock > toBlock) return scan;
+
+        const client = this.chains.getClient(chain);
+        const receiverTopic = "0x" + chain.contracts.feeReceiver!.replace(/^0x/, "").toLowerCase().padStart(64, "0");
+
+        const ranges: RpcRequest[] = [];
+        for (let start = fromBlock; start <= toBlock; start += BLOCKS_PER_QUERY) {
+            ranges.push({
+                method: "eth_getLogs",
+                params: [{
+                    address: chain.contracts.feeToken,
+                    topics: [TRANSFER_TOPIC, null, receiverTopic],
+                    fromBlock: "0x" + start.toString(16),
+                    toBlock: "0x" + Math.min(start + BLOCKS_PER_QUERY - 1, toBlock).toString(16)
+                }]
+            });
+        }
+
+        scan.transfers = (await client.batch<RpcLog[]>(ranges)).flat().map(log => ({
+            txHash: log.transactionHash.toLowerCase(),
+            logIndex: Number(log.logIndex),
+            block: Number(log.blockNumber),
+            from: "0x" + log.topics[1].slice(-40).toLowerCase(),
+            amount: BigInt("0x" + splitWords(log.data)[0])
+        }));
+
+        const blocks = [...new Set(scan.transfers.map(t => t.block))];
+        const headers = await client.batch<{ timestamp: string } | null>(blocks.map(block => ({
+            method: "eth_getBlockByNumber",
+            params: ["0x" + block.toString(16), false]
+        })));
+        blocks.forEach((block, i) => {
+            if (headers[i]) scan.timestamps.set(block, Number(headers[i]!.timestamp) * 1000);
+        });
+
+        return scan;
+    }
+
+    private startBlock(indexed: number): number {
+        const configured = Number(this.env.MARKETPLACE_START_BLOCK);
+        if (Number.isInteger(configured) && configured > 0) return configured;
+        return Math.max(0, indexed - DEFAULT_START_LOOKBACK_BLOCKS);
+    }
+
+    /**
+     * Append entries to their day documents; entries already recorded are
+     * skipped so a retried update does not duplicate them
+     */
+    private async append(entries: FeeLedgerEntry[]): Promise<void> {
+        const byDate = new Map<string, FeeLedgerEntry[]>();
+        for (const entry of entries) {
+            byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), entry]);
+        }
+
+        for (const [date, additions] of byDate) {
+            const day = await this.getDay(date);
+            const recorded = new Set(day.map(e => e.id));
+            day.push(...additions.filter(e => !recorded.has(e.id)));
+            await this.env.ECOSYSTEM_BUCKET.put(DAY_KEY_PREFIX + date + ".json", serializeWithBigInt(day));
+        }
+    }
+}
+
+function launchEntry(launch: BondcurveLaunch, feeBps: bigint, collected: bigint): FeeLedgerEntry {
+    const at = launch.completedAt ?? launch.createdAt;
+    const expected = expectedFee(launch.raised, feeBps);
+
+    return {
+        id: `${launch.chainId}:${launch.tokenAddress}`,
+        date: ledgerDate(at),
+        at,
+        chainId: launch.chainId!,
+        tokenAddress: launch.tokenAddress,
+        symbol: launch.symbol,
+        txHash: launch.graduationTx ?? null,
+        raised: launch.raised,
+        expectedFee: expected,
+        collectedFee: collected,
+        difference: collected - expected,
+        status: reconcileFee(expected, collected)
+    };
+}
+
+/**
+ * Alerts for fee entries that did not reconcile:
+ * MISSING (HIGH), UNDERPAID (MEDIUM), OVERPAID and UNATTRIBUTED (LOW)
+ */
+export function checkFeeAlerts(entries: FeeLedgerEntry[], now: number = Date.now()): Alert[] {
+    const severities: Partial<Record<FeeReconciliationStatus, Alert["severity"]>> = {
+        MISSING: "HIGH",
+        UNDERPAID: "MEDIUM",
+        OVERPAID: "LOW",
+        UNATTRIBUTED: "LOW"
+    };
+
+    return entries.flatMap(entry => {
+        const severity = severities[entry.status];
+        if (!severity) return [];
+
+        const subject = entry.symbol ? `Launch ${entry.symbol} fee` : `Transfer ${entry.txHash} to the fee receiver`;
+        return [{
+            id: `MARKETPLACE-FEE-${entry.id}`,
+            type: `FEE_${entry.status}`,
+            source: "MARKETPLACE",
+            subject: entry.tokenAddress ?? entry.txHash ?? undefined,
+            severity,
+            message: `${subject} ${entry.status.toLowerCase()}: expected ${formatTokenAmount(entry.expectedFee)} CAMP, collected ${formatTokenAmount(entry.collectedFee)} CAMP`,
+            data: { ...entry },
+            timestamp: now,
+            acknowledged: false
+        }];
+    });
+}
@@ -3,16 +3,33 @@
 
 import type {
     RiskStatus,
-    RiskLevel,
-    Alert,
     LayerZeroMessage,
     GovernorAgentReport,
-    EcosystemEnv
+    EcosystemEnv,
+    Alert,
+    CrossChainMessageRecord,
+    CrossChainStatus,
+    SupplyInvariantResult,
+    EmergencyState,
+    PauseProposal
 } from './types';
 import { USDGBAgent } from './usdgb-agent';
 import { USDcaAgent } from './usdca-agent';
 import { MarketplaceAgent } from './marketplace-agent';
-import { serializeWithBigInt } from './utils';
+import { RiskPolicyStore } from './risk-policy';
+import {
+    RiskEngine,
+    USDGBRiskSignals,
+    USDcaRiskSignals,
+    LiquidityRiskSignals,
+    CrossChainRiskSignals,
+    SupplyInvariantRiskSignals
+} from './risk-engine';
+import { SupplyLedger, evaluateSupplyInvariant, checkSupplyInvariantAlerts } from './supply-ledger';
+import { CrossChainVerifier, checkCrossChainAlerts } from './crosschain-verifier';
+import { EmergencyPauseService } from './emergency-pause';
+import { ChainRegistry } from './chains';
+import { sourceUnavailableAlert } from './alert-store';
 
 /**
  * Governor Agent: Risk oversight and emergency response
@@ -23,8 +40,8 @@ import { serializeWithBigInt } from './utils';
  * 
  * Responsibilities:
  * - Aggregate risk status from all agents
- * - Verify cross-chain messages
- * - Emergency pause capability (MVP: prepare tx for multisig)
+ * - Verify cross-chain messages against both LayerZero endpoints
+ * - Emergency pause capability (Safe proposals, signed by the owners)
  * - Alert routing to appropriate channels
  */
 export class GovernorAgent {
@@ -32,171 +49,150 @@ export class GovernorAgent {
     private usdgbAgent: USDGBAgent;
     private usdcaAgent: USDcaAgent;
     private marketplaceAgent: MarketplaceAgent;
-    private emergencyStatus: "STANDBY" | "ACTIVE" | "PAUSED" = "STANDBY";
-    private messagesVerified = 0;
-
-    // Gold reserve thresholds (USDGB)
-    private readonly RESERVE_THRESHOLDS = {
-        green: 1.05,   // >= 105% reserved
-        yellow: 1.02,  // >= 102%
-        orange: 1.00,  // >= 100%
-        red: 0.98      // < 98% = CRITICAL
-    };
-
-    // Peg deviation thresholds (both stablecoins)
-    private readonly PEG_THRESHOLDS = {
-        green: 0.005,  // 0.5%
-        yellow: 0.01,  // 1%
-        orange: 0.02,  // 2%
-        red: 0.05      // 5%
-    };
+    private engine: RiskEngine;
+    private chains: ChainRegistry;
+    private crossChain: CrossChainVerifier;
+    private crossChainStatus: Promise<CrossChainStatus> | null = null;
+    private supplyInvariant: Promise<SupplyInvariantResult> | null = null;
+    private emergency: EmergencyPauseService;
+    private emergencyState: Promise<EmergencyState> | null = null;
 
     constructor(
         env: EcosystemEnv,
         usdgbAgent: USDGBAgent,
         usdcaAgent: USDcaAgent,
-        marketplaceAgent: MarketplaceAgent
+        marketplaceAgent: MarketplaceAgent,
+        policy?: RiskPolicyStore,
+        chains?: ChainRegistry
     ) {
         this.env = env;
         this.usdgbAgent = usdgbAgent;
         this.usdcaAgent = usdcaAgent;
         this.marketplaceAgent = marketplaceAgent;
+        this.chains = chains ?? new ChainRegistry(env);
+        this.crossChain = new CrossChainVerifier(env, this.chains);
+        this.emergency = new EmergencyPauseService(env, this.chains);
+        this.engine = new RiskEngine(policy ?? new RiskPolicyStore(env), [
+            new USDGBRiskSignals(usdgbAgent),
+            new USDcaRiskSignals(usdcaAgent),
+            new LiquidityRiskSignals("USDGB", usdgbAgent),
+            new LiquidityRiskSignals("USDca", usdcaAgent),
+            new CrossChainRiskSignals(this),
+            new SupplyInvariantRiskSignals(this)
+        ]);
     }
 
     /**
      * Get aggregated risk status
+     * Every category comes from the risk engine, with the signal that drove it
      */
     async getRiskStatus(): Promise<RiskStatus> {
-        // USDGB: Gold reserve backing ratio
-        const goldReserveRatio = await this.usdgbAgent.getGoldReserveRatio();
-
-        // USDca: Delta-neutral collateralization  
-        const deltaCollateralization = await this.usdcaAgent.getDeltaCollateralization();
-
-        // Peg deviations for both stablecoins
-        const usdgbPegDeviation = await this.usdgbAgent.getPegDeviation();
-        const usdcaPegDeviation = await this.usdcaAgent.getPegDeviation();
-
-        // Assess individual risk categories
-        const collateralRisk = this.assessReserveRisk(goldReserveRatio);
-        const pegRisk = this.assessPegRisk(Math.max(usdgbPegDeviation, usdcaPegDeviation));
-        const liquidityRisk: RiskLevel = "GREEN"; // TODO: Implement
-        const crossChainRisk: RiskLevel = "GREEN"; // TODO: Implement
-
-        // Aggregate alerts from all agents
-        const usdgbAlerts = await this.usdgbAgent.checkAlerts();
-        const usdcaAlerts = await this.usdcaAgent.checkAlerts();
-        const marketplaceAlerts = await this.marketplaceAgent.checkAlerts();
-        const allAlerts = [...usdgbAlerts, ...usdcaAlerts, ...marketplaceAlerts];
-
-        // Overall risk is the worst of all categories
-        const categories = {
-            collateral: collateralRisk,
-            peg: pegRisk,
-            liquidity: liquidityRisk,
-            crossChain: crossChainRisk
-        };
-        const overall = this.getWorstRisk(Object.values(categories));
+        const evaluation = await this.engine.evaluate();
+
+        // Aggregate alerts from all agents; one that cannot be read reports itself unavailable
+        const [usdgbAlerts, usdcaAlerts, marketplaceAlerts] = await Promise.all([
+            this.getAgentAlerts("USDGB", () => this.usdgbAgent.checkAlerts()),
+            this.getAgentAlerts("USDCA", () => this.usdcaAgent.checkAlerts()),
+            this.getAgentAlerts("MARKETPLACE", () => this.marketplaceAgent.checkAlerts())
+        ]);
+        const crossChainAlerts = await this.getCrossChainAlerts();
+        const supplyAlerts = await this.getSupplyInvariant()
+            .then(checkSupplyInvariantAlerts)
+            .catch(error => {
+                console.error("[GovernorAgent] Supply invariant unavailable:", error);
+                return [sourceUnavailableAlert("GOVERNOR", error, { subject: "supplyInvariant", covers: ["SUPPLY_INVARIANT_"] })];
+            });
+        const allAlerts = [...usdgbAlerts, ...usdcaAlerts, ...marketplaceAlerts, ...crossChainAlerts, ...supplyAlerts];
 
         return {
-            overall,
-            categories,
+            overall: evaluation.overall,
+            categories: evaluation.categories,
             alerts: allAlerts,
-            lastUpdated: Date.now()
+            lastUpdated: Date.now(),
+            explanations: evaluation.explanations
         };
     }
 
     /**
-     * Assess gold reserve risk level (USDGB)
+     * Verify a LayerZero message against PacketSent/PacketDelivered on both endpoints
+     * The message is tracked until delivered; the returned record carries the outcome
      */
-    private assessReserveRisk(ratio: number): RiskLevel {
-        if (ratio >= this.RESERVE_THRESHOLDS.green) return "GREEN";
-        if (ratio >= this.RESERVE_THRESHOLDS.yellow) return "YELLOW";
-        if (ratio >= this.RESERVE_THRESHOLDS.orange) return "ORANGE";
-        return "RED";
+    async verifyMessage(msg: LayerZeroMessage): Promise<CrossChainMessageRecord> {
+        const record = await this.crossChain.verify(msg);
+        this.crossChainStatus = null;
+        return record;
     }
 
     /**
-     * Assess peg deviation risk
+     * Re-check tracked messages (once per agent instance)
      */
-    private assessPegRisk(deviation: number): RiskLevel {
-        if (deviation <= this.PEG_THRESHOLDS.green) return "GREEN";
-        if (deviation <= this.PEG_THRESHOLDS.yellow) return "YELLOW";
-        if (deviation <= this.PEG_THRESHOLDS.orange) return "ORANGE";
-        return "RED";
+    async getCrossChainStatus(): Promise<CrossChainStatus> {
+        this.crossChainStatus ??= this.crossChain.refresh();
+        return this.crossChainStatus;
     }
 
     /**
-     * Get worst risk level
+     * Check USDGB supply conservation across chains (once per agent instance)
+     * Sum of per-chain supply plus PENDING OFT transfers must equal the mint/burn ledger,
+     * so every bridge transfer has to be submitted to verifyMessage() to be counted
      */
-    private getWorstRisk(levels: RiskLevel[]): RiskLevel {
-        const order: RiskLevel[] = ["GREEN", "YELLOW", "ORANGE", "RED"];
-        let worstIndex = 0;
-        for (const level of levels) {
-            const index = order.indexOf(level);
-            if (index > worstIndex) worstIndex = index;
-        }
-        return order[worstIndex];
+    async getSupplyInvariant(): Promise<SupplyInvariantResult> {
+        this.supplyInvariant ??= this.checkSupplyInvariant();
+        return this.supplyInvariant;
     }
 
-    /**
-     * Verify LayerZero cross-chain message
-     */
-    async verifyMessage(msg: LayerZeroMessage): Promise<boolean> {
-        // TODO: Implement DVN verification when integrated
-        // For MVP, basic structure validation
+    private async checkSupplyInvariant(): Promise<SupplyInvariantResult> {
+        // The reads are not atomic: a transfer that lands between them shows up
+        // as a discrepancy that clears on the next run
+        const crossChain = await this.getCrossChainStatus();
+        const [supply, deployments, ledgerSupply] = await Promise.all([
+            this.usdgbAgent.getCurrentSupply(),
+            this.chains.getChainsFor("usdgb"),
+            new SupplyLedger(this.env, "USDGB").getNetSupply()
+        ]);
+
+        return evaluateSupplyInvariant(supply, deployments, "usdgb", crossChain.pending, ledgerSupply);
+    }
 
-        if (!msg.guid || !msg.srcEid || !msg.dstEid) {
-            return false;
+    private async getAgentAlerts(source: NonNullable<Alert["source"]>, check: () => Promise<Alert[]>): Promise<Alert[]> {
+        try {
+            return await check();
+        } catch (error) {
+            console.error(`[GovernorAgent] ${source} alerts unavailable:`, error);
+            return [sourceUnavailableAlert(source, error)];
         }
-
-        this.messagesVerified++;
-
-        // Log verified message
-        await this.logMessage(msg);
-
-        return true;
     }
 
-    /**
-     * Log verified message to R2
-     */
-    private async logMessage(msg: LayerZeroMessage): Promise<void> {
-        const key = `crosschain/${msg.srcEid}-${msg.dstEid}/${msg.guid}.json`;
-        await this.env.ECOSYSTEM_BUCKET.put(key, serializeWithBigInt({
-            ...msg,
-            verifiedAt: Date.now()
-        }));
+    private async getCrossChainAlerts(): Promise<Alert[]> {
+        try {
+            return checkCrossChainAlerts(await this.getCrossChainStatus());
+        } catch (error) {
+            // The risk engine grades the crossChain category; this keeps its open alerts standing
+            console.error("[GovernorAgent] Cross-chain status unavailable:", error);
+            return [sourceUnavailableAlert("GOVERNOR", error, { subject: "crossChain", covers: ["CROSSCHAIN_"] })];
+        }
     }
 
     /**
-     * Prepare emergency pause transaction (MVP: for multisig)
+     * Propose an emergency pause() to the governance Safe
+     * Returns the proposal with its Safe transaction and safeTxHash for the owners to sign
      */
     async prepareEmergencyPause(
         contractAddress: string,
-        reason: string
-    ): Promise<{ txData: string; reason: string; preparedAt: number }> {
-        // ABI for pause function
-        const pauseSelector = "0x8456cb59"; // pause()
-
-        const pauseTx = {
-            txData: pauseSelector,
-            to: contractAddress,
-            reason,
-            preparedAt: Date.now(),
-            preparedBy: "governor-agent",
-            status: "AWAITING_MULTISIG"
-        };
-
-        // Store for multisig pickup
-        await this.env.ECOSYSTEM_BUCKET.put(
-            `emergency/pending/${Date.now()}.json`,
-            serializeWithBigInt(pauseTx)
-        );
-
-        this.emergencyStatus = "ACTIVE";
+        reason: string,
+        actor: string = "governor-agent"
+    ): Promise<PauseProposal> {
+        const proposal = await this.emergency.propose(contractAddress, reason, actor);
+        this.emergencyState = null;
+        return proposal;
+    }
 
-        return pauseTx;
+    /**
+     * Emergency status and proposals, reconciled with the chain (once per agent instance)
+     */
+    async getEmergencyState(): Promise<EmergencyState> {
+        this.emergencyState ??= this.emergency.refresh();
+        return this.emergencyState;
     }
 
     /**
@@ -204,11 +200,15 @@ export class GovernorAgent {
      */
     async generateReport(): Promise<GovernorAgentReport> {
         const riskStatus = await this.getRiskStatus();
+        const crossChain = await this.getCrossChainStatus().catch(() => null);
+        const supplyInvariant = await this.getSupplyInvariant().catch(() => null);
+        const emergency = await this.getEmergencyState().catch(() => null);
 
         return {
             riskStatus,
-            crossChainMessagesVerified: this.messagesVerified,
-            emergencyStatus: this.emergencyStatus
+            crossChainMessagesVerified: crossChain?.messagesVerified ?? 0,
+            supplyInvariant,
+            emergencyStatus: emergency?.status ?? "STANDBY"
         };
     }
 }
@@ -8,15 +8,43 @@ export { MarketplaceAgent } from './marketplace-agent';
 export { GovernorAgent } from './governor-agent';
 export { ObserverAgent } from './observer-agent';
 export { MemUClient, createMemUClient } from './memu-client';
+export { JsonRpcClient, RpcError } from './rpc';
+export { ChainRegistry } from './chains';
+export { SupplySnapshotStore, checkSupplyReadAlerts } from './snapshot-store';
+export { MedianPriceOracle, UniswapV3TwapOracle, ChainlinkAggregatorOracle, createPegOracle } from './price-oracle';
+export { ReserveAttestationService, canonicalAttestationPayload } from './reserve-attestation';
+export { DeltaNeutralBook, loadDeltaNeutralMetrics } from './delta-neutral';
+export { AlertStore, AlertStoreError, alertFingerprint } from './alert-store';
+export { RiskPolicyStore, RiskPolicyError, DEFAULT_RISK_POLICY, validateRiskPolicy, assessUpperBound, assessLowerBound } from './risk-policy';
+export { RiskEngine, USDGBRiskSignals, USDcaRiskSignals, LiquidityRiskSignals, CrossChainRiskSignals, SupplyInvariantRiskSignals, worstRisk, type RiskSignalProvider } from './risk-engine';
+export { CrossChainVerifier, CrossChainError, checkCrossChainAlerts, decodePacket, decodeOftMessage } from './crosschain-verifier';
+export { SupplyLedger, SupplyLedgerError, evaluateSupplyInvariant, checkSupplyInvariantAlerts } from './supply-ledger';
+export { EmergencyPauseService, EmergencyPauseError, computeSafeTxHash, recoverSafeSigner } from './emergency-pause';
+export { EcosystemStateObject, EcosystemState, StateDocument, StateConflictError } from './ecosystem-state';
+export { LaunchIndexer, linearPrice, launchProgress } from './launch-indexer';
+export { checkLaunchAlerts, loadLaunchAlertRules, DEFAULT_LAUNCH_ALERT_RULES } from './launch-alerts';
+export { FeeLedger, checkFeeAlerts, feeLedgerToCsv, reconcileFee } from './fee-ledger';
+export { ReportStore, ReportStoreError } from './report-store';
+export { summarizeDay, formatDailyBrief, dailyBriefView } from './daily-brief';
+export { operationalReportView, renderPlainText, renderDiscordEmbeds, renderTelegramMarkdownV2, renderSlackBlocks, escapeMarkdownV2, chunkText } from './report-format';
+export { WebhookDispatcher, WebhookError, loadWebhookEndpoints, signWebhookPayload, verifyWebhookSignature } from './webhooks';
+export { NotificationRouter, loadNotificationPolicy, defaultNotificationPolicy, matchesRule, isQuietTime, formatAlertLine } from './notification-router';
+export { SlackError, slackAlertBlocks, verifySlackSignature, parseSlackInteraction, handleSlackInteraction } from './slack';
+export { LiquidityMonitor, UniswapV3LiquidityPool, AerodromeLiquidityPool, checkLiquidityAlerts } from './liquidity-monitor';
 // PromoterAgent is isolated - import separately from promoter-agent.ts
 
-import type { OperationalReport, EcosystemEnv } from './types';
+import type { OperationalReport, GovernorAgentReport, EcosystemEnv, EcosystemToken, EcosystemStatus, AlertOverview } from './types';
 import { USDGBAgent } from './usdgb-agent';
 import { USDcaAgent } from './usdca-agent';
 import { MarketplaceAgent } from './marketplace-agent';
 import { GovernorAgent } from './governor-agent';
 import { ObserverAgent } from './observer-agent';
-import { serializeWithBigInt } from './utils';
+import { ChainRegistry } from './chains';
+import { SupplySnapshotStore, type CompactionResult } from './snapshot-store';
+import { RiskPolicyStore } from './risk-policy';
+import { ReportStore } from './report-store';
+import { AlertStore } from './alert-store';
+import { summarizeDay, formatDailyBrief } from './daily-brief';
 
 /**
  * Ecosystem Manager: Coordinates all ecosystem agents
@@ -32,31 +60,45 @@ export class EcosystemManager {
     private usdgbAgent: USDGBAgent;
     private usdcaAgent: USDcaAgent;
     private marketplaceAgent: MarketplaceAgent;
-    private governorAgent: GovernorAgentWrapper;
+    private governorAgent: GovernorAgent;
     private observerAgent: ObserverAgent;
 
     constructor(env: EcosystemEnv) {
         this.env = env;
 
-        // Initialize agents
-        this.usdgbAgent = new USDGBAgent(env);
-        this.usdcaAgent = new USDcaAgent(env);
-        this.marketplaceAgent = new MarketplaceAgent(env);
+        // Initialize agents (chain agents share one chain registry and its RPC clients,
+        // and every agent grades against the same risk policy version)
+        const chains = new ChainRegistry(env);
+        const policy = new RiskPolicyStore(env);
+        this.usdgbAgent = new USDGBAgent(env, chains, policy);
+        this.usdcaAgent = new USDcaAgent(env, chains, policy);
+        this.marketplaceAgent = new MarketplaceAgent(env, chains);
         this.observerAgent = new ObserverAgent(env);
 
         // Governor needs references to token agents for risk aggregation
-        this.governorAgent = new GovernorAgentWrapper(
+        this.governorAgent = new GovernorAgent(
             env,
             this.usdgbAgent,
             this.usdcaAgent,
-            this.marketplaceAgent
+            this.marketplaceAgent,
+            policy,
+            chains
         );
     }
 
     /**
-     * Generate 4-hour operational report
+     * Generate 4-hour operational report and store it in the report history
      */
     async generate4HourReport(): Promise<OperationalReport> {
+        const report = await this.build4HourReport();
+        await this.storeReport(report);
+        return report;
+    }
+
+    /**
+     * Build a 4-hour operational report without storing it (ad-hoc requests)
+     */
+    async build4HourReport(): Promise<OperationalReport> {
         const [usdgb, usdca, marketplace, governor, observer] = await Promise.all([
             this.usdgbAgent.generateReport(),
             this.usdcaAgent.generateReport(),
@@ -78,12 +120,111 @@ export class EcosystemManager {
             summary: this.generateSummary(usdgb, usdca, marketplace, governor)
         };
 
-        // Store report
-        await this.storeReport(report);
+        return report;
+    }
+
+    /**
+     * Generate the 24h report: a roll-up of the last day's 4h reports
+     *
+     * The window is [now - 24h, now): the 4h report due at `now` fires on its
+     * own cron and may still be running, so it is left to the next day's brief.
+     * Produces a 4h report first when none was stored in the window.
+     */
+    async generateDailyReport(now: number = Date.now()): Promise<OperationalReport> {
+        const from = now - 24 * 60 * 60 * 1000;
+        const store = new ReportStore(this.env);
+
+        let reports = await store.getRange({ period: "4h", from, to: now - 1 });
+        if (reports.length === 0) reports = [await this.generate4HourReport()];
+
+        const [completed, feesCollected, feeLedger] = await Promise.all([
+            this.marketplaceAgent.getCompletedLaunches24h(),
+            this.marketplaceAgent.getFeesCollected24h(),
+            this.marketplaceAgent.getFeeLedger24h()
+        ]);
+
+        const latest = reports[reports.length - 1];
+        const report: OperationalReport = {
+            timestamp: now,
+            period: "24h",
+            agents: latest.agents,
+            summary: latest.summary,
+            daily: summarizeDay(reports, {
+                launchesCompleted: completed.length,
+                totalRaised: completed.reduce((sum, l) => sum + l.raised, 0n),
+                feesCollected,
+                feeDiscrepancies: (feeLedger ?? []).filter(e => e.status !== "MATCHED").length
+            }, from, now)
+        };
+        report.summary = formatDailyBrief(report);
 
+        await this.storeReport(report);
         return report;
     }
 
+    /**
+     * Quick status check: risk, emergency status and stablecoin pegs
+     */
+    async getStatus(): Promise<EcosystemStatus> {
+        const [usdgb, usdca, governor] = await Promise.all([
+            this.usdgbAgent.generateReport(),
+            this.usdcaAgent.generateReport(),
+            this.governorAgent.generateReport()
+        ]);
+
+        return {
+            status: "online",
+            risk: governor.riskStatus.overall,
+            emergency: governor.emergencyStatus,
+            usdgb: {
+                pegPrice: usdgb.pegPrice,
+                goldReserveRatio: usdgb.goldReserveRatio,
+                stakingAPR: usdgb.stakingAPR
+            },
+            usdca: {
+                pegPrice: usdca.pegPrice,
+                deltaCollateralization: usdca.deltaCollateralization,
+                fundingRateAPY: usdca.fundingRateAPY
+            },
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Alert records as stored, with the risk of the latest 4h report
+     * Read-only: the scheduled run syncs the store with the governor's alerts
+     * `state` (OPEN | ACKED | SNOOZED | RESOLVED) filters the records returned
+     */
+    async getAlerts(state?: string | null): Promise<AlertOverview> {
+        const [records, latest] = await Promise.all([
+            new AlertStore(this.env).list(),
+            this.getLatestReport()
+        ]);
+        const alerts = state ? records.filter(r => r.state === state.toUpperCase()) : records;
+        const riskStatus = latest?.agents?.governor?.riskStatus;
+
+        return {
+            count: alerts.length,
+            alerts,
+            risk: riskStatus?.overall ?? null,
+            categories: riskStatus?.categories ?? null,
+            assessedAt: latest?.timestamp ?? null
+        };
+    }
+
+    /**
+     * Report the scheduled run last stored as reports/latest.json
+     */
+    private async getLatestReport(): Promise<OperationalReport | null> {
+        try {
+            const object = await this.env.ECOSYSTEM_BUCKET.get("reports/latest.json");
+            return object ? JSON.parse(await object.text()) : null;
+        } catch (error) {
+            console.error("[Ecosystem] Failed to read the latest report:", error);
+            return null;
+        }
+    }
+
     /**
      * Generate summary from agent reports
      */
@@ -91,7 +232,7 @@ export class EcosystemManager {
         usdgb: Awaited<ReturnType<USDGBAgent['generateReport']>>,
         usdca: Awaited<ReturnType<USDcaAgent['generateReport']>>,
         marketplace: Awaited<ReturnType<MarketplaceAgent['generateReport']>>,
-        governor: Awaited<ReturnType<GovernorAgentWrapper['generateReport']>>
+        governor: GovernorAgentReport
     ): string {
         const riskEmoji = {
             GREEN: "🟢",
@@ -117,8 +258,15 @@ Emergency status: ${governor.emergencyStatus}
      * Store report to R2
      */
     private async storeReport(report: OperationalReport): Promise<void> {
-        const key = `reports/${report.period}/${report.timestamp}.json`;
-        await this.env.ECOSYSTEM_BUCKET.put(key, serializeWithBigInt(report));
+        await new ReportStore(this.env).put(report);
+    }
+
+    /**
+     * Apply supply snapshot retention for every stablecoin
+     */
+    async compactSnapshots(): Promise<CompactionResult[]> {
+        const tokens: EcosystemToken[] = ["USDGB", "USDca"];
+        return Promise.all(tokens.map(token => new SupplySnapshotStore(this.env, token).compact()));
     }
 
     /**
@@ -134,67 +282,3 @@ Emergency status: ${governor.emergencyStatus}
         };
     }
 }
-
-/**
- * Governor Agent Wrapper (updated for new token agents)
- */
-class GovernorAgentWrapper {
-    private env: EcosystemEnv;
-    private usdgbAgent: USDGBAgent;
-    private usdcaAgent: USDcaAgent;
-    private marketplaceAgent: MarketplaceAgent;
-    private emergencyStatus: "STANDBY" | "ACTIVE" | "PAUSED" = "STANDBY";
-    private messagesVerified = 0;
-
-    constructor(
-        env: EcosystemEnv,
-        usdgbAgent: USDGBAgent,
-        usdcaAgent: USDcaAgent,
-        marketplaceAgent: MarketplaceAgent
-    ) {
-        this.env = env;
-        this.usdgbAgent = usdgbAgent;
-        this.usdcaAgent = usdcaAgent;
-        this.marketplaceAgent = marketplaceAgent;
-    }
-
-    async generateReport() {
-        // Aggregate alerts from all agents
-        const usdgbAlerts = await this.usdgbAgent.checkAlerts();
-        const usdcaAlerts = await this.usdcaAgent.checkAlerts();
-        const marketplaceAlerts = await this.marketplaceAgent.checkAlerts();
-        const allAlerts = [...usdgbAlerts, ...usdcaAlerts, ...marketplaceAlerts];
-
-        // Determine risk levels
-        const usdgbReserve = await this.usdgbAgent.getGoldReserveRatio();
-        const usdcaPeg = await this.usdcaAgent.getPegDeviation();
-
-        type RiskLevel = "GREEN" | "YELLOW" | "ORANGE" | "RED";
-
-        const collateralRisk: RiskLevel = usdgbReserve >= 1.05 ? "GREEN" : usdgbReserve >= 1.02 ? "YELLOW" : usdgbReserve >= 1.0 ? "ORANGE" : "RED";
-        const pegRisk: RiskLevel = usdcaPeg <= 0.005 ? "GREEN" : usdcaPeg <= 0.01 ? "YELLOW" : usdcaPeg <= 0.02 ? "ORANGE" : "RED";
-
-        const riskLevels = [collateralRisk, pegRisk];
-        const overall = riskLevels.includes("RED") ? "RED" : riskLevels.includes("ORANGE") ? "ORANGE" : riskLevels.includes("YELLOW") ? "YELLOW" : "GREEN";
-
-        return {
-            riskStatus: {
-                overall: overall as RiskLevel,
-                categories: {
-                    collateral: collateralRisk,
-                    peg: pegRisk,
-                    liquidity: "GREEN" as RiskLevel,
-                    crossChain: "GREEN" as RiskLevel
-                },
-                alerts: allAlerts,
-                lastUpdated: Date.now()
-            },
-            crossChainMessagesVerified: this.messagesVerified,
-            emergencyStatus: this.emergencyStatus
-        };
-    }
-
-    async checkAlerts() {
-        return [];
-    }
-}
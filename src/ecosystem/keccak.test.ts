@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { keccak256, keccak256Utf8 } from './keccak';
+import { recoverAddress } from './secp256k1';
+
+describe('keccak256', () => {
+  it('matches Ethereum hashes', () => {
+    expect(keccak256Utf8('')).toBe('0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    expect(keccak256Utf8('Transfer(address,address,uint256)')).toBe('0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef');
+    expect(keccak256Utf8('pause()').slice(0, 10)).toBe('0x8456cb59');
+  });
+
+  it('absorbs inputs longer than one block', () => {
+    expect(keccak256('0x' + 'ab'.repeat(300))).toBe('0x315f259936b44c2fd956d917deacbaa548f17a9d26d17df4fa2bdec09966e007');
+    expect(keccak256(new Uint8Array(300).fill(0xab))).toBe(keccak256('0x' + 'ab'.repeat(300)));
+  });
+});
+
+describe('recoverAddress', () => {
+  it('recovers the signer of a secp256k1 signature', () => {
+    const hash = '0x' + 'ab'.repeat(32);
+    const signature = '0xd1c7644b82eb7651933c276c1c711f03d080b6a9388bcfd3e95361c4321bdd216d96c23f5d30b060e809840914794739cd23f47b8e714ef2c2379a6536e09e4c1c';
+
+    // Private key 1
+    expect(recoverAddress(hash, signature)).toBe('0x7e5f4552091a69125d5dfcb7b8c2659029395bdf');
+    expect(() => recoverAddress(hash, '0x' + '00'.repeat(65))).toThrow();
+  });
+});
@@ -0,0 +1,106 @@
+// Keccak-256 - Ethereum hashing (Web Crypto only offers SHA-3, which pads differently)
+// Part of ChiefOS Ecosystem Manager
+
+import { hexToBytes } from './utils';
+
+const MASK_64 = (1n << 64n) - 1n;
+const RATE_BYTES = 136;
+
+const ROUND_CONSTANTS = [
+    0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+    0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+    0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+    0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+    0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+    0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n
+];
+
+/**
+ * Rotation offsets indexed [x + 5y]
+ */
+const ROTATIONS = [
+    0, 1, 62, 28, 27,
+    36, 44, 6, 55, 20,
+    3, 10, 43, 25, 39,
+    41, 45, 15, 21, 8,
+    18, 2, 61, 56, 14
+].map(BigInt);
+
+function rotl(value: bigint, shift: bigint): bigint {
+    if (shift === 0n) return value;
+    return ((value << shift) | (value >> (64n - shift))) & MASK_64;
+}
+
+function permute(state: bigint[]): void {
+    const c = new Array<bigint>(5);
+    const b = new Array<bigint>(25);
+
+    for (const rc of ROUND_CONSTANTS) {
+        // θ
+        for (let x = 0; x < 5; x++) {
+            c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+        }
+        for (let x = 0; x < 5; x++) {
+            const d = c[(x + 4) % 5] ^ rotl(c[(x + 1) % 5], 1n);
+            for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+        }
+
+        // ρ and π
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+            }
+        }
+
+        // χ
+        for (let y = 0; y < 25; y += 5) {
+            for (let x = 0; x < 5; x++) {
+                state[x + y] = b[x + y] ^ (~b[(x + 1) % 5 + y] & MASK_64 & b[(x + 2) % 5 + y]);
+            }
+        }
+
+        // ι
+        state[0] ^= rc;
+    }
+}
+
+/**
+ * Keccak-256 of bytes (or a hex string), as 0x-prefixed hex
+ */
+export function keccak256(input: Uint8Array | string): string {
+    const data = typeof input === "string" ? hexToBytes(input) : input;
+
+    // Multi-rate padding with the original Keccak domain byte (0x01)
+    const length = Math.floor(data.length / RATE_BYTES) * RATE_BYTES + RATE_BYTES;
+    const padded = new Uint8Array(length);
+    padded.set(data);
+    padded[data.length] ^= 0x01;
+    padded[length - 1] ^= 0x80;
+
+    const state = new Array<bigint>(25).fill(0n);
+    for (let offset = 0; offset < length; offset += RATE_BYTES) {
+        for (let lane = 0; lane < RATE_BYTES / 8; lane++) {
+            let value = 0n;
+            for (let i = 7; i >= 0; i--) {
+                value = (value << 8n) | BigInt(padded[offset + lane * 8 + i]);
+            }
+            state[lane] ^= value;
+        }
+        permute(state);
+    }
+
+    let hex = "0x";
+    for (let lane = 0; lane < 4; lane++) {
+        for (let i = 0; i < 8; i++) {
+            hex += Number((state[lane] >> BigInt(8 * i)) & 0xffn).toString(16).padStart(2, "0");
+        }
+    }
+    return hex;
+}
+
+/**
+ * Keccak-256 of a UTF-8 string (event and function signatures)
+ */
+export function keccak256Utf8(text: string): string {
+    return keccak256(new TextEncoder().encode(text));
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { checkLaunchAlerts, loadLaunchAlertRules, worstSellOff, DEFAULT_LAUNCH_ALERT_RULES } from './launch-alerts';
+import { AlertStore } from './alert-store';
+import type { BondcurveLaunch, EcosystemEnv, LaunchTrade } from './types';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+const E18 = 10n ** 18n;
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15, 12, 0, 0);
+
+function launch(overrides: Partial<BondcurveLaunch> = {}): BondcurveLaunch {
+  return {
+    tokenAddress: '0x' + 'a1'.repeat(20),
+    name: 'Camp Cat',
+    symbol: 'CCAT',
+    currentSupply: 400n * E18,
+    maxSupply: 1000n * E18,
+    currentPrice: 0n,
+    raised: 30n * E18,
+    progressPercent: 40,
+    status: 'ACTIVE',
+    createdAt: NOW - 2 * HOUR,
+    lastTradeAt: NOW - HOUR,
+    ...overrides,
+  };
+}
+
+function trade(side: LaunchTrade['side'], amount: bigint, minutesAgo: number): LaunchTrade {
+  return { side, trader: '0x' + 'b0'.repeat(20), amount: amount * E18, value: 0n, at: NOW - minutesAgo * 60 * 1000, block: 0 };
+}
+
+const types = (launches: BondcurveLaunch[]) =>
+  checkLaunchAlerts(launches, DEFAULT_LAUNCH_ALERT_RULES, NOW).map(a => [a.type, a.severity]);
+
+describe('checkLaunchAlerts', () => {
+  it('raises nothing for a healthy launch', () => {
+    expect(types([launch({ trades: [trade('BUY', 10n, 60)] })])).toEqual([]);
+  });
+
+  it('escalates stalled launches with idle time', () => {
+    expect(types([launch({ lastTradeAt: NOW - 30 * HOUR })])).toEqual([['LAUNCH_STALLED', 'LOW']]);
+    expect(types([launch({ lastTradeAt: undefined, createdAt: NOW - 80 * HOUR })])).toEqual([['LAUNCH_STALLED', 'MEDIUM']]);
+  });
+
+  it('grades whale buys by share of max supply', () => {
+    expect(types([launch({ trades: [trade('BUY', 60n, 30)] })])).toEqual([['LAUNCH_WHALE_BUY', 'MEDIUM']]);
+
+    const [alert] = checkLaunchAlerts([launch({ trades: [trade('BUY', 200n, 30)] })], DEFAULT_LAUNCH_ALERT_RULES, NOW);
+    expect(alert).toMatchObject({ type: 'LAUNCH_WHALE_BUY', severity: 'HIGH', source: 'MARKETPLACE', subject: '0x' + 'a1'.repeat(20) });
+    expect(alert.message).toContain('20.0% of max supply');
+  });
+
+  it('measures sell-offs inside the window against the supply before it', () => {
+    // 500 before the window, 150 net sold in 40 minutes (30%); the earlier sell is outside the window
+    const trades = [trade('SELL', 50n, 300), trade('SELL', 100n, 60), trade('BUY', 20n, 40), trade('SELL', 70n, 20)];
+    const selling = launch({ currentSupply: 350n * E18, trades });
+
+    expect(worstSellOff(selling, 60)).toMatchObject({ sold: 150n * E18, share: 0.3 });
+    expect(types([selling])).toEqual([['LAUNCH_SELL_OFF', 'HIGH']]);
+    expect(types([launch({ currentSupply: 100n * E18, trades: [trade('SELL', 300n, 10)] })])).toEqual([['LAUNCH_SELL_OFF', 'CRITICAL']]);
+  });
+
+  it('flags failed launches by whether buyers hold funds', () => {
+    expect(types([launch({ status: 'FAILED', failedAt: NOW })])).toEqual([['LAUNCH_FAILED', 'HIGH']]);
+    expect(types([launch({ status: 'FAILED', raised: 0n, failedAt: NOW })])).toEqual([['LAUNCH_FAILED', 'MEDIUM']]);
+    expect(types([launch({ status: 'COMPLETED', lastTradeAt: NOW - 100 * HOUR })])).toEqual([]);
+  });
+
+  it('stores alerts carrying BigInt amounts in the alert store', async () => {
+    const launches = [
+      launch({ tokenAddress: '0x' + 'c1'.repeat(20), status: 'FAILED', failedAt: NOW }),
+      launch({ tokenAddress: '0x' + 'c2'.repeat(20), trades: [trade('BUY', 200n, 30)] }),
+      launch({ tokenAddress: '0x' + 'c3'.repeat(20), currentSupply: 100n * E18, trades: [trade('SELL', 300n, 10)] }),
+    ];
+    const env = { ECOSYSTEM_BUCKET: createMockBucket() } as unknown as EcosystemEnv;
+    await new AlertStore(env).sync(checkLaunchAlerts(launches, DEFAULT_LAUNCH_ALERT_RULES, NOW));
+
+    const stored = await new AlertStore(env).list();
+    const byType = Object.fromEntries(stored.map(r => [r.type, r.data]));
+    expect(byType.LAUNCH_FAILED).toMatchObject({ raised: (30n * E18).toString() });
+    expect(byType.LAUNCH_WHALE_BUY).toMatchObject({ amount: (200n * E18).toString() });
+    expect(byType.LAUNCH_SELL_OFF).toMatchObject({ sold: (300n * E18).toString() });
+  });
+});
+
+describe('loadLaunchAlertRules', () => {
+  it('merges overrides over the defaults and ignores invalid JSON', () => {
+    suppressConsole();
+    const rules = loadLaunchAlertRules({ MARKETPLACE_ALERT_RULES: '{"sellOff":{"windowMinutes":15},"deadlineHours":48}' } as EcosystemEnv);
+
+    expect(rules.sellOff).toEqual({ windowMinutes: 15, high: 0.2, critical: 0.5 });
+    expect(rules.deadlineHours).toBe(48);
+    expect(loadLaunchAlertRules({ MARKETPLACE_ALERT_RULES: '{' } as EcosystemEnv)).toBe(DEFAULT_LAUNCH_ALERT_RULES);
+  });
+});
@@ -0,0 +1,169 @@
+// Launch Alerts - Anomaly detection for bondcurve launches
+// Part of ChiefOS Ecosystem Manager
+
+import type { Alert, BondcurveLaunch, EcosystemEnv, LaunchAlertRules } from './types';
+import { formatTokenAmount } from './supply-ledger';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Thresholds used until MARKETPLACE_ALERT_RULES overrides them
+ */
+export const DEFAULT_LAUNCH_ALERT_RULES: LaunchAlertRules = {
+    stalledHours: { low: 24, medium: 72 },
+    whaleBuyShare: { medium: 0.05, high: 0.15 },
+    sellOff: { windowMinutes: 60, high: 0.2, critical: 0.5 },
+    deadlineHours: 30 * 24
+};
+
+/**
+ * Rules from MARKETPLACE_ALERT_RULES merged over the defaults
+ * An unparseable value is logged and the defaults are used
+ */
+export function loadLaunchAlertRules(env: EcosystemEnv): LaunchAlertRules {
+    if (!env.MARKETPLACE_ALERT_RULES) return DEFAULT_LAUNCH_ALERT_RULES;
+
+    try {
+        const overrides = JSON.parse(env.MARKETPLACE_ALERT_RULES) as Partial<LaunchAlertRules>;
+        return {
+            stalledHours: { ...DEFAULT_LAUNCH_ALERT_RULES.stalledHours, ...overrides.stalledHours },
+            whaleBuyShare: { ...DEFAULT_LAUNCH_ALERT_RULES.whaleBuyShare, ...overrides.whaleBuyShare },
+            sellOff: { ...DEFAULT_LAUNCH_ALERT_RULES.sellOff, ...overrides.sellOff },
+            deadlineHours: overrides.deadlineHours ?? DEFAULT_LAUNCH_ALERT_RULES.deadlineHours
+        };
+    } catch (error) {
+        console.error("[LaunchAlerts] Invalid MARKETPLACE_ALERT_RULES, using defaults:", error);
+        return DEFAULT_LAUNCH_ALERT_RULES;
+    }
+}
+
+/**
+ * part / whole as a fraction (6 decimal places)
+ */
+function share(part: bigint, whole: bigint): number {
+    if (whole <= 0n) return part > 0n ? 1 : 0;
+    return Number((part * 1_000_000n) / whole) / 1_000_000;
+}
+
+function percent(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Largest net sell-off inside any window of the launch's recorded trades
+ * Measured against the supply just before the window's first trade
+ */
+export function worstSellOff(
+    launch: BondcurveLaunch,
+    windowMinutes: number
+): { sold: bigint; share: number; from: number; to: number } | null {
+    const trades = launch.trades ?? [];
+    const windowMs = windowMinutes * 60 * 1000;
+    const signed = trades.map(t => t.side === "BUY" ? t.amount : -t.amount);
+    let worst: { sold: bigint; share: number; from: number; to: number } | null = null;
+
+    for (let end = 0; end < trades.length; end++) {
+        if (trades[end].side !== "SELL") continue;
+
+        let start = end;
+        let sold = 0n;
+        for (let i = end; i >= 0 && trades[end].at - trades[i].at <= windowMs; i--) {
+            sold -= signed[i];
+            start = i;
+        }
+        if (sold <= 0n) continue;
+
+        // Supply before the window = current supply minus every trade since its start
+        const supplyBefore = launch.currentSupply - signed.slice(start).reduce((sum, a) => sum + a, 0n);
+        const fraction = share(sold, supplyBefore);
+        if (!worst || fraction > worst.share) {
+            worst = { sold, share: fraction, from: trades[start].at, to: trades[end].at };
+        }
+    }
+
+    return worst;
+}
+
+/**
+ * Alerts for tracked launches:
+ * - LAUNCH_NEAR_COMPLETION (LOW) at 90% progress
+ * - LAUNCH_STALLED: no trade for stalledHours (LOW, MEDIUM past the second threshold)
+ * - LAUNCH_WHALE_BUY: a single buy of whaleBuyShare of max supply (MEDIUM, HIGH)
+ * - LAUNCH_SELL_OFF: net selling within the window (HIGH, CRITICAL)
+ * - LAUNCH_FAILED: missed the graduation deadline (HIGH if buyers hold funds, else MEDIUM)
+ */
+export function checkLaunchAlerts(
+    launches: BondcurveLaunch[],
+    rules: LaunchAlertRules,
+    now: number = Date.now()
+): Alert[] {
+    const alerts: Alert[] = [];
+    const alert = (
+        launch: BondcurveLaunch,
+        type: string,
+        severity: Alert["severity"],
+        message: string,
+        data: Record<string, unknown> = {}
+    ) => alerts.push({
+        id: `MARKETPLACE-${type.replace(/^LAUNCH_/, "")}-${launch.tokenAddress}`,
+        type,
+        source: "MARKETPLACE",
+        subject: launch.tokenAddress,
+        severity,
+        message: `Launch ${launch.symbol} ${message}`,
+        data: { tokenAddress: launch.tokenAddress, symbol: launch.symbol, ...data },
+        timestamp: now,
+        acknowledged: false
+    });
+
+    for (const launch of launches) {
+        if (launch.status === "FAILED") {
+            const stranded = launch.raised > 0n;
+            alert(launch, "LAUNCH_FAILED", stranded ? "HIGH" : "MEDIUM",
+                `failed to graduate within ${rules.deadlineHours}h at ${launch.progressPercent}%`
+                + (stranded ? ` - ${formatTokenAmount(launch.raised)} CAMP raised from buyers` : ""),
+                { raised: launch.raised, failedAt: launch.failedAt });
+            continue;
+        }
+        if (launch.status !== "ACTIVE") continue;
+
+        if (launch.progressPercent >= 90) {
+            alerts.push({
+                id: `MARKETPLACE-LAUNCH-${launch.tokenAddress}`,
+                type: "LAUNCH_NEAR_COMPLETION",
+                source: "MARKETPLACE",
+                subject: launch.tokenAddress,
+                severity: "LOW",
+                message: `Launch ${launch.symbol} at ${launch.progressPercent}% - near completion`,
+                data: { tokenAddress: launch.tokenAddress, symbol: launch.symbol },
+                timestamp: now,
+                acknowledged: false
+            });
+        }
+
+        const idleHours = (now - (launch.lastTradeAt ?? launch.createdAt)) / HOUR_MS;
+        if (idleHours >= rules.stalledHours.low) {
+            alert(launch, "LAUNCH_STALLED", idleHours >= rules.stalledHours.medium ? "MEDIUM" : "LOW",
+                `has had no trades for ${Math.floor(idleHours)}h at ${launch.progressPercent}%`,
+                { lastTradeAt: launch.lastTradeAt ?? null });
+        }
+
+        const buys = (launch.trades ?? []).filter(t => t.side === "BUY");
+        const largest = buys.reduce<typeof buys[number] | null>((max, t) => !max || t.amount > max.amount ? t : max, null);
+        const largestShare = largest ? share(largest.amount, launch.maxSupply) : 0;
+        if (largest && largestShare >= rules.whaleBuyShare.medium) {
+            alert(launch, "LAUNCH_WHALE_BUY", largestShare >= rules.whaleBuyShare.high ? "HIGH" : "MEDIUM",
+                `whale buy: ${largest.trader} bought ${percent(largestShare)} of max supply in one trade`,
+                { trader: largest.trader, amount: largest.amount, share: largestShare, at: largest.at });
+        }
+
+        const sellOff = worstSellOff(launch, rules.sellOff.windowMinutes);
+        if (sellOff && sellOff.share >= rules.sellOff.high) {
+            alert(launch, "LAUNCH_SELL_OFF", sellOff.share >= rules.sellOff.critical ? "CRITICAL" : "HIGH",
+                `sell-off: ${percent(sellOff.share)} of supply sold within ${rules.sellOff.windowMinutes}m`,
+                { ...sellOff });
+        }
+    }
+
+    return alerts;
+}
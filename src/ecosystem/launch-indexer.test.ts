@@ -0,0 +1,164 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { encodeUint256 } from './rpc';
+import {
+  LaunchIndexer,
+  LAUNCH_CREATED_TOPIC,
+  TOKENS_BOUGHT_TOPIC,
+  TOKENS_SOLD_TOPIC,
+  LAUNCH_GRADUATED_TOPIC,
+  COMPLETED_LAUNCHES_KEY,
+} from './launch-indexer';
+import { MarketplaceAgent } from './marketplace-agent';
+import type { EcosystemEnv } from './types';
+import { createMockBucket, stubJsonRpc } from '../test-utils';
+import type { MockBucket } from '../test-utils';
+
+const FACTORY = '0x' + 'fa'.repeat(20);
+const TOKEN = '0x' + 'a1'.repeat(20);
+const CREATOR = '0x' + 'c0'.repeat(20);
+const TRADER = '0x' + 'b0'.repeat(20);
+const POOL = '0x' + 'd0'.repeat(20);
+const E18 = 10n ** 18n;
+const HEAD = 1000;
+
+const pad32 = (hex: string) => hex.replace(/^0x/, '').padStart(64, '0');
+
+function encodeString(value: string): string {
+  const hex = Buffer.from(value, 'utf8').toString('hex');
+  return encodeUint256(hex.length / 2) + hex.padEnd(Math.ceil(hex.length / 64) * 64, '0');
+}
+
+interface Log { address: string; topics: string[]; data: string; blockNumber: string; logIndex: string }
+
+function log(block: number, topics: string[], data: string, logIndex = 0): Log {
+  return { address: FACTORY, topics, data: '0x' + data, blockNumber: '0x' + block.toString(16), logIndex: '0x' + logIndex.toString(16) };
+}
+
+function created(block: number): Log {
+  const name = encodeString('Camp Cat');
+  const symbol = encodeString('CCAT');
+  const data = encodeUint256(160) + encodeUint256(160 + name.length / 2)
+    + encodeUint256(1000n * E18) + encodeUint256(1000) + encodeUint256(2)
+    + name + symbol;
+  return log(block, [LAUNCH_CREATED_TOPIC, '0x' + pad32(TOKEN), '0x' + pad32(CREATOR)], data);
+}
+
+function trade(block: number, topic: string, amount: bigint, value: bigint, logIndex = 0): Log {
+  return log(block, [topic, '0x' + pad32(TOKEN), '0x' + pad32(TRADER)], encodeUint256(amount) + encodeUint256(value), logIndex);
+}
+
+function graduated(block: number, raised: bigint): Log {
+  return log(block, [LAUNCH_GRADUATED_TOPIC, '0x' + pad32(TOKEN)], pad32(POOL) + encodeUint256(raised));
+}
+
+/**
+ * Serve eth_blockNumber, ranged eth_getLogs and block timestamps (block n -> n seconds after `now`)
+ */
+function stubChain(logs: Log[], now: number) {
+  return stubJsonRpc(request => {
+    if (request.method === 'eth_blockNumber') return { result: '0x' + HEAD.toString(16) };
+    if (request.method === 'eth_getLogs') {
+      const { address, topics, fromBlock, toBlock } = request.params[0] as { address: string; topics: string[][]; fromBlock: string; toBlock: string };
+      return {
+        result: logs.filter(l => l.address === address && topics[0].includes(l.topics[0])
+          && Number(l.blockNumber) >= Number(fromBlock) && Number(l.blockNumber) <= Number(toBlock)),
+      };
+    }
+    if (request.method === 'eth_getBlockByNumber') {
+      return { result: { timestamp: '0x' + (now / 1000 + Number(request.params[0])).toString(16) } };
+    }
+    return { result: null };
+  });
+}
+
+function createEnv(marketplace?: string): EcosystemEnv & { ECOSYSTEM_BUCKET: MockBucket } {
+  return {
+    ECOSYSTEM_ENABLED: 'true',
+    ECOSYSTEM_BUCKET: createMockBucket(),
+    BASE_RPC_URL: 'http://base',
+    LZ_ENDPOINT_ADDRESS: '0x' + '00'.repeat(20),
+    MARKETPLACE_START_BLOCK: '100',
+    ECOSYSTEM_CHAINS: JSON.stringify([
+      { chainId: 8453, name: 'Base', lzEndpointId: 30184, rpcUrl: 'http://base', contracts: { marketplace } },
+    ]),
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('LaunchIndexer', () => {
+  it('builds launches from created and trade events using the curve math', async () => {
+    const now = Math.floor(Date.now() / 1000) * 1000 - 60 * 60 * 1000;
+    const logs = [
+      created(200),
+      trade(300, TOKENS_BOUGHT_TOPIC, 500n * E18, 40n * E18),
+      trade(300, TOKENS_SOLD_TOPIC, 100n * E18, 5n * E18, 1),
+      trade(50, TOKENS_BOUGHT_TOPIC, 1n, 1n),
+    ];
+    stubChain(logs, now);
+    const indexer = new LaunchIndexer(createEnv(FACTORY));
+
+    const result = await indexer.sync();
+
+    expect(result.events).toBe(3);
+    expect(result.cursors).toEqual({ 8453: HEAD - 5 });
+    expect(result.launches).toHaveLength(1);
+    expect(result.launches[0]).toMatchObject({
+      tokenAddress: TOKEN,
+      name: 'Camp Cat',
+      symbol: 'CCAT',
+      creator: CREATOR,
+      status: 'ACTIVE',
+      currentSupply: 400n * E18,
+      raised: 35n * E18,
+      currentPrice: 1000n + 2n * 400n * E18,
+      progressPercent: 40,
+      createdAt: now + 200 * 1000,
+      lastTradeAt: now + 300 * 1000,
+    });
+
+    // Nothing past the cursor: the same trades are not applied twice
+    const again = await indexer.sync();
+    expect(again.events).toBe(0);
+    expect(again.launches[0].currentSupply).toBe(400n * E18);
+  });
+
+  it('moves graduated launches into the completed history', async () => {
+    const now = Math.floor(Date.now() / 1000) * 1000 - 60 * 60 * 1000;
+    stubChain([created(200), trade(300, TOKENS_BOUGHT_TOPIC, 1000n * E18, 80n * E18), graduated(400, 82n * E18)], now);
+    const env = createEnv(FACTORY);
+    const agent = new MarketplaceAgent(env);
+
+    expect(await agent.getActiveLaunches()).toEqual([]);
+
+    const [completed] = await agent.getCompletedLaunches24h();
+    expect(completed).toMatchObject({ status: 'COMPLETED', pool: POOL, raised: 82n * E18, progressPercent: 100 });
+    expect(await agent.getTotalRaised24h()).toBe(82n * E18);
+    expect(JSON.parse(env.ECOSYSTEM_BUCKET.store.get(COMPLETED_LAUNCHES_KEY)!)).toHaveLength(1);
+  });
+
+  it('fails launches past the deadline and keeps only the last 24h of trades', async () => {
+    const start = Date.UTC(2026, 0, 1);
+    const day = 24 * 60 * 60 * 1000;
+    stubChain([created(200), trade(300, TOKENS_BOUGHT_TOPIC, 10n * E18, E18)], start);
+    const indexer = new LaunchIndexer(createEnv(FACTORY));
+
+    const [fresh] = (await indexer.sync(start + day / 2)).launches;
+    expect(fresh.trades).toMatchObject([{ side: 'BUY', trader: TRADER, amount: 10n * E18, block: 300 }]);
+
+    const [failed] = (await indexer.sync(start + 31 * day)).launches;
+    expect(failed).toMatchObject({ status: 'FAILED', failedAt: start + 31 * day, trades: [] });
+
+    expect((await indexer.sync(start + 39 * day)).launches).toEqual([]);
+  });
+
+  it('makes no RPC calls while the marketplace is not deployed', async () => {
+    const fetchMock = stubChain([], 0);
+    const result = await new LaunchIndexer(createEnv()).sync();
+
+    expect(result).toMatchObject({ launches: [], graduated: [], events: 0 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,372 @@
+// Launch Indexer - Bondcurve marketplace event indexer
+// Part of ChiefOS Ecosystem Manager
+
+import type { BondcurveLaunch, ChainConfig, EcosystemEnv, LaunchSyncResult } from './types';
+import { ChainRegistry } from './chains';
+import { loadLaunchAlertRules } from './launch-alerts';
+import { splitWords, type RpcRequest } from './rpc';
+import { hexToBytes, serializeWithBigInt } from './utils';
+import { StateDocument } from './ecosystem-state';
+
+const STATE_KEY = "marketplace/active-launches.json";
+export const COMPLETED_LAUNCHES_KEY = "marketplace/completed-launches.json";
+const DEFAULT_START_LOOKBACK_BLOCKS = 50000;
+const BLOCKS_PER_QUERY = 10000;
+const MAX_QUERIES_PER_SYNC = 10;
+const TRADE_RETENTION_MS = 24 * 60 * 60 * 1000;
+const MAX_TRADES_PER_LAUNCH = 500;
+const FAILED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Blocks behind head left unindexed so shallow reorgs are not applied
+ */
+const CONFIRMATION_BLOCKS = 5;
+
+/**
+ * LaunchCreated(address indexed token, address indexed creator, string name, string symbol,
+ * uint256 maxSupply, uint256 startPrice, uint256 slope)
+ */
+export const LAUNCH_CREATED_TOPIC = "0x817790411012776343af2aee72e01c66bef1f1b6a79fd3c34599a8145089b415";
+
+/**
+ * TokensBought(address indexed token, address indexed buyer, uint256 amount, uint256 cost)
+ */
+export const TOKENS_BOUGHT_TOPIC = "0xc244d500136edffae7025aaf7fbd7a07193ac544a1d0cc3132cf2a32452d340c";
+
+/**
+ * TokensSold(address indexed token, address indexed seller, uint256 amount, uint256 proceeds)
+ */
+export const TOKENS_SOLD_TOPIC = "0x697c42d55a5e1fed3f464ec6f38b32546a0bd368dc8068b065c67566d73f3290";
+
+/**
+ * LaunchGraduated(address indexed token, address pool, uint256 raised)
+ */
+export const LAUNCH_GRADUATED_TOPIC = "0xbd94db6cd289c6eb390ee789379750ef97dea3fc8b0efd2c7721793e325255c7";
+
+interface RpcLog {
+    address: string;
+    topics: string[];
+    data: string;
+    blockNumber: string;
+    logIndex: string;
+    transactionHash: string;
+}
+
+interface ChainScan {
+    chainId: number;
+    logs: RpcLog[];
+    /** Block timestamps in ms, by block number */
+    timestamps: Map<number, number>;
+    /** Last block covered by the scan */
+    toBlock: number;
+}
+
+interface LaunchIndex {
+    /** Last indexed block per chain ID */
+    cursors: Record<number, number>;
+    launches: BondcurveLaunch[];
+}
+
+/**
+ * Spot price on the linear curve (skills/protocols/bondcurve-math.md)
+ */
+export function linearPrice(supply: bigint, startPrice: bigint, slope: bigint): bigint {
+    return startPrice + slope * supply;
+}
+
+/**
+ * Share of the curve sold, 0-100 (skills/protocols/bondcurve-math.md)
+ */
+export function launchProgress(currentSupply: bigint, maxSupply: bigint): number {
+    if (maxSupply <= 0n) return 0;
+    return Math.min(100, Number((currentSupply * 100n) / maxSupply));
+}
+
+/**
+ * Restore the BigInt fields of a stored launch
+ */
+export function reviveLaunch(launch: BondcurveLaunch): BondcurveLaunch {
+    return {
+        ...launch,
+        currentSupply: BigInt(launch.currentSupply),
+        maxSupply: BigInt(launch.maxSupply),
+        currentPrice: BigInt(launch.currentPrice),
+        raised: BigInt(launch.raised),
+        startPrice: launch.startPrice === undefined ? undefined : BigInt(launch.startPrice),
+        slope: launch.slope === undefined ? undefined : BigInt(launch.slope),
+        trades: launch.trades?.map(t => ({ ...t, amount: BigInt(t.amount), value: BigInt(t.value) }))
+    };
+}
+
+/**
+ * Launch Indexer: Builds launch records from the marketplace factory's events
+ *
+ * Each sync() scans LaunchCreated, TokensBought, TokensSold and LaunchGraduated
+ * logs from the saved block cursor (per chain) up to head minus a few
+ * confirmations, at most MAX_QUERIES_PER_SYNC ranges per run. Active launches
+ * and cursors share the ecosystem state document marketplace/active-launches.json
+ * so a launch is never updated without its cursor moving. Graduated launches
+ * leave the active set and are appended to marketplace/completed-launches.json.
+ * Launches still ACTIVE after the deadline (LaunchAlertRules.deadlineHours)
+ * become FAILED and are dropped a week later. Each launch keeps its last 24h of
+ * trades for anomaly detection.
+ *
+ * Trades for launches created before the first indexed block are ignored; set
+ * MARKETPLACE_START_BLOCK to the factory deployment block to index everything.
+ */
+export class LaunchIndexer {
+    private env: EcosystemEnv;
+    private chains: ChainRegistry;
+    private document: StateDocument<LaunchIndex>;
+
+    constructor(env: EcosystemEnv, chains: ChainRegistry = new ChainRegistry(env)) {
+        this.env = env;
+        this.chains = chains;
+        this.document = new StateDocument<LaunchIndex>(env, STATE_KEY, {
+            empty: () => ({ cursors: {}, launches: [] }),
+            parse: text => {
+                const raw = JSON.parse(text) as LaunchIndex;
+                return { cursors: raw.cursors ?? {}, launches: (raw.launches ?? []).map(reviveLaunch) };
+            },
+            serialize: index => serializeWithBigInt(index)
+        });
+    }
+
+    /**
+     * ACTIVE and recently FAILED launches as last indexed
+     */
+    async getLaunches(): Promise<BondcurveLaunch[]> {
+        return (await this.document.read()).launches;
+    }
+
+    /**
+     * Last indexed block per chain ID
+     */
+    async getCursors(): Promise<Record<number, number>> {
+        return (await this.document.read()).cursors;
+    }
+
+    /**
+     * Every graduated launch, oldest first
+     */
+    async getCompletedLaunches(): Promise<BondcurveLaunch[]> {
+        const object = await this.env.ECOSYSTEM_BUCKET.get(COMPLETED_LAUNCHES_KEY);
+        if (!object) return [];
+        return (JSON.parse(await object.text()) as BondcurveLaunch[]).map(reviveLaunch);
+    }
+
+    /**
+     * Index new marketplace events on every chain the marketplace is deployed to
+     */
+    async sync(now: number = Date.now()): Promise<LaunchSyncResult> {
+        const deployments = await this.chains.getChainsFor("marketplace");
+        const { cursors } = await this.document.read();
+
+        // Logs are fetched before the update so a conflicting writer costs a re-apply, not a re-scan
+        const scans: ChainScan[] = [];
+        for (const chain of deployments) {
+            scans.push(await this.scan(chain, cursors[chain.chainId]));
+        }
+
+        return this.document.update(async index => {
+            const graduated: BondcurveLaunch[] = [];
+            let events = 0;
+
+            for (const scan of scans) {
+                const cursor = index.cursors[scan.chainId] ?? -1;
+
+                for (const log of scan.logs) {
+                    const block = Number(log.blockNumber);
+                    if (block <= cursor) continue;
+
+                    const at = scan.timestamps.get(block) ?? Date.now();
+                    const completed = applyLog(index, scan.chainId, log, at);
+                    if (completed) graduated.push(completed);
+                    events++;
+                }
+
+                index.cursors[scan.chainId] = Math.max(cursor, scan.toBlock);
+            }
+
+            this.expire(index, now);
+            if (graduated.length > 0) await this.appendCompleted(graduated);
+
+            return { launches: index.launches, graduated, events, cursors: index.cursors };
+        });
+    }
+
+    private async scan(chain: ChainConfig, cursor: number | undefined): Promise<ChainScan> {
+        const client = this.chains.getClient(chain);
+        const head = Number(await client.call<string>("eth_blockNumber")) - CONFIRMATION_BLOCKS;
+        const fromBlock = cursor === undefined ? this.startBlock(head) : cursor + 1;
+        const toBlock = Math.min(head, fromBlock + BLOCKS_PER_QUERY * MAX_QUERIES_PER_SYNC - 1);
+
+        if (fromBlock > toBlock) {
+            return { chainId: chain.chainId, logs: [], timestamps: new Map(), toBlock: fromBlock - 1 };
+        }
+
+        const ranges: RpcRequest[] = [];
+        for (let start = fromBlock; start <= toBlock; start += BLOCKS_PER_QUERY) {
+            ranges.push({
+                method: "eth_getLogs",
+                params: [{
+                    address: chain.contracts.marketplace,
+                    topics: [[LAUNCH_CREATED_TOPIC, TOKENS_BOUGHT_TOPIC, TOKENS_SOLD_TOPIC, LAUNCH_GRADUATED_TOPIC]],
+                    fromBlock: "0x" + start.toString(16),
+                    toBlock: "0x" + Math.min(start + BLOCKS_PER_QUERY - 1, toBlock).toString(16)
+                }]
+            });
+        }
+
+        const logs = (await client.batch<RpcLog[]>(ranges)).flat().sort((a, b) =>
+            Number(a.blockNumber) - Number(b.blockNumber) || Number(a.logIndex) - Number(b.logIndex)
+        );
+
+        const blocks = [...new Set(logs.map(l => Number(l.blockNumber)))];
+        const headers = await client.batch<{ timestamp: string } | null>(blocks.map(block => ({
+            method: "eth_getBlockByNumber",
+            params: ["0x" + block.toString(16), false]
+        })));
+
+        const timestamps = new Map<number, number>();
+        blocks.forEach((block, i) => {
+            if (headers[i]) timestamps.set(block, Number(headers[i]!.timestamp) * 1000);
+        });
+
+        return { chainId: chain.chainId, logs, timestamps, toBlock };
+    }
+
+    /**
+     * Fail launches past their deadline, drop old failures and trim trade history
+     */
+    private expire(index: LaunchIndex, now: number): void {
+        const deadlineMs = loadLaunchAlertRules(this.env).deadlineHours * 60 * 60 * 1000;
+
+        index.launches = index.launches.filter(launch => {
+            if (launch.status === "ACTIVE" && now - launch.createdAt > deadlineMs) {
+                launch.status = "FAILED";
+                launch.failedAt = now;
+            }
+            if (launch.trades) {
+                launch.trades = launch.trades.filter(t => now - t.at <= TRADE_RETENTION_MS).slice(-MAX_TRADES_PER_LAUNCH);
+            }
+            return !(launch.status === "FAILED" && now - (launch.failedAt ?? now) > FAILED_RETENTION_MS);
+        });
+    }
+
+    private startBlock(head: number): number {
+        const configured = Number(this.env.MARKETPLACE_START_BLOCK);
+        if (Number.isInteger(configured) && configured > 0) return configured;
+        return Math.max(0, head - DEFAULT_START_LOOKBACK_BLOCKS);
+    }
+
+    /**
+     * Append to the completed history; launches already recorded are skipped
+     * so a retried update does not duplicate them
+     */
+    private async appendCompleted(launches: BondcurveLaunch[]): Promise<void> {
+        const history = await this.getCompletedLaunches();
+        const recorded = new Set(history.map(l => `${l.chainId}:${l.tokenAddress}`));
+
+        for (const launch of launches) {
+            if (!recorded.has(`${launch.chainId}:${launch.tokenAddress}`)) history.push(launch);
+        }
+
+        await this.env.ECOSYSTEM_BUCKET.put(COMPLETED_LAUNCHES_KEY, serializeWithBigInt(history));
+    }
+}
+
+/**
+ * Apply one marketplace event; returns the launch if it graduated
+ */
+function applyLog(index: LaunchIndex, chainId: number, log: RpcLog, at: number): BondcurveLaunch | null {
+    const token = toAddress(log.topics[1]);
+    const words = splitWords(log.data);
+    const position = index.launches.findIndex(l => l.tokenAddress === token && l.chainId === chainId);
+    const launch = position >= 0 ? index.launches[position] : null;
+
+    switch (log.topics[0]) {
+        case LAUNCH_CREATED_TOPIC: {
+            if (launch) return null;
+
+            const startPrice = BigInt("0x" + words[3]);
+            index.launches.push({
+                tokenAddress: token,
+                name: decodeString(log.data, 0),
+                symbol: decodeString(log.data, 1),
+                currentSupply: 0n,
+                maxSupply: BigInt("0x" + words[2]),
+                currentPrice: startPrice,
+                raised: 0n,
+                progressPercent: 0,
+                status: "ACTIVE",
+                createdAt: at,
+                chainId,
+                creator: toAddress(log.topics[2]),
+                startPrice,
+                slope: BigInt("0x" + words[4])
+            });
+            return null;
+        }
+
+        case TOKENS_BOUGHT_TOPIC:
+        case TOKENS_SOLD_TOPIC: {
+            if (!launch) return null;
+
+            const amount = BigInt("0x" + words[0]);
+            const value = BigInt("0x" + words[1]);
+            const bought = log.topics[0] === TOKENS_BOUGHT_TOPIC;
+
+            launch.currentSupply += bought ? amount : -amount;
+            launch.raised += bought ? value : -value;
+            launch.currentPrice = linearPrice(launch.currentSupply, launch.startPrice ?? 0n, launch.slope ?? 0n);
+            launch.progressPercent = launchProgress(launch.currentSupply, launch.maxSupply);
+            launch.lastTradeAt = at;
+            launch.trades = [...(launch.trades ?? []), {
+                side: bought ? "BUY" : "SELL",
+                trader: toAddress(log.topics[2]),
+                amount,
+                value,
+                at,
+                block: Number(log.blockNumber)
+            }];
+            return null;
+        }
+
+        case LAUNCH_GRADUATED_TOPIC: {
+            if (!launch) return null;
+
+            index.launches.splice(position, 1);
+            return {
+                ...launch,
+                trades: undefined,
+                status: "COMPLETED",
+                pool: toAddress(words[0]),
+                raised: BigInt("0x" + words[1]),
+                progressPercent: launchProgress(launch.currentSupply, launch.maxSupply),
+                completedAt: at,
+                graduationTx: log.transactionHash,
+                graduationBlock: Number(log.blockNumber)
+            };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Low 20 bytes of a topic or word as an address
+ */
+function toAddress(value: string): string {
+    return "0x" + value.replace(/^0x/, "").toLowerCase().slice(-40);
+}
+
+/**
+ * Read a dynamic `string` argument whose offset is at word `index`
+ */
+function decodeString(hex: string, index: number): string {
+    const data = hex.replace(/^0x/, "");
+    const offset = Number(BigInt("0x" + splitWords(data)[index])) * 2;
+    const length = Number(BigInt("0x" + data.slice(offset, offset + 64))) * 2;
+    return new TextDecoder().decode(hexToBytes(data.slice(offset + 64, offset + 64 + length)));
+}
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JsonRpcClient, encodeUint256 } from './rpc';
+import { ChainRegistry } from './chains';
+import {
+  UniswapV3LiquidityPool,
+  AerodromeLiquidityPool,
+  LiquidityMonitor,
+  checkLiquidityAlerts,
+  LIQUIDITY_TRADE_SIZES_USD,
+} from './liquidity-monitor';
+import { DEFAULT_RISK_POLICY } from './risk-policy';
+import type { EcosystemEnv } from './types';
+import { createMockBucket, stubJsonRpc, suppressConsole } from '../test-utils';
+
+const V3_POOL = '0x' + 'a1'.repeat(20);
+const V3_TOKEN1_POOL = '0x' + 'a2'.repeat(20);
+const VOLATILE_POOL = '0x' + 'b2'.repeat(20);
+const STABLE_POOL = '0x' + 'c3'.repeat(20);
+
+// USDGB (18 decimals) / USDC (6 decimals) at $1: sqrt(1e-12) · 2^96, in tick -276325
+const SQRT_PRICE_X96 = 79228162514264337593543n;
+const CURRENT_TICK = -276325;
+const TICK_SPACING = 10;
+// Chosen so a $100k sell of token0 costs exactly 1% on average: L = 99 · dx · sqrtP
+const V3_LIQUIDITY = 9_900_000_000_000_000_000n;
+// One position about 2% either side of $1, so $1M sells run out of range
+const LOWER_TICK = -276530;
+const UPPER_TICK = -276130;
+const MILLION_18 = 10n ** 24n;
+const MILLION_6 = 10n ** 12n;
+
+/**
+ * Answer eth_calls per (pool, selector)
+ */
+function stubPools(responses: Record<string, string>) {
+  stubJsonRpc(request => {
+    const { to, data } = request.params[0] as { to: string; data: string };
+    const result = responses[`${to}:${data}`];
+    return result ? { result } : { error: { code: 3, message: 'execution reverted' } };
+  });
+}
+
+const int256 = (value: bigint | number) => encodeUint256(BigInt.asUintN(256, BigInt(value)));
+
+/**
+ * tickBitmap words around a tick with the given ticks marked, and ticks() for each
+ */
+function v3Ticks(pool: string, around: number, liquidityNet: Record<number, bigint>): Record<string, string> {
+  const responses: Record<string, string> = {};
+  const center = Math.floor(around / TICK_SPACING) >> 8;
+  for (let word = center - 4; word <= center + 4; word++) {
+    const bits = Object.keys(liquidityNet)
+      .map(tick => Number(tick) / TICK_SPACING)
+      .filter(compressed => compressed >> 8 === word)
+      .reduce((acc, compressed) => acc | (1n << BigInt(compressed - word * 256)), 0n);
+    responses[`${pool}:0x5339c296${int256(word)}`] = '0x' + encodeUint256(bits);
+  }
+  for (const [tick, net] of Object.entries(liquidityNet)) {
+    responses[`${pool}:0xf30dba93${int256(Number(tick))}`] = '0x' + encodeUint256(0) + int256(net) + encodeUint256(0).repeat(6);
+  }
+  return responses;
+}
+
+const poolResponses = {
+  [`${V3_POOL}:0x3850c7bd`]: '0x' + encodeUint256(SQRT_PRICE_X96) + int256(CURRENT_TICK) + encodeUint256(0).repeat(5),
+  [`${V3_POOL}:0x1a686502`]: '0x' + encodeUint256(V3_LIQUIDITY),
+  [`${V3_POOL}:0xd0c93a7c`]: '0x' + int256(TICK_SPACING),
+  ...v3Ticks(V3_POOL, CURRENT_TICK, { [LOWER_TICK]: V3_LIQUIDITY, [UPPER_TICK]: -V3_LIQUIDITY }),
+  // USDC (6 decimals) / USDGB (18 decimals) at $1: sqrt(1e12) · 2^96, in tick 276324
+  [`${V3_TOKEN1_POOL}:0x3850c7bd`]: '0x' + encodeUint256(10n ** 6n << 96n) + int256(276324) + encodeUint256(0).repeat(5),
+  [`${V3_TOKEN1_POOL}:0x1a686502`]: '0x' + encodeUint256(V3_LIQUIDITY),
+  [`${V3_TOKEN1_POOL}:0xd0c93a7c`]: '0x' + int256(TICK_SPACING),
+  ...v3Ticks(V3_TOKEN1_POOL, 276324, { [-UPPER_TICK]: V3_LIQUIDITY, [-LOWER_TICK]: -V3_LIQUIDITY }),
+  [`${VOLATILE_POOL}:0x0902f1ac`]: '0x' + encodeUint256(MILLION_18) + encodeUint256(MILLION_6) + encodeUint256(0),
+  [`${STABLE_POOL}:0x0902f1ac`]: '0x' + encodeUint256(MILLION_18) + encodeUint256(MILLION_6) + encodeUint256(0),
+};
+
+const v3Config = { type: 'uniswap-v3' as const, pool: V3_POOL, tokenIsToken0: true, token0Decimals: 18, token1Decimals: 6 };
+const volatileConfig = { type: 'aerodrome' as const, pool: VOLATILE_POOL, stable: false, tokenIsToken0: true, token0Decimals: 18, token1Decimals: 6 };
+const stableConfig = { ...volatileConfig, pool: STABLE_POOL, stable: true };
+
+function createEnv(pools: unknown): EcosystemEnv {
+  return {
+    ECOSYSTEM_ENABLED: 'true',
+    ECOSYSTEM_BUCKET: createMockBucket(),
+    BASE_RPC_URL: 'http://rpc',
+    LZ_ENDPOINT_ADDRESS: '0x0',
+    LIQUIDITY_POOLS: pools === undefined ? undefined : JSON.stringify(pools),
+  };
+}
+
+describe('liquidity monitor', () => {
+  beforeEach(() => {
+    suppressConsole();
+    stubPools(poolResponses);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('simulates sells against Uniswap v3 liquidity up to the edge of the position', async () => {
+    const pool = new UniswapV3LiquidityPool(new JsonRpcClient('http://rpc'), 8453, v3Config);
+
+    const depth = await pool.measure(LIQUIDITY_TRADE_SIZES_USD);
+
+    expect(depth.spotPrice).toBeCloseTo(1, 6);
+    expect(depth.impacts.map(i => i.sizeUsd)).toEqual([10_000, 100_000, 1_000_000]);
+    expect(depth.impacts[1].priceImpact).toBeCloseTo(0.01, 6);
+    expect(depth.impacts[0].priceImpact).toBeLessThan(depth.impacts[1].priceImpact);
+
+    // $1M drains the range at LOWER_TICK and nothing below it fills the rest
+    const received = Number(V3_LIQUIDITY) * (1e-6 - 1.0001 ** (LOWER_TICK / 2));
+    expect(depth.impacts[2].priceImpact).toBeCloseTo(1 - received / (1e24 * 1e-12), 6);
+    expect(depth.impacts[2].priceImpact).toBeGreaterThan(1e18 / 1.09e19);
+  });
+
+  it('picks up liquidity from the next range when a v3 sell crosses a tick', async () => {
+    const deeper = LOWER_TICK - 2000;
+    stubPools({
+      ...poolResponses,
+      ...v3Ticks(V3_POOL, CURRENT_TICK, { [deeper]: 10n * V3_LIQUIDITY, [LOWER_TICK]: -9n * V3_LIQUIDITY, [UPPER_TICK]: -V3_LIQUIDITY }),
+    });
+    const pool = new UniswapV3LiquidityPool(new JsonRpcClient('http://rpc'), 8453, v3Config);
+
+    const depth = await pool.measure([100_000, 1_000_000]);
+
+    expect(depth.impacts[0].priceImpact).toBeCloseTo(0.01, 6);
+    const received = Number(V3_LIQUIDITY) * (1e-6 - 1.0001 ** (LOWER_TICK / 2));
+    expect(depth.impacts[1].priceImpact).toBeLessThan(1 - received / (1e24 * 1e-12));
+  });
+
+  it('walks the v3 simulation up through ticks when the token is token1', async () => {
+    const pool = new UniswapV3LiquidityPool(new JsonRpcClient('http://rpc'), 8453, {
+      ...v3Config,
+      pool: V3_TOKEN1_POOL,
+      tokenIsToken0: false,
+      token0Decimals: 6,
+      token1Decimals: 18,
+    });
+
+    const depth = await pool.measure([100_000, 1_000_000]);
+
+    expect(depth.spotPrice).toBeCloseTo(1, 6);
+    expect(depth.impacts[0].priceImpact).toBeCloseTo(0.01, 6);
+    const received = Number(V3_LIQUIDITY) * (1e-6 - 1 / 1.0001 ** (-LOWER_TICK / 2));
+    expect(depth.impacts[1].priceImpact).toBeCloseTo(1 - (received / 1e24) * 1e12, 6);
+  });
+
+  it('uses constant-product math for volatile Aerodrome pools', async () => {
+    const pool = new AerodromeLiquidityPool(new JsonRpcClient('http://rpc'), 8453, volatileConfig);
+
+    const depth = await pool.measure([100_000]);
+
+    expect(depth.spotPrice).toBeCloseTo(1, 9);
+    expect(depth.impacts[0].priceImpact).toBeCloseTo(100_000 / 1_100_000, 9);
+  });
+
+  it('gives stable Aerodrome pools far less impact than volatile ones', async () => {
+    const client = new JsonRpcClient('http://rpc');
+    const stable = await new AerodromeLiquidityPool(client, 8453, stableConfig).measure(LIQUIDITY_TRADE_SIZES_USD);
+    const volatile = await new AerodromeLiquidityPool(client, 8453, volatileConfig).measure(LIQUIDITY_TRADE_SIZES_USD);
+
+    expect(stable.spotPrice).toBeCloseTo(1, 9);
+    // Flat near balance, steepening once the sell is a large share of the pool
+    expect(stable.impacts[0].priceImpact).toBeGreaterThan(0);
+    expect(stable.impacts[0].priceImpact).toBeLessThan(volatile.impacts[0].priceImpact / 10);
+    expect(stable.impacts[1].priceImpact).toBeLessThan(volatile.impacts[1].priceImpact / 10);
+    expect(stable.impacts[2].priceImpact).toBeLessThan(volatile.impacts[2].priceImpact);
+  });
+
+  it('reports UNCONFIGURED when no pools are configured for the token', async () => {
+    const env = createEnv({ USDca: [v3Config] });
+    const report = await new LiquidityMonitor(env, 'USDGB', new ChainRegistry(env)).getLiquidity();
+
+    expect(report.state).toBe('UNCONFIGURED');
+    expect(report.referenceImpact).toBeNull();
+  });
+
+  it('takes the best pool per size and keeps going when a pool fails', async () => {
+    const broken = { ...volatileConfig, pool: '0x' + 'dd'.repeat(20) };
+    const env = createEnv({ USDGB: [volatileConfig, v3Config, broken] });
+
+    const report = await new LiquidityMonitor(env, 'USDGB', new ChainRegistry(env)).getLiquidity();
+
+    expect(report.state).toBe('DEGRADED');
+    expect(report.pools).toHaveLength(2);
+    expect(report.failed).toEqual([{ pool: `aerodrome:${broken.pool}`, error: expect.stringContaining('execution reverted') }]);
+    expect(report.referenceImpact).toBeCloseTo(0.01, 6);
+  });
+
+  it('reports a bad pool configuration as DEGRADED instead of throwing', async () => {
+    const unknownChain = { ...volatileConfig, chainId: 999 };
+    const env = createEnv({ USDGB: [v3Config, unknownChain] });
+
+    const report = await new LiquidityMonitor(env, 'USDGB', new ChainRegistry(env)).getLiquidity();
+
+    expect(report.state).toBe('DEGRADED');
+    expect(report.pools).toHaveLength(1);
+    expect(report.failed).toEqual([{ pool: `aerodrome:${VOLATILE_POOL}`, error: 'Unknown chain 999' }]);
+
+    const invalid = { ...createEnv(undefined), LIQUIDITY_POOLS: '{not json' };
+    const broken = await new LiquidityMonitor(invalid, 'USDGB', new ChainRegistry(invalid)).getLiquidity();
+
+    expect(broken).toMatchObject({ state: 'DEGRADED', pools: [], impacts: [], referenceImpact: null });
+    expect(broken.failed).toEqual([{ pool: 'LIQUIDITY_POOLS', error: expect.stringContaining('Invalid LIQUIDITY_POOLS JSON') }]);
+  });
+
+  it('raises alerts for thin liquidity and unreadable pools', () => {
+    const bands = DEFAULT_RISK_POLICY.tokens.USDGB.liquidity;
+    const report = {
+      token: 'USDGB' as const,
+      state: 'DEGRADED' as const,
+      pools: [],
+      failed: [{ pool: 'aerodrome:0xdead', error: 'reverted' }],
+      impacts: [{ sizeUsd: 100_000, priceImpact: 0.08 }],
+      referenceSizeUsd: 100_000,
+      referenceImpact: 0.08,
+    };
+
+    const alerts = checkLiquidityAlerts(report, bands, 'USDGB');
+
+    expect(alerts.map(a => [a.type, a.severity])).toEqual([
+      ['CRITICAL_LIQUIDITY', 'CRITICAL'],
+      ['LIQUIDITY_POOL_UNREADABLE', 'MEDIUM'],
+    ]);
+    expect(alerts[1].subject).toBe('aerodrome:0xdead');
+    expect(checkLiquidityAlerts({ ...report, failed: [], referenceImpact: 0.04 }, bands, 'USDGB')[0].type).toBe('LOW_LIQUIDITY');
+  });
+});
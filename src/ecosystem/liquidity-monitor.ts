@@ -0,0 +1,485 @@
+// Liquidity Monitor - DEX pool depth and sell-side price impact
+// Part of ChiefOS Ecosystem Manager
+
+import type { EcosystemEnv, EcosystemToken, Alert, RiskBands, LiquidityReport, PoolDepth, PriceImpact } from './types';
+import { ChainRegistry } from './chains';
+import { JsonRpcClient, splitWords, decodeInt256, decodeUint256, encodeUint256 } from './rpc';
+
+// Uniswap v3 pool
+const SLOT0_SELECTOR = "0x3850c7bd";        // slot0()
+const LIQUIDITY_SELECTOR = "0x1a686502";    // liquidity()
+const TICK_SPACING_SELECTOR = "0xd0c93a7c"; // tickSpacing()
+const TICK_BITMAP_SELECTOR = "0x5339c296";  // tickBitmap(int16)
+const TICKS_SELECTOR = "0xf30dba93";        // ticks(int24)
+
+// Uniswap v3 tick range
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+
+/**
+ * Bitmap words (256 tick slots each) read on the sell side of the current tick
+ */
+const V3_BITMAP_WORDS = 4;
+
+/**
+ * Initialized ticks whose liquidity is read; the simulation ends at the last one
+ */
+const V3_MAX_CROSSINGS = 32;
+
+// Aerodrome (Solidly) pool
+const GET_RESERVES_SELECTOR = "0x0902f1ac"; // getReserves()
+
+/**
+ * Trade sizes simulated for every pool
+ */
+export const LIQUIDITY_TRADE_SIZES_USD = [10_000, 100_000, 1_000_000];
+
+/**
+ * Size whose impact is graded against the risk policy's liquidity bands
+ */
+export const LIQUIDITY_REFERENCE_USD = 100_000;
+
+/**
+ * Pool configuration (LIQUIDITY_POOLS env var, keyed by token)
+ */
+export type LiquidityPoolConfig =
+    | {
+        type: "uniswap-v3";
+        chainId?: number;
+        pool: string;
+        /** Whether the monitored token is token0 of the pool */
+        tokenIsToken0: boolean;
+        token0Decimals: number;
+        token1Decimals: number;
+    }
+    | {
+        type: "aerodrome";
+        chainId?: number;
+        pool: string;
+        /** Stable (x³y + y³x = k) or volatile (xy = k) curve */
+        stable: boolean;
+        tokenIsToken0: boolean;
+        token0Decimals: number;
+        token1Decimals: number;
+    };
+
+/**
+ * A pool that can simulate selling the monitored token
+ */
+export interface LiquidityPool {
+    readonly name: string;
+    measure(sizesUsd: number[]): Promise<PoolDepth>;
+}
+
+/**
+ * Uniswap v3 pool depth
+ *
+ * Walks the sell across the initialized ticks below (or above) the current
+ * price, adding and removing liquidity as positions go in and out of range.
+ * Only the ticks in the next few bitmap words are read; whatever would have to
+ * fill beyond them is counted as unfilled, so very large sells err towards
+ * overstating the slippage.
+ */
+export class UniswapV3LiquidityPool implements LiquidityPool {
+    readonly name: string;
+    private client: JsonRpcClient;
+    private config: Extract<LiquidityPoolConfig, { type: "uniswap-v3" }>;
+    private chainId: number;
+
+    constructor(client: JsonRpcClient, chainId: number, config: Extract<LiquidityPoolConfig, { type: "uniswap-v3" }>) {
+        this.client = client;
+        this.chainId = chainId;
+        this.config = config;
+        this.name = `uniswap-v3:${config.pool}`;
+    }
+
+    async measure(sizesUsd: number[]): Promise<PoolDepth> {
+        const [slot0Raw, liquidityRaw, tickSpacingRaw] = await this.client.batch<string>([
+            { method: "eth_call", params: [{ to: this.config.pool, data: SLOT0_SELECTOR }, "latest"] },
+            { method: "eth_call", params: [{ to: this.config.pool, data: LIQUIDITY_SELECTOR }, "latest"] },
+            { method: "eth_call", params: [{ to: this.config.pool, data: TICK_SPACING_SELECTOR }, "latest"] }
+        ]);
+
+        // slot0: (uint160 sqrtPriceX96, int24 tick, ...)
+        const slot0 = splitWords(slot0Raw);
+        const sqrtPrice = Number(BigInt("0x" + slot0[0])) / 2 ** 96;
+        const tick = Number(decodeInt256(slot0[1]));
+        const liquidity = Number(BigInt(liquidityRaw));
+        const { tokenIsToken0, token0Decimals, token1Decimals } = this.config;
+
+        // Selling token0 pushes the price down through lower ticks, selling token1 pushes it up
+        const range = await this.readTickRange(tick, Number(decodeUint256(tickSpacingRaw)), tokenIsToken0);
+
+        // Raw price is token1 per token0 in base units
+        const rawPrice = sqrtPrice * sqrtPrice;
+        const token0Price = rawPrice * 10 ** (token0Decimals - token1Decimals);
+
+        return {
+            pool: this.config.pool,
+            dex: "uniswap-v3",
+            chainId: this.chainId,
+            spotPrice: tokenIsToken0 ? token0Price : 1 / token0Price,
+            impacts: sizesUsd.map(sizeUsd => ({
+                sizeUsd,
+                priceImpact: tokenIsToken0
+                    ? sellToken0Impact(liquidity, sqrtPrice, sizeUsd * 10 ** token0Decimals, range)
+                    : sellToken1Impact(liquidity, sqrtPrice, sizeUsd * 10 ** token1Decimals, range)
+            }))
+        };
+    }
+
+    /**
+     * Initialized ticks on the sell side of the current tick, nearest first,
+     * from the next V3_BITMAP_WORDS bitmap words (at most V3_MAX_CROSSINGS)
+     */
+    private async readTickRange(tick: number, tickSpacing: number, down: boolean): Promise<V3TickRange> {
+        // Ticks are stored compressed (tick / spacing, rounded down), 256 per bitmap word;
+        // a sell down can cross the current tick's own lower bound, a sell up starts above it
+        const compressed = Math.floor(tick / tickSpacing);
+        const start = down ? compressed : compressed + 1;
+        const words = Array.from({ length: V3_BITMAP_WORDS }, (_, i) => (start >> 8) + (down ? -i : i));
+
+        const bitmaps = await this.client.batch<string>(words.map(word => ({
+            method: "eth_call",
+            params: [{ to: this.config.pool, data: TICK_BITMAP_SELECTOR + encodeInt256(word) }, "latest"]
+        })));
+
+        let initialized: number[] = [];
+        words.forEach((word, i) => {
+            const bits = BigInt(bitmaps[i]);
+            for (let bit = 0; bit < 256; bit++) {
+                if ((bits >> BigInt(bit)) & 1n) initialized.push(word * 256 + bit);
+            }
+        });
+        initialized = initialized
+            .filter(t => (down ? t <= start : t >= start))
+            .sort((a, b) => (down ? b - a : a - b));
+
+        // Past the words read, or past the last tick read, liquidity is unknown
+        const lastWord = words[words.length - 1];
+        const truncated = initialized.length > V3_MAX_CROSSINGS;
+        initialized = initialized.slice(0, V3_MAX_CROSSINGS);
+        const limit = truncated
+            ? initialized[initialized.length - 1]
+            : (down ? lastWord * 256 : lastWord * 256 + 255);
+
+        const ticks = initialized.length === 0 ? [] : await this.client.batch<string>(initialized.map(t => ({
+            method: "eth_call",
+            params: [{ to: this.config.pool, data: TICKS_SELECTOR + encodeInt256(t * tickSpacing) }, "latest"]
+        })));
+
+        // ticks(int24): (uint128 liquidityGross, int128 liquidityNet, ...)
+        return {
+            crossings: initialized.map((t, i) => ({
+                sqrtPrice: tickSqrtPrice(t * tickSpacing),
+                liquidityNet: Number(decodeInt256(splitWords(ticks[i])[1]))
+            })),
+            limit: tickSqrtPrice(Math.min(Math.max(limit * tickSpacing, MIN_TICK), MAX_TICK))
+        };
+    }
+}
+
+/**
+ * Aerodrome (Solidly-style) pool depth from getReserves()
+ */
+export class AerodromeLiquidityPool implements LiquidityPool {
+    readonly name: string;
+    private client: JsonRpcClient;
+    private config: Extract<LiquidityPoolConfig, { type: "aerodrome" }>;
+    private chainId: number;
+
+    constructor(client: JsonRpcClient, chainId: number, config: Extract<LiquidityPoolConfig, { type: "aerodrome" }>) {
+        this.client = client;
+        this.chainId = chainId;
+        this.config = config;
+        this.name = `aerodrome:${config.pool}`;
+    }
+
+    async measure(sizesUsd: number[]): Promise<PoolDepth> {
+        // (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)
+        const words = splitWords(await this.client.ethCall(this.config.pool, GET_RESERVES_SELECTOR));
+        const reserve0 = Number(BigInt("0x" + words[0])) / 10 ** this.config.token0Decimals;
+        const reserve1 = Number(BigInt("0x" + words[1])) / 10 ** this.config.token1Decimals;
+
+        // x = monitored token, y = quote token (decimal-normalised)
+        const [x, y] = this.config.tokenIsToken0 ? [reserve0, reserve1] : [reserve1, reserve0];
+        const curve = this.config.stable ? stableCurve : volatileCurve;
+
+        return {
+            pool: this.config.pool,
+            dex: "aerodrome",
+            chainId: this.chainId,
+            spotPrice: curve.spotPrice(x, y),
+            impacts: sizesUsd.map(sizeUsd => ({ sizeUsd, priceImpact: curve.impact(x, y, sizeUsd) }))
+        };
+    }
+}
+
+/**
+ * Liquidity Monitor: Sell-side depth for one token across its configured pools
+ *
+ * Trade sizes are in USD and converted 1:1 to tokens (the token is a $1
+ * stablecoin, and impact is what tells us when that stops being true).
+ */
+export class LiquidityMonitor {
+    private env: EcosystemEnv;
+    private token: EcosystemToken;
+    private chains: ChainRegistry;
+
+    constructor(env: EcosystemEnv, token: EcosystemToken, chains: ChainRegistry) {
+        this.env = env;
+        this.token = token;
+        this.chains = chains;
+    }
+
+    async getLiquidity(): Promise<LiquidityReport> {
+        const { pools, failed } = await this.createPools();
+
+        if (pools.length === 0 && failed.length === 0) {
+            return {
+                token: this.token,
+                state: "UNCONFIGURED",
+                pools: [],
+                failed: [],
+                impacts: [],
+                referenceSizeUsd: LIQUIDITY_REFERENCE_USD,
+                referenceImpact: null
+            };
+        }
+
+        const settled = await Promise.allSettled(pools.map(p => p.measure(LIQUIDITY_TRADE_SIZES_USD)));
+        const measured: PoolDepth[] = [];
+
+        settled.forEach((outcome, i) => {
+            if (outcome.status === "fulfilled") {
+                measured.push(outcome.value);
+            } else {
+                failed.push({ pool: pools[i].name, error: String(outcome.reason) });
+            }
+        });
+
+        // Best single pool per size; routing across pools would only do better
+        const impacts: PriceImpact[] = measured.length === 0 ? [] : LIQUIDITY_TRADE_SIZES_USD.map(sizeUsd => ({
+            sizeUsd,
+            priceImpact: Math.min(...measured.map(p => p.impacts.find(i => i.sizeUsd === sizeUsd)!.priceImpact))
+        }));
+
+        return {
+            token: this.token,
+            state: failed.length > 0 ? "DEGRADED" : "OK",
+            pools: measured,
+            failed,
+            impacts,
+            referenceSizeUsd: LIQUIDITY_REFERENCE_USD,
+            referenceImpact: impacts.find(i => i.sizeUsd === LIQUIDITY_REFERENCE_USD)?.priceImpact ?? null
+        };
+    }
+
+    /**
+     * Pools from LIQUIDITY_POOLS; configuration problems are reported as failures
+     * (the whole setting when it does not parse, a single pool on an unknown chain)
+     */
+    private async createPools(): Promise<{ pools: LiquidityPool[]; failed: LiquidityReport["failed"] }> {
+        const pools: LiquidityPool[] = [];
+        const failed: LiquidityReport["failed"] = [];
+        if (!this.env.LIQUIDITY_POOLS) return { pools, failed };
+
+        let all: Partial<Record<EcosystemToken, LiquidityPoolConfig[]>>;
+        try {
+            all = JSON.parse(this.env.LIQUIDITY_POOLS);
+        } catch (error) {
+            failed.push({ pool: "LIQUIDITY_POOLS", error: `Invalid LIQUIDITY_POOLS JSON: ${error instanceof Error ? error.message : error}` });
+            return { pools, failed };
+        }
+
+        for (const config of all?.[this.token] || []) {
+            const chainId = config.chainId ?? 8453;
+            const chain = await this.chains.getChain(chainId);
+            if (!chain) {
+                failed.push({ pool: `${config.type}:${config.pool}`, error: `Unknown chain ${chainId}` });
+                continue;
+            }
+
+            const client = this.chains.getClient(chain);
+            pools.push(config.type === "uniswap-v3"
+                ? new UniswapV3LiquidityPool(client, chainId, config)
+                : new AerodromeLiquidityPool(client, chainId, config));
+        }
+
+        return { pools, failed };
+    }
+}
+
+/**
+ * Initialized ticks a v3 sell crosses, nearest first, and the sqrt price where
+ * the ticks read run out (nothing is assumed to fill beyond it)
+ */
+interface V3TickRange {
+    crossings: { sqrtPrice: number; liquidityNet: number }[];
+    limit: number;
+}
+
+function tickSqrtPrice(tick: number): number {
+    return 1.0001 ** (tick / 2);
+}
+
+function encodeInt256(value: number): string {
+    return encodeUint256(BigInt.asUintN(256, BigInt(value)));
+}
+
+/**
+ * Sell token0 down through v3 ranges. Within a range sqrtP' = L·sqrtP / (L + dx·sqrtP)
+ * and received dy = L·(sqrtP − sqrtP'); crossing a tick downwards removes its liquidityNet
+ */
+function sellToken0Impact(liquidity: number, sqrtPrice: number, amountIn: number, range: V3TickRange): number {
+    if (sqrtPrice <= 0) return 1;
+    let active = liquidity;
+    let price = sqrtPrice;
+    let remaining = amountIn;
+    let received = 0;
+
+    for (const stop of [...range.crossings, { sqrtPrice: range.limit, liquidityNet: 0 }]) {
+        const target = Math.max(stop.sqrtPrice, range.limit);
+        if (active > 0) {
+            const capacity = active * (1 / target - 1 / price);
+            if (remaining <= capacity) {
+                const next = (active * price) / (active + remaining * price);
+                received += active * (price - next);
+                remaining = 0;
+                break;
+            }
+            remaining -= capacity;
+            received += active * (price - target);
+        }
+        price = target;
+        active -= stop.liquidityNet;
+    }
+
+    return clampImpact(1 - (received / amountIn) / (sqrtPrice * sqrtPrice));
+}
+
+/**
+ * Sell token1 up through v3 ranges. Within a range sqrtP' = sqrtP + dy / L and
+ * received dx = L·(1/sqrtP − 1/sqrtP'); crossing a tick upwards adds its liquidityNet
+ */
+function sellToken1Impact(liquidity: number, sqrtPrice: number, amountIn: number, range: V3TickRange): number {
+    if (sqrtPrice <= 0) return 1;
+    let active = liquidity;
+    let price = sqrtPrice;
+    let remaining = amountIn;
+    let received = 0;
+
+    for (const stop of [...range.crossings, { sqrtPrice: range.limit, liquidityNet: 0 }]) {
+        const target = Math.min(stop.sqrtPrice, range.limit);
+        if (active > 0) {
+            const capacity = active * (target - price);
+            if (remaining <= capacity) {
+                const next = price + remaining / active;
+                received += active * (1 / price - 1 / next);
+                remaining = 0;
+                break;
+            }
+            remaining -= capacity;
+            received += active * (1 / price - 1 / target);
+        }
+        price = target;
+        active += stop.liquidityNet;
+    }
+
+    return clampImpact(1 - (received / amountIn) * (sqrtPrice * sqrtPrice));
+}
+
+interface Curve {
+    spotPrice(x: number, y: number): number;
+    /** Impact of selling dx of x for y */
+    impact(x: number, y: number, dx: number): number;
+}
+
+const volatileCurve: Curve = {
+    spotPrice: (x, y) => (x > 0 ? y / x : 0),
+    impact: (x, y, dx) => (x > 0 && y > 0 ? dx / (x + dx) : 1)
+};
+
+const stableCurve: Curve = {
+    // dy/dx of x³y + y³x = k
+    spotPrice: (x, y) => (x > 0 ? (3 * x * x * y + y ** 3) / (x ** 3 + 3 * x * y * y) : 0),
+
+    impact(x, y, dx) {
+        if (x <= 0 || y <= 0) return 1;
+        const k = x ** 3 * y + y ** 3 * x;
+        const nextX = x + dx;
+
+        // Newton's method for y' with x'³y' + x'y'³ = k (monotonic in y', converges from y)
+        let nextY = y;
+        for (let i = 0; i < 64; i++) {
+            const f = nextX ** 3 * nextY + nextX * nextY ** 3 - k;
+            const slope = nextX ** 3 + 3 * nextX * nextY * nextY;
+            const step = f / slope;
+            nextY -= step;
+            if (Math.abs(step) <= nextY * 1e-12) break;
+        }
+
+        const received = y - Math.max(nextY, 0);
+        return clampImpact(1 - (received / dx) / this.spotPrice(x, y));
+    }
+};
+
+function clampImpact(impact: number): number {
+    if (!Number.isFinite(impact)) return 1;
+    return Math.min(Math.max(impact, 0), 1);
+}
+
+/**
+ * Alerts for thin liquidity and unreadable pools
+ */
+export function checkLiquidityAlerts(
+    report: LiquidityReport,
+    bands: RiskBands,
+    source: NonNullable<Alert["source"]>
+): Alert[] {
+    const alerts: Alert[] = [];
+    const label = report.token;
+    const impact = report.referenceImpact;
+    const size = `$${(report.referenceSizeUsd / 1000).toFixed(0)}k`;
+    const data = { impacts: report.impacts, pools: report.pools.map(p => p.pool) };
+
+    if (impact !== null && impact > bands.red) {
+        alerts.push({
+            id: `${source}-LIQUIDITY-${Date.now()}`,
+            type: "CRITICAL_LIQUIDITY",
+            source,
+            severity: "CRITICAL",
+            message: `${label} ${size} sell would fill ${(impact * 100).toFixed(2)}% below spot on average - liquidity critically thin`,
+            data,
+            timestamp: Date.now(),
+            acknowledged: false
+        });
+    } else if (impact !== null && impact > bands.orange) {
+        alerts.push({
+            id: `${source}-LIQUIDITY-${Date.now()}`,
+            type: "LOW_LIQUIDITY",
+            source,
+            severity: "HIGH",
+            message: `${label} ${size} sell would fill ${(impact * 100).toFixed(2)}% below spot on average`,
+            data,
+            timestamp: Date.now(),
+            acknowledged: false
+        });
+    }
+
+    for (const failure of report.failed) {
+        alerts.push({
+            id: `${source}-POOL-${Date.now()}`,
+            type: "LIQUIDITY_POOL_UNREADABLE",
+            source,
+            subject: failure.pool,
+            severity: "MEDIUM",
+            message: `${label} pool ${failure.pool} could not be read: ${failure.error}`,
+            data: failure,
+            timestamp: Date.now(),
+            acknowledged: false
+        });
+    }
+
+    return alerts;
+}
@@ -5,8 +5,14 @@ import type {
     BondcurveLaunch,
     Alert,
     MarketplaceAgentReport,
-    EcosystemEnv
+    EcosystemEnv,
+    FeeLedgerEntry,
+    LaunchSyncResult
 } from './types';
+import { ChainRegistry } from './chains';
+import { LaunchIndexer } from './launch-indexer';
+import { checkLaunchAlerts, loadLaunchAlertRules } from './launch-alerts';
+import { FeeLedger, checkFeeAlerts, expectedFee, loadFeeBps } from './fee-ledger';
 
 /**
  * Marketplace Agent: Read-only monitoring of Camp Marketplace
@@ -14,62 +20,78 @@ import type {
  * Responsibilities:
  * - Track active bondcurve launches
  * - Monitor launch progress
- * - Track fees collected
- * - Generate alerts for completed/failed launches
+ * - Reconcile fees collected against the fee receiver
+ * - Generate alerts for stalled, whale-bought, sold-off and failed launches
+ *   and for fees that did not reconcile
+ *
+ * Launch records come from the LaunchIndexer and fee entries from the
+ * FeeLedger; each is synced at most once per agent instance.
  */
 export class MarketplaceAgent {
     private env: EcosystemEnv;
-    private activeLaunches: Map<string, BondcurveLaunch> = new Map();
+    private indexer: LaunchIndexer;
+    private fees: FeeLedger;
+    private synced: Promise<LaunchSyncResult | null> | null = null;
+    private feesSynced: Promise<void> | null = null;
 
-    constructor(env: EcosystemEnv) {
+    constructor(env: EcosystemEnv, chains: ChainRegistry = new ChainRegistry(env)) {
         this.env = env;
+        this.indexer = new LaunchIndexer(env, chains);
+        this.fees = new FeeLedger(env, chains, this.indexer);
+    }
+
+    /**
+     * Index new marketplace events (once per instance)
+     * Failures are logged and the last indexed state is used
+     */
+    async sync(): Promise<LaunchSyncResult | null> {
+        this.synced ??= this.indexer.sync().catch(error => {
+            console.error("[Marketplace] Launch indexing failed:", error);
+            return null;
+        });
+        return this.synced;
     }
 
     /**
      * Get all active launches
      */
     async getActiveLaunches(): Promise<BondcurveLaunch[]> {
-        // TODO: Implement when marketplace contract is deployed
-        // For MVP, return empty array
-        return Array.from(this.activeLaunches.values());
+        return (await this.getTrackedLaunches()).filter(l => l.status === "ACTIVE");
+    }
+
+    /**
+     * Active launches plus recently failed ones
+     */
+    private async getTrackedLaunches(): Promise<BondcurveLaunch[]> {
+        const synced = await this.sync();
+        return synced?.launches ?? this.indexer.getLaunches();
     }
 
     /**
      * Get launch by token address
      */
     async getLaunch(tokenAddress: string): Promise<BondcurveLaunch | null> {
-        return this.activeLaunches.get(tokenAddress) || null;
+        const address = tokenAddress.toLowerCase();
+        return (await this.getActiveLaunches()).find(l => l.tokenAddress === address) || null;
     }
 
     /**
      * Update launch progress from chain
      */
     async updateLaunchProgress(tokenAddress: string): Promise<BondcurveLaunch | null> {
-        // TODO: Implement when marketplace contract is deployed
-        const launch = this.activeLaunches.get(tokenAddress);
-        if (!launch) return null;
-
-        // Update progress from chain
-        // const currentSupply = await getTokenSupply(tokenAddress);
-        // launch.currentSupply = currentSupply;
-        // launch.progressPercent = calculateProgress(launch);
-
-        return launch;
+        return this.getLaunch(tokenAddress);
     }
 
     /**
-     * Get completed launches in last 24h
+     * Get launches that graduated in the last 24h
      */
     async getCompletedLaunches24h(): Promise<BondcurveLaunch[]> {
         const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
 
         try {
-            const key = "marketplace/completed-launches.json";
-            const object = await this.env.ECOSYSTEM_BUCKET.get(key);
-            if (!object) return [];
-
-            const launches: BondcurveLaunch[] = JSON.parse(await object.text());
-            return launches.filter(l => l.createdAt > dayAgo);
+            await this.sync();
+            const launches = await this.indexer.getCompletedLaunches();
+            return launches.filter(l => (l.completedAt ?? l.createdAt) > dayAgo);
         } catch {
             return [];
         }
@@ -83,40 +105,78 @@ export class MarketplaceAgent {
         return launches.reduce((sum, l) => sum + l.raised, 0n);
     }
 
+    /**
+     * Reconcile new fee transfers after indexing launches (once per instance)
+     * Failures are logged and the entries already in the ledger are used
+     */
+    private async syncFees(): Promise<void> {
+        this.feesSynced ??= this.sync().then(() => this.fees.sync()).then(() => undefined, error => {
+            console.error("[Marketplace] Fee reconciliation failed:", error);
+        });
+        return this.feesSynced;
+    }
+
+    /**
+     * Fee ledger entries between two timestamps (null when no fee receiver is configured)
+     */
+    async getFeeLedger(since: number, until: number = Date.now()): Promise<FeeLedgerEntry[] | null> {
+        if ((await this.fees.getChains()).length === 0) return null;
+
+        await this.syncFees();
+        return this.fees.getEntries(since, until);
+    }
+
+    /**
+     * Fee ledger entries from the last 24h (null when no fee receiver is configured)
+     */
+    async getFeeLedger24h(): Promise<FeeLedgerEntry[] | null> {
+        return this.getFeeLedger(Date.now() - 24 * 60 * 60 * 1000);
+    }
+
     /**
      * Get fees collected in 24h
+     * Falls back to the expected fee on raised amounts when no fee receiver is configured
      */
     async getFeesCollected24h(): Promise<bigint> {
-        const raised = await this.getTotalRaised24h();
-        // 2.5% fee
-        return (raised * 250n) / 10000n;
+        const entries = await this.getFeeLedger24h();
+        if (entries) return entries.reduce((sum, e) => sum + e.collectedFee, 0n);
+
+        return expectedFee(await this.getTotalRaised24h(), loadFeeBps(this.env));
     }
 
     /**
-     * Check for alerts
+     * MISSING and UNDERPAID fees not yet paid or resolved (null when no fee receiver is configured)
      */
-    async checkAlerts(): Promise<Alert[]> {
-        const alerts: Alert[] = [];
-
-        for (const launch of Array.from(this.activeLaunches.values())) {
-            // Alert when launch reaches 90% progress
-            if (launch.progressPercent >= 90 && launch.status === "ACTIVE") {
-                alerts.push({
-                    id: `MARKETPLACE-LAUNCH-${launch.tokenAddress}`,
-                    type: "LAUNCH_NEAR_COMPLETION",
-                    severity: "LOW",
-                    message: `Launch ${launch.symbol} at ${launch.progressPercent}% - near completion`,
-                    data: { tokenAddress: launch.tokenAddress, symbol: launch.symbol },
-                    timestamp: Date.now(),
-                    acknowledged: false
-                });
-            }
-
-            // Alert for stalled launches (no progress in 24h)
-            // Would need to track last progress update timestamp
-        }
+    async getOutstandingFees(): Promise<FeeLedgerEntry[] | null> {
+        if ((await this.fees.getChains()).length === 0) return null;
 
-        return alerts;
+        await this.syncFees();
+        return this.fees.getOutstanding();
+    }
+
+    /**
+     * Stop alerting on an outstanding fee an operator has dealt with
+     */
+    async resolveOutstandingFee(id: string): Promise<FeeLedgerEntry | null> {
+        return this.fees.resolveOutstanding(id);
+    }
+
+    /**
+     * Check for alerts (stalled, whale buys, sell-offs, failures, near completion, fee discrepancies)
+     * Unpaid fees alert until settled; overpaid and unattributed transfers for a day
+     */
+    async checkAlerts(): Promise<Alert[]> {
+        const [launches, outstanding, fees] = await Promise.all([
+            this.getTrackedLaunches(),
+            this.getOutstandingFees(),
+            this.getFeeLedger24h()
+        ]);
+        const surplus = (fees ?? []).filter(e => e.status === "OVERPAID" || e.status === "UNATTRIBUTED");
+
+        return [
+            ...checkLaunchAlerts(launches, loadLaunchAlertRules(this.env)),
+            ...checkFeeAlerts([...(outstanding ?? []), ...surplus])
+        ];
     }
 
     /**
@@ -127,12 +187,14 @@ export class MarketplaceAgent {
         const completedLaunches = await this.getCompletedLaunches24h();
         const totalRaised24h = await this.getTotalRaised24h();
         const feeCollected24h = await this.getFeesCollected24h();
+        const feeLedger = await this.getFeeLedger24h();
 
         return {
             activeLaunches: activeLaunches.length,
             completedLaunches24h: completedLaunches.length,
             totalRaised24h,
-            feeCollected24h
+            feeCollected24h,
+            feeDiscrepancies24h: (feeLedger ?? []).filter(e => e.status !== "MATCHED").length
         };
     }
 }
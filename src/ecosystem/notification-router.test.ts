@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  NotificationRouter,
+  defaultNotificationPolicy,
+  isQuietTime,
+  loadNotificationPolicy,
+} from './notification-router';
+import { sendDiscordEmbeds, sendDiscordMessage, sendTelegramMessage } from './notifications';
+import type { ReportView } from './report-format';
+import type { AlertRecord, EcosystemEnv, NotificationPolicy } from './types';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+vi.mock('./notifications', () => ({
+  sendDiscordMessage: vi.fn(async () => ({ success: true })),
+  sendDiscordEmbeds: vi.fn(async () => ({ success: true })),
+  sendTelegramMessage: vi.fn(async () => ({ success: true })),
+  sendSlackMessage: vi.fn(async () => ({ success: true })),
+}));
+
+const MINUTE = 60 * 1000;
+const NIGHT = Date.UTC(2026, 0, 15, 23, 0);
+const MORNING = Date.UTC(2026, 0, 16, 8, 0);
+
+const policy: NotificationPolicy = {
+  recipients: [
+    { name: 'ops', channel: { type: 'discord', channelId: 'ops-channel' } },
+    { name: 'oncall', channel: { type: 'telegram', chatId: 'oncall-chat' }, quietHours: { start: '22:00', end: '07:00', bypass: ['CRITICAL'] } },
+    { name: 'lead', channel: { type: 'telegram', chatId: 'lead-chat' }, delivery: 'digest', digestMinutes: 240 },
+  ],
+  rules: [
+    { name: 'usdgb', match: { sources: ['USDGB'] }, recipients: ['ops', 'lead'] },
+    {
+      name: 'urgent',
+      match: { severities: ['CRITICAL', 'HIGH'], states: ['OPEN'] },
+      recipients: ['oncall', 'missing'],
+      escalation: { afterMinutes: 30, recipients: ['lead'] },
+    },
+  ],
+  reports: { '4h': ['ops'] },
+};
+
+function createRouter() {
+  const env = { ECOSYSTEM_BUCKET: createMockBucket() } as unknown as EcosystemEnv;
+  return new NotificationRouter(env, policy);
+}
+
+function record(id: string, overrides: Partial<AlertRecord> = {}): AlertRecord {
+  return {
+    id,
+    type: 'PEG_DEVIATION',
+    source: 'USDGB',
+    severity: 'HIGH',
+    message: `${id} message`,
+    timestamp: NIGHT,
+    fingerprint: id,
+    state: 'OPEN',
+    firstSeen: NIGHT,
+    lastSeen: NIGHT,
+    occurrences: 1,
+    history: [{ state: 'OPEN', at: NIGHT }],
+    ...overrides,
+  };
+}
+
+function sentTo(mock: typeof sendDiscordMessage, target: string): string[] {
+  return vi.mocked(mock).mock.calls.filter(call => call[2] === target).map(call => call[1]);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  suppressConsole();
+});
+
+describe('NotificationRouter', () => {
+  it('routes alerts to every matching rule and skips unknown recipients', async () => {
+    const router = createRouter();
+
+    const deliveries = await router.routeAlerts(
+      [record('ALT-1', { severity: 'CRITICAL' }), record('ALT-2', { source: 'GOVERNOR', severity: 'LOW' })],
+      'RED RISK | Alerts: 2',
+      MORNING
+    );
+
+    expect(deliveries).toEqual([
+      { recipient: 'ops', status: 'sent', items: 1 },
+      { recipient: 'lead', status: 'digest', items: 1 },
+      { recipient: 'oncall', status: 'sent', items: 1 },
+    ]);
+    expect(sentTo(sendDiscordMessage, 'ops-channel')).toEqual(['🚨 **ALERT UPDATES**\nRED RISK | Alerts: 2\n🔴 [OPEN] CRITICAL ALT-1 message (ALT-1)']);
+  });
+
+  it('holds notifications during quiet hours unless the severity bypasses them', async () => {
+    const router = createRouter();
+
+    const deliveries = await router.routeAlerts([record('ALT-1', { severity: 'CRITICAL' }), record('ALT-2')], undefined, NIGHT);
+
+    expect(deliveries.filter(d => d.recipient === 'oncall')).toEqual([
+      { recipient: 'oncall', status: 'held', items: 1 },
+      { recipient: 'oncall', status: 'sent', items: 1 },
+    ]);
+    expect(sentTo(sendTelegramMessage, 'oncall-chat')).toEqual(['🚨 *ALERT UPDATES*\n🔴 \\[OPEN\\] CRITICAL ALT\\-1 message \\(ALT\\-1\\)']);
+
+    await router.flush(NIGHT + 60 * MINUTE);
+    expect(sentTo(sendTelegramMessage, 'oncall-chat')).toHaveLength(1);
+
+    await router.flush(MORNING);
+    expect(sentTo(sendTelegramMessage, 'oncall-chat')[1]).toBe('🔴 \\[OPEN\\] HIGH ALT\\-2 message \\(ALT\\-2\\)');
+  });
+
+  it('sends Telegram alert text as escaped MarkdownV2', async () => {
+    const router = createRouter();
+
+    await router.routeAlerts([record('ALT-1', { severity: 'CRITICAL', message: 'chain_8453 could not be read: RpcError: eth_call: revert' })], undefined, MORNING);
+
+    const call = vi.mocked(sendTelegramMessage).mock.calls.find(c => c[2] === 'oncall-chat');
+    expect(call?.[3]).toBe('MarkdownV2');
+    expect(call?.[1]).toContain('chain\\_8453 could not be read: RpcError: eth\\_call: revert');
+  });
+
+  it('batches digest recipients until the oldest item has waited digestMinutes', async () => {
+    const router = createRouter();
+    await router.routeAlerts([record('ALT-1')], undefined, MORNING);
+    await router.routeAlerts([record('ALT-1', { state: 'RESOLVED', history: [{ state: 'RESOLVED', at: MORNING }] })], undefined, MORNING + 60 * MINUTE);
+
+    expect(await router.flush(MORNING + 120 * MINUTE)).toEqual([]);
+
+    const deliveries = await router.flush(MORNING + 240 * MINUTE);
+    expect(deliveries).toEqual([{ recipient: 'lead', status: 'sent', items: 2 }]);
+    expect(sentTo(sendTelegramMessage, 'lead-chat')).toEqual([
+      '🗂 *DIGEST* \\- 2 notifications\n🔴 \\[OPEN\\] HIGH ALT\\-1 message \\(ALT\\-1\\)\n✅ \\[RESOLVED\\] HIGH ALT\\-1 message \\(ALT\\-1\\)',
+    ]);
+
+    expect(await router.flush(MORNING + 480 * MINUTE)).toEqual([]);
+  });
+
+  it('queues failed sends and retries them on flush', async () => {
+    const router = createRouter();
+    const view: ReportView = { headline: ['STATUS'], risk: 'GREEN', sections: [], footer: 'footer', timestamp: MORNING };
+    vi.mocked(sendDiscordEmbeds).mockResolvedValueOnce({ success: false, error: 'HTTP 500' });
+
+    expect(await router.sendReport('4h', view, MORNING)).toEqual([{ recipient: 'ops', status: 'failed', items: 1 }]);
+    expect(await router.flush(MORNING + MINUTE)).toEqual([{ recipient: 'ops', status: 'sent', items: 1 }]);
+    expect(vi.mocked(sendDiscordEmbeds).mock.calls.map(call => call[1][0].title)).toEqual(['STATUS', 'STATUS']);
+  });
+
+  it('escalates an alert left open once per opening', async () => {
+    const router = createRouter();
+    const open = record('ALT-1');
+
+    expect(await router.escalate([open], NIGHT + 10 * MINUTE)).toEqual([]);
+    expect(await router.escalate([open], NIGHT + 30 * MINUTE)).toEqual([{ recipient: 'lead', status: 'sent', items: 1 }]);
+    expect(sentTo(sendTelegramMessage, 'lead-chat')[0]).toContain('⏫ *ESCALATED* \\(urgent\\) \\- unacknowledged for 30 min');
+    expect(await router.escalate([open], NIGHT + 60 * MINUTE)).toEqual([]);
+
+    // Acknowledged alerts are not escalated; a reopened alert escalates again
+    expect(await router.escalate([{ ...open, state: 'ACKED' }], NIGHT + 90 * MINUTE)).toEqual([]);
+    const reopened = record('ALT-1', { history: [...open.history, { state: 'RESOLVED', at: MORNING }, { state: 'OPEN', at: MORNING + MINUTE }] });
+    expect(await router.escalate([reopened], MORNING + 31 * MINUTE)).toHaveLength(1);
+  });
+});
+
+describe('isQuietTime', () => {
+  it('handles windows that wrap past midnight and time zones', () => {
+    const quiet = { start: '22:00', end: '07:00' };
+
+    expect(isQuietTime(quiet, NIGHT)).toBe(true);
+    expect(isQuietTime(quiet, MORNING)).toBe(false);
+    expect(isQuietTime({ start: '09:00', end: '17:00', timeZone: 'America/New_York' }, Date.UTC(2026, 0, 15, 15, 0))).toBe(true);
+    expect(isQuietTime({ start: '09:00', end: '17:00', timeZone: 'America/New_York' }, Date.UTC(2026, 0, 15, 23, 0))).toBe(false);
+    expect(isQuietTime(undefined, NIGHT)).toBe(false);
+  });
+});
+
+describe('loadNotificationPolicy', () => {
+  it('builds the default routing from the channel env vars', () => {
+    const env = {
+      DISCORD_CHANNEL_OPS: 'ops',
+      DISCORD_CHANNEL_DAILY: 'daily',
+      TELEGRAM_BOT_TOKEN: 'token',
+      ALERT_WEBHOOKS: JSON.stringify([{ name: 'n8n', url: 'https://n8n.example/hook', secret: 'shh' }]),
+    } as EcosystemEnv;
+
+    const routing = defaultNotificationPolicy(env);
+    expect(routing.recipients.map(r => r.name)).toEqual(['ops-discord', 'daily-discord', 'telegram', 'webhook:n8n']);
+    expect(routing.rules.map(r => [r.name, r.recipients])).toEqual([['high-priority', ['telegram']], ['webhooks', ['webhook:n8n']]]);
+    expect(routing.reports).toEqual({ '4h': ['ops-discord'], '24h': ['daily-discord', 'telegram'] });
+  });
+
+  it('falls back to the default routing for an invalid policy', () => {
+    suppressConsole();
+    const invalid = { DISCORD_CHANNEL_OPS: 'ops', NOTIFICATION_POLICY: JSON.stringify({ recipients: [{ name: 'x', channel: { type: 'pager' } }], rules: [] }) } as EcosystemEnv;
+
+    expect(loadNotificationPolicy(invalid).reports['4h']).toEqual(['ops-discord']);
+    expect(loadNotificationPolicy({ NOTIFICATION_POLICY: JSON.stringify(policy) } as EcosystemEnv).rules).toHaveLength(2);
+  });
+});
@@ -0,0 +1,499 @@
+// Notification Router - Rule-based delivery of alerts and reports
+// Part of ChiefOS Ecosystem Manager
+
+import type {
+    Alert,
+    AlertRecord,
+    EcosystemEnv,
+    NotificationDelivery,
+    NotificationPolicy,
+    NotificationRecipient,
+    NotificationRule,
+    OperationalReport,
+    QuietHours
+} from './types';
+import { StateDocument } from './ecosystem-state';
+import { sendDiscordEmbeds, sendDiscordMessage, sendSlackMessage, sendTelegramMessage } from './notifications';
+import { escapeMarkdownV2, renderDiscordEmbeds, renderPlainText, renderSlackBlocks, renderTelegramMarkdownV2 } from './report-format';
+import { slackAlertBlocks } from './slack';
+import type { ReportView } from './report-format';
+import { WebhookDispatcher, loadWebhookEndpoints } from './webhooks';
+import { serializeWithBigInt } from './utils';
+
+const STATE_KEY = "notifications/state.json";
+const DEFAULT_DIGEST_MINUTES = 24 * 60;
+const MAX_QUEUE = 100;
+const CHANNEL_TYPES = ["discord", "telegram", "slack", "webhook"];
+
+/**
+ * A notification waiting for quiet hours to end, the next digest or a retry
+ */
+interface QueuedNotification {
+    /** Dedup key: the same alert transition or report is queued once */
+    id: string;
+    text: string;
+    queuedAt: number;
+    severity?: Alert["severity"];
+    /** Carried for webhook recipients and Slack Acknowledge buttons */
+    alert?: AlertRecord;
+    /** Reports sent on their own are rendered for the channel (embeds, MarkdownV2) */
+    view?: ReportView;
+}
+
+interface RouterState {
+    queues: Record<string, QueuedNotification[]>;
+    /** Escalations already sent, `<rule>:<alert id>@<opened at>` */
+    escalated: string[];
+}
+
+/**
+ * One line per alert transition
+ */
+export function formatAlertLine(record: AlertRecord): string {
+    const stateEmoji: Record<string, string> = { OPEN: "🔴", RESOLVED: "✅" };
+    return `${stateEmoji[record.state] ?? "•"} [${record.state}] ${record.severity} ${record.message} (${record.id})`;
+}
+
+/**
+ * Header and item lines as MarkdownV2; the header's **bold** runs become
+ * Telegram bold, everything else (alert messages included) is escaped
+ */
+function telegramAlertText(header: string, items: QueuedNotification[]): string {
+    const heading = header
+        .split("**")
+        .map((part, i) => i % 2 === 1 ? `*${escapeMarkdownV2(part)}*` : escapeMarkdownV2(part))
+        .join("");
+    return [heading, ...items.map(item => escapeMarkdownV2(item.text))].filter(Boolean).join("\n");
+}
+
+/**
+ * The routing used when NOTIFICATION_POLICY is not set: the 4h report to
+ * DISCORD_CHANNEL_OPS and SLACK_CHANNEL_OPS, the daily brief to
+ * DISCORD_CHANNEL_DAILY and Telegram, HIGH and CRITICAL alerts to Telegram and
+ * Slack, and every alert to the ALERT_WEBHOOKS endpoints (which apply their
+ * own severity filters)
+ */
+export function defaultNotificationPolicy(env: EcosystemEnv): NotificationPolicy {
+    const recipients: NotificationRecipient[] = [];
+    if (env.DISCORD_CHANNEL_OPS) {
+        recipients.push({ name: "ops-discord", channel: { type: "discord", channelId: env.DISCORD_CHANNEL_OPS } });
+    }
+    if (env.DISCORD_CHANNEL_DAILY) {
+        recipients.push({ name: "daily-discord", channel: { type: "discord", channelId: env.DISCORD_CHANNEL_DAILY } });
+    }
+    if (env.TELEGRAM_BOT_TOKEN) {
+        recipients.push({ name: "telegram", channel: { type: "telegram" } });
+    }
+    if (env.SLACK_BOT_TOKEN && env.SLACK_CHANNEL_OPS) {
+        recipients.push({ name: "slack", channel: { type: "slack" } });
+    }
+
+    const webhooks: string[] = [];
+    for (const endpoint of loadWebhookEndpoints(env)) {
+        webhooks.push(`webhook:${endpoint.name}`);
+        recipients.push({ name: `webhook:${endpoint.name}`, channel: { type: "webhook", endpoint: endpoint.name } });
+    }
+
+    const known = (names: string[]) => names.filter(n => recipients.some(r => r.name === n));
+
+    return {
+        recipients,
+        rules: [
+            { name: "high-priority", match: { severities: ["CRITICAL", "HIGH"] }, recipients: known(["telegram", "slack"]) },
+            { name: "webhooks", match: {}, recipients: webhooks }
+        ].filter(rule => rule.recipients.length > 0) as NotificationRule[],
+        reports: {
+            "4h": known(["ops-discord", "slack"]),
+            "24h": known(["daily-discord", "telegram"])
+        }
+    };
+}
+
+/**
+ * Routing from NOTIFICATION_POLICY, or the default policy
+ * An unparseable or malformed value is logged and the default is used
+ */
+export function loadNotificationPolicy(env: EcosystemEnv): NotificationPolicy {
+    if (!env.NOTIFICATION_POLICY) return defaultNotificationPolicy(env);
+
+    try {
+        const policy = JSON.parse(env.NOTIFICATION_POLICY) as NotificationPolicy;
+        if (!Array.isArray(policy?.recipients) || !Array.isArray(policy.rules)) {
+            throw new Error("NOTIFICATION_POLICY needs recipients and rules arrays");
+        }
+        for (const recipient of policy.recipients) {
+            if (!recipient?.name || !CHANNEL_TYPES.includes(recipient.channel?.type)) {
+                throw new Error(`Recipient ${recipient?.name ?? "?"} needs a name and a ${CHANNEL_TYPES.join("/")} channel`);
+            }
+        }
+        for (const rule of policy.rules) {
+            if (!rule?.name || !Array.isArray(rule.recipients)) {
+                throw new Error(`Rule ${rule?.name ?? "?"} needs a name and recipients`);
+            }
+        }
+        return { ...policy, rules: policy.rules.map(r => ({ ...r, match: r.match ?? {} })), reports: policy.reports ?? {} };
+    } catch (error) {
+        console.error("[Notifications] Invalid NOTIFICATION_POLICY, using the default routing:", error);
+        return defaultNotificationPolicy(env);
+    }
+}
+
+/**
+ * Whether a rule's match applies to an alert record
+ */
+export function matchesRule(rule: NotificationRule, record: AlertRecord): boolean {
+    const { severities, sources, types, states } = rule.match;
+    return (!severities || severities.includes(record.severity))
+        && (!sources || (!!record.source && sources.includes(record.source)))
+        && (!types || types.includes(record.type))
+        && (!states || states.includes(record.state));
+}
+
+/**
+ * Whether `now` falls inside the quiet hours window
+ * An invalid time zone is logged and treated as UTC
+ */
+export function isQuietTime(quiet: QuietHours | undefined, now: number): boolean {
+    if (!quiet) return false;
+
+    const start = parseClock(quiet.start);
+    const end = parseClock(quiet.end);
+    if (start === null || end === null || start === end) return false;
+
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+        parts = new Intl.DateTimeFormat("en-GB", {
+            timeZone: quiet.timeZone ?? "UTC",
+            hour: "2-digit",
+            minute: "2-digit",
+            hourCycle: "h23"
+        }).formatToParts(now);
+    } catch (error) {
+        console.error(`[Notifications] Invalid quiet hours time zone ${quiet.timeZone}, using UTC:`, error);
+        return isQuietTime({ ...quiet, timeZone: "UTC" }, now);
+    }
+
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    const minute = part("hour") * 60 + part("minute");
+
+    return start < end
+        ? minute >= start && minute < end
+        : minute >= start || minute < end;
+}
+
+function parseClock(value: string | undefined): number | null {
+    const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+    return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Notification Router: Sends alerts and reports to recipients by policy
+ *
+ * - Alert transitions go to the recipients of every rule they match
+ * - Recipients in quiet hours get notifications held until the window ends,
+ *   except severities listed in quietHours.bypass
+ * - Digest recipients get queued notifications in one message once the
+ *   oldest has waited digestMinutes (checked on each flush(), i.e. every 4h run)
+ * - Rules with escalation notify extra recipients once per opening when an
+ *   alert stays OPEN (not acked or snoozed) for afterMinutes; escalations
+ *   ignore quiet hours and digests
+ * - Failed sends are queued and retried on the next flush()
+ *
+ * Queues and sent escalations live in the state document notifications/state.json.
+ */
+export class NotificationRouter {
+    private env: EcosystemEnv;
+    private policy: NotificationPolicy;
+    private document: StateDocument<RouterState>;
+    private webhooks?: WebhookDispatcher;
+
+    constructor(env: EcosystemEnv, policy: NotificationPolicy = loadNotificationPolicy(env)) {
+        this.env = env;
+        this.policy = policy;
+        this.document = new StateDocument(env, STATE_KEY, {
+            empty: () => ({ queues: {}, escalated: [] }),
+            parse: text => JSON.parse(text) as RouterState,
+            serialize: state => serializeWithBigInt(state)
+        });
+    }
+
+    /**
+     * Deliver alert transitions to the recipients of the rules they match
+     * `context` (e.g. the overall risk line) heads immediate messages
+     */
+    async routeAlerts(records: AlertRecord[], context?: string, now: number = Date.now()): Promise<NotificationDelivery[]> {
+        const byRecipient = new Map<string, AlertRecord[]>();
+
+        for (const rule of this.policy.rules) {
+            for (const record of records.filter(r => matchesRule(rule, r))) {
+                for (const name of rule.recipients) {
+                    const list = byRecipient.get(name) ?? [];
+                    if (!list.includes(record)) list.push(record);
+                    byRecipient.set(name, list);
+                }
+            }
+        }
+
+        const deliveries: NotificationDelivery[] = [];
+        for (const [name, matched] of byRecipient) {
+            const recipient = this.recipient(name);
+            if (!recipient) continue;
+
+            const items = matched.map(record => ({
+                id: `alert:${record.id}:${record.state}@${record.history[record.history.length - 1]?.at ?? record.lastSeen}`,
+                text: formatAlertLine(record),
+                queuedAt: now,
+                severity: record.severity,
+                alert: record
+            }));
+            const header = ["🚨 **ALERT UPDATES**", context].filter(Boolean).join("\n");
+            deliveries.push(...await this.deliver(recipient, items, header, now));
+        }
+
+        return deliveries;
+    }
+
+    /**
+     * Send an operational report to the recipients configured for its period
+     */
+    async sendReport(
+        period: OperationalReport["period"],
+        view: ReportView,
+        now: number = Date.now()
+    ): Promise<NotificationDelivery[]> {
+        const deliveries: NotificationDelivery[] = [];
+
+        for (const name of this.policy.reports[period] ?? []) {
+            const recipient = this.recipient(name);
+            if (!recipient) continue;
+            if (recipient.channel.type === "webhook") {
+                console.warn(`[Notifications] ${name}: webhooks carry alerts only, skipping ${period} report`);
+                continue;
+            }
+
+            const item = { id: `report:${period}@${now}`, text: renderPlainText(view), queuedAt: now, view };
+            deliveries.push(...await this.deliver(recipient, [item], "", now));
+        }
+
+        return deliveries;
+    }
+
+    /**
+     * Notify escalation recipients about alerts left OPEN past their rule's deadline
+     * Pass every current record so escalations of closed alerts are forgotten
+     */
+    async escalate(records: AlertRecord[], now: number = Date.now()): Promise<NotificationDelivery[]> {
+        const due: { key: string; rule: NotificationRule; record: AlertRecord; openedAt: number }[] = [];
+        const current = new Set<string>();
+
+        for (const rule of this.policy.rules) {
+            if (!rule.escalation) continue;
+
+            for (const record of records) {
+                if (record.state !== "OPEN" || !matchesRule(rule, record)) continue;
+
+                const openedAt = record.history.filter(h => h.state === "OPEN").pop()?.at ?? record.firstSeen;
+                const key = `${rule.name}:${record.id}@${openedAt}`;
+                current.add(key);
+                if (now - openedAt >= rule.escalation.afterMinutes * 60 * 1000) due.push({ key, rule, record, openedAt });
+            }
+        }
+
+        const escalated = new Set((await this.document.read()).escalated);
+        const deliveries: NotificationDelivery[] = [];
+        const sent: string[] = [];
+
+        for (const { key, rule, record, openedAt } of due.filter(d => !escalated.has(d.key))) {
+            const minutes = Math.floor((now - openedAt) / 60000);
+            const header = `⏫ **ESCALATED** (${rule.name}) - unacknowledged for ${minutes} min`;
+            const item = { id: key, text: formatAlertLine(record), queuedAt: now, severity: record.severity, alert: record };
+            let delivered = true;
+
+            for (const name of rule.escalation!.recipients) {
+                const recipient = this.recipient(name);
+                if (!recipient) continue;
+
+                const ok = await this.send(recipient, header, [item], now);
+                delivered &&= ok;
+                deliveries.push({ recipient: name, status: ok ? "sent" : "failed", items: 1 });
+            }
+
+            // A failed escalation is retried on the next run
+            if (delivered) sent.push(key);
+        }
+
+        await this.document.update(state => {
+            state.escalated = state.escalated.filter(key => current.has(key));
+            for (const key of sent) if (!state.escalated.includes(key)) state.escalated.push(key);
+        });
+
+        return deliveries;
+    }
+
+    /**
+     * Send held notifications whose quiet hours are over, due digests and retries
+     */
+    async flush(now: number = Date.now()): Promise<NotificationDelivery[]> {
+        const taken = await this.document.update(state => {
+            const batches: { recipient: NotificationRecipient; items: QueuedNotification[] }[] = [];
+
+            for (const [name, queue] of Object.entries(state.queues)) {
+                const recipient = this.recipient(name);
+                if (!recipient) {
+                    delete state.queues[name];
+                    continue;
+                }
+
+                const due = queue.filter(item => this.isDue(recipient, item, queue, now));
+                if (due.length === 0) continue;
+
+                state.queues[name] = queue.filter(item => !due.includes(item));
+                if (state.queues[name].length === 0) delete state.queues[name];
+                batches.push({ recipient, items: due });
+            }
+
+            return batches;
+        });
+
+        const deliveries: NotificationDelivery[] = [];
+        for (const { recipient, items } of taken) {
+            const title = recipient.delivery === "digest"
+                ? `🗂 **DIGEST** - ${items.length} notification${items.length === 1 ? "" : "s"}`
+                : items.length > 1 ? `🌙 **HELD DURING QUIET HOURS** - ${items.length} notifications` : "";
+
+            const ok = await this.send(recipient, title, items, now);
+            if (!ok) await this.enqueue(recipient.name, items);
+            deliveries.push({ recipient: recipient.name, status: ok ? "sent" : "failed", items: items.length });
+        }
+
+        return deliveries;
+    }
+
+    /**
+     * Send now, or queue for quiet hours / digest; failed sends are queued for retry
+     */
+    private async deliver(
+        recipient: NotificationRecipient,
+        items: QueuedNotification[],
+        header: string,
+        now: number
+    ): Promise<NotificationDelivery[]> {
+        const quiet = isQuietTime(recipient.quietHours, now);
+        const bypass = recipient.quietHours?.bypass ?? [];
+        const immediate = items.filter(item => !quiet || (!!item.severity && bypass.includes(item.severity)));
+        const held = items.filter(item => !immediate.includes(item));
+        const deliveries: NotificationDelivery[] = [];
+
+        if (held.length > 0) {
+            await this.enqueue(recipient.name, held);
+            deliveries.push({ recipient: recipient.name, status: "held", items: held.length });
+        }
+
+        if (immediate.length === 0) return deliveries;
+
+        // Outside quiet hours digest recipients queue everything; inside, only bypassing severities got here
+        const digest = recipient.delivery === "digest" && !quiet ? immediate : [];
+        if (digest.length > 0) {
+            await this.enqueue(recipient.name, digest);
+            deliveries.push({ recipient: recipient.name, status: "digest", items: digest.length });
+        }
+
+        const direct = immediate.filter(item => !digest.includes(item));
+        if (direct.length === 0) return deliveries;
+
+        const ok = await this.send(recipient, header, direct, now);
+        if (!ok) await this.enqueue(recipient.name, direct);
+        deliveries.push({ recipient: recipient.name, status: ok ? "sent" : "failed", items: direct.length });
+
+        return deliveries;
+    }
+
+    private isDue(
+        recipient: NotificationRecipient,
+        item: QueuedNotification,
+        queue: QueuedNotification[],
+        now: number
+    ): boolean {
+        if (isQuietTime(recipient.quietHours, now)) {
+            return !!item.severity && (recipient.quietHours?.bypass ?? []).includes(item.severity);
+        }
+        if (recipient.delivery !== "digest") return true;
+
+        const oldest = Math.min(...queue.map(q => q.queuedAt));
+        return now - oldest >= (recipient.digestMinutes ?? DEFAULT_DIGEST_MINUTES) * 60 * 1000;
+    }
+
+    private async enqueue(name: string, items: QueuedNotification[]): Promise<void> {
+        await this.document.update(state => {
+            const queue = state.queues[name] ?? [];
+            for (const item of items) {
+                if (!queue.some(q => q.id === item.id)) queue.push(item);
+            }
+            queue.sort((a, b) => a.queuedAt - b.queuedAt);
+
+            if (queue.length > MAX_QUEUE) {
+                console.warn(`[Notifications] ${name}: queue full, dropping ${queue.length - MAX_QUEUE} oldest`);
+                queue.splice(0, queue.length - MAX_QUEUE);
+            }
+            state.queues[name] = queue;
+        });
+    }
+
+    /**
+     * One message per call; a lone report without a header is sent in the
+     * channel's rich format, everything else as the header and item lines
+     */
+    private async send(
+        recipient: NotificationRecipient,
+        header: string,
+        items: QueuedNotification[],
+        now: number
+    ): Promise<boolean> {
+        const channel = recipient.channel;
+        const view = !header && items.length === 1 ? items[0].view : undefined;
+        const text = [header, ...items.map(item => item.text)].filter(Boolean).join("\n");
+        let result: { success: boolean; error?: string };
+
+        switch (channel.type) {
+            case "discord":
+                result = view
+                    ? await sendDiscordEmbeds(this.env, renderDiscordEmbeds(view), channel.channelId)
+                    : await sendDiscordMessage(this.env, text, channel.channelId);
+                break;
+            case "telegram":
+                result = view
+                    ? await sendTelegramMessage(this.env, renderTelegramMarkdownV2(view), channel.chatId, "MarkdownV2")
+                    : await sendTelegramMessage(this.env, telegramAlertText(header, items), channel.chatId, "MarkdownV2");
+                break;
+            case "slack":
+                result = await sendSlackMessage(
+                    this.env,
+                    view ? renderPlainText(view) : text,
+                    channel.channel,
+                    view ? renderSlackBlocks(view) : slackAlertBlocks(header, items)
+                );
+                break;
+            case "webhook": {
+                // Failed webhook deliveries are dead-lettered by the dispatcher, not queued here
+                const alerts = items.flatMap(item => item.alert ? [item.alert] : []);
+                if (alerts.length === 0) return true;
+                this.webhooks ??= new WebhookDispatcher(this.env);
+                const delivery = await this.webhooks.dispatchTo(channel.endpoint, alerts, now);
+                if (delivery) {
+                    console.log(`[Notifications] ${recipient.name}: ${delivery.delivered ? "delivered" : "dead-lettered"} after ${delivery.attempts} attempts`);
+                }
+                return true;
+            }
+        }
+
+        if (!result.success) console.error(`[Notifications] ${recipient.name}: ${result.error}`);
+        return result.success;
+    }
+
+    private recipient(name: string): NotificationRecipient | undefined {
+        const recipient = this.policy.recipients.find(r => r.name === name);
+        if (!recipient) console.error(`[Notifications] Unknown recipient ${name}, skipping`);
+        return recipient;
+    }
+}
@@ -2,16 +2,46 @@
 // Part of ChiefSOS Ecosystem Manager
 
 import type { EcosystemEnv } from './types';
+import { DISCORD_MESSAGE_LIMIT, TELEGRAM_MESSAGE_LIMIT, chunkText } from './report-format';
+
+const DISCORD_EMBEDS_PER_MESSAGE = 10;
+const DISCORD_EMBED_TOTAL_LIMIT = 6000;
+const SLACK_TEXT_LIMIT = 40000;
+const SLACK_BLOCKS_PER_MESSAGE = 50;
+
+/**
+ * Slack Block Kit block (https://api.slack.com/reference/block-kit/blocks)
+ */
+export type SlackBlock = { type: string; block_id?: string } & Record<string, unknown>;
+
+/**
+ * Telegram parse_mode; null sends plain text
+ */
+export type TelegramParseMode = "Markdown" | "MarkdownV2" | null;
+
+/**
+ * Discord embed object (the subset the ecosystem sends)
+ */
+export interface DiscordEmbed {
+    title?: string;
+    description?: string;
+    color?: number;
+    fields?: { name: string; value: string; inline?: boolean }[];
+    footer?: { text: string };
+    timestamp?: string;
+}
 
 /**
  * Send a message to Telegram
  * Requires TELEGRAM_BOT_TOKEN
  * Uses chat_id if provided, otherwise attempts to find it or log error
+ * Text over the 4096 character limit is sent as several messages
  */
 export async function sendTelegramMessage(
     env: EcosystemEnv,
     text: string,
-    chatId?: string
+    chatId?: string,
+    parseMode: TelegramParseMode = "Markdown"
 ): Promise<{ success: boolean; error?: string }> {
     if (!env.TELEGRAM_BOT_TOKEN) {
         return { success: false, error: "TELEGRAM_BOT_TOKEN not set" };
@@ -26,21 +56,24 @@ export async function sendTelegramMessage(
 
     try {
         const url = `https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage`;
-        const response = await fetch(url, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-                chat_id: targetChatId,
-                text: text,
-                parse_mode: "Markdown"
-            })
-        });
 
-        const data = await response.json() as { ok: boolean; description?: string };
+        for (const chunk of chunkText(text, TELEGRAM_MESSAGE_LIMIT)) {
+            const response = await fetch(url, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    chat_id: targetChatId,
+                    text: chunk,
+                    ...(parseMode ? { parse_mode: parseMode } : {})
+                })
+            });
 
-        if (!data.ok) {
-            console.error(`[Telegram] API Error: ${data.description}`);
-            return { success: false, error: data.description };
+            const data = await response.json() as { ok: boolean; description?: string };
+
+            if (!data.ok) {
+                console.error(`[Telegram] API Error: ${data.description}`);
+                return { success: false, error: data.description };
+            }
         }
 
         return { success: true };
@@ -54,11 +87,48 @@ export async function sendTelegramMessage(
 /**
  * Send a message to Discord
  * Requires DISCORD_BOT_TOKEN
+ * Text over the 2000 character limit is sent as several messages
  */
 export async function sendDiscordMessage(
     env: EcosystemEnv,
     text: string,
     channelId?: string
+): Promise<{ success: boolean; error?: string }> {
+    const messages = chunkText(text, DISCORD_MESSAGE_LIMIT).map(content => ({ content }));
+    return postDiscordMessages(env, messages, channelId);
+}
+
+/**
+ * Send embeds to Discord
+ * Embeds are grouped into messages of at most 10 embeds and 6000 characters
+ */
+export async function sendDiscordEmbeds(
+    env: EcosystemEnv,
+    embeds: DiscordEmbed[],
+    channelId?: string
+): Promise<{ success: boolean; error?: string }> {
+    const messages: { embeds: DiscordEmbed[] }[] = [];
+    let size = 0;
+
+    for (const embed of embeds) {
+        const current = messages[messages.length - 1];
+        const embedSize = JSON.stringify(embed).length;
+        if (!current || current.embeds.length >= DISCORD_EMBEDS_PER_MESSAGE || size + embedSize > DISCORD_EMBED_TOTAL_LIMIT) {
+            messages.push({ embeds: [embed] });
+            size = embedSize;
+        } else {
+            current.embeds.push(embed);
+            size += embedSize;
+        }
+    }
+
+    return postDiscordMessages(env, messages, channelId);
+}
+
+async function postDiscordMessages(
+    env: EcosystemEnv,
+    messages: ({ content: string } | { embeds: DiscordEmbed[] })[],
+    channelId?: string
 ): Promise<{ success: boolean; error?: string }> {
     if (!env.DISCORD_BOT_TOKEN) {
         return { success: false, error: "DISCORD_BOT_TOKEN not set" };
@@ -70,27 +140,78 @@ export async function sendDiscordMessage(
 
     try {
         const url = `https://discord.com/api/v10/channels/${channelId}/messages`;
-        const response = await fetch(url, {
+
+        for (const message of messages) {
+            const response = await fetch(url, {
+                method: "POST",
+                headers: {
+                    "Authorization": `Bot ${env.DISCORD_BOT_TOKEN}`,
+                    "Content-Type": "application/json"
+                },
+                body: JSON.stringify(message)
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                console.error(`[Discord] API Error (${response.status}): ${errorText}`);
+                return { success: false, error: `HTTP ${response.status}: ${errorText}` };
+            }
+        }
+
+        return { success: true };
+
+    } catch (error) {
+        console.error("[Discord] Network Error:", error);
+        return { success: false, error: String(error) };
+    }
+}
+
+/**
+ * Send a message to Slack (chat.postMessage)
+ * Requires SLACK_BOT_TOKEN; uses SLACK_CHANNEL_OPS when no channel is given
+ * `text` is the notification fallback when Block Kit blocks are sent
+ */
+export async function sendSlackMessage(
+    env: EcosystemEnv,
+    text: string,
+    channel?: string,
+    blocks?: SlackBlock[]
+): Promise<{ success: boolean; error?: string }> {
+    if (!env.SLACK_BOT_TOKEN) {
+        return { success: false, error: "SLACK_BOT_TOKEN not set" };
+    }
+
+    const targetChannel = channel || env.SLACK_CHANNEL_OPS;
+
+    if (!targetChannel) {
+        return { success: false, error: "No Channel ID provided" };
+    }
+
+    try {
+        const response = await fetch("https://slack.com/api/chat.postMessage", {
             method: "POST",
             headers: {
-                "Authorization": `Bot ${env.DISCORD_BOT_TOKEN}`,
-                "Content-Type": "application/json"
+                "Authorization": `Bearer ${env.SLACK_BOT_TOKEN}`,
+                "Content-Type": "application/json; charset=utf-8"
             },
             body: JSON.stringify({
-                content: text
+                channel: targetChannel,
+                text: text.slice(0, SLACK_TEXT_LIMIT),
+                ...(blocks ? { blocks: blocks.slice(0, SLACK_BLOCKS_PER_MESSAGE) } : {})
             })
         });
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error(`[Discord] API Error (${response.status}): ${errorText}`);
-            return { success: false, error: `HTTP ${response.status}: ${errorText}` };
+        const data = await response.json() as { ok: boolean; error?: string };
+
+        if (!data.ok) {
+            console.error(`[Slack] API Error: ${data.error}`);
+            return { success: false, error: data.error };
         }
 
         return { success: true };
 
     } catch (error) {
-        console.error("[Discord] Network Error:", error);
+        console.error("[Slack] Network Error:", error);
         return { success: false, error: String(error) };
     }
 }
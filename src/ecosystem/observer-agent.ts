@@ -6,6 +6,9 @@ import type {
     ObserverAgentReport,
     EcosystemEnv
 } from './types';
+import { StateDocument } from './ecosystem-state';
+
+const STATE_KEY = "observer/state.json";
 
 /**
  * Skill harvested from Moltbook
@@ -47,6 +50,15 @@ interface SkillPR {
     createdAt: number;
 }
 
+/**
+ * Observer findings kept in the ecosystem state document observer/state.json
+ */
+interface ObserverState {
+    skillsHarvested: number;
+    securityAlerts: ExploitAlert[];
+    marketIntelligence: string[];
+}
+
 /**
  * Observer Agent: Read-only intelligence from Moltbook
  * 
@@ -60,9 +72,7 @@ export class ObserverAgent {
     private env: EcosystemEnv;
     private moltbookApiUrl = "https://api.moltbook.com/v1";
     private relevantProtocols = ["layerzero", "base", "stablecoin", "bonding-curve"];
-    private skillsHarvested = 0;
-    private securityAlerts: ExploitAlert[] = [];
-    private marketIntelligence: string[] = [];
+    private document: StateDocument<ObserverState>;
 
     // Rate limiter
     private rateLimiter = {
@@ -73,6 +83,11 @@ export class ObserverAgent {
 
     constructor(env: EcosystemEnv) {
         this.env = env;
+        this.document = new StateDocument<ObserverState>(env, STATE_KEY, {
+            empty: () => ({ skillsHarvested: 0, securityAlerts: [], marketIntelligence: [] }),
+            parse: text => JSON.parse(text),
+            serialize: state => JSON.stringify(state)
+        });
     }
 
     /**
@@ -90,7 +105,11 @@ export class ObserverAgent {
             }
         }
 
-        this.skillsHarvested += skills.length;
+        if (skills.length > 0) {
+            await this.document.update(state => {
+                state.skillsHarvested += skills.length;
+            });
+        }
 
         // Create PRs for new skills
         for (const skill of skills) {
@@ -132,7 +151,9 @@ export class ObserverAgent {
                 this.relevantProtocols.includes(e.protocol)
             );
 
-            this.securityAlerts = relevant;
+            await this.document.update(state => {
+                state.securityAlerts = relevant;
+            });
 
             return relevant;
         } catch (error) {
@@ -215,12 +236,14 @@ ${skill.content}
     /**
      * Add market intelligence item
      */
-    addIntelligence(item: string): void {
-        this.marketIntelligence.push(item);
-        // Keep last 100 items
-        if (this.marketIntelligence.length > 100) {
-            this.marketIntelligence.shift();
-        }
+    async addIntelligence(item: string): Promise<void> {
+        await this.document.update(state => {
+            state.marketIntelligence.push(item);
+            // Keep last 100 items
+            if (state.marketIntelligence.length > 100) {
+                state.marketIntelligence.shift();
+            }
+        });
     }
 
     /**
@@ -249,12 +272,15 @@ ${skill.content}
      */
     async checkAlerts(): Promise<Alert[]> {
         const alerts: Alert[] = [];
+        const { securityAlerts } = await this.document.read();
 
-        for (const exploit of this.securityAlerts) {
+        for (const exploit of securityAlerts) {
             if (exploit.severity === "CRITICAL" || exploit.severity === "HIGH") {
                 alerts.push({
                     id: `OBSERVER-EXPLOIT-${exploit.id}`,
                     type: "SECURITY_EXPLOIT",
+                    source: "OBSERVER",
+                    subject: exploit.id,
                     severity: exploit.severity,
                     message: `${exploit.protocol}: ${exploit.description}`,
                     data: exploit,
@@ -275,14 +301,15 @@ ${skill.content}
         await this.harvestSkills();
         await this.checkSecurityExploits();
         const pendingPRs = await this.getPendingSkillPRs();
+        const state = await this.document.read();
 
         return {
-            skillsReviewed: this.skillsHarvested,
-            skillsHarvested: this.skillsHarvested,
-            exploitsDetected: this.securityAlerts.length,
-            securityAlerts: this.securityAlerts.length,
-            marketIntelUpdated: this.marketIntelligence.length,
-            marketIntelligence: this.marketIntelligence.slice(-10), // Last 10 items
+            skillsReviewed: state.skillsHarvested,
+            skillsHarvested: state.skillsHarvested,
+            exploitsDetected: state.securityAlerts.length,
+            securityAlerts: state.securityAlerts.length,
+            marketIntelUpdated: state.marketIntelligence.length,
+            marketIntelligence: state.marketIntelligence.slice(-10), // Last 10 items
             pendingPRs: pendingPRs.length
         };
     }
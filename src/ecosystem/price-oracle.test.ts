@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fixture from './fixtures/price-oracle-rpc.json';
+import { JsonRpcClient } from './rpc';
+import {
+  UniswapV3TwapOracle,
+  ChainlinkAggregatorOracle,
+  MedianPriceOracle,
+  PriceSourcesError,
+  createPegOracle,
+  unavailablePegPrice,
+  checkPegReadAlerts,
+  type PriceOracle,
+} from './price-oracle';
+import { ChainRegistry } from './chains';
+import type { EcosystemEnv } from './types';
+import { stubJsonRpc, suppressConsole } from '../test-utils';
+
+const POOL = fixture.calls[0].to;
+const AGGREGATOR = fixture.calls[2].to;
+
+/**
+ * Replay recorded eth_call responses keyed by (to, data)
+ */
+function replayFixture(overrides: Record<string, { error: string }> = {}) {
+  stubJsonRpc(request => {
+    const { to, data } = request.params[0] as { to: string; data: string };
+    const override = overrides[data.slice(0, 10)];
+    if (override) return { error: { code: 3, message: override.error } };
+
+    const call = fixture.calls.find(c => c.to === to && c.data === data);
+    if (!call) throw new Error(`No fixture for ${to} ${data}`);
+    return { result: call.result };
+  });
+}
+
+const uniswapConfig = {
+  type: 'uniswap-v3' as const,
+  pool: POOL,
+  tokenIsToken0: true,
+  token0Decimals: 18,
+  token1Decimals: 6,
+  twapSeconds: 1800,
+};
+
+describe('price oracles', () => {
+  beforeEach(() => {
+    suppressConsole();
+    vi.spyOn(Date, 'now').mockReturnValue(fixture.recordedAt + 60_000);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('UniswapV3TwapOracle', () => {
+    it('computes the TWAP price from observe()', async () => {
+      replayFixture();
+      const oracle = new UniswapV3TwapOracle(new JsonRpcClient('http://rpc'), uniswapConfig);
+
+      const quote = await oracle.getPrice();
+
+      expect(quote.detail).toBe('twap-1800s');
+      expect(quote.price).toBeCloseTo(0.9979, 4);
+    });
+
+    it('inverts the price when the pegged token is token1', async () => {
+      replayFixture();
+      const oracle = new UniswapV3TwapOracle(new JsonRpcClient('http://rpc'), {
+        ...uniswapConfig,
+        tokenIsToken0: false,
+        token0Decimals: 6,
+        token1Decimals: 18,
+      });
+
+      const quote = await oracle.getPrice();
+
+      expect(quote.price).toBeCloseTo(1 / (1.0001 ** -276345 * 1e-12), 4);
+    });
+
+    it('falls back to slot0 when observe() reverts', async () => {
+      replayFixture({ '0x883bdbfd': { error: 'execution reverted: OLD' } });
+      const oracle = new UniswapV3TwapOracle(new JsonRpcClient('http://rpc'), uniswapConfig);
+
+      const quote = await oracle.getPrice();
+
+      expect(quote.detail).toBe('spot');
+      expect(quote.price).toBeCloseTo(0.999, 4);
+    });
+  });
+
+  describe('ChainlinkAggregatorOracle', () => {
+    it('reads latestRoundData scaled by decimals', async () => {
+      replayFixture();
+      const oracle = new ChainlinkAggregatorOracle(new JsonRpcClient('http://rpc'), {
+        type: 'chainlink',
+        aggregator: AGGREGATOR,
+      });
+
+      const quote = await oracle.getPrice();
+
+      expect(quote.price).toBeCloseTo(0.9995, 6);
+      expect(quote.timestamp).toBe(fixture.recordedAt);
+    });
+
+    it('rejects stale rounds', async () => {
+      replayFixture();
+      vi.spyOn(Date, 'now').mockReturnValue(fixture.recordedAt + 2 * 3600_000);
+      const oracle = new ChainlinkAggregatorOracle(new JsonRpcClient('http://rpc'), {
+        type: 'chainlink',
+        aggregator: AGGREGATOR,
+        maxAgeSeconds: 3600,
+      });
+
+      await expect(oracle.getPrice()).rejects.toThrow(/stale/);
+    });
+  });
+
+  describe('MedianPriceOracle', () => {
+    const fixed = (name: string, price: number): PriceOracle => ({
+      name,
+      getPrice: async () => ({ source: name, price, timestamp: 0 }),
+    });
+    const broken = (name: string): PriceOracle => ({
+      name,
+      getPrice: async () => { throw new Error('rpc down'); },
+    });
+
+    it('takes the median and records contributing and failed sources', async () => {
+      const oracle = new MedianPriceOracle([fixed('a', 0.99), fixed('b', 1.2), fixed('c', 1.0), broken('d')]);
+
+      const result = await oracle.getPegPrice();
+
+      expect(result.price).toBe(1.0);
+      expect(result.method).toBe('median');
+      expect(result.sources.map(s => s.source)).toEqual(['a', 'b', 'c']);
+      expect(result.failed).toEqual([{ source: 'd', error: 'Error: rpc down' }]);
+    });
+
+    it('reports a single surviving source', async () => {
+      const oracle = new MedianPriceOracle([broken('a'), fixed('b', 0.97)]);
+
+      const result = await oracle.getPegPrice();
+
+      expect(result).toMatchObject({ price: 0.97, method: 'single' });
+    });
+
+    it('throws when every source fails', async () => {
+      const oracle = new MedianPriceOracle([broken('a'), broken('b')]);
+
+      const error = await oracle.getPegPrice().catch(e => e);
+
+      expect(error).toBeInstanceOf(PriceSourcesError);
+      expect(error.message).toMatch(/All price sources failed/);
+      expect(error.failed.map((f: { source: string }) => f.source)).toEqual(['a', 'b']);
+    });
+
+    it('combines live readers from the recorded fixture', async () => {
+      replayFixture();
+      const client = new JsonRpcClient('http://rpc');
+      const oracle = new MedianPriceOracle([
+        new UniswapV3TwapOracle(client, uniswapConfig),
+        new ChainlinkAggregatorOracle(client, { type: 'chainlink', aggregator: AGGREGATOR }),
+      ]);
+
+      const result = await oracle.getPegPrice();
+
+      expect(result.price).toBeCloseTo((0.99790 + 0.9995) / 2, 4);
+    });
+  });
+
+  describe('peg read failures', () => {
+    it('lists the failed sources in the unavailable result', () => {
+      const result = unavailablePegPrice(new PriceSourcesError([{ source: 'a', error: 'rpc down' }]));
+
+      expect(result).toEqual({ price: 1, method: 'unavailable', sources: [], failed: [{ source: 'a', error: 'rpc down' }] });
+    });
+
+    it('raises a peg read alert only when the price is unavailable', () => {
+      const alerts = checkPegReadAlerts(unavailablePegPrice(new Error('unknown chain 1')), 'USDca');
+
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({ type: 'PEG_READ_FAILED', source: 'USDCA', severity: 'HIGH' });
+      expect(alerts[0].message).toBe('USDca peg price could not be read: PRICE_ORACLES (Error: unknown chain 1)');
+      expect(checkPegReadAlerts({ price: 1, method: 'unconfigured', sources: [], failed: [] }, 'USDca')).toEqual([]);
+    });
+
+    it('rejects invalid PRICE_ORACLES so the peg read is reported as failed', async () => {
+      const env = { PRICE_ORACLES: 'null' } as unknown as EcosystemEnv;
+      const chains = new ChainRegistry(env);
+
+      await expect(createPegOracle(env, 'USDGB', chains)).rejects.toThrow('PRICE_ORACLES must be a JSON object keyed by token');
+      const error = await createPegOracle({ PRICE_ORACLES: '{' } as unknown as EcosystemEnv, 'USDGB', chains).catch(e => e);
+      expect(error.message).toMatch(/^Invalid PRICE_ORACLES JSON/);
+      expect(checkPegReadAlerts(unavailablePegPrice(error), 'USDGB')).toHaveLength(1);
+      await expect(createPegOracle({} as EcosystemEnv, 'USDGB', chains)).resolves.toBeNull();
+    });
+  });
+});
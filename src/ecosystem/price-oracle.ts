@@ -0,0 +1,324 @@
+// Price Oracle - Peg price sources for the stablecoin agents
+// Part of ChiefOS Ecosystem Manager
+
+import type { Alert, EcosystemEnv, EcosystemToken, PriceQuote, PegPriceResult } from './types';
+import { ChainRegistry } from './chains';
+import { JsonRpcClient, splitWords, decodeInt256, encodeUint256 } from './rpc';
+
+// Uniswap v3 pool
+const SLOT0_SELECTOR = "0x3850c7bd";      // slot0()
+const OBSERVE_SELECTOR = "0x883bdbfd";    // observe(uint32[])
+
+// Chainlink AggregatorV3Interface
+const LATEST_ROUND_DATA_SELECTOR = "0xfeaf968c"; // latestRoundData()
+const DECIMALS_SELECTOR = "0x313ce567";          // decimals()
+
+/**
+ * Raised when no price source produced a usable quote
+ */
+export class PriceSourcesError extends Error {
+    readonly failed: PegPriceResult["failed"];
+
+    constructor(failed: PegPriceResult["failed"]) {
+        super(`All price sources failed: ${failed.map(f => `${f.source} (${f.error})`).join("; ")}`);
+        this.name = "PriceSourcesError";
+        this.failed = failed;
+    }
+}
+
+/**
+ * A pluggable price source
+ */
+export interface PriceOracle {
+    readonly name: string;
+    getPrice(): Promise<PriceQuote>;
+}
+
+/**
+ * Price source configuration (PRICE_ORACLES env var, keyed by token)
+ */
+export type PriceSourceConfig =
+    | {
+        type: "uniswap-v3";
+        chainId?: number;
+        pool: string;
+        /** Whether the pegged token is token0 of the pool */
+        tokenIsToken0: boolean;
+        token0Decimals: number;
+        token1Decimals: number;
+        /** TWAP window; 0 reads spot price from slot0 */
+        twapSeconds?: number;
+    }
+    | {
+        type: "chainlink";
+        chainId?: number;
+        aggregator: string;
+        /** Reject rounds older than this */
+        maxAgeSeconds?: number;
+    };
+
+/**
+ * Uniswap v3 pool reader
+ *
+ * Reads a TWAP from observe() and falls back to the slot0() spot price
+ * when the pool does not have enough observation history for the window.
+ */
+export class UniswapV3TwapOracle implements PriceOracle {
+    readonly name: string;
+    private client: JsonRpcClient;
+    private config: Extract<PriceSourceConfig, { type: "uniswap-v3" }>;
+
+    constructor(client: JsonRpcClient, config: Extract<PriceSourceConfig, { type: "uniswap-v3" }>) {
+        this.client = client;
+        this.config = config;
+        this.name = `uniswap-v3:${config.pool}`;
+    }
+
+    async getPrice(): Promise<PriceQuote> {
+        const twapSeconds = this.config.twapSeconds ?? 1800;
+
+        if (twapSeconds > 0) {
+            try {
+                const tick = await this.readTwapTick(twapSeconds);
+                return this.quote(this.tickToPrice(tick), `twap-${twapSeconds}s`);
+            } catch (error) {
+                console.warn(`[Oracle] ${this.name} observe() failed, using slot0:`, String(error));
+            }
+        }
+
+        const sqrtPriceX96 = await this.readSqrtPriceX96();
+        return this.quote(this.sqrtPriceToPrice(sqrtPriceX96), "spot");
+    }
+
+    private async readTwapTick(seconds: number): Promise<number> {
+        // observe([seconds, 0]) -> (int56[] tickCumulatives, uint160[] secondsPerLiquidity)
+        const data = OBSERVE_SELECTOR
+            + encodeUint256(32)
+            + encodeUint256(2)
+            + encodeUint256(seconds)
+            + encodeUint256(0);
+
+        const words = splitWords(await this.client.ethCall(this.config.pool, data));
+        const offset = Number(BigInt("0x" + words[0]) / 32n);
+        const length = Number(BigInt("0x" + words[offset]));
+        if (length !== 2) throw new Error(`Unexpected observe() length ${length}`);
+
+        const past = decodeInt256(words[offset + 1]);
+        const now = decodeInt256(words[offset + 2]);
+        const delta = now - past;
+        const window = BigInt(seconds);
+
+        // Round toward negative infinity, as OracleLibrary.consult does
+        let tick = delta / window;
+        if (delta < 0n && delta % window !== 0n) tick--;
+
+        return Number(tick);
+    }
+
+    private async readSqrtPriceX96(): Promise<bigint> {
+        const words = splitWords(await this.client.ethCall(this.config.pool, SLOT0_SELECTOR));
+        return BigInt("0x" + words[0]);
+    }
+
+    /**
+     * Convert a pool tick to the USD price of the pegged token
+     */
+    private tickToPrice(tick: number): number {
+        return this.orient(Math.pow(1.0001, tick));
+    }
+
+    private sqrtPriceToPrice(sqrtPriceX96: bigint): number {
+        const sqrt = Number(sqrtPriceX96) / 2 ** 96;
+        return this.orient(sqrt * sqrt);
+    }
+
+    /**
+     * Raw pool price is token1 per token0 in base units; scale by decimals
+     * and invert when the pegged token is token1
+     */
+    private orient(rawToken1PerToken0: number): number {
+        const { token0Decimals, token1Decimals, tokenIsToken0 } = this.config;
+        const token0Price = rawToken1PerToken0 * 10 ** (token0Decimals - token1Decimals);
+        return tokenIsToken0 ? token0Price : 1 / token0Price;
+    }
+
+    private quote(price: number, detail: string): PriceQuote {
+        return { source: this.name, price, timestamp: Date.now(), detail };
+    }
+}
+
+/**
+ * Chainlink-style AggregatorV3 reader
+ */
+export class ChainlinkAggregatorOracle implements PriceOracle {
+    readonly name: string;
+    private client: JsonRpcClient;
+    private config: Extract<PriceSourceConfig, { type: "chainlink" }>;
+    private decimals: number | null = null;
+
+    constructor(client: JsonRpcClient, config: Extract<PriceSourceConfig, { type: "chainlink" }>) {
+        this.client = client;
+        this.config = config;
+        this.name = `chainlink:${config.aggregator}`;
+    }
+
+    async getPrice(): Promise<PriceQuote> {
+        const [roundRaw, decimalsRaw] = await this.client.batch<string>([
+            { method: "eth_call", params: [{ to: this.config.aggregator, data: LATEST_ROUND_DATA_SELECTOR }, "latest"] },
+            { method: "eth_call", params: [{ to: this.config.aggregator, data: DECIMALS_SELECTOR }, "latest"] }
+        ]);
+
+        this.decimals ??= Number(BigInt(decimalsRaw));
+
+        // (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+        const words = splitWords(roundRaw);
+        const roundId = BigInt("0x" + words[0]);
+        const answer = decodeInt256(words[1]);
+        const updatedAt = Number(BigInt("0x" + words[3])) * 1000;
+
+        if (answer <= 0n) {
+            throw new Error(`${this.name} returned non-positive answer ${answer}`);
+        }
+
+        const maxAgeMs = (this.config.maxAgeSeconds ?? 86400) * 1000;
+        if (Date.now() - updatedAt > maxAgeMs) {
+            throw new Error(`${this.name} is stale (updated ${new Date(updatedAt).toISOString()})`);
+        }
+
+        return {
+            source: this.name,
+            price: Number(answer) / 10 ** this.decimals,
+            timestamp: updatedAt,
+            detail: `round-${roundId}`
+        };
+    }
+}
+
+/**
+ * Median-of-sources policy
+ *
+ * Queries every source, drops failures, and returns the median of the rest
+ * together with the quotes that produced it.
+ */
+export class MedianPriceOracle {
+    private sources: PriceOracle[];
+    private cacheMs: number;
+    private cached: { result: PegPriceResult; at: number } | null = null;
+
+    constructor(sources: PriceOracle[], cacheMs: number = 60000) {
+        this.sources = sources;
+        this.cacheMs = cacheMs;
+    }
+
+    async getPegPrice(): Promise<PegPriceResult> {
+        if (this.cached && Date.now() - this.cached.at < this.cacheMs) {
+            return this.cached.result;
+        }
+
+        const settled = await Promise.allSettled(this.sources.map(s => s.getPrice()));
+        const sources: PriceQuote[] = [];
+        const failed: PegPriceResult["failed"] = [];
+
+        settled.forEach((outcome, i) => {
+            if (outcome.status === "fulfilled" && Number.isFinite(outcome.value.price)) {
+                sources.push(outcome.value);
+            } else {
+                const error = outcome.status === "rejected" ? String(outcome.reason) : "non-finite price";
+                failed.push({ source: this.sources[i].name, error });
+            }
+        });
+
+        if (sources.length === 0) {
+            throw new PriceSourcesError(failed);
+        }
+
+        const result: PegPriceResult = {
+            price: median(sources.map(s => s.price)),
+            method: sources.length === 1 ? "single" : "median",
+            sources,
+            failed
+        };
+
+        this.cached = { result, at: Date.now() };
+        return result;
+    }
+}
+
+/**
+ * Peg result for a read that produced no price
+ * The price stays nominal so reports render; `failed` says why
+ */
+export function unavailablePegPrice(error: unknown): PegPriceResult {
+    const failed = error instanceof PriceSourcesError
+        ? error.failed
+        : [{ source: "PRICE_ORACLES", error: String(error) }];
+
+    return { price: 1.00, method: "unavailable", sources: [], failed };
+}
+
+/**
+ * Alert for a peg read where every configured source failed
+ */
+export function checkPegReadAlerts(result: PegPriceResult, token: "USDGB" | "USDca"): Alert[] {
+    if (result.method !== "unavailable") return [];
+
+    const source = token === "USDGB" ? "USDGB" : "USDCA";
+    return [{
+        id: `${token}-PEG-${Date.now()}`,
+        type: "PEG_READ_FAILED",
+        source,
+        severity: "HIGH",
+        message: `${token} peg price could not be read: ${result.failed.map(f => `${f.source} (${f.error})`).join("; ")}`,
+        data: { failed: result.failed },
+        timestamp: Date.now(),
+        acknowledged: false
+    }];
+}
+
+/**
+ * Build the peg oracle for a token from PRICE_ORACLES
+ * Returns null when no sources are configured for the token; a PRICE_ORACLES
+ * value that does not parse or references an unknown chain throws, so the
+ * caller reports the peg as unavailable rather than unconfigured
+ */
+export async function createPegOracle(
+    env: EcosystemEnv,
+    token: EcosystemToken,
+    chains: ChainRegistry
+): Promise<MedianPriceOracle | null> {
+    if (!env.PRICE_ORACLES) return null;
+
+    let all: Partial<Record<EcosystemToken, PriceSourceConfig[]>>;
+    try {
+        all = JSON.parse(env.PRICE_ORACLES);
+    } catch (error) {
+        throw new Error(`Invalid PRICE_ORACLES JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!all || typeof all !== "object" || Array.isArray(all)) {
+        throw new Error("PRICE_ORACLES must be a JSON object keyed by token");
+    }
+
+    const configs = all[token] || [];
+    if (configs.length === 0) return null;
+
+    const sources: PriceOracle[] = [];
+    for (const config of configs) {
+        const chain = await chains.getChain(config.chainId ?? 8453);
+        if (!chain) {
+            throw new Error(`Price source for ${token} references unknown chain ${config.chainId}`);
+        }
+
+        const client = chains.getClient(chain);
+        sources.push(config.type === "uniswap-v3"
+            ? new UniswapV3TwapOracle(client, config)
+            : new ChainlinkAggregatorOracle(client, config));
+    }
+
+    return new MedianPriceOracle(sources);
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
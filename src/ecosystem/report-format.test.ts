@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  operationalReportView,
+  renderPlainText,
+  renderDiscordEmbeds,
+  renderTelegramMarkdownV2,
+  renderSlackBlocks,
+  escapeMarkdownV2,
+  escapeSlackText,
+  chunkText,
+  RISK_COLOR,
+} from './report-format';
+import type { ReportView } from './report-format';
+import { dailyBriefView, summarizeDay } from './daily-brief';
+import type { OperationalReport } from './types';
+
+const TIMESTAMP = Date.UTC(2026, 0, 15, 12, 0);
+const E18 = 10n ** 18n;
+
+const report = {
+  timestamp: TIMESTAMP,
+  period: '4h',
+  agents: {
+    usdgb: { pegPrice: 0.9987, goldReserveRatio: 1.0234, pegOracle: { method: 'median' }, reserveStatus: { source: 'attestation' } },
+    usdca: { pegPrice: 1.0012, deltaCollateralization: 0.985, pegOracle: { method: 'median' } },
+    marketplace: { activeLaunches: 3 },
+    governor: {
+      riskStatus: { overall: 'ORANGE', alerts: [{ id: 'A', type: 'PEG_DEVIATION', severity: 'HIGH', message: 'peg', timestamp: 0 }] },
+      crossChainMessagesVerified: 12,
+      supplyInvariant: { state: 'OK' },
+      emergencyStatus: 'NORMAL',
+    },
+    observer: { skillsHarvested: 4, securityAlerts: 1 },
+  },
+  summary: '',
+} as unknown as OperationalReport;
+
+const daily = {
+  ...report,
+  period: '24h',
+  daily: summarizeDay(
+    [report, { ...report, timestamp: TIMESTAMP + 4 * 60 * 60 * 1000 }],
+    { launchesCompleted: 2, totalRaised: 150n * E18, feesCollected: 375n * E18 / 100n, feeDiscrepancies: 1 },
+    TIMESTAMP - 12 * 60 * 60 * 1000,
+    TIMESTAMP + 12 * 60 * 60 * 1000
+  ),
+} as OperationalReport;
+
+describe('4h report rendering', () => {
+  const view = operationalReportView(report);
+
+  it('renders plain text', () => {
+    expect(renderPlainText(view)).toMatchSnapshot();
+  });
+
+  it('renders Discord embeds coloured by risk', () => {
+    const embeds = renderDiscordEmbeds(view);
+    expect(embeds[0].color).toBe(RISK_COLOR.ORANGE);
+    expect(embeds).toMatchSnapshot();
+  });
+
+  it('renders Telegram MarkdownV2', () => {
+    expect(renderTelegramMarkdownV2(view)).toMatchSnapshot();
+  });
+
+  it('renders Slack Block Kit', () => {
+    expect(renderSlackBlocks(view)).toMatchSnapshot();
+  });
+});
+
+describe('daily brief rendering', () => {
+  const view = dailyBriefView(daily);
+
+  it('renders plain text', () => {
+    expect(renderPlainText(view)).toMatchSnapshot();
+  });
+
+  it('renders Discord embeds', () => {
+    expect(renderDiscordEmbeds(view)).toMatchSnapshot();
+  });
+
+  it('renders Telegram MarkdownV2', () => {
+    expect(renderTelegramMarkdownV2(view)).toMatchSnapshot();
+  });
+
+  it('renders Slack Block Kit', () => {
+    expect(renderSlackBlocks(view)).toMatchSnapshot();
+  });
+});
+
+describe('renderDiscordEmbeds', () => {
+  it('truncates long fields and continues past the field limit in a new embed', () => {
+    const view: ReportView = {
+      headline: ['Many sections'],
+      risk: 'GREEN',
+      sections: Array.from({ length: 30 }, (_, i) => ({ icon: '•', title: `Section ${i}`, value: 'x'.repeat(2000) })),
+      footer: 'footer',
+      timestamp: TIMESTAMP,
+    };
+
+    const embeds = renderDiscordEmbeds(view);
+    const fields = embeds.flatMap(e => e.fields ?? []);
+
+    expect(fields).toHaveLength(30);
+    expect(fields[0].value).toHaveLength(1024);
+    expect(fields[0].value.endsWith('…')).toBe(true);
+    expect(embeds.every(e => (e.fields?.length ?? 0) <= 25 && JSON.stringify(e).length < 6500)).toBe(true);
+    expect(embeds.slice(0, -1).every(e => !e.footer)).toBe(true);
+    expect(embeds[embeds.length - 1].footer).toEqual({ text: 'footer' });
+  });
+});
+
+describe('escapeMarkdownV2', () => {
+  it('escapes every reserved character', () => {
+    expect(escapeMarkdownV2('PEG_DEVIATION (1.5%) [x] a-b.c! *#+=|{}~`>\\'))
+      .toBe('PEG\\_DEVIATION \\(1\\.5%\\) \\[x\\] a\\-b\\.c\\! \\*\\#\\+\\=\\|\\{\\}\\~\\`\\>\\\\');
+  });
+});
+
+describe('escapeSlackText', () => {
+  it('escapes Slack control characters', () => {
+    expect(escapeSlackText('<@U1> & <!channel>')).toBe('&lt;@U1&gt; &amp; &lt;!channel&gt;');
+  });
+});
+
+describe('chunkText', () => {
+  it('splits on line breaks within the limit', () => {
+    expect(chunkText('aaaa\nbbbb\ncccc', 9)).toEqual(['aaaa\nbbbb', 'cccc']);
+    expect(chunkText('short', 2000)).toEqual(['short']);
+  });
+
+  it('cuts overlong lines without splitting an escape', () => {
+    const chunks = chunkText('abc\\.def', 4);
+
+    expect(chunks).toEqual(['abc', '\\.de', 'f']);
+    expect(chunkText('x'.repeat(4500), 2000).map(c => c.length)).toEqual([2000, 2000, 500]);
+  });
+});
@@ -0,0 +1,252 @@
+// Report Format - Channel renderings of operational reports
+// Part of ChiefOS Ecosystem Manager
+
+import type { OperationalReport, RiskLevel } from './types';
+import type { DiscordEmbed, SlackBlock } from './notifications';
+
+export const DISCORD_MESSAGE_LIMIT = 2000;
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+/** Discord embed limits (https://discord.com/developers/docs/resources/message#embed-object-embed-limits) */
+const EMBED_TITLE_LIMIT = 256;
+const EMBED_FIELD_NAME_LIMIT = 256;
+const EMBED_FIELD_VALUE_LIMIT = 1024;
+const EMBED_FIELDS_LIMIT = 25;
+const EMBED_TOTAL_LIMIT = 6000;
+
+/** Slack Block Kit limits */
+const SLACK_HEADER_LIMIT = 150;
+const SLACK_SECTION_LIMIT = 3000;
+
+const SEPARATOR = "━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━";
+const MARKDOWN_V2_SPECIAL = /[_*[\]()~`>#+\-=|{}.!\\]/g;
+
+export const RISK_EMOJI: Record<RiskLevel, string> = { GREEN: "🟢", YELLOW: "🟡", ORANGE: "🟠", RED: "🔴" };
+export const RISK_COLOR: Record<RiskLevel, number> = { GREEN: 0x2ecc71, YELLOW: 0xf1c40f, ORANGE: 0xe67e22, RED: 0xe74c3c };
+
+/**
+ * Channel-neutral report layout
+ *
+ * A section renders as "<icon> <title>" followed by its items as a tree, or
+ * as "<icon> <title>: <value>" when it has a single value instead of items.
+ */
+export interface ReportView {
+    /** Heading lines, the first one is the title */
+    headline: string[];
+    risk: RiskLevel;
+    sections: ReportSection[];
+    footer: string;
+    timestamp: number;
+}
+
+export interface ReportSection {
+    icon: string;
+    title: string;
+    value?: string;
+    items?: { label: string; value: string }[];
+}
+
+/**
+ * Layout of the 4h operational report
+ */
+export function operationalReportView(report: OperationalReport): ReportView {
+    const risk = report.agents.governor.riskStatus;
+    const usdgb = report.agents.usdgb;
+    const usdca = report.agents.usdca;
+    const marketplace = report.agents.marketplace;
+
+    return {
+        headline: [`${RISK_EMOJI[risk.overall]} ECOSYSTEM STATUS: ${risk.overall}`],
+        risk: risk.overall,
+        sections: [
+            {
+                icon: "📊",
+                title: "Stablecoin Metrics",
+                items: [
+                    { label: "USDGB (Gold-backed)", value: `$${usdgb.pegPrice.toFixed(4)} | Reserve ${(usdgb.goldReserveRatio * 100).toFixed(1)}%` },
+                    { label: "USDca (Synthetic)", value: `$${usdca.pegPrice.toFixed(4)} | Delta ${(usdca.deltaCollateralization * 100).toFixed(1)}%` },
+                    { label: "Marketplace", value: `${marketplace.activeLaunches} active launches` }
+                ]
+            },
+            {
+                icon: "🔐",
+                title: "Security",
+                items: [
+                    { label: "Cross-chain msgs verified", value: String(report.agents.governor.crossChainMessagesVerified) },
+                    { label: "USDGB supply invariant", value: report.agents.governor.supplyInvariant?.state ?? "UNAVAILABLE" },
+                    { label: "Emergency status", value: report.agents.governor.emergencyStatus },
+                    { label: "Alerts", value: String(risk.alerts.length) }
+                ]
+            },
+            {
+                icon: "🧠",
+                title: "Intelligence",
+                items: [
+                    { label: "Skills harvested", value: String(report.agents.observer.skillsHarvested) },
+                    { label: "Security alerts", value: String(report.agents.observer.securityAlerts) }
+                ]
+            }
+        ],
+        footer: `📅 Generated: ${new Date(report.timestamp).toISOString()}`,
+        timestamp: report.timestamp
+    };
+}
+
+/**
+ * Plain text with box-drawing trees (digests, logs, the API `formatted` field)
+ */
+export function renderPlainText(view: ReportView): string {
+    const sections = view.sections.map(section => {
+        if (!section.items) return `${section.icon} ${section.title}: ${section.value ?? ""}`;
+        return [`${section.icon} ${section.title}`, ...treeLines(section.items, item => `${item.label}: ${item.value}`)].join("\n");
+    });
+
+    return [SEPARATOR, ...view.headline, SEPARATOR, "", sections.join("\n\n"), "", view.footer, SEPARATOR].join("\n");
+}
+
+/**
+ * Telegram MarkdownV2: bold headline and section titles, everything else escaped
+ */
+export function renderTelegramMarkdownV2(view: ReportView): string {
+    const [title, ...rest] = view.headline;
+    const sections = view.sections.map(section => {
+        const heading = `${section.icon} *${escapeMarkdownV2(section.title)}*`;
+        if (!section.items) return `${heading}: ${escapeMarkdownV2(section.value ?? "")}`;
+        return [heading, ...treeLines(section.items, item => `${escapeMarkdownV2(item.label)}: ${escapeMarkdownV2(item.value)}`)].join("\n");
+    });
+
+    return [
+        `*${escapeMarkdownV2(title)}*`,
+        ...rest.map(escapeMarkdownV2),
+        "",
+        sections.join("\n\n"),
+        "",
+        `_${escapeMarkdownV2(view.footer)}_`
+    ].join("\n");
+}
+
+/**
+ * Discord embeds: risk-coloured, one field per section
+ * Field values are truncated to the field limit; sections past the field or
+ * total size limits continue in further embeds
+ */
+export function renderDiscordEmbeds(view: ReportView): DiscordEmbed[] {
+    const [title, ...rest] = view.headline;
+    const fields = view.sections.map(section => ({
+        name: truncate(`${section.icon} ${section.title}`, EMBED_FIELD_NAME_LIMIT),
+        value: truncate(
+            section.items ? section.items.map(item => `**${item.label}:** ${item.value}`).join("\n") : section.value || "-",
+            EMBED_FIELD_VALUE_LIMIT
+        ),
+        inline: false
+    }));
+
+    const base = (): DiscordEmbed => ({ color: RISK_COLOR[view.risk], fields: [] });
+    const first: DiscordEmbed = {
+        ...base(),
+        title: truncate(title, EMBED_TITLE_LIMIT),
+        ...(rest.length > 0 ? { description: rest.join("\n") } : {})
+    };
+    const embeds = [first];
+
+    for (const field of fields) {
+        const current = embeds[embeds.length - 1];
+        const size = embedSize(current) + field.name.length + field.value.length;
+        if (current.fields!.length >= EMBED_FIELDS_LIMIT || size > EMBED_TOTAL_LIMIT - view.footer.length) {
+            embeds.push(base());
+        }
+        embeds[embeds.length - 1].fields!.push(field);
+    }
+
+    const last = embeds[embeds.length - 1];
+    last.footer = { text: view.footer };
+    last.timestamp = new Date(view.timestamp).toISOString();
+    return embeds;
+}
+
+/**
+ * Slack Block Kit: header, one mrkdwn section per section, footer as context
+ */
+export function renderSlackBlocks(view: ReportView): SlackBlock[] {
+    const [title, ...rest] = view.headline;
+    const blocks: SlackBlock[] = [{ type: "header", text: { type: "plain_text", text: truncate(title, SLACK_HEADER_LIMIT), emoji: true } }];
+
+    if (rest.length > 0) {
+        blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: escapeSlackText(rest.join("\n")) }] });
+    }
+    blocks.push({ type: "divider" });
+
+    for (const section of view.sections) {
+        const heading = `${section.icon} *${escapeSlackText(section.title)}*`;
+        const text = section.items
+            ? [heading, ...section.items.map(item => `*${escapeSlackText(item.label)}:* ${escapeSlackText(item.value)}`)].join("\n")
+            : `${heading}: ${escapeSlackText(section.value ?? "")}`;
+        blocks.push({ type: "section", text: { type: "mrkdwn", text: truncate(text, SLACK_SECTION_LIMIT) } });
+    }
+
+    blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: escapeSlackText(view.footer) }] });
+    return blocks;
+}
+
+/**
+ * Escape the characters Slack mrkdwn treats as control sequences (&, <, >)
+ */
+export function escapeSlackText(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Escape every MarkdownV2 special character
+ */
+export function escapeMarkdownV2(text: string): string {
+    return text.replace(MARKDOWN_V2_SPECIAL, char => `\\${char}`);
+}
+
+/**
+ * Split text into messages of at most `limit` characters
+ * Splits fall on line breaks where possible; longer lines are cut, avoiding a
+ * trailing MarkdownV2 escape backslash so an escape is never split in two
+ */
+export function chunkText(text: string, limit: number): string[] {
+    const chunks: string[] = [];
+    let current = "";
+
+    const flush = () => {
+        if (current) chunks.push(current);
+        current = "";
+    };
+
+    for (const line of text.split("\n")) {
+        if (current && current.length + 1 + line.length <= limit) {
+            current += "\n" + line;
+            continue;
+        }
+        flush();
+
+        let rest = line;
+        while (rest.length > limit) {
+            let cut = limit;
+            while (cut > 1 && rest[cut - 1] === "\\") cut--;
+            chunks.push(rest.slice(0, cut));
+            rest = rest.slice(cut);
+        }
+        current = rest;
+    }
+    flush();
+
+    return chunks.length > 0 ? chunks : [""];
+}
+
+function treeLines<T>(items: T[], format: (item: T) => string): string[] {
+    return items.map((item, i) => `${i === items.length - 1 ? "└─" : "├─"} ${format(item)}`);
+}
+
+function truncate(text: string, limit: number): string {
+    return text.length <= limit ? text : text.slice(0, limit - 1) + "…";
+}
+
+function embedSize(embed: DiscordEmbed): number {
+    return (embed.title?.length ?? 0)
+        + (embed.description?.length ?? 0)
+        + (embed.fields ?? []).reduce((sum, f) => sum + f.name.length + f.value.length, 0);
+}
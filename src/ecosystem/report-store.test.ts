@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { ReportStore, ReportStoreError, parseReportTime } from './report-store';
+import type { EcosystemEnv, OperationalReport } from './types';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+function report(timestamp: number, pegPrice: number, period: OperationalReport['period'] = '4h'): OperationalReport {
+  return {
+    timestamp,
+    period,
+    agents: {
+      usdgb: { pegPrice, stakedTVL: 5n * 10n ** 24n },
+      governor: { riskStatus: { overall: 'GREEN', alerts: [] } },
+    },
+    summary: `report ${timestamp}`,
+  } as unknown as OperationalReport;
+}
+
+async function createStore(count: number) {
+  const bucket = createMockBucket();
+  const store = new ReportStore({ ECOSYSTEM_BUCKET: bucket } as unknown as EcosystemEnv);
+  for (let i = 0; i < count; i++) {
+    await store.put(report(START + i * 4 * HOUR, 1 + i / 1000));
+  }
+  return { bucket, store };
+}
+
+describe('ReportStore', () => {
+  it('pages through a range newest first', async () => {
+    const { store } = await createStore(10);
+    const range = { from: START + 4 * HOUR, to: START + 32 * HOUR };
+
+    const first = await store.list({ ...range, limit: 3 });
+    expect(first.reports.map(r => r.timestamp)).toEqual([START + 32 * HOUR, START + 28 * HOUR, START + 24 * HOUR]);
+    expect(first.reports[0]).toMatchObject({ period: '4h', riskStatus: 'GREEN', alertCount: 0, summary: `report ${START + 32 * HOUR}` });
+
+    const rest = await store.list({ ...range, limit: 10, cursor: first.nextCursor });
+    expect(rest.reports.map(r => r.timestamp)).toEqual([20, 16, 12, 8, 4].map(h => START + h * HOUR));
+    expect(rest.nextCursor).toBeNull();
+  });
+
+  it('lists a range from its start and stops past its end', async () => {
+    const bucket = createMockBucket();
+    for (let i = 0; i < 2500; i++) bucket.store.set(`reports/4h/${START + i * HOUR}.json`, '{}');
+    const store = new ReportStore({ ECOSYSTEM_BUCKET: bucket } as unknown as EcosystemEnv);
+
+    const reports = await store.getRange({ from: START + 10 * HOUR, to: START + 12 * HOUR });
+
+    expect(reports).toHaveLength(3);
+    expect(bucket.list).toHaveBeenCalledTimes(1);
+    expect(bucket.list).toHaveBeenCalledWith(expect.objectContaining({ startAfter: `reports/4h/${START + 10 * HOUR}` }));
+  });
+
+  it('finds a report by timestamp in any period', async () => {
+    const { store } = await createStore(1);
+    await store.put(report(START + HOUR, 1.01, '24h'));
+
+    expect(await store.get(START + HOUR)).toMatchObject({ period: '24h' });
+    expect(await store.get(START + HOUR, '4h')).toBeNull();
+  });
+
+  it('reads one metric across reports, thinned to the requested points', async () => {
+    const { bucket, store } = await createStore(9);
+
+    const series = await store.series('usdgb.pegPrice', { points: 5 });
+    expect(series.points).toEqual([0, 8, 16, 24, 32].map(h => ({ timestamp: START + h * HOUR, value: 1 + h / 4000 })));
+
+    bucket.store.set(`reports/4h/${START + 36 * HOUR}.json`, '{');
+    suppressConsole();
+
+    const all = await store.series('usdgb.stakedTVL');
+    expect(all.points[0].value).toBe('5000000000000000000000000');
+    expect(all.points.at(-1)).toEqual({ timestamp: START + 36 * HOUR, value: null });
+
+    expect((await store.series('usdgb.supply.missing')).points[0].value).toBeNull();
+  });
+
+  it('rejects unknown metrics and unparseable times', async () => {
+    const { store } = await createStore(0);
+
+    await expect(store.series('summary')).rejects.toBeInstanceOf(ReportStoreError);
+    await expect(store.series('usdgb.__proto__.x')).resolves.toMatchObject({ points: [] });
+    expect(parseReportTime('2026-01-01T00:00:00Z', 'from')).toBe(START);
+    expect(parseReportTime(String(START), 'from')).toBe(START);
+    expect(() => parseReportTime('yesterday', 'from')).toThrow(ReportStoreError);
+  });
+});
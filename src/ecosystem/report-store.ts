@@ -0,0 +1,259 @@
+// Report Store - Historical operational reports in R2
+// Part of ChiefOS Ecosystem Manager
+
+import type { EcosystemEnv, OperationalReport, RiskLevel } from './types';
+import { serializeWithBigInt, HttpStatusError } from './utils';
+
+export type ReportPeriod = OperationalReport["period"];
+
+const REPORT_PERIODS: ReportPeriod[] = ["4h", "24h"];
+const AGENTS = ["usdgb", "usdca", "marketplace", "governor", "observer"];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_SERIES_POINTS = 200;
+const MAX_SERIES_POINTS = 500;
+
+/**
+ * Digits of a millisecond timestamp until the year 2286; keys are padded to
+ * this width so R2's lexicographic listing order is chronological
+ */
+const TIMESTAMP_WIDTH = 13;
+
+/**
+ * Error raised for invalid report queries
+ */
+export class ReportStoreError extends HttpStatusError {
+    constructor(message: string, status: number) {
+        super(message, status);
+        this.name = "ReportStoreError";
+    }
+}
+
+export interface ReportQuery {
+    period?: ReportPeriod;
+    /** Inclusive bounds, ms since epoch */
+    from?: number;
+    to?: number;
+}
+
+export interface ReportListItem {
+    timestamp: number;
+    period: ReportPeriod;
+    riskStatus: RiskLevel | null;
+    alertCount: number;
+    summary: string;
+}
+
+export interface ReportPage {
+    period: ReportPeriod;
+    reports: ReportListItem[];
+    /** Pass as `cursor` for the next (older) page; null on the last page */
+    nextCursor: string | null;
+}
+
+export interface ReportSeriesPoint {
+    timestamp: number;
+    /** BigInt metrics are decimal strings; null when the report lacks the metric */
+    value: number | string | boolean | null;
+}
+
+export interface ReportSeries {
+    metric: string;
+    period: ReportPeriod;
+    points: ReportSeriesPoint[];
+}
+
+/**
+ * Parse a from/to query value: milliseconds since epoch or an ISO 8601 date
+ */
+export function parseReportTime(value: string | null, name: string): number | undefined {
+    if (value === null || value === "") return undefined;
+
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (!Number.isFinite(time)) {
+        throw new ReportStoreError(`${name} must be a timestamp in ms or an ISO 8601 date`, 400);
+    }
+    return time;
+}
+
+/**
+ * Parse a period query value (default 4h)
+ */
+export function parseReportPeriod(value: string | null): ReportPeriod {
+    if (value === null || value === "") return "4h";
+    if (!REPORT_PERIODS.includes(value as ReportPeriod)) {
+        throw new ReportStoreError(`period must be one of ${REPORT_PERIODS.join(", ")}`, 400);
+    }
+    return value as ReportPeriod;
+}
+
+/**
+ * Report Store: Every generated report, one R2 object per report
+ *
+ * Layout: reports/<period>/<timestamp>.json, the timestamp zero-padded so keys
+ * list in time order and a range is listed from its start. Pages are listed newest first
+ * with the oldest returned timestamp as the cursor; series read a metric
+ * path (e.g. usdgb.pegPrice, relative to report.agents) from each report in
+ * range, evenly thinned to at most `points` reports.
+ */
+export class ReportStore {
+    private env: EcosystemEnv;
+
+    constructor(env: EcosystemEnv) {
+        this.env = env;
+    }
+
+    /**
+     * Store a report under its period
+     */
+    async put(report: OperationalReport): Promise<string> {
+        const key = reportKey(report.period, report.timestamp);
+        await this.env.ECOSYSTEM_BUCKET.put(key, serializeWithBigInt(report));
+        return key;
+    }
+
+    /**
+     * A single report; without a period every period is tried
+     */
+    async get(timestamp: number, period?: ReportPeriod): Promise<OperationalReport | null> {
+        for (const candidate of period ? [period] : REPORT_PERIODS) {
+            const report = await this.read(candidate, timestamp);
+            if (report) return report;
+        }
+        return null;
+    }
+
+    /**
+     * Every report in range, oldest first
+     */
+    async getRange(query: ReportQuery = {}): Promise<OperationalReport[]> {
+        const period = query.period ?? "4h";
+        const reports = await Promise.all(
+            (await this.timestamps(period, query)).map(timestamp => this.read(period, timestamp))
+        );
+        return reports.filter((r): r is OperationalReport => r !== null);
+    }
+
+    /**
+     * One page of reports in range, newest first
+     */
+    async list(query: ReportQuery & { limit?: number; cursor?: string | null } = {}): Promise<ReportPage> {
+        const period = query.period ?? "4h";
+        const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+        const before = query.cursor ? Number(query.cursor) : Infinity;
+        if (Number.isNaN(before)) throw new ReportStoreError("Invalid cursor", 400);
+
+        const timestamps = (await this.timestamps(period, { ...query, to: Math.min(query.to ?? Infinity, before - 1) }))
+            .reverse();
+        const page = timestamps.slice(0, limit);
+
+        const reports = await Promise.all(page.map(async timestamp => {
+            const report = await this.read(period, timestamp);
+            return {
+                timestamp,
+                period,
+                riskStatus: report?.agents?.governor?.riskStatus?.overall ?? null,
+                alertCount: report?.agents?.governor?.riskStatus?.alerts?.length ?? 0,
+                summary: report?.summary ?? ""
+            };
+        }));
+
+        return {
+            period,
+            reports,
+            nextCursor: timestamps.length > limit ? String(page[page.length - 1]) : null
+        };
+    }
+
+    /**
+     * One metric across reports in range, oldest first
+     */
+    async series(metric: string, query: ReportQuery & { points?: number } = {}): Promise<ReportSeries> {
+        const path = metric.split(".");
+        if (!/^[A-Za-z0-9_.]+$/.test(metric) || path.length < 2 || !AGENTS.includes(path[0])) {
+            throw new ReportStoreError(`metric must be <agent>.<field> with agent one of ${AGENTS.join(", ")}`, 400);
+        }
+
+        const period = query.period ?? "4h";
+        const points = Math.min(Math.max(Math.floor(query.points ?? DEFAULT_SERIES_POINTS), 2), MAX_SERIES_POINTS);
+        const timestamps = thin(await this.timestamps(period, query), points);
+
+        return {
+            metric,
+            period,
+            points: await Promise.all(timestamps.map(async timestamp => {
+                const report = await this.read(period, timestamp);
+                return { timestamp, value: resolveMetric(report?.agents, path) };
+            }))
+        };
+    }
+
+    /**
+     * Report timestamps for a period within [from, to], oldest first
+     * Listing starts after the key just before `from` and stops at the first key past `to`
+     */
+    private async timestamps(period: ReportPeriod, query: ReportQuery): Promise<number[]> {
+        const from = Math.max(Math.ceil(query.from ?? 0), 0);
+        const to = query.to ?? Infinity;
+        const prefix = `reports/${period}/`;
+        // "<prefix><from>" sorts just before "<prefix><from>.json"
+        const startAfter = from > 0 ? prefix + padTimestamp(from) : undefined;
+        const timestamps: number[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const listed = await this.env.ECOSYSTEM_BUCKET.list({ prefix, startAfter, cursor });
+            for (const object of listed.objects) {
+                const match = object.key.match(/\/(\d+)\.json$/);
+                if (!match) continue;
+
+                const timestamp = Number(match[1]);
+                if (timestamp > to) return timestamps;
+                if (timestamp >= from) timestamps.push(timestamp);
+            }
+            cursor = listed.truncated ? listed.cursor : undefined;
+        } while (cursor);
+
+        return timestamps;
+    }
+
+    private async read(period: ReportPeriod, timestamp: number): Promise<OperationalReport | null> {
+        const object = await this.env.ECOSYSTEM_BUCKET.get(reportKey(period, timestamp));
+        if (!object) return null;
+
+        try {
+            return JSON.parse(await object.text()) as OperationalReport;
+        } catch (error) {
+            console.error(`[Reports] Unreadable report ${period}/${timestamp}:`, error);
+            return null;
+        }
+    }
+}
+
+function padTimestamp(timestamp: number): string {
+    return String(timestamp).padStart(TIMESTAMP_WIDTH, "0");
+}
+
+function reportKey(period: ReportPeriod, timestamp: number): string {
+    return `reports/${period}/${padTimestamp(timestamp)}.json`;
+}
+
+/**
+ * Keep at most `count` items, evenly spaced and always including the first and last
+ */
+function thin<T>(items: T[], count: number): T[] {
+    if (items.length <= count) return items;
+
+    const step = (items.length - 1) / (count - 1);
+    return Array.from({ length: count }, (_, i) => items[Math.round(i * step)]);
+}
+
+function resolveMetric(root: unknown, path: string[]): ReportSeriesPoint["value"] {
+    let value: unknown = root;
+    for (const key of path) {
+        if (value === null || typeof value !== "object" || !Object.hasOwn(value, key)) return null;
+        value = (value as Record<string, unknown>)[key];
+    }
+
+    return typeof value === "number" || typeof value === "string" || typeof value === "boolean" ? value : null;
+}
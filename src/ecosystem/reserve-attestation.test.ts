@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { ReserveAttestationService, canonicalAttestationPayload } from './reserve-attestation';
+import { ChainRegistry } from './chains';
+import type { EcosystemEnv, ReserveAttestation } from './types';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+const HOUR = 60 * 60 * 1000;
+const SUPPLY_10M = 10_000_000n * 10n ** 18n;
+
+let keyPair: CryptoKeyPair;
+let publicKeyHex: string;
+
+const toHex = (buf: ArrayBuffer) => Array.from(new Uint8Array(buf), b => b.toString(16).padStart(2, '0')).join('');
+
+async function sign(attestation: ReserveAttestation): Promise<ReserveAttestation> {
+  const payload = new TextEncoder().encode(canonicalAttestationPayload(attestation));
+  const signature = await crypto.subtle.sign('Ed25519', keyPair.privateKey, payload);
+  return { ...attestation, signature: toHex(signature) };
+}
+
+function createService(overrides: Partial<EcosystemEnv> = {}) {
+  const bucket = createMockBucket();
+  const env = {
+    ECOSYSTEM_BUCKET: bucket,
+    BASE_RPC_URL: 'https://base.example',
+    RESERVE_ATTESTATION_PUBLIC_KEY: publicKeyHex,
+    ...overrides,
+  } as unknown as EcosystemEnv;
+  return { bucket, service: new ReserveAttestationService(env, new ChainRegistry(env)) };
+}
+
+describe('ReserveAttestationService', () => {
+  beforeAll(async () => {
+    keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    publicKeyHex = toHex(await crypto.subtle.exportKey('raw', keyPair.publicKey) as ArrayBuffer);
+  });
+
+  beforeEach(() => {
+    suppressConsole();
+  });
+
+  it('accepts a signed attestation and computes the ratio against supply', async () => {
+    const { service } = createService();
+    const attestation = await sign({ custodian: 'Acme Custody', reserveValueUsd: 10_600_000, asOf: Date.now() - HOUR });
+
+    expect(await service.ingest(attestation)).toEqual({ accepted: true });
+
+    const status = await service.getReserveStatus(SUPPLY_10M);
+    expect(status.state).toBe('VALID');
+    expect(status.source).toBe('attestation');
+    expect(status.ratio).toBeCloseTo(1.06, 6);
+  });
+
+  it('rejects attestations whose fields were altered after signing', async () => {
+    const { service, bucket } = createService();
+    const attestation = await sign({ custodian: 'Acme Custody', reserveValueUsd: 9_000_000, asOf: Date.now() });
+
+    const result = await service.ingest({ ...attestation, reserveValueUsd: 12_000_000 });
+
+    expect(result.accepted).toBe(false);
+    expect(bucket.store.size).toBe(0);
+  });
+
+  it('only accepts attestations newer than the latest on file', async () => {
+    const { service, bucket } = createService();
+    const current = await sign({ custodian: 'Acme', reserveValueUsd: 10_600_000, asOf: Date.now() - HOUR });
+    await service.ingest(current);
+
+    const older = await sign({ custodian: 'Acme', reserveValueUsd: 20_000_000, asOf: current.asOf - HOUR });
+    expect(await service.ingest(older)).toEqual({ accepted: false, error: expect.stringContaining('not newer') });
+    expect((await service.ingest(current)).accepted).toBe(false);
+
+    expect((await service.getLatest())?.reserveValueUsd).toBe(10_600_000);
+    expect(bucket.store.has(`reserves/attestations/${older.asOf}.json`)).toBe(false);
+
+    const newer = await sign({ custodian: 'Acme', reserveValueUsd: 10_700_000, asOf: Date.now() });
+    expect(await service.ingest(newer)).toEqual({ accepted: true });
+    expect((await service.getLatest())?.asOf).toBe(newer.asOf);
+  });
+
+  it('flags an unsigned attestation found in R2 and gives it no backing weight', async () => {
+    const { service, bucket } = createService();
+    bucket.store.set('reserves/latest.json', JSON.stringify({ custodian: 'Acme', reserveValueUsd: 20_000_000, asOf: Date.now() }));
+
+    const status = await service.getReserveStatus(SUPPLY_10M);
+
+    expect(status.state).toBe('UNSIGNED');
+    expect(status.ratio).toBe(0);
+  });
+
+  it('marks old attestations as stale but keeps their ratio', async () => {
+    const { service } = createService({ RESERVE_ATTESTATION_MAX_AGE_HOURS: '24' });
+    await service.ingest(await sign({ custodian: 'Acme', reserveValueUsd: 10_100_000, asOf: Date.now() - 48 * HOUR }));
+
+    const status = await service.getReserveStatus(SUPPLY_10M);
+
+    expect(status.state).toBe('STALE');
+    expect(status.ratio).toBeCloseTo(1.01, 6);
+  });
+
+  it('reports MISSING when nothing has been ingested', async () => {
+    const { service } = createService();
+
+    expect((await service.getReserveStatus(SUPPLY_10M)).state).toBe('MISSING');
+  });
+
+  it('reports UNCONFIGURED without a key or PoR feed', async () => {
+    const { service } = createService({ RESERVE_ATTESTATION_PUBLIC_KEY: undefined });
+
+    expect((await service.getReserveStatus(SUPPLY_10M)).state).toBe('UNCONFIGURED');
+  });
+});
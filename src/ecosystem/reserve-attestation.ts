@@ -0,0 +1,238 @@
+// Reserve Attestation - USDGB proof-of-reserve verification
+// Part of ChiefOS Ecosystem Manager
+
+import type { EcosystemEnv, ReserveAttestation, ReserveStatus } from './types';
+import { ChainRegistry } from './chains';
+import { ChainlinkAggregatorOracle } from './price-oracle';
+import { StateDocument } from './ecosystem-state';
+import { hexToBytes } from './utils';
+
+const LATEST_KEY = "reserves/latest.json";
+const DEFAULT_MAX_AGE_HOURS = 168;
+
+/**
+ * USDGB uses 18 decimals
+ */
+const USDGB_DECIMALS = 18;
+
+/**
+ * reserves/latest.json as a state document; a document that does not parse
+ * counts as no attestation on file
+ */
+interface LatestAttestation {
+    attestation: (ReserveAttestation & { receivedAt?: number }) | null;
+}
+
+/**
+ * Bytes the custodian signs: a fixed-order JSON encoding of the attested fields
+ */
+export function canonicalAttestationPayload(attestation: ReserveAttestation): string {
+    return JSON.stringify({
+        custodian: attestation.custodian,
+        reserveValueUsd: attestation.reserveValueUsd,
+        asOf: attestation.asOf,
+        documentUrl: attestation.documentUrl ?? null
+    });
+}
+
+/**
+ * Reserve Attestation Service: Verifies what backs USDGB
+ *
+ * Sources, in priority order:
+ * 1. On-chain proof-of-reserve feed (USDGB_POR_FEED), if configured and fresh
+ * 2. Latest custodian-signed attestation in R2 (reserves/latest.json)
+ *
+ * Attestations are checked for a valid Ed25519 signature against
+ * RESERVE_ATTESTATION_PUBLIC_KEY and for freshness. The ratio is computed
+ * against live USDGB supply. The latest attestation only moves forward: an
+ * ingested document must be newer (asOf) than the one on file.
+ */
+export class ReserveAttestationService {
+    private env: EcosystemEnv;
+    private chains: ChainRegistry;
+    private document: StateDocument<LatestAttestation>;
+
+    constructor(env: EcosystemEnv, chains: ChainRegistry) {
+        this.env = env;
+        this.chains = chains;
+        this.document = new StateDocument<LatestAttestation>(env, LATEST_KEY, {
+            empty: () => ({ attestation: null }),
+            parse: text => {
+                try {
+                    return { attestation: JSON.parse(text) };
+                } catch {
+                    return { attestation: null };
+                }
+            },
+            serialize: latest => JSON.stringify(latest.attestation)
+        });
+    }
+
+    private get maxAgeMs(): number {
+        const hours = Number(this.env.RESERVE_ATTESTATION_MAX_AGE_HOURS) || DEFAULT_MAX_AGE_HOURS;
+        return hours * 60 * 60 * 1000;
+    }
+
+    /**
+     * Verify and store a custodian attestation
+     * Rejects documents that are malformed, not signed by the configured key,
+     * or not newer than the latest attestation on file
+     */
+    async ingest(attestation: ReserveAttestation): Promise<{ accepted: boolean; error?: string }> {
+        const shapeError = validateAttestation(attestation);
+        if (shapeError) return { accepted: false, error: shapeError };
+
+        if (!(await this.verifySignature(attestation))) {
+            return { accepted: false, error: "Invalid or missing signature" };
+        }
+
+        const stored = { ...attestation, receivedAt: Date.now() };
+        const error = await this.document.update(latest => {
+            if (latest.attestation && attestation.asOf <= latest.attestation.asOf) {
+                return `asOf ${attestation.asOf} is not newer than the latest attestation (${latest.attestation.asOf})`;
+            }
+            latest.attestation = stored;
+            return null;
+        });
+        if (error) return { accepted: false, error };
+
+        await this.env.ECOSYSTEM_BUCKET.put(`reserves/attestations/${attestation.asOf}.json`, JSON.stringify(stored));
+        return { accepted: true };
+    }
+
+    /**
+     * Get the most recently stored attestation
+     */
+    async getLatest(): Promise<ReserveAttestation | null> {
+        try {
+            return (await this.document.read()).attestation;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Check the attestation signature against the configured custodian key
+     */
+    async verifySignature(attestation: ReserveAttestation): Promise<boolean> {
+        if (!attestation.signature || !this.env.RESERVE_ATTESTATION_PUBLIC_KEY) return false;
+
+        try {
+            const key = await crypto.subtle.importKey(
+                "raw",
+                hexToBytes(this.env.RESERVE_ATTESTATION_PUBLIC_KEY),
+                { name: "Ed25519" },
+                false,
+                ["verify"]
+            );
+            return await crypto.subtle.verify(
+                "Ed25519",
+                key,
+                hexToBytes(attestation.signature),
+                new TextEncoder().encode(canonicalAttestationPayload(attestation))
+            );
+        } catch (error) {
+            console.error("[Reserves] Signature verification error:", error);
+            return false;
+        }
+    }
+
+    /**
+     * Evaluate reserve backing against outstanding supply (18-decimal base units)
+     */
+    async getReserveStatus(totalSupply: bigint): Promise<ReserveStatus> {
+        if (!this.env.RESERVE_ATTESTATION_PUBLIC_KEY && !this.env.USDGB_POR_FEED) {
+            // Nothing to verify against yet (pre-launch) - report the target ratio
+            return {
+                state: "UNCONFIGURED",
+                source: "none",
+                ratio: 1.05,
+                reserveValueUsd: null,
+                asOf: null,
+                issues: ["No RESERVE_ATTESTATION_PUBLIC_KEY or USDGB_POR_FEED configured"]
+            };
+        }
+
+        const issues: string[] = [];
+
+        if (this.env.USDGB_POR_FEED) {
+            try {
+                const quote = await this.readPorFeed(this.env.USDGB_POR_FEED);
+                return {
+                    state: "VALID",
+                    source: "por-feed",
+                    ratio: backingRatio(quote.reserveValueUsd, totalSupply),
+                    reserveValueUsd: quote.reserveValueUsd,
+                    asOf: quote.asOf,
+                    issues
+                };
+            } catch (error) {
+                issues.push(`PoR feed unavailable: ${String(error)}`);
+            }
+        }
+
+        const attestation = await this.getLatest();
+        if (!attestation) {
+            return { state: "MISSING", source: "none", ratio: 0, reserveValueUsd: null, asOf: null, issues: [...issues, "No reserve attestation on file"] };
+        }
+
+        const base = {
+            source: "attestation" as const,
+            reserveValueUsd: attestation.reserveValueUsd,
+            asOf: attestation.asOf,
+            custodian: attestation.custodian
+        };
+
+        if (!(await this.verifySignature(attestation))) {
+            // An unverifiable document provides no backing evidence
+            return { ...base, state: "UNSIGNED", ratio: 0, issues: [...issues, "Latest attestation is unsigned or signature is invalid"] };
+        }
+
+        const ratio = backingRatio(attestation.reserveValueUsd, totalSupply);
+        const age = Date.now() - attestation.asOf;
+
+        if (age > this.maxAgeMs) {
+            const hours = Math.round(age / 3600000);
+            return { ...base, state: "STALE", ratio, issues: [...issues, `Latest attestation is ${hours}h old`] };
+        }
+
+        return { ...base, state: "VALID", ratio, issues };
+    }
+
+    /**
+     * Read an on-chain PoR aggregator (answers in USD, Chainlink interface)
+     */
+    private async readPorFeed(aggregator: string): Promise<{ reserveValueUsd: number; asOf: number }> {
+        const base = await this.chains.getChain(8453);
+        if (!base) throw new Error("Base chain not in registry");
+
+        const feed = new ChainlinkAggregatorOracle(this.chains.getClient(base), {
+            type: "chainlink",
+            aggregator,
+            maxAgeSeconds: this.maxAgeMs / 1000
+        });
+        const quote = await feed.getPrice();
+
+        return { reserveValueUsd: quote.price, asOf: quote.timestamp };
+    }
+}
+
+/**
+ * Reserve value over supply; with no supply outstanding the ratio is measured
+ * against a single token so it stays finite and serializable
+ */
+function backingRatio(reserveValueUsd: number, totalSupply: bigint): number {
+    const supply = Number(totalSupply) / 10 ** USDGB_DECIMALS;
+    return reserveValueUsd / Math.max(supply, 1);
+}
+
+function validateAttestation(attestation: ReserveAttestation): string | null {
+    if (!attestation || typeof attestation !== "object") return "Body must be a JSON object";
+    if (typeof attestation.custodian !== "string" || !attestation.custodian) return "custodian is required";
+    if (typeof attestation.reserveValueUsd !== "number" || !(attestation.reserveValueUsd >= 0)) {
+        return "reserveValueUsd must be a non-negative number";
+    }
+    if (!Number.isInteger(attestation.asOf) || attestation.asOf <= 0) return "asOf must be a millisecond timestamp";
+    if (attestation.asOf > Date.now() + 5 * 60 * 1000) return "asOf is in the future";
+    return null;
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { RiskEngine, USDGBRiskSignals, USDcaRiskSignals, LiquidityRiskSignals, CrossChainRiskSignals, worstRisk, type RiskSignalProvider } from './risk-engine';
+import { RiskPolicyStore } from './risk-policy';
+import type { CrossChainMessageRecord, CrossChainStatus, EcosystemEnv, LiquidityReport, RiskCategory, RiskSignal } from './types';
+import type { USDGBAgent } from './usdgb-agent';
+import type { USDcaAgent } from './usdca-agent';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+function createPolicy() {
+  const env = { ECOSYSTEM_BUCKET: createMockBucket() } as unknown as EcosystemEnv;
+  return new RiskPolicyStore(env);
+}
+
+function provider(name: string, categories: RiskCategory[], signals: RiskSignal[] | Error): RiskSignalProvider {
+  return {
+    name,
+    categories,
+    collect: async () => {
+      if (signals instanceof Error) throw signals;
+      return signals;
+    },
+  };
+}
+
+function usdgbAgent(ratio: number, price: number): USDGBAgent {
+  return {
+    getReserveStatus: async () => ({ state: 'VALID', source: 'attestation', ratio, reserveValueUsd: 0, asOf: 0, issues: [] }),
+    getPegPriceDetails: async () => ({ price, method: 'single', sources: [], failed: [] }),
+  } as unknown as USDGBAgent;
+}
+
+function usdcaAgent(collateralRatio: number, hedgeDrift: number, price: number): USDcaAgent {
+  return {
+    getDeltaNeutralMetrics: async () => ({ state: 'OK', collateralRatio, hedgeDrift }),
+    getPegPriceDetails: async () => ({ price, method: 'single', sources: [], failed: [] }),
+  } as unknown as USDcaAgent;
+}
+
+describe('worstRisk', () => {
+  it('returns the most severe level', () => {
+    expect(worstRisk([])).toBe('GREEN');
+    expect(worstRisk(['YELLOW', 'GREEN', 'ORANGE'])).toBe('ORANGE');
+  });
+});
+
+describe('RiskEngine', () => {
+  it('grades all four categories from the token agents', async () => {
+    const engine = new RiskEngine(createPolicy(), [
+      new USDGBRiskSignals(usdgbAgent(1.10, 1.0)),
+      new USDcaRiskSignals(usdcaAgent(1.03, 0.01, 1.0)),
+    ]);
+
+    const result = await engine.evaluate();
+
+    expect(result.categories).toEqual({ collateral: 'ORANGE', peg: 'GREEN', liquidity: 'GREEN', crossChain: 'GREEN' });
+    expect(result.overall).toBe('ORANGE');
+  });
+
+  it('explains which input drove each category', async () => {
+    const engine = new RiskEngine(createPolicy(), [
+      new USDGBRiskSignals(usdgbAgent(1.10, 0.985)),
+      new USDcaRiskSignals(usdcaAgent(1.20, 0.01, 1.003)),
+    ]);
+
+    const { explanations } = await engine.evaluate();
+
+    expect(explanations.peg.level).toBe('ORANGE');
+    expect(explanations.peg.driver).toMatchObject({ token: 'USDGB', metric: 'pegDeviation', level: 'ORANGE' });
+    expect(explanations.peg.signals).toHaveLength(2);
+    expect(explanations.collateral.signals.map(s => s.metric)).toEqual(['goldReserveRatio', 'deltaCollateralization', 'hedgeDrift']);
+    expect(explanations.liquidity).toEqual({ level: 'GREEN', driver: null, signals: [] });
+  });
+
+  it('counts USDca hedge drift toward collateral risk', async () => {
+    const engine = new RiskEngine(createPolicy(), [new USDcaRiskSignals(usdcaAgent(1.20, 0.12, 1.0))]);
+
+    const { categories, explanations } = await engine.evaluate();
+
+    expect(categories.collateral).toBe('RED');
+    expect(explanations.collateral.driver?.metric).toBe('hedgeDrift');
+  });
+
+  it('flags a partial USDca book instead of grading its collateral', async () => {
+    const agent = {
+      getDeltaNeutralMetrics: async () => ({ state: 'DEGRADED', collateralRatio: 0.4, hedgeDrift: 0.5, failedSources: [{ source: 'cex', error: 'down' }] }),
+      getPegPriceDetails: async () => ({ price: 1, method: 'unconfigured', sources: [], failed: [] }),
+    } as unknown as USDcaAgent;
+    const engine = new RiskEngine(createPolicy(), [new USDcaRiskSignals(agent)]);
+
+    const { categories, explanations } = await engine.evaluate();
+
+    expect(categories.collateral).toBe('ORANGE');
+    expect(explanations.collateral.signals.map(s => s.metric)).toEqual(['positionBook']);
+    expect(explanations.collateral.driver?.detail).toBe('Position model DEGRADED: cex unavailable');
+  });
+
+  it('flags a USDGB reserve ratio over partial supply instead of grading it', async () => {
+    const agent = {
+      getReserveStatus: async () => ({ state: 'INCOMPLETE', source: 'attestation', ratio: 0, reserveValueUsd: 0, asOf: 0, issues: ['Supply unreadable on chain(s) 10'] }),
+      getPegPriceDetails: async () => ({ price: 1, method: 'unconfigured', sources: [], failed: [] }),
+    } as unknown as USDGBAgent;
+    const engine = new RiskEngine(createPolicy(), [new USDGBRiskSignals(agent)]);
+
+    const { categories, explanations } = await engine.evaluate();
+
+    expect(categories.collateral).toBe('ORANGE');
+    expect(explanations.collateral.driver).toMatchObject({ metric: 'goldReserveRatio', value: null });
+    expect(explanations.collateral.driver?.detail).toBe('Reserve ratio not computed: Supply unreadable on chain(s) 10');
+  });
+
+  it('grades an unreadable peg as ORANGE instead of on peg', async () => {
+    const agent = {
+      getReserveStatus: async () => ({ state: 'VALID', source: 'attestation', ratio: 1.5, reserveValueUsd: 0, asOf: 0, issues: [] }),
+      getPegPriceDetails: async () => ({ price: 1, method: 'unavailable', sources: [], failed: [{ source: 'uniswap-v3:0xpool', error: 'revert' }] }),
+    } as unknown as USDGBAgent;
+    const engine = new RiskEngine(createPolicy(), [new USDGBRiskSignals(agent)]);
+
+    const { categories, explanations } = await engine.evaluate();
+
+    expect(categories.peg).toBe('ORANGE');
+    expect(explanations.peg.driver).toMatchObject({ metric: 'pegDeviation', value: null });
+    expect(explanations.peg.driver?.detail).toBe('Peg price unavailable: uniswap-v3:0xpool failed');
+  });
+
+  it('reports a failing provider as ORANGE in the categories it feeds', async () => {
+    suppressConsole();
+    const engine = new RiskEngine(createPolicy(), [
+      provider('liquidity-monitor', ['liquidity'], new Error('RPC down')),
+    ]);
+
+    const { categories, explanations } = await engine.evaluate();
+
+    expect(categories.liquidity).toBe('ORANGE');
+    expect(explanations.liquidity.driver).toMatchObject({ source: 'liquidity-monitor', metric: 'unavailable', value: null });
+    expect(explanations.liquidity.driver?.detail).toContain('RPC down');
+  });
+
+  it('uses the first signal as the driver on ties', async () => {
+    const signal = (source: string): RiskSignal => ({ category: 'crossChain', source, metric: 'm', value: 1, level: 'YELLOW' });
+    const engine = new RiskEngine(createPolicy(), [
+      provider('a', ['crossChain'], [signal('a')]),
+      provider('b', ['crossChain'], [signal('b')]),
+    ]);
+
+    const { explanations } = await engine.evaluate();
+
+    expect(explanations.crossChain.driver?.source).toBe('a');
+  });
+
+  it('grades liquidity from the reference sell and skips unconfigured tokens', async () => {
+    const liquidity = (report: Partial<LiquidityReport>) => ({
+      getLiquidity: async () => ({ token: 'USDGB', state: 'OK', pools: [{}], failed: [], impacts: [], referenceSizeUsd: 100_000, referenceImpact: null, ...report }) as LiquidityReport,
+    });
+    const engine = new RiskEngine(createPolicy(), [
+      new LiquidityRiskSignals('USDGB', liquidity({ referenceImpact: 0.02 })),
+      new LiquidityRiskSignals('USDca', liquidity({ state: 'UNCONFIGURED' })),
+    ]);
+
+    const { categories, explanations } = await engine.evaluate();
+
+    expect(categories.liquidity).toBe('ORANGE');
+    expect(explanations.liquidity.signals).toHaveLength(1);
+    expect(explanations.liquidity.driver).toMatchObject({ token: 'USDGB', metric: 'priceImpact100000', value: 0.02 });
+  });
+
+  it('grades cross-chain risk from failed and stuck messages', async () => {
+    const crossChain = (status: Partial<CrossChainStatus>) => new CrossChainRiskSignals({
+      getCrossChainStatus: async () => ({ messagesVerified: 0, pending: [], failed: [], unchecked: [], stuckTimeoutMinutes: 60, ...status }),
+    });
+    const stuck = { guid: '0x01', stuck: true } as CrossChainMessageRecord;
+
+    expect((await new RiskEngine(createPolicy(), [crossChain({})]).evaluate()).explanations.crossChain.driver).toBeNull();
+    expect((await new RiskEngine(createPolicy(), [crossChain({ messagesVerified: 3, pending: [stuck] })]).evaluate()).categories.crossChain).toBe('ORANGE');
+
+    const { explanations } = await new RiskEngine(createPolicy(), [crossChain({ pending: [stuck], failed: [stuck] })]).evaluate();
+    expect(explanations.crossChain.driver).toMatchObject({ metric: 'failedMessages', value: 1, level: 'RED' });
+  });
+});
@@ -0,0 +1,368 @@
+// Risk Engine - Category grading with explainability
+// Part of ChiefOS Ecosystem Manager
+
+import type {
+    RiskLevel,
+    RiskCategory,
+    RiskSignal,
+    RiskCategoryExplanation,
+    RiskPolicy,
+    RiskBands,
+    PegPriceResult,
+    LiquidityReport,
+    CrossChainStatus,
+    SupplyInvariantResult
+} from './types';
+import { USDGBAgent } from './usdgb-agent';
+import { USDcaAgent } from './usdca-agent';
+import { RiskPolicyStore, assessUpperBound, assessLowerBound } from './risk-policy';
+
+const LEVEL_ORDER: RiskLevel[] = ["GREEN", "YELLOW", "ORANGE", "RED"];
+const CATEGORIES: RiskCategory[] = ["collateral", "peg", "liquidity", "crossChain"];
+
+/**
+ * A source of graded risk inputs
+ * `categories` lists what the provider feeds, so a failure can be attributed
+ */
+export interface RiskSignalProvider {
+    readonly name: string;
+    readonly categories: RiskCategory[];
+    collect(policy: RiskPolicy): Promise<RiskSignal[]>;
+}
+
+export interface RiskEvaluation {
+    overall: RiskLevel;
+    categories: Record<RiskCategory, RiskLevel>;
+    explanations: Record<RiskCategory, RiskCategoryExplanation>;
+}
+
+/**
+ * Worst of a set of levels (GREEN when empty)
+ */
+export function worstRisk(levels: RiskLevel[]): RiskLevel {
+    let worst = 0;
+    for (const level of levels) {
+        worst = Math.max(worst, LEVEL_ORDER.indexOf(level));
+    }
+    return LEVEL_ORDER[worst];
+}
+
+/**
+ * Peg deviation signal; an unreadable peg is a blind spot graded ORANGE
+ */
+function pegSignal(source: string, token: "USDGB" | "USDca", peg: PegPriceResult, thresholds: RiskBands): RiskSignal {
+    if (peg.method === "unavailable") {
+        return {
+            category: "peg",
+            source,
+            token,
+            metric: "pegDeviation",
+            value: null,
+            level: "ORANGE",
+            detail: `Peg price unavailable: ${peg.failed.map(f => f.source).join(", ")} failed`
+        };
+    }
+
+    const deviation = Math.abs(peg.price - 1.00);
+    return {
+        category: "peg",
+        source,
+        token,
+        metric: "pegDeviation",
+        value: deviation,
+        level: assessUpperBound(deviation, thresholds),
+        thresholds
+    };
+}
+
+/**
+ * USDGB inputs: gold reserve backing (collateral) and peg deviation
+ */
+export class USDGBRiskSignals implements RiskSignalProvider {
+    readonly name = "usdgb";
+    readonly categories: RiskCategory[] = ["collateral", "peg"];
+    private agent: USDGBAgent;
+
+    constructor(agent: USDGBAgent) {
+        this.agent = agent;
+    }
+
+    async collect(policy: RiskPolicy): Promise<RiskSignal[]> {
+        const thresholds = policy.tokens.USDGB;
+        const reserve = await this.agent.getReserveStatus();
+        const peg = await this.agent.getPegPriceDetails();
+
+        // A ratio over partial supply overstates backing: report it as a blind spot
+        if (reserve.state === "INCOMPLETE") {
+            return [
+                {
+                    category: "collateral",
+                    source: this.name,
+                    token: "USDGB",
+                    metric: "goldReserveRatio",
+                    value: null,
+                    level: "ORANGE",
+                    detail: `Reserve ratio not computed: ${reserve.issues.join("; ")}`
+                },
+                pegSignal(this.name, "USDGB", peg, thresholds.peg)
+            ];
+        }
+
+        return [
+            {
+                category: "collateral",
+                source: this.name,
+                token: "USDGB",
+                metric: "goldReserveRatio",
+                value: reserve.ratio,
+                level: assessLowerBound(reserve.ratio, thresholds.reserve),
+                thresholds: thresholds.reserve,
+                detail: `Reserve evidence ${reserve.state} (${reserve.source})`
+            },
+            pegSignal(this.name, "USDGB", peg, thresholds.peg)
+        ];
+    }
+}
+
+/**
+ * USDca inputs: delta-neutral collateralization, hedge drift and peg deviation
+ */
+export class USDcaRiskSignals implements RiskSignalProvider {
+    readonly name = "usdca";
+    readonly categories: RiskCategory[] = ["collateral", "peg"];
+    private agent: USDcaAgent;
+
+    constructor(agent: USDcaAgent) {
+        this.agent = agent;
+    }
+
+    async collect(policy: RiskPolicy): Promise<RiskSignal[]> {
+        const thresholds = policy.tokens.USDca;
+        const book = await this.agent.getDeltaNeutralMetrics();
+        const peg = pegSignal(this.name, "USDca", await this.agent.getPegPriceDetails(), thresholds.peg);
+
+        // A partial or empty book undercounts collateral: report it as a blind spot
+        if (book.state === "DEGRADED" || book.state === "UNAVAILABLE") {
+            return [
+                {
+                    category: "collateral",
+                    source: this.name,
+                    token: "USDca",
+                    metric: "positionBook",
+                    value: null,
+                    level: "ORANGE",
+                    detail: `Position model ${book.state}: ${book.failedSources.map(f => f.source).join(", ")} unavailable`
+                },
+                peg
+            ];
+        }
+
+        return [
+            {
+                category: "collateral",
+                source: this.name,
+                token: "USDca",
+                metric: "deltaCollateralization",
+                value: book.collateralRatio,
+                level: assessLowerBound(book.collateralRatio, thresholds.collateral),
+                thresholds: thresholds.collateral,
+                detail: `Position model ${book.state}`
+            },
+            {
+                category: "collateral",
+                source: this.name,
+                token: "USDca",
+                metric: "hedgeDrift",
+                value: book.hedgeDrift,
+                level: assessUpperBound(book.hedgeDrift, thresholds.hedgeDrift),
+                thresholds: thresholds.hedgeDrift
+            },
+            peg
+        ];
+    }
+}
+
+/**
+ * Liquidity inputs: price impact of the reference sell on the token's DEX pools
+ * Contributes nothing until LIQUIDITY_POOLS configures pools for the token
+ */
+export class LiquidityRiskSignals implements RiskSignalProvider {
+    readonly name: string;
+    readonly categories: RiskCategory[] = ["liquidity"];
+    private token: "USDGB" | "USDca";
+    private agent: { getLiquidity(): Promise<LiquidityReport> };
+
+    constructor(token: "USDGB" | "USDca", agent: { getLiquidity(): Promise<LiquidityReport> }) {
+        this.token = token;
+        this.agent = agent;
+        this.name = `liquidity:${token}`;
+    }
+
+    async collect(policy: RiskPolicy): Promise<RiskSignal[]> {
+        const report = await this.agent.getLiquidity();
+        if (report.state === "UNCONFIGURED") return [];
+
+        if (report.referenceImpact === null) {
+            throw new Error(`No ${this.token} pool could be read: ${report.failed.map(f => f.error).join("; ")}`);
+        }
+
+        const bands = policy.tokens[this.token].liquidity;
+        return [{
+            category: "liquidity",
+            source: this.name,
+            token: this.token,
+            metric: `priceImpact${report.referenceSizeUsd}`,
+            value: report.referenceImpact,
+            level: assessUpperBound(report.referenceImpact, bands),
+            thresholds: bands,
+            detail: `Best of ${report.pools.length} pool(s)${report.failed.length ? `, ${report.failed.length} unreadable` : ""}`
+        }];
+    }
+}
+
+/**
+ * Cross-chain inputs: LayerZero messages that failed verification or are stuck
+ * Contributes nothing until a message has been submitted for verification
+ */
+export class CrossChainRiskSignals implements RiskSignalProvider {
+    readonly name = "crosschain";
+    readonly categories: RiskCategory[] = ["crossChain"];
+    private governor: { getCrossChainStatus(): Promise<CrossChainStatus> };
+
+    constructor(governor: { getCrossChainStatus(): Promise<CrossChainStatus> }) {
+        this.governor = governor;
+    }
+
+    async collect(): Promise<RiskSignal[]> {
+        const status = await this.governor.getCrossChainStatus();
+        const tracked = status.messagesVerified + status.pending.length + status.failed.length;
+        if (tracked === 0) return [];
+
+        const stuck = status.pending.filter(m => m.stuck).length;
+        const signals: RiskSignal[] = [
+            {
+                category: "crossChain",
+                source: this.name,
+                metric: "failedMessages",
+                value: status.failed.length,
+                level: status.failed.length > 0 ? "RED" : "GREEN",
+                detail: `${status.messagesVerified} verified, ${status.pending.length} pending`
+            },
+            {
+                category: "crossChain",
+                source: this.name,
+                metric: "stuckMessages",
+                value: stuck,
+                level: stuck > 0 ? "ORANGE" : "GREEN",
+                detail: `Pending longer than ${status.stuckTimeoutMinutes}m`
+            }
+        ];
+
+        if (status.unchecked.length > 0) {
+            signals.push({
+                category: "crossChain",
+                source: this.name,
+                metric: "uncheckedMessages",
+                value: status.unchecked.length,
+                level: "YELLOW",
+                detail: status.unchecked.map(u => u.error).join("; ")
+            });
+        }
+
+        return signals;
+    }
+}
+
+/**
+ * Supply conservation input: chain supply plus in-flight transfers vs the mint/burn ledger
+ * Any discrepancy is RED (a bridge exploit or unauthorized mint looks like this);
+ * contributes nothing until the ledger has entries
+ */
+export class SupplyInvariantRiskSignals implements RiskSignalProvider {
+    readonly name = "supply-invariant";
+    readonly categories: RiskCategory[] = ["crossChain"];
+    private governor: { getSupplyInvariant(): Promise<SupplyInvariantResult> };
+
+    constructor(governor: { getSupplyInvariant(): Promise<SupplyInvariantResult> }) {
+        this.governor = governor;
+    }
+
+    async collect(): Promise<RiskSignal[]> {
+        const result = await this.governor.getSupplyInvariant();
+        if (result.state === "UNCONFIGURED") return [];
+        if (result.state === "INCOMPLETE") throw new Error("Supply could not be read on every chain");
+
+        return [{
+            category: "crossChain",
+            source: this.name,
+            token: result.token,
+            metric: "supplyDiscrepancy",
+            value: Number(result.discrepancy) / 1e18,
+            level: result.state === "BREACH" ? "RED" : "GREEN",
+            detail: `${result.chains.length} chain(s), ${result.pendingMessages} message(s) in flight`
+        }];
+    }
+}
+
+/**
+ * Risk Engine: Grades every RiskStatus category from pluggable signal providers
+ *
+ * - Each category is the worst level among its signals
+ * - The driver is the signal that set the level (first provider wins ties)
+ * - A provider that fails contributes an ORANGE "unavailable" signal to each
+ *   category it feeds, so a blind spot is never reported as GREEN
+ * - A category with no provider is GREEN with no driver (not monitored yet)
+ */
+export class RiskEngine {
+    private policy: RiskPolicyStore;
+    private providers: RiskSignalProvider[];
+
+    constructor(policy: RiskPolicyStore, providers: RiskSignalProvider[]) {
+        this.policy = policy;
+        this.providers = providers;
+    }
+
+    async evaluate(): Promise<RiskEvaluation> {
+        const policy = await this.policy.get();
+        const settled = await Promise.allSettled(this.providers.map(p => p.collect(policy)));
+        const signals: RiskSignal[] = [];
+
+        settled.forEach((outcome, i) => {
+            const provider = this.providers[i];
+            if (outcome.status === "fulfilled") {
+                signals.push(...outcome.value);
+                return;
+            }
+
+            console.error(`[RiskEngine] Provider ${provider.name} failed:`, outcome.reason);
+            for (const category of provider.categories) {
+                signals.push({
+                    category,
+                    source: provider.name,
+                    metric: "unavailable",
+                    value: null,
+                    level: "ORANGE",
+                    detail: String(outcome.reason)
+                });
+            }
+        });
+
+        const explanations = {} as Record<RiskCategory, RiskCategoryExplanation>;
+        const categories = {} as Record<RiskCategory, RiskLevel>;
+
+        for (const category of CATEGORIES) {
+            const inCategory = signals.filter(s => s.category === category);
+            const level = worstRisk(inCategory.map(s => s.level));
+            const driver = inCategory.find(s => s.level === level) ?? null;
+
+            categories[category] = level;
+            explanations[category] = { level, driver, signals: inCategory };
+        }
+
+        return {
+            overall: worstRisk(Object.values(categories)),
+            categories,
+            explanations
+        };
+    }
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RiskPolicyStore,
+  RiskPolicyError,
+  DEFAULT_RISK_POLICY,
+  validateRiskPolicy,
+  assessUpperBound,
+  assessLowerBound,
+} from './risk-policy';
+import type { EcosystemEnv, RiskPolicy } from './types';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+function createStore() {
+  const bucket = createMockBucket();
+  const env = { ECOSYSTEM_BUCKET: bucket } as unknown as EcosystemEnv;
+  return { bucket, env, store: new RiskPolicyStore(env) };
+}
+
+function thresholds(): RiskPolicy['tokens'] {
+  return structuredClone(DEFAULT_RISK_POLICY.tokens);
+}
+
+describe('assessUpperBound / assessLowerBound', () => {
+  it('grades deviations against ascending bands', () => {
+    const bands = DEFAULT_RISK_POLICY.tokens.USDGB.peg;
+    expect(assessUpperBound(0.001, bands)).toBe('GREEN');
+    expect(assessUpperBound(0.008, bands)).toBe('YELLOW');
+    expect(assessUpperBound(0.015, bands)).toBe('ORANGE');
+    expect(assessUpperBound(0.03, bands)).toBe('RED');
+  });
+
+  it('grades ratios against descending bands', () => {
+    const bands = DEFAULT_RISK_POLICY.tokens.USDGB.reserve;
+    expect(assessLowerBound(1.10, bands)).toBe('GREEN');
+    expect(assessLowerBound(1.03, bands)).toBe('YELLOW');
+    expect(assessLowerBound(1.01, bands)).toBe('ORANGE');
+    expect(assessLowerBound(0.99, bands)).toBe('RED');
+  });
+});
+
+describe('validateRiskPolicy', () => {
+  it('accepts the defaults', () => {
+    expect(validateRiskPolicy(thresholds())).toEqual([]);
+  });
+
+  it('rejects missing, non-numeric and mis-ordered bands', () => {
+    const tokens = thresholds();
+    const usdgb: Record<string, unknown> = { ...tokens.USDGB, peg: { green: 0.02, yellow: 0.01, orange: 0.03, red: 0.05 } };
+    const usdca: Record<string, unknown> = {
+      ...tokens.USDca,
+      collateral: { green: 1.0, yellow: 1.05, orange: 1.02, red: 0.9 },
+      hedgeDrift: { green: 'x', yellow: 0.02, orange: 0.05, red: 0.1 },
+    };
+    delete usdgb.reserve;
+
+    expect(validateRiskPolicy({ USDGB: usdgb, USDca: usdca } as unknown as RiskPolicy['tokens'])).toEqual([
+      'USDGB.peg must be strictly increasing from green to red',
+      'USDGB.reserve is required',
+      'USDca.collateral must be strictly decreasing from green to red',
+      'USDca.hedgeDrift thresholds must be non-negative numbers',
+    ]);
+  });
+
+  it('rejects tokens and metrics the policy does not define', () => {
+    const tokens = thresholds() as unknown as Record<string, Record<string, unknown>>;
+    tokens.USDX = { peg: { green: 0.01, yellow: 0.02, orange: 0.03, red: 0.04 } };
+    tokens.USDGB.pegg = { green: 0.01, yellow: 0.02, orange: 0.03, red: 0.04 };
+
+    expect(validateRiskPolicy(tokens as unknown as RiskPolicy['tokens'])).toEqual([
+      'USDGB.pegg is not a known metric',
+      'USDX is not a known token',
+    ]);
+  });
+});
+
+describe('RiskPolicyStore', () => {
+  it('returns the defaults until a policy is saved', async () => {
+    const { store } = createStore();
+    expect(await store.get()).toEqual(DEFAULT_RISK_POLICY);
+  });
+
+  it('saves a new version with an audit entry', async () => {
+    const { store, env, bucket } = createStore();
+    const tokens = thresholds();
+    tokens.USDca.peg.orange = 0.015;
+
+    const saved = await store.update(tokens, 'ops@example.com', 'Tighten USDca peg', 0);
+
+    expect(saved.version).toBe(1);
+    expect(saved.updatedBy).toBe('ops@example.com');
+    expect(bucket.store.has('config/risk-policy/versions/1.json')).toBe(true);
+
+    // A fresh store (next request) reads the saved policy
+    expect((await new RiskPolicyStore(env).get()).tokens.USDca.peg.orange).toBe(0.015);
+
+    const [entry] = await store.getAudit();
+    expect(entry).toMatchObject({
+      version: 1,
+      previousVersion: 0,
+      changedBy: 'ops@example.com',
+      reason: 'Tighten USDca peg',
+      changes: [{ path: 'USDca.peg.orange', from: 0.02, to: 0.015 }],
+    });
+  });
+
+  it('keeps prior versions retrievable', async () => {
+    const { store } = createStore();
+    const tokens = thresholds();
+    tokens.USDGB.reserve.green = 1.08;
+    await store.update(tokens, 'a', 'first');
+    tokens.USDGB.reserve.green = 1.06;
+    await store.update(tokens, 'b', 'second');
+
+    expect((await store.getVersion(1))?.tokens.USDGB.reserve.green).toBe(1.08);
+    expect((await store.getVersion(2))?.tokens.USDGB.reserve.green).toBe(1.06);
+    expect(await store.getVersion(3)).toBeNull();
+    expect((await store.getAudit()).map(e => e.version)).toEqual([2, 1]);
+  });
+
+  it('rejects invalid thresholds and stale versions', async () => {
+    const { store, bucket } = createStore();
+    const invalid = thresholds();
+    invalid.USDGB.peg.red = 1.5;
+
+    await expect(store.update(invalid, 'a', 'bad')).rejects.toMatchObject({ status: 400 });
+    expect(bucket.store.size).toBe(0);
+
+    await store.update(thresholds(), 'a', 'first');
+    await expect(store.update(thresholds(), 'b', 'late', 0)).rejects.toBeInstanceOf(RiskPolicyError);
+    await expect(store.update(thresholds(), 'b', 'late', 0)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('checks the expected version at write time', async () => {
+    const { store, env } = createStore();
+    const tokens = thresholds();
+
+    // Another request saves version 1 after this one was loaded
+    await store.get();
+    await new RiskPolicyStore(env).update(tokens, 'a', 'first', 0);
+
+    await expect(store.update(tokens, 'b', 'late', 0)).rejects.toMatchObject({ status: 409 });
+    expect((await store.update(tokens, 'b', 'rebased', 1)).version).toBe(2);
+  });
+
+  it('reports a saved policy whose history could not be written', async () => {
+    suppressConsole();
+    const { store, env, bucket } = createStore();
+    const put = bucket.put.bind(bucket);
+    bucket.put = (async (key: string, value: string) => {
+      if (key.startsWith('config/risk-policy/versions/')) throw new Error('R2 unavailable');
+      return put(key, value);
+    }) as typeof bucket.put;
+
+    await expect(store.update(thresholds(), 'a', 'first')).rejects.toMatchObject({
+      status: 500,
+      message: expect.stringContaining('saved as version 1'),
+      details: ['Error: R2 unavailable'],
+    });
+    expect((await new RiskPolicyStore(env).get()).version).toBe(1);
+  });
+
+  it('falls back to the defaults when the stored policy is unreadable', async () => {
+    suppressConsole();
+    const bucket = createMockBucket({ 'config/risk-policy.json': '{not json' });
+    const store = new RiskPolicyStore({ ECOSYSTEM_BUCKET: bucket } as unknown as EcosystemEnv);
+
+    expect(await store.get()).toEqual(DEFAULT_RISK_POLICY);
+  });
+});
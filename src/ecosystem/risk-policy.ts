@@ -0,0 +1,313 @@
+// Risk Policy - Versioned risk thresholds shared by every agent
+// Part of ChiefOS Ecosystem Manager
+
+import type { EcosystemEnv, RiskLevel, RiskBands, RiskPolicy, RiskPolicyAuditEntry } from './types';
+import { StateDocument } from './ecosystem-state';
+import { HttpStatusError } from './utils';
+
+const POLICY_KEY = "config/risk-policy.json";
+const VERSIONS_PREFIX = "config/risk-policy/versions/";
+const AUDIT_PREFIX = "config/risk-policy/audit/";
+
+/**
+ * Whether a metric is healthier when low (deviation, drift) or high (backing ratios)
+ */
+type BandDirection = "max" | "min";
+
+/**
+ * Direction of every threshold set in the policy, keyed "<token>.<metric>"
+ */
+const DIRECTIONS: Record<string, BandDirection> = {
+    "USDGB.peg": "max",
+    "USDGB.reserve": "min",
+    "USDGB.liquidity": "max",
+    "USDca.peg": "max",
+    "USDca.collateral": "min",
+    "USDca.hedgeDrift": "max",
+    "USDca.liquidity": "max"
+};
+
+/**
+ * Thresholds the agents shipped with; used until a policy is saved
+ */
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+    version: 0,
+    updatedAt: 0,
+    updatedBy: "default",
+    tokens: {
+        USDGB: {
+            peg: { green: 0.005, yellow: 0.01, orange: 0.02, red: 0.05 },
+            reserve: { green: 1.05, yellow: 1.02, orange: 1.00, red: 0.98 },
+            liquidity: { green: 0.005, yellow: 0.01, orange: 0.03, red: 0.05 }
+        },
+        USDca: {
+            peg: { green: 0.005, yellow: 0.01, orange: 0.02, red: 0.05 },
+            collateral: { green: 1.10, yellow: 1.05, orange: 1.02, red: 1.00 },
+            hedgeDrift: { green: 0.01, yellow: 0.02, orange: 0.05, red: 0.10 },
+            liquidity: { green: 0.005, yellow: 0.01, orange: 0.03, red: 0.05 }
+        }
+    }
+};
+
+/**
+ * Error raised for rejected policy changes
+ */
+export class RiskPolicyError extends HttpStatusError {
+    readonly details: string[];
+
+    constructor(message: string, status: number, details: string[] = []) {
+        super(message, status);
+        this.name = "RiskPolicyError";
+        this.details = details;
+    }
+}
+
+/**
+ * Grade a "lower is better" metric (peg deviation, hedge drift)
+ */
+export function assessUpperBound(value: number, bands: RiskBands): RiskLevel {
+    if (value <= bands.green) return "GREEN";
+    if (value <= bands.yellow) return "YELLOW";
+    if (value <= bands.orange) return "ORANGE";
+    return "RED";
+}
+
+/**
+ * Grade a "higher is better" metric (reserve and collateral ratios)
+ */
+export function assessLowerBound(value: number, bands: RiskBands): RiskLevel {
+    if (value >= bands.green) return "GREEN";
+    if (value >= bands.yellow) return "YELLOW";
+    if (value >= bands.orange) return "ORANGE";
+    return "RED";
+}
+
+/**
+ * Risk Policy Store: Single source of risk thresholds
+ *
+ * - config/risk-policy.json holds the active policy (an ecosystem state document)
+ * - config/risk-policy/versions/<n>.json keeps every saved version (R2)
+ * - config/risk-policy/audit/<timestamp>-<n>.json records who changed what and why (R2)
+ *
+ * The active policy is read once per instance, so an EcosystemManager run
+ * grades every agent against the same version.
+ */
+export class RiskPolicyStore {
+    private env: EcosystemEnv;
+    private cached: Promise<RiskPolicy> | null = null;
+    private document: StateDocument<RiskPolicy>;
+
+    constructor(env: EcosystemEnv) {
+        this.env = env;
+        this.document = new StateDocument<RiskPolicy>(env, POLICY_KEY, {
+            empty: () => structuredClone(DEFAULT_RISK_POLICY),
+            parse: text => {
+                try {
+                    return withDefaults(JSON.parse(text));
+                } catch (error) {
+                    console.error("[RiskPolicy] Failed to load policy, using defaults:", error);
+                    return structuredClone(DEFAULT_RISK_POLICY);
+                }
+            },
+            serialize: policy => JSON.stringify(policy)
+        });
+    }
+
+    /**
+     * Get the active policy (defaults when none has been saved)
+     */
+    async get(): Promise<RiskPolicy> {
+        this.cached ??= this.load();
+        return this.cached;
+    }
+
+    /**
+     * Validate and save a new version of the thresholds
+     * `expectedVersion` guards against overwriting a concurrent change; it is
+     * checked against the version the write is made at
+     */
+    async update(
+        tokens: RiskPolicy["tokens"],
+        actor: string,
+        reason: string,
+        expectedVersion?: number
+    ): Promise<RiskPolicy> {
+        const errors = validateRiskPolicy(tokens);
+        if (errors.length > 0) {
+            throw new RiskPolicyError("Invalid risk policy", 400, errors);
+        }
+
+        const now = Date.now();
+        const { next, audit } = await this.document.update(policy => {
+            if (expectedVersion !== undefined && expectedVersion !== policy.version) {
+                throw new RiskPolicyError(
+                    `Policy is at version ${policy.version}, expected ${expectedVersion}`,
+                    409
+                );
+            }
+
+            const next: RiskPolicy = {
+                version: policy.version + 1,
+                updatedAt: now,
+                updatedBy: actor,
+                reason,
+                tokens
+            };
+            const audit: RiskPolicyAuditEntry = {
+                version: next.version,
+                previousVersion: policy.version,
+                changedBy: actor,
+                changedAt: now,
+                reason,
+                changes: diffThresholds(policy.tokens, tokens)
+            };
+
+            Object.assign(policy, next);
+            return { next, audit };
+        });
+
+        // The version number is ours once the policy write went through; the policy is
+        // live from here, so a failed history write is reported rather than swallowed
+        this.cached = Promise.resolve(next);
+        try {
+            await this.env.ECOSYSTEM_BUCKET.put(`${VERSIONS_PREFIX}${next.version}.json`, JSON.stringify(next));
+            await this.env.ECOSYSTEM_BUCKET.put(`${AUDIT_PREFIX}${now}-${next.version}.json`, JSON.stringify(audit));
+        } catch (error) {
+            console.error(`[RiskPolicy] Version ${next.version} saved without its history:`, error);
+            throw new RiskPolicyError(
+                `Policy saved as version ${next.version}, but its version snapshot and audit entry could not be written`,
+                500,
+                [String(error)]
+            );
+        }
+
+        return next;
+    }
+
+    /**
+     * Get a specific saved version
+     */
+    async getVersion(version: number): Promise<RiskPolicy | null> {
+        if (version === 0) return DEFAULT_RISK_POLICY;
+        const object = await this.env.ECOSYSTEM_BUCKET.get(`${VERSIONS_PREFIX}${version}.json`);
+        return object ? JSON.parse(await object.text()) : null;
+    }
+
+    /**
+     * Audit trail, newest first
+     */
+    async getAudit(limit: number = 50): Promise<RiskPolicyAuditEntry[]> {
+        const keys: string[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const listed = await this.env.ECOSYSTEM_BUCKET.list({ prefix: AUDIT_PREFIX, cursor });
+            keys.push(...listed.objects.map(o => o.key));
+            cursor = listed.truncated ? listed.cursor : undefined;
+        } while (cursor);
+
+        // Keys start with a millisecond timestamp of fixed width, so they sort chronologically
+        const newest = keys.sort().reverse().slice(0, limit);
+        const entries: RiskPolicyAuditEntry[] = [];
+
+        for (const key of newest) {
+            const object = await this.env.ECOSYSTEM_BUCKET.get(key);
+            if (object) entries.push(JSON.parse(await object.text()));
+        }
+
+        return entries;
+    }
+
+    private async load(): Promise<RiskPolicy> {
+        try {
+            return await this.document.read();
+        } catch (error) {
+            console.error("[RiskPolicy] Failed to load policy, using defaults:", error);
+            return DEFAULT_RISK_POLICY;
+        }
+    }
+}
+
+/**
+ * Check a thresholds document; returns a list of problems (empty when valid)
+ *
+ * Bands must be ordered from healthiest to worst: ascending for "lower is
+ * better" metrics and descending for backing ratios. Tokens and metrics the
+ * policy does not define are rejected so they are not saved and audited.
+ */
+export function validateRiskPolicy(tokens: RiskPolicy["tokens"]): string[] {
+    if (!tokens || typeof tokens !== "object") return ["tokens must be an object"];
+
+    const errors: string[] = [];
+
+    for (const [token, metrics] of Object.entries(tokens as unknown as Record<string, unknown>)) {
+        if (!Object.keys(DIRECTIONS).some(path => path.startsWith(`${token}.`))) {
+            errors.push(`${token} is not a known token`);
+            continue;
+        }
+        if (!metrics || typeof metrics !== "object") continue;
+
+        for (const metric of Object.keys(metrics)) {
+            if (!(`${token}.${metric}` in DIRECTIONS)) errors.push(`${token}.${metric} is not a known metric`);
+        }
+    }
+
+    for (const [path, direction] of Object.entries(DIRECTIONS)) {
+        const [token, metric] = path.split(".");
+        const bands = (tokens as unknown as Record<string, Record<string, RiskBands> | undefined>)[token]?.[metric];
+
+        if (!bands || typeof bands !== "object") {
+            errors.push(`${path} is required`);
+            continue;
+        }
+
+        const values = [bands.green, bands.yellow, bands.orange, bands.red];
+        if (!values.every(v => typeof v === "number" && Number.isFinite(v) && v >= 0)) {
+            errors.push(`${path} thresholds must be non-negative numbers`);
+            continue;
+        }
+
+        const ordered = values.every((v, i) => i === 0 || (direction === "max" ? v > values[i - 1] : v < values[i - 1]));
+        if (!ordered) {
+            errors.push(`${path} must be strictly ${direction === "max" ? "increasing" : "decreasing"} from green to red`);
+        }
+
+        if ((metric === "peg" || metric === "liquidity") && bands.red >= 1) {
+            errors.push(`${path} thresholds are fractions and must be below 1`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Fill metrics added after a policy was saved with their default bands
+ */
+function withDefaults(policy: RiskPolicy): RiskPolicy {
+    return {
+        ...policy,
+        tokens: {
+            USDGB: { ...DEFAULT_RISK_POLICY.tokens.USDGB, ...policy.tokens?.USDGB },
+            USDca: { ...DEFAULT_RISK_POLICY.tokens.USDca, ...policy.tokens?.USDca }
+        }
+    };
+}
+
+function diffThresholds(before: RiskPolicy["tokens"], after: RiskPolicy["tokens"]): RiskPolicyAuditEntry["changes"] {
+    const changes: RiskPolicyAuditEntry["changes"] = [];
+    const levels: (keyof RiskBands)[] = ["green", "yellow", "orange", "red"];
+
+    for (const path of Object.keys(DIRECTIONS)) {
+        const [token, metric] = path.split(".");
+        const from = (before as unknown as Record<string, Record<string, RiskBands>>)[token]?.[metric];
+        const to = (after as unknown as Record<string, Record<string, RiskBands>>)[token]?.[metric];
+
+        for (const level of levels) {
+            if (from?.[level] !== to?.[level]) {
+                changes.push({ path: `${path}.${level}`, from: from?.[level] ?? null, to: to?.[level] ?? null });
+            }
+        }
+    }
+
+    return changes;
+}
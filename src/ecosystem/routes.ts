@@ -1,9 +1,22 @@
 // Ecosystem Manager Routes
 // Part of ChiefOS Moltworker
 
-import type { EcosystemEnv, OperationalReport } from './types';
+import type { EcosystemEnv, OperationalReport, ReserveAttestation, RiskPolicy, LayerZeroMessage } from './types';
 import { EcosystemManager, ObserverAgent } from './index';
-import { serializeWithBigInt } from './utils';
+import { serializeWithBigInt, HttpStatusError } from './utils';
+import { ChainRegistry } from './chains';
+import { ReserveAttestationService } from './reserve-attestation';
+import { AlertStore } from './alert-store';
+import { RiskPolicyStore, RiskPolicyError } from './risk-policy';
+import { SupplyLedger } from './supply-ledger';
+import { EmergencyPauseService } from './emergency-pause';
+import { feeLedgerToCsv, ledgerDate } from './fee-ledger';
+import { ReportStore, parseReportPeriod, parseReportTime } from './report-store';
+import { WebhookDispatcher } from './webhooks';
+import { handleSlackInteraction, parseSlackInteraction } from './slack';
+import { TelegramCommandHandler, parseTelegramUpdate } from './telegram-bot';
+import { DiscordCommandHandler, parseDiscordInteraction, registerDiscordCommands } from './discord-interactions';
+import { sendTelegramMessage } from './notifications';
 import { formatReportSummary } from './scheduled';
 
 /**
@@ -11,7 +24,8 @@ import { formatReportSummary } from './scheduled';
  */
 export async function handleEcosystemRequest(
     request: Request,
-    env: EcosystemEnv
+    env: EcosystemEnv,
+    ctx?: { waitUntil(promise: Promise<unknown>): void }
 ): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname;
@@ -38,14 +52,136 @@ export async function handleEcosystemRequest(
             return await generateReport(env);
         }
 
+        if (path === "/ecosystem/reports") {
+            return await listReports(env, url.searchParams);
+        }
+
+        if (path === "/ecosystem/reports/series") {
+            return await getReportSeries(env, url.searchParams);
+        }
+
+        const reportTimestamp = path.match(/^\/ecosystem\/reports\/(\d+)$/);
+        if (reportTimestamp) {
+            return await getReport(env, Number(reportTimestamp[1]), url.searchParams);
+        }
+
+        if (path === "/ecosystem/risk") {
+            return await getRisk(env);
+        }
+
         if (path === "/ecosystem/alerts") {
-            return await getAlerts(env);
+            return await getAlerts(env, url.searchParams.get("state"));
+        }
+
+        const alertAction = path.match(/^\/ecosystem\/alerts\/([^/]+)\/(ack|snooze|resolve)$/);
+        if (alertAction && request.method === "POST") {
+            return await updateAlert(request, env, decodeURIComponent(alertAction[1]), alertAction[2]);
+        }
+
+        if (path === "/ecosystem/crosschain") {
+            return await getCrossChain(env);
+        }
+
+        if (path === "/ecosystem/crosschain/messages" && request.method === "POST") {
+            return await verifyCrossChainMessage(request, env);
+        }
+
+        if (path === "/ecosystem/ledger/usdgb") {
+            return request.method === "POST"
+                ? await recordLedgerEntry(request, env)
+                : await getSupplyLedger(env);
+        }
+
+        if (path === "/ecosystem/emergency") {
+            return await getEmergency(env);
+        }
+
+        if (path === "/ecosystem/emergency/pauses" && request.method === "POST") {
+            return await proposePause(request, env);
+        }
+
+        const pauseExport = path.match(/^\/ecosystem\/emergency\/pauses\/([^/]+)\/safe-tx$/);
+        if (pauseExport) {
+            return await exportPause(env, decodeURIComponent(pauseExport[1]));
+        }
+
+        const pauseAction = path.match(/^\/ecosystem\/emergency\/pauses\/([^/]+)\/(approve|cancel)$/);
+        if (pauseAction && request.method === "POST") {
+            return await updatePause(request, env, decodeURIComponent(pauseAction[1]), pauseAction[2]);
+        }
+
+        if (path === "/ecosystem/marketplace/launches") {
+            return await getLaunches(env);
+        }
+
+        if (path === "/ecosystem/marketplace/fees") {
+            return await getFeeLedger(env, url.searchParams);
+        }
+
+        if (path === "/ecosystem/marketplace/fees/outstanding") {
+            return await getOutstandingFees(env);
+        }
+
+        const feeResolve = path.match(/^\/ecosystem\/marketplace\/fees\/outstanding\/([^/]+)\/resolve$/);
+        if (feeResolve && request.method === "POST") {
+            return await resolveOutstandingFee(request, env, decodeURIComponent(feeResolve[1]));
         }
 
         if (path === "/ecosystem/skills/pending") {
             return await getPendingSkills(env);
         }
 
+        if (path === "/ecosystem/reserves") {
+            return await getReserves(env);
+        }
+
+        if (path === "/ecosystem/reserves/attestations" && request.method === "POST") {
+            return await ingestReserveAttestation(request, env);
+        }
+
+        if (path === "/ecosystem/admin/risk-policy") {
+            return request.method === "PUT"
+                ? await updateRiskPolicy(request, env)
+                : await getRiskPolicy(env);
+        }
+
+        if (path === "/ecosystem/admin/risk-policy/audit") {
+            return await getRiskPolicyAudit(env, Number(url.searchParams.get("limit")) || 50);
+        }
+
+        const policyVersion = path.match(/^\/ecosystem\/admin\/risk-policy\/versions\/(\d+)$/);
+        if (policyVersion) {
+            return await getRiskPolicyVersion(env, Number(policyVersion[1]));
+        }
+
+        if (path === "/ecosystem/webhooks/dead-letter") {
+            return await getDeadLetters(env);
+        }
+
+        const deadLetterRetry = path.match(/^\/ecosystem\/webhooks\/dead-letter\/([^/]+)\/retry$/);
+        if (deadLetterRetry && request.method === "POST") {
+            return await retryDeadLetter(env, decodeURIComponent(deadLetterRetry[1]));
+        }
+
+        if (path === "/ecosystem/webhooks/test" && request.method === "POST") {
+            return await testWebhooks(env);
+        }
+
+        if (path === "/ecosystem/slack/interactions" && request.method === "POST") {
+            return await slackInteractions(request, env);
+        }
+
+        if (path === "/ecosystem/telegram/webhook" && request.method === "POST") {
+            return await telegramWebhook(request, env);
+        }
+
+        if (path === "/ecosystem/discord/interactions" && request.method === "POST") {
+            return await discordInteractions(request, env, ctx);
+        }
+
+        if (path === "/ecosystem/discord/commands" && request.method === "POST") {
+            return await registerCommands(env);
+        }
 
         // ClickUp Webhook Handler
         if (path === "/ecosystem/webhooks/clickup" && request.method === "POST") {
@@ -69,7 +205,7 @@ export async function handleEcosystemRequest(
         // Test Endpoint
 
         if (path === "/ecosystem/test-notify") {
-            const { sendDiscordMessage, sendTelegramMessage } = await import('./notifications');
+            const { sendDiscordMessage, sendTelegramMessage, sendSlackMessage } = await import('./notifications');
             const results: any = {};
 
             if (env.DISCORD_CHANNEL_OPS) {
@@ -87,6 +223,12 @@ export async function handleEcosystemRequest(
                 }
             }
 
+            if (env.SLACK_BOT_TOKEN) {
+                results.slack = env.SLACK_CHANNEL_OPS
+                    ? await sendSlackMessage(env, "🔔 Test Notification from ChiefSOS Moltworker")
+                    : "Skipped (No SLACK_CHANNEL_OPS)";
+            }
+
             return new Response(JSON.stringify(results, null, 2), {
                 headers: { "Content-Type": "application/json" }
             });
@@ -94,9 +236,9 @@ export async function handleEcosystemRequest(
 
         // Manually Trigger Scheduled Report (Debug)
         if (path === "/ecosystem/debug/trigger-report") {
-            const { handleScheduled } = await import('./scheduled');
+            const { handleScheduled, FOUR_HOUR_REPORT_CRON } = await import('./scheduled');
             // Mock controller and context
-            const controller = { scheduledTime: Date.now(), cron: "manual-trigger" } as any;
+            const controller = { scheduledTime: Date.now(), cron: FOUR_HOUR_REPORT_CRON } as any;
             const ctx = { waitUntil: (p: Promise<any>) => p } as any;
 
             await handleScheduled(controller, env, ctx);
@@ -141,31 +283,9 @@ export async function handleEcosystemRequest(
  * GET /ecosystem/status - Quick status check
  */
 async function getStatus(env: EcosystemEnv): Promise<Response> {
-    const manager = new EcosystemManager(env);
-    const agents = manager.getAgents();
+    const status = await new EcosystemManager(env).getStatus();
 
-    const [usdgbReport, usdcaReport, governorReport] = await Promise.all([
-        agents.usdgb.generateReport(),
-        agents.usdca.generateReport(),
-        agents.governor.generateReport()
-    ]);
-
-    return new Response(serializeWithBigInt({
-        status: "online",
-        risk: governorReport.riskStatus.overall,
-        emergency: governorReport.emergencyStatus,
-        usdgb: {
-            pegPrice: usdgbReport.pegPrice,
-            goldReserveRatio: usdgbReport.goldReserveRatio,
-            stakingAPR: usdgbReport.stakingAPR
-        },
-        usdca: {
-            pegPrice: usdcaReport.pegPrice,
-            deltaCollateralization: usdcaReport.deltaCollateralization,
-            fundingRateAPY: usdcaReport.fundingRateAPY
-        },
-        timestamp: Date.now()
-    }), {
+    return new Response(serializeWithBigInt(status), {
         headers: { "Content-Type": "application/json" }
     });
 }
@@ -206,10 +326,11 @@ async function getLatestReport(env: EcosystemEnv): Promise<Response> {
 
 /**
  * POST /ecosystem/report/generate - Generate new report
+ * Ad-hoc: kept out of the 4h report history the daily brief rolls up
  */
 async function generateReport(env: EcosystemEnv): Promise<Response> {
     const manager = new EcosystemManager(env);
-    const report = await manager.generate4HourReport();
+    const report = await manager.build4HourReport();
 
     // Store as latest (use serializeWithBigInt for storage too)
     await env.ECOSYSTEM_BUCKET.put("reports/latest.json", serializeWithBigInt(report));
@@ -224,24 +345,527 @@ async function generateReport(env: EcosystemEnv): Promise<Response> {
 }
 
 /**
- * GET /ecosystem/alerts - Get current alerts
+ * GET /ecosystem/reports - Stored reports, newest first
+ * Query: period (4h|24h, default 4h), from, to (ms or ISO 8601), limit (default 20, max 100), cursor
+ */
+async function listReports(env: EcosystemEnv, params: URLSearchParams): Promise<Response> {
+    try {
+        const page = await new ReportStore(env).list({
+            period: parseReportPeriod(params.get("period")),
+            from: parseReportTime(params.get("from"), "from"),
+            to: parseReportTime(params.get("to"), "to"),
+            limit: Number(params.get("limit")) || undefined,
+            cursor: params.get("cursor")
+        });
+        return new Response(serializeWithBigInt(page), {
+            headers: { "Content-Type": "application/json" }
+        });
+    } catch (error) {
+        return httpErrorResponse(error);
+    }
+}
+
+/**
+ * GET /ecosystem/reports/:timestamp - A stored report (?period= to skip the lookup across periods)
  */
-async function getAlerts(env: EcosystemEnv): Promise<Response> {
+async function getReport(env: EcosystemEnv, timestamp: number, params: URLSearchParams): Promise<Response> {
+    try {
+        const period = params.get("period") ? parseReportPeriod(params.get("period")) : undefined;
+        const report = await new ReportStore(env).get(timestamp, period);
+        if (!report) {
+            return new Response(serializeWithBigInt({ error: `No report at ${timestamp}` }), {
+                status: 404,
+                headers: { "Content-Type": "application/json" }
+            });
+        }
+
+        return new Response(serializeWithBigInt({ ...report, formatted: formatReportSummary(report) }), {
+            headers: { "Content-Type": "application/json" }
+        });
+    } catch (error) {
+        return httpErrorResponse(error);
+    }
+}
+
+/**
+ * GET /ecosystem/reports/series - One metric across stored reports, for charting
+ * Query: metric (e.g. usdgb.pegPrice), period, from, to, points (default 200, max 500)
+ */
+async function getReportSeries(env: EcosystemEnv, params: URLSearchParams): Promise<Response> {
+    try {
+        const series = await new ReportStore(env).series(params.get("metric") ?? "", {
+            period: parseReportPeriod(params.get("period")),
+            from: parseReportTime(params.get("from"), "from"),
+            to: parseReportTime(params.get("to"), "to"),
+            points: Number(params.get("points")) || undefined
+        });
+        return new Response(serializeWithBigInt(series), {
+            headers: { "Content-Type": "application/json" }
+        });
+    } catch (error) {
+        return httpErrorResponse(error);
+    }
+}
+
+/**
+ * GET /ecosystem/risk - Risk categories with the signals behind each level
+ */
+async function getRisk(env: EcosystemEnv): Promise<Response> {
     const manager = new EcosystemManager(env);
-    const agents = manager.getAgents();
+    const { riskStatus } = await manager.getAgents().governor.generateReport();
 
-    const governorReport = await agents.governor.generateReport();
+    return new Response(serializeWithBigInt({
+        overall: riskStatus.overall,
+        categories: riskStatus.categories,
+        explanations: riskStatus.explanations,
+        lastUpdated: riskStatus.lastUpdated
+    }), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
 
+/**
+ * GET /ecosystem/alerts - Get current alerts (?state=OPEN|ACKED|SNOOZED|RESOLVED)
+ */
+async function getAlerts(env: EcosystemEnv, state: string | null): Promise<Response> {
+    const overview = await new EcosystemManager(env).getAlerts(state);
+
+    return new Response(serializeWithBigInt(overview), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * POST /ecosystem/alerts/:id/(ack|snooze|resolve) - Operator alert actions
+ * Body (optional): { by?: string, minutes?: number, note?: string }
+ */
+async function updateAlert(request: Request, env: EcosystemEnv, id: string, action: string): Promise<Response> {
+    let body: { by?: string; minutes?: number; note?: string } = {};
+    try {
+        const text = await request.text();
+        if (text) body = JSON.parse(text);
+    } catch {
+        return new Response(serializeWithBigInt({ error: "Invalid JSON" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    const store = new AlertStore(env);
+    try {
+        const alert = action === "ack"
+            ? await store.ack(id, body.by)
+            : action === "snooze"
+                ? await store.snooze(id, Number(body.minutes ?? 60), body.by)
+                : await store.resolve(id, body.by, body.note);
+
+        return new Response(serializeWithBigInt({ success: true, alert }), {
+            headers: { "Content-Type": "application/json" }
+        });
+    } catch (error) {
+        return httpErrorResponse(error);
+    }
+}
+
+/**
+ * GET /ecosystem/marketplace/launches - Indexed bondcurve launches (syncs new events first)
+ */
+async function getLaunches(env: EcosystemEnv): Promise<Response> {
+    const marketplace = new EcosystemManager(env).getAgents().marketplace;
+    const [active, completed24h] = await Promise.all([
+        marketplace.getActiveLaunches(),
+        marketplace.getCompletedLaunches24h()
+    ]);
+
+    return new Response(serializeWithBigInt({ active, completed24h }), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * GET /ecosystem/marketplace/fees - Reconciled fee ledger (syncs new fee transfers first)
+ * Query: from, to (YYYY-MM-DD, UTC, default today, at most 31 days), format=csv for the finance export
+ */
+async function getFeeLedger(env: EcosystemEnv, params: URLSearchParams): Promise<Response> {
+    const from = params.get("from") ?? ledgerDate(Date.now());
+    const to = params.get("to") ?? from;
+    const start = /^\d{4}-\d{2}-\d{2}$/.test(from) ? Date.parse(from) : NaN;
+    const end = /^\d{4}-\d{2}-\d{2}$/.test(to) ? Date.parse(to) : NaN;
+    const days = (end - start) / (24 * 60 * 60 * 1000) + 1;
+
+    if (!Number.isFinite(days) || days < 1 || days > 31) {
+        return new Response(serializeWithBigInt({ error: "from and to must be YYYY-MM-DD dates at most 31 days apart" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    const marketplace = new EcosystemManager(env).getAgents().marketplace;
+    const entries = await marketplace.getFeeLedger(start, end + 24 * 60 * 60 * 1000 - 1);
+    if (!entries) {
+        return new Response(serializeWithBigInt({ error: "No marketplace fee receiver configured" }), {
+            status: 404,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    if (params.get("format") === "csv") {
+        return new Response(feeLedgerToCsv(entries), {
+            headers: {
+                "Content-Type": "text/csv; charset=utf-8",
+                "Content-Disposition": `attachment; filename="marketplace-fees-${from}-to-${to}.csv"`
+            }
+        });
+    }
+
+    const total = (field: "expectedFee" | "collectedFee") => entries.reduce((sum, e) => sum + e[field], 0n);
     return new Response(serializeWithBigInt({
-        count: governorReport.riskStatus.alerts.length,
-        alerts: governorReport.riskStatus.alerts,
-        risk: governorReport.riskStatus.overall,
-        categories: governorReport.riskStatus.categories
+        from,
+        to,
+        expectedFee: total("expectedFee"),
+        collectedFee: total("collectedFee"),
+        discrepancies: entries.filter(e => e.status !== "MATCHED").length,
+        entries
     }), {
         headers: { "Content-Type": "application/json" }
     });
 }
 
+/**
+ * GET /ecosystem/marketplace/fees/outstanding - MISSING and UNDERPAID fees not yet paid or resolved
+ */
+async function getOutstandingFees(env: EcosystemEnv): Promise<Response> {
+    const outstanding = await new EcosystemManager(env).getAgents().marketplace.getOutstandingFees();
+    if (!outstanding) {
+        return new Response(serializeWithBigInt({ error: "No marketplace fee receiver configured" }), {
+            status: 404,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    return new Response(serializeWithBigInt({ entries: outstanding }), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * POST /ecosystem/marketplace/fees/outstanding/:id/resolve - Stop tracking a fee settled off-chain or written off
+ * The actor is the Cloudflare Access user making the request
+ */
+async function resolveOutstandingFee(request: Request, env: EcosystemEnv, id: string): Promise<Response> {
+    const entry = await new EcosystemManager(env).getAgents().marketplace.resolveOutstandingFee(id);
+    if (!entry) {
+        return new Response(serializeWithBigInt({ error: `Fee ${id} is not outstanding` }), {
+            status: 404,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    const actor = request.headers.get("cf-access-authenticated-user-email") || "unknown";
+    console.log(`[Marketplace] Outstanding fee ${id} resolved by ${actor}`);
+
+    return new Response(serializeWithBigInt({ success: true, entry }), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * GET /ecosystem/crosschain - Tracked LayerZero messages, re-checked on both endpoints
+ */
+async function getCrossChain(env: EcosystemEnv): Promise<Response> {
+    const manager = new EcosystemManager(env);
+    const status = await manager.getAgents().governor.getCrossChainStatus();
+
+    return new Response(serializeWithBigInt(status), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * POST /ecosystem/crosschain/messages - Verify a LayerZero message and track it until delivered
+ * Body: LayerZeroMessage (srcTxHash optional)
+ */
+async function verifyCrossChainMessage(request: Request, env: EcosystemEnv): Promise<Response> {
+    let msg: LayerZeroMessage;
+    try {
+        msg = await request.json() as LayerZeroMessage;
+    } catch {
+        return new Response(serializeWithBigInt({ error: "Invalid JSON" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    try {
+        const manager = new EcosystemManager(env);
+        const record = await manager.getAgents().governor.verifyMessage(msg);
+        return new Response(serializeWithBigInt(record), {
+            status: record.status === "FAILED" ? 422 : 200,
+            headers: { "Content-Type": "application/json" }
+        });
+    } catch (error) {
+        return httpErrorResponse(error);
+    }
+}
+
+/**
+ * GET /ecosystem/ledger/usdgb - Mint/burn ledger and the current supply conservation check
+ */
+async function getSupplyLedger(env: EcosystemEnv): Promise<Response> {
+    const manager = new EcosystemManager(env);
+    const [entries, invariant] = await Promise.all([
+        new SupplyLedger(env, "USDGB").list(),
+        manager.getAgents().governor.getSupplyInvariant()
+    ]);
+
+    return new Response(serializeWithBigInt({ count: entries.length, entries, invariant }), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * POST /ecosystem/ledger/usdgb - Record a canonical mint or burn
+ * Body: { type: "MINT" | "BURN", amount: string (base units), chainId: number, txHash?: string, note?: string }
+ * The actor is the Cloudflare Access user making the request
+ */
+async function recordLedgerEntry(request: Request, env: EcosystemEnv): Promise<Response> {
+    let body: { type: string; amount: string; chainId: number; txHash?: string; note?: string };
+    try {
+        body = await request.json() as typeof body;
+    } catch {
+        return new Response(serializeWithBigInt({ error: "Invalid JSON" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    const actor = request.headers.get("cf-access-authenticated-user-email") || "unknown";
+
+    try {
+        const entry = await new SupplyLedger(env, "USDGB").record(body, actor);
+        return new Response(serializeWithBigInt({ success: true, entry }), {
+            status: 201,
+            headers: { "Content-Type": "application/json" }
+        });
+    } catch (error) {
+        return httpErrorResponse(error);
+    }
+}
+
+/**
+ * GET /ecosystem/emergency - Emergency status, pause proposals and status transitions
+ */
+async function getEmergency(env: EcosystemEnv): Promise<Response> {
+    const manager = new EcosystemManager(env);
+    const state = await manager.getAgents().governor.getEmergencyState();
+
+    return new Response(serializeWithBigInt(state), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * POST /ecosystem/emergency/pauses - Propose pausing a contract through the Safe
+ * Body: { contract: string, reason: string }
+ * The actor is the Cloudflare Access user making the request
+ */
+async function proposePause(request: Request, env: EcosystemEnv): Promise<Response> {
+    let body: { contract: string; reason: string };
+    try {
+        body = await request.json() as typeof body;
+    } catch {
+        return new Response(serializeWithBigInt({ error: "Invalid JSON" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    if (!isJsonObject(body)) {
+        return new Response(serializeWithBigInt({ error: "Body must be a JSON object" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    const actor = request.headers.get("cf-access-authenticated-user-email") || "unknown";
+
+    return emergencyResponse(async () => {
+        const manager = new EcosystemManager(env);
+        return manager.getAgents().governor.prepareEmergencyPause(body.contract, body.reason, actor);
+    }, 201);
+}
+
+/**
+ * GET /ecosystem/emergency/pauses/:id/safe-tx - Safe transaction with collected signatures
+ */
+async function exportPause(env: EcosystemEnv, id: string): Promise<Response> {
+    return emergencyResponse(() => new EmergencyPauseService(env).exportSafeTransaction(id));
+}
+
+/**
+ * POST /ecosystem/emergency/pauses/:id/(approve|cancel) - Add an owner signature or withdraw
+ * Body: { signature: string } to approve, { reason?: string } to cancel
+ */
+async function updatePause(request: Request, env: EcosystemEnv, id: string, action: string): Promise<Response> {
+    let body: { signature?: string; reason?: string } = {};
+    try {
+        const text = await request.text();
+        if (text) body = JSON.parse(text);
+    } catch {
+        return new Response(serializeWithBigInt({ error: "Invalid JSON" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    if (!isJsonObject(body)) {
+        return new Response(serializeWithBigInt({ error: "Body must be a JSON object" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    const actor = request.headers.get("cf-access-authenticated-user-email") || "unknown";
+    const service = new EmergencyPauseService(env);
+
+    return emergencyResponse(() => action === "approve"
+        ? service.approve(id, body.signature ?? "", actor)
+        : service.cancel(id, actor, body.reason));
+}
+
+/**
+ * Run an emergency workflow action, answering EmergencyPauseErrors with their status
+ */
+async function emergencyResponse(action: () => Promise<unknown>, status: number = 200): Promise<Response> {
+    try {
+        return new Response(serializeWithBigInt(await action()), {
+            status,
+            headers: { "Content-Type": "application/json" }
+        });
+    } catch (error) {
+        return httpErrorResponse(error);
+    }
+}
+
+/**
+ * GET /ecosystem/webhooks/dead-letter - Alert webhook deliveries that exhausted their retries
+ */
+async function getDeadLetters(env: EcosystemEnv): Promise<Response> {
+    const letters = await new WebhookDispatcher(env).listDeadLetters();
+
+    return new Response(serializeWithBigInt({ count: letters.length, letters }), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * POST /ecosystem/webhooks/dead-letter/:id/retry - Redeliver a failed webhook
+ */
+async function retryDeadLetter(env: EcosystemEnv, id: string): Promise<Response> {
+    try {
+        const result = await new WebhookDispatcher(env).redeliver(id);
+        return new Response(serializeWithBigInt(result), {
+            status: result.delivered ? 200 : 502,
+            headers: { "Content-Type": "application/json" }
+        });
+    } catch (error) {
+        return httpErrorResponse(error);
+    }
+}
+
+/**
+ * POST /ecosystem/webhooks/test - Send a synthetic alert of every severity to the configured webhooks
+ */
+async function testWebhooks(env: EcosystemEnv): Promise<Response> {
+    const now = Date.now();
+    const severities = ["CRITICAL", "HIGH", "MEDIUM", "LOW"] as const;
+    const results = await new WebhookDispatcher(env).dispatch(severities.map(severity => ({
+        id: `TEST-${severity}-${now}`,
+        type: "WEBHOOK_TEST",
+        source: "GOVERNOR",
+        severity,
+        message: `Test ${severity} alert from ChiefOS Ecosystem Manager`,
+        timestamp: now,
+        acknowledged: false
+    })), now);
+
+    return new Response(serializeWithBigInt({ count: results.length, results }), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * POST /ecosystem/slack/interactions - Slack Acknowledge button callbacks
+ * Authenticated by the Slack request signature (mounted ahead of Cloudflare Access)
+ */
+async function slackInteractions(request: Request, env: EcosystemEnv): Promise<Response> {
+    try {
+        const payload = await parseSlackInteraction(env, request.headers, await request.text());
+        const acked = await handleSlackInteraction(env, payload);
+        console.log(`[Slack] ${payload.user.id} acknowledged ${acked.map(a => a.id).join(", ") || "nothing"}`);
+
+        // Slack only needs a 200; the card is updated through response_url
+        return new Response(null, { status: 200 });
+    } catch (error) {
+        return httpErrorResponse(error);
+    }
+}
+
+/**
+ * POST /ecosystem/telegram/webhook - Telegram bot commands (/status, /alerts, /ack, /report, /pause)
+ * Authenticated by the webhook secret_token (mounted ahead of Cloudflare Access);
+ * only chats and users on the allowlist get an answer
+ */
+async function telegramWebhook(request: Request, env: EcosystemEnv): Promise<Response> {
+    try {
+        const update = parseTelegramUpdate(env, request.headers, await request.text());
+        const reply = await new TelegramCommandHandler(env).handle(update);
+        if (reply) {
+            const sent = await sendTelegramMessage(env, reply.text, reply.chatId, reply.parseMode);
+            if (!sent.success) console.error(`[Telegram] Reply to ${reply.chatId} failed: ${sent.error}`);
+        }
+
+        // Always 200 for a verified update, or Telegram keeps redelivering it
+        return new Response(null, { status: 200 });
+    } catch (error) {
+        return httpErrorResponse(error);
+    }
+}
+
+/**
+ * POST /ecosystem/discord/interactions - Discord slash commands (/risk, /report, /ack, /chiefpm tasks)
+ * Authenticated by the Ed25519 request signature (mounted ahead of Cloudflare Access);
+ * deferred follow-ups run on ctx.waitUntil
+ */
+async function discordInteractions(
+    request: Request,
+    env: EcosystemEnv,
+    ctx?: { waitUntil(promise: Promise<unknown>): void }
+): Promise<Response> {
+    try {
+        const interaction = await parseDiscordInteraction(env, request.headers, await request.text());
+        const response = await new DiscordCommandHandler(env).handle(interaction, promise => ctx?.waitUntil(promise));
+
+        return new Response(serializeWithBigInt(response), {
+            headers: { "Content-Type": "application/json" }
+        });
+    } catch (error) {
+        return httpErrorResponse(error);
+    }
+}
+
+/**
+ * POST /ecosystem/discord/commands - Register the slash commands with Discord
+ */
+async function registerCommands(env: EcosystemEnv): Promise<Response> {
+    const result = await registerDiscordCommands(env);
+
+    return new Response(serializeWithBigInt(result), {
+        status: result.success ? 200 : 502,
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
 /**
  * GET /ecosystem/skills/pending - Get pending skill PRs
  */
@@ -275,3 +899,132 @@ async function getPendingSkills(env: EcosystemEnv): Promise<Response> {
     }
 }
 
+
+/**
+ * GET /ecosystem/reserves - Verified USDGB reserve status
+ */
+async function getReserves(env: EcosystemEnv): Promise<Response> {
+    const manager = new EcosystemManager(env);
+    const status = await manager.getAgents().usdgb.getReserveStatus();
+
+    return new Response(serializeWithBigInt(status), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * POST /ecosystem/reserves/attestations - Ingest a signed custodian attestation
+ */
+async function ingestReserveAttestation(request: Request, env: EcosystemEnv): Promise<Response> {
+    let attestation: ReserveAttestation;
+    try {
+        attestation = await request.json() as ReserveAttestation;
+    } catch {
+        return new Response(serializeWithBigInt({ error: "Invalid JSON" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    const service = new ReserveAttestationService(env, new ChainRegistry(env));
+    const result = await service.ingest(attestation);
+
+    return new Response(serializeWithBigInt(result), {
+        status: result.accepted ? 201 : 400,
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * GET /ecosystem/admin/risk-policy - Active risk thresholds
+ */
+async function getRiskPolicy(env: EcosystemEnv): Promise<Response> {
+    const policy = await new RiskPolicyStore(env).get();
+
+    return new Response(serializeWithBigInt(policy), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * PUT /ecosystem/admin/risk-policy - Save a new policy version
+ * Body: { tokens: RiskPolicy["tokens"], reason: string, expectedVersion?: number }
+ * The actor is the Cloudflare Access user making the request
+ */
+async function updateRiskPolicy(request: Request, env: EcosystemEnv): Promise<Response> {
+    let body: { tokens: RiskPolicy["tokens"]; reason?: string; expectedVersion?: number };
+    try {
+        body = await request.json() as typeof body;
+    } catch {
+        return new Response(serializeWithBigInt({ error: "Invalid JSON" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    if (!isJsonObject(body)) {
+        return new Response(serializeWithBigInt({ error: "Body must be a JSON object" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    if (!body.reason || typeof body.reason !== "string") {
+        return new Response(serializeWithBigInt({ error: "reason is required" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" }
+        });
+    }
+
+    const actor = request.headers.get("cf-access-authenticated-user-email") || "unknown";
+
+    try {
+        const policy = await new RiskPolicyStore(env).update(body.tokens, actor, body.reason, body.expectedVersion);
+        return new Response(serializeWithBigInt({ success: true, policy }), {
+            headers: { "Content-Type": "application/json" }
+        });
+    } catch (error) {
+        return httpErrorResponse(error, { details: error instanceof RiskPolicyError ? error.details : [] });
+    }
+}
+
+/**
+ * GET /ecosystem/admin/risk-policy/audit - Policy change history, newest first
+ */
+async function getRiskPolicyAudit(env: EcosystemEnv, limit: number): Promise<Response> {
+    const entries = await new RiskPolicyStore(env).getAudit(limit);
+
+    return new Response(serializeWithBigInt({ count: entries.length, entries }), {
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * GET /ecosystem/admin/risk-policy/versions/:version - A previously saved policy
+ */
+async function getRiskPolicyVersion(env: EcosystemEnv, version: number): Promise<Response> {
+    const policy = await new RiskPolicyStore(env).getVersion(version);
+
+    return new Response(serializeWithBigInt(policy ?? { error: `Version ${version} not found` }), {
+        status: policy ? 200 : 404,
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * Answer an HttpStatusError with its status and message; anything else is rethrown
+ */
+function httpErrorResponse(error: unknown, extra: Record<string, unknown> = {}): Response {
+    if (!(error instanceof HttpStatusError)) throw error;
+    return new Response(serializeWithBigInt({ error: error.message, ...extra }), {
+        status: error.status,
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * Whether a parsed JSON body is an object (not null, an array or a primitive)
+ */
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
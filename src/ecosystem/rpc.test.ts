@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { JsonRpcClient, RpcError, TOTAL_SUPPLY_SELECTOR, decodeUint256 } from './rpc';
+import { suppressConsole } from '../test-utils';
+
+type Handler = (body: any) => { status?: number; body?: unknown; delayMs?: number };
+
+/**
+ * Local stand-in for an EVM JSON-RPC node
+ */
+function startStubNode(): Promise<{ server: Server; url: string; setHandler: (h: Handler) => void; requests: any[] }> {
+  let handler: Handler = () => ({ body: {} });
+  const requests: any[] = [];
+
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      requests.push(body);
+      const { status = 200, body: out, delayMs = 0 } = handler(body);
+      setTimeout(() => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(typeof out === 'string' ? out : JSON.stringify(out));
+      }, delayMs);
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, setHandler: h => { handler = h; }, requests });
+    });
+  });
+}
+
+const word = (n: bigint) => '0x' + n.toString(16).padStart(64, '0');
+
+describe('JsonRpcClient', () => {
+  let node: Awaited<ReturnType<typeof startStubNode>>;
+
+  beforeAll(async () => {
+    node = await startStubNode();
+  });
+
+  afterAll(() => {
+    node.server.close();
+  });
+
+  beforeEach(() => {
+    suppressConsole();
+    node.requests.length = 0;
+  });
+
+  it('reads totalSupply via eth_call', async () => {
+    node.setHandler(body => ({ body: { jsonrpc: '2.0', id: body.id, result: word(1_000_000n * 10n ** 18n) } }));
+    const client = new JsonRpcClient(node.url);
+
+    const [supply] = await client.getTotalSupplies(['0x' + '11'.repeat(20)]);
+
+    expect(supply).toBe(1_000_000n * 10n ** 18n);
+    expect(node.requests[0].method).toBe('eth_call');
+    expect(node.requests[0].params[0].data).toBe(TOTAL_SUPPLY_SELECTOR);
+  });
+
+  it('batches calls and maps responses by id regardless of order', async () => {
+    node.setHandler(body => ({
+      body: [...body].reverse().map((r: any) => ({ jsonrpc: '2.0', id: r.id, result: word(BigInt(r.params[0].to.length + r.id)) }))
+    }));
+    const client = new JsonRpcClient(node.url);
+
+    const results = await client.batch<string>([
+      { method: 'eth_call', params: [{ to: '0xaa' }, 'latest'] },
+      { method: 'eth_call', params: [{ to: '0xbbbb' }, 'latest'] }
+    ]);
+
+    expect(node.requests).toHaveLength(1);
+    const ids = node.requests[0].map((r: any) => r.id);
+    expect(results.map(decodeUint256)).toEqual([BigInt(4 + ids[0]), BigInt(6 + ids[1])]);
+  });
+
+  it('splits large batches by maxBatchSize', async () => {
+    node.setHandler(body => ({ body: [].concat(body).map((r: any) => ({ jsonrpc: '2.0', id: r.id, result: '0x1' })) }));
+    const client = new JsonRpcClient(node.url, { maxBatchSize: 2 });
+
+    const results = await client.batch(Array.from({ length: 5 }, () => ({ method: 'eth_blockNumber', params: [] })));
+
+    expect(results).toHaveLength(5);
+    expect(node.requests).toHaveLength(3);
+  });
+
+  it('retries HTTP 5xx then succeeds', async () => {
+    let calls = 0;
+    node.setHandler(body => {
+      calls++;
+      if (calls < 3) return { status: 503, body: 'unavailable' };
+      return { body: { jsonrpc: '2.0', id: body.id, result: '0x10' } };
+    });
+    const client = new JsonRpcClient(node.url, { maxRetries: 2, retryDelayMs: 1 });
+
+    await expect(client.call('eth_blockNumber')).resolves.toBe('0x10');
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry JSON-RPC errors', async () => {
+    node.setHandler(body => ({ body: { jsonrpc: '2.0', id: body.id, error: { code: 3, message: 'execution reverted' } } }));
+    const client = new JsonRpcClient(node.url, { maxRetries: 3, retryDelayMs: 1 });
+
+    await expect(client.ethCall('0xaa', '0x')).rejects.toBeInstanceOf(RpcError);
+    expect(node.requests).toHaveLength(1);
+  });
+
+  it('times out slow nodes', async () => {
+    node.setHandler(body => ({ delayMs: 200, body: { jsonrpc: '2.0', id: body.id, result: '0x1' } }));
+    const client = new JsonRpcClient(node.url, { timeoutMs: 20, maxRetries: 0 });
+
+    await expect(client.call('eth_blockNumber')).rejects.toThrow(/timed out/);
+  });
+});
+
+describe('decodeUint256', () => {
+  it('treats empty return data as zero', () => {
+    expect(decodeUint256('0x')).toBe(0n);
+  });
+
+  it('decodes only the first word', () => {
+    expect(decodeUint256(word(7n) + '00'.repeat(32))).toBe(7n);
+  });
+});
@@ -0,0 +1,214 @@
+// JSON-RPC Client - EVM chain reads
+// Part of ChiefOS Ecosystem Manager
+
+/**
+ * ERC-20 totalSupply() selector
+ */
+export const TOTAL_SUPPLY_SELECTOR = "0x18160ddd";
+
+export interface RpcClientOptions {
+    /** Per-request timeout in milliseconds */
+    timeoutMs?: number;
+    /** Retries after the first attempt for transient failures */
+    maxRetries?: number;
+    /** Base backoff delay, doubled on each retry */
+    retryDelayMs?: number;
+    /** Maximum number of calls sent in a single batch request */
+    maxBatchSize?: number;
+}
+
+export interface RpcRequest {
+    method: string;
+    params: unknown[];
+}
+
+interface RpcResponse {
+    jsonrpc: "2.0";
+    id: number;
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Error returned by the node (or raised while talking to it)
+ * `code` is the JSON-RPC error code, or the HTTP status for transport failures
+ */
+export class RpcError extends Error {
+    readonly code: number;
+    readonly retryable: boolean;
+
+    constructor(message: string, code: number, retryable = false) {
+        super(message);
+        this.name = "RpcError";
+        this.code = code;
+        this.retryable = retryable;
+    }
+}
+
+/**
+ * Minimal JSON-RPC 2.0 client for EVM nodes
+ *
+ * - Batches multiple calls into one HTTP request
+ * - Aborts requests that exceed the timeout
+ * - Retries network errors, timeouts, HTTP 429/5xx with exponential backoff
+ * - Never retries JSON-RPC errors (reverts, bad params) since they are deterministic
+ */
+export class JsonRpcClient {
+    private url: string;
+    private timeoutMs: number;
+    private maxRetries: number;
+    private retryDelayMs: number;
+    private maxBatchSize: number;
+    private nextId = 1;
+
+    constructor(url: string, options: RpcClientOptions = {}) {
+        this.url = url;
+        this.timeoutMs = options.timeoutMs ?? 10000;
+        this.maxRetries = options.maxRetries ?? 2;
+        this.retryDelayMs = options.retryDelayMs ?? 250;
+        this.maxBatchSize = options.maxBatchSize ?? 50;
+    }
+
+    /**
+     * Send a single JSON-RPC call
+     */
+    async call<T = unknown>(method: string, params: unknown[] = []): Promise<T> {
+        const [result] = await this.batch<T>([{ method, params }]);
+        return result;
+    }
+
+    /**
+     * Send several calls, chunked into batch requests
+     * Results are returned in request order; any error rejects the whole batch
+     */
+    async batch<T = unknown>(requests: RpcRequest[]): Promise<T[]> {
+        const results: T[] = [];
+
+        for (let i = 0; i < requests.length; i += this.maxBatchSize) {
+            const chunk = requests.slice(i, i + this.maxBatchSize);
+            results.push(...await this.sendWithRetry<T>(chunk));
+        }
+
+        return results;
+    }
+
+    /**
+     * eth_call against a contract
+     */
+    async ethCall(to: string, data: string, blockTag: string = "latest"): Promise<string> {
+        return this.call<string>("eth_call", [{ to, data }, blockTag]);
+    }
+
+    /**
+     * Read ERC-20 totalSupply() for one or more token contracts in a single batch
+     */
+    async getTotalSupplies(tokens: string[]): Promise<bigint[]> {
+        const raw = await this.batch<string>(tokens.map(to => ({
+            method: "eth_call",
+            params: [{ to, data: TOTAL_SUPPLY_SELECTOR }, "latest"]
+        })));
+        return raw.map(decodeUint256);
+    }
+
+    private async sendWithRetry<T>(requests: RpcRequest[]): Promise<T[]> {
+        let attempt = 0;
+
+        while (true) {
+            try {
+                return await this.send<T>(requests);
+            } catch (error) {
+                const retryable = !(error instanceof RpcError) || error.retryable;
+                if (!retryable || attempt >= this.maxRetries) throw error;
+
+                const delay = this.retryDelayMs * 2 ** attempt;
+                attempt++;
+                console.warn(`[RPC] ${String(error)} - retry ${attempt}/${this.maxRetries} in ${delay}ms`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    private async send<T>(requests: RpcRequest[]): Promise<T[]> {
+        const payload = requests.map(r => ({
+            jsonrpc: "2.0",
+            id: this.nextId++,
+            method: r.method,
+            params: r.params
+        }));
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+        let response: Response;
+        try {
+            response = await fetch(this.url, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(payload.length === 1 ? payload[0] : payload),
+                signal: controller.signal
+            });
+        } catch (error) {
+            if (controller.signal.aborted) {
+                throw new RpcError(`RPC request timed out after ${this.timeoutMs}ms`, 408, true);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (!response.ok) {
+            const retryable = response.status === 429 || response.status >= 500;
+            throw new RpcError(`RPC HTTP ${response.status}: ${await response.text()}`, response.status, retryable);
+        }
+
+        const body = await response.json() as RpcResponse | RpcResponse[];
+        const responses = Array.isArray(body) ? body : [body];
+        const byId = new Map(responses.map(r => [r.id, r]));
+
+        return payload.map(p => {
+            const res = byId.get(p.id);
+            if (!res) {
+                throw new RpcError(`RPC response missing id ${p.id} (${p.method})`, -32603, true);
+            }
+            if (res.error) {
+                throw new RpcError(`${p.method}: ${res.error.message}`, res.error.code);
+            }
+            return res.result as T;
+        });
+    }
+}
+
+/**
+ * Decode a single 32-byte ABI word as an unsigned integer
+ */
+export function decodeUint256(hex: string): bigint {
+    if (!hex || hex === "0x") return 0n;
+    return BigInt(hex.length > 66 ? hex.slice(0, 66) : hex);
+}
+
+/**
+ * Split ABI-encoded return data into 32-byte words (hex, no 0x)
+ */
+export function splitWords(hex: string): string[] {
+    const data = hex.startsWith("0x") ? hex.slice(2) : hex;
+    const words: string[] = [];
+    for (let i = 0; i + 64 <= data.length; i += 64) {
+        words.push(data.slice(i, i + 64));
+    }
+    return words;
+}
+
+/**
+ * Decode a 32-byte word as a two's-complement signed integer
+ */
+export function decodeInt256(word: string): bigint {
+    const value = BigInt("0x" + word.replace(/^0x/, ""));
+    return value >= 1n << 255n ? value - (1n << 256n) : value;
+}
+
+/**
+ * ABI-encode an unsigned integer as a 32-byte word (hex, no 0x)
+ */
+export function encodeUint256(value: bigint | number): string {
+    return BigInt(value).toString(16).padStart(64, "0");
+}
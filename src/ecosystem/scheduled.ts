@@ -1,14 +1,36 @@
-// Scheduled Handler for 4-hour Reports
+// Scheduled Handler for 4-hour Reports and the Daily Brief
 // Part of ChiefOS Ecosystem Manager
 
 import type { ScheduledController, ExecutionContext } from '@cloudflare/workers-types';
 import type { EcosystemEnv, OperationalReport } from './types';
 import { EcosystemManager } from './index';
 import { serializeWithBigInt } from './utils';
+import { AlertStore } from './alert-store';
+import { dailyBriefView } from './daily-brief';
+import { NotificationRouter } from './notification-router';
+import { operationalReportView, renderPlainText } from './report-format';
+
+/**
+ * Cron expression of the 4-hour report trigger (wrangler.jsonc triggers.crons)
+ */
+export const FOUR_HOUR_REPORT_CRON = "0 */4 * * *";
+
+/**
+ * Cron expression of the daily brief trigger (wrangler.jsonc triggers.crons)
+ */
+export const DAILY_BRIEF_CRON = "0 0 * * *";
+
+/**
+ * Cron expression of the 5-minute trigger (wrangler.jsonc triggers.crons)
+ * Shared with the sandbox sync; the ecosystem manager uses it for notifications
+ */
+export const NOTIFICATION_TICK_CRON = "*/5 * * * *";
 
 /**
  * Scheduled event handler for cron triggers
- * Runs every 4 hours to generate operational reports
+ * FOUR_HOUR_REPORT_CRON generates the 4-hour operational report,
+ * DAILY_BRIEF_CRON sends the daily brief and NOTIFICATION_TICK_CRON expires
+ * snoozes, escalates unacknowledged alerts and sends held notifications
  */
 export async function handleScheduled(
     controller: ScheduledController,
@@ -23,6 +45,16 @@ export async function handleScheduled(
         return;
     }
 
+    if (controller.cron === DAILY_BRIEF_CRON) {
+        await handleDailyBrief(env, controller.scheduledTime);
+        return;
+    }
+    if (controller.cron === NOTIFICATION_TICK_CRON) {
+        await handleNotificationTick(env, controller.scheduledTime);
+        return;
+    }
+    if (controller.cron !== FOUR_HOUR_REPORT_CRON) return;
+
     const manager = new EcosystemManager(env);
 
     try {
@@ -32,14 +64,13 @@ export async function handleScheduled(
         console.log(`Report generated: Risk=${report.agents.governor.riskStatus.overall}`);
         console.log(`Alerts: ${report.agents.governor.riskStatus.alerts.length}`);
 
-        // Check for critical alerts
-        const criticalAlerts = report.agents.governor.riskStatus.alerts.filter(
-            a => a.severity === "CRITICAL" || a.severity === "HIGH"
-        );
+        // Fold alerts into the persistent store; only state transitions are notified
+        const alertStore = new AlertStore(env);
+        await alertStore.sync(report.agents.governor.riskStatus.alerts);
+        const pending = await alertStore.takePendingNotifications();
 
-        if (criticalAlerts.length > 0) {
-            console.log(`CRITICAL: ${criticalAlerts.length} high-priority alerts`);
-            // TODO: Trigger n8n webhook for immediate notification
+        if (pending.length > 0) {
+            console.log(`Alert transitions: ${pending.map(a => `${a.id} ${a.state}`).join(", ")}`);
         }
 
         // Store latest report for API access
@@ -48,21 +79,27 @@ export async function handleScheduled(
             serializeWithBigInt(report)
         );
 
-        // --- Notifications ---
-        const { sendDiscordMessage, sendTelegramMessage } = await import('./notifications');
-        const summary = formatReportSummary(report);
-
-        // 1. Ops Channel (Discord) - Always send
-        if (env.DISCORD_CHANNEL_OPS) {
-            await sendDiscordMessage(env, summary, env.DISCORD_CHANNEL_OPS);
+        // Thin out old supply snapshots (failure here must not block notifications)
+        try {
+            const compaction = await manager.compactSnapshots();
+            for (const result of compaction) {
+                console.log(`Snapshots ${result.token}: scanned ${result.scanned}, deleted ${result.deleted}`);
+            }
+        } catch (error) {
+            console.error("Snapshot compaction failed:", error);
         }
 
-        // 2. Daily Report (Telegram + Discord Daily)
-        // Check if it's 8 AM or 8 PM (approx) or if report period is daily (not fully implemented yet, assuming all scheduled are 4h for now)
-        // For now, we send critical alerts to Telegram always
-        if (criticalAlerts.length > 0) {
-            const alertMsg = `🚨 **CRITICAL ALERTS DETECTED**\n${mobileFriendlySummary(report)}`;
-            await sendTelegramMessage(env, alertMsg); // Chat ID must be set in env or passed
+        // --- Notifications (routed by NOTIFICATION_POLICY) ---
+        const router = new NotificationRouter(env);
+
+        // 1. 4h report to its report recipients
+        await router.sendReport("4h", operationalReportView(report));
+
+        // 2. Alert transitions by rule
+        // Opened/reopened and resolved alerts only - a standing condition is announced once
+        // Escalations, digests and held notifications go out on NOTIFICATION_TICK_CRON
+        if (pending.length > 0) {
+            await router.routeAlerts(pending, mobileFriendlySummary(report));
         }
 
     } catch (error) {
@@ -86,44 +123,72 @@ export async function handleScheduled(
     }
 }
 
+/**
+ * Roll up the last 24h of reports and send the brief to the 24h report recipients
+ */
+async function handleDailyBrief(env: EcosystemEnv, scheduledTime: number): Promise<void> {
+    try {
+        const report = await new EcosystemManager(env).generateDailyReport(scheduledTime);
+        console.log(`Daily brief generated from ${report.daily?.reportCount ?? 0} reports`);
+
+        await new NotificationRouter(env).sendReport("24h", dailyBriefView(report));
+
+    } catch (error) {
+        console.error("Daily brief failed:", error);
+
+        if (env.DISCORD_CHANNEL_OPS) {
+            const { sendDiscordMessage } = await import('./notifications');
+            await sendDiscordMessage(env, `🚨 **CRITICAL ERROR** in Daily Brief:\n\`\`\`${String(error)}\`\`\``, env.DISCORD_CHANNEL_OPS);
+        }
+
+        await env.ECOSYSTEM_BUCKET.put(
+            `errors/${Date.now()}.json`,
+            JSON.stringify({
+                timestamp: Date.now(),
+                error: String(error),
+                task: "daily-brief"
+            })
+        );
+    }
+}
+
+/**
+ * Reopen expired snoozes, escalate alerts left unacknowledged, then send due
+ * digests and held notifications
+ */
+async function handleNotificationTick(env: EcosystemEnv, scheduledTime: number): Promise<void> {
+    try {
+        const alertStore = new AlertStore(env);
+        const router = new NotificationRouter(env);
+
+        const reopened = await alertStore.expireSnoozes(scheduledTime);
+        if (reopened.length > 0) {
+            console.log(`Snoozes expired: ${reopened.map(a => a.id).join(", ")}`);
+            await router.routeAlerts(await alertStore.takePendingNotifications(), undefined, scheduledTime);
+        }
+
+        await router.escalate(await alertStore.list(), scheduledTime);
+        await router.flush(scheduledTime);
+
+    } catch (error) {
+        console.error("Notification tick failed:", error);
+
+        await env.ECOSYSTEM_BUCKET.put(
+            `errors/${Date.now()}.json`,
+            JSON.stringify({
+                timestamp: Date.now(),
+                error: String(error),
+                task: "notification-tick"
+            })
+        );
+    }
+}
+
 /**
  * Generate summary text for report
  */
 export function formatReportSummary(report: OperationalReport): string {
-    const riskEmoji = {
-        GREEN: "🟢",
-        YELLOW: "🟡",
-        ORANGE: "🟠",
-        RED: "🔴"
-    };
-
-    const risk = report.agents.governor.riskStatus;
-    const usdgb = report.agents.usdgb;
-    const usdca = report.agents.usdca;
-    const marketplace = report.agents.marketplace;
-
-    return `
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${riskEmoji[risk.overall]} ECOSYSTEM STATUS: ${risk.overall}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-📊 Stablecoin Metrics
-├─ USDGB (Gold-backed): $${usdgb.pegPrice.toFixed(4)} | Reserve ${(usdgb.goldReserveRatio * 100).toFixed(1)}%
-├─ USDca (Synthetic): $${usdca.pegPrice.toFixed(4)} | Delta ${(usdca.deltaCollateralization * 100).toFixed(1)}%
-└─ Marketplace: ${marketplace.activeLaunches} active launches
-
-🔐 Security
-├─ Cross-chain msgs verified: ${report.agents.governor.crossChainMessagesVerified}
-├─ Emergency status: ${report.agents.governor.emergencyStatus}
-└─ Alerts: ${risk.alerts.length}
-
-🧠 Intelligence
-├─ Skills harvested: ${report.agents.observer.skillsHarvested}
-└─ Security alerts: ${report.agents.observer.securityAlerts}
-
-📅 Generated: ${new Date(report.timestamp).toISOString()}
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-`.trim();
+    return renderPlainText(operationalReportView(report));
 }
 
 function mobileFriendlySummary(report: OperationalReport): string {
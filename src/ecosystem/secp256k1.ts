@@ -0,0 +1,122 @@
+// secp256k1 - Signer recovery for Ethereum ECDSA signatures
+// Part of ChiefOS Ecosystem Manager
+
+import { keccak256 } from './keccak';
+import { hexToBytes } from './utils';
+
+const P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const G: AffinePoint = {
+    x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+    y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n
+};
+
+interface AffinePoint { x: bigint; y: bigint }
+
+/**
+ * Jacobian coordinates (x = X/Z², y = Y/Z³); Z = 0 is the point at infinity
+ */
+interface JacobianPoint { x: bigint; y: bigint; z: bigint }
+
+const INFINITY: JacobianPoint = { x: 0n, y: 1n, z: 0n };
+
+function mod(a: bigint, m: bigint = P): bigint {
+    const r = a % m;
+    return r >= 0n ? r : r + m;
+}
+
+function pow(base: bigint, exponent: bigint, m: bigint = P): bigint {
+    let result = 1n;
+    let b = mod(base, m);
+    let e = exponent;
+    while (e > 0n) {
+        if (e & 1n) result = (result * b) % m;
+        b = (b * b) % m;
+        e >>= 1n;
+    }
+    return result;
+}
+
+function invert(a: bigint, m: bigint = P): bigint {
+    return pow(a, m - 2n, m);
+}
+
+function double(p: JacobianPoint): JacobianPoint {
+    if (p.z === 0n || p.y === 0n) return INFINITY;
+    const ysq = mod(p.y * p.y);
+    const s = mod(4n * p.x * ysq);
+    const m = mod(3n * p.x * p.x);
+    const x = mod(m * m - 2n * s);
+    return { x, y: mod(m * (s - x) - 8n * ysq * ysq), z: mod(2n * p.y * p.z) };
+}
+
+function add(p: JacobianPoint, q: JacobianPoint): JacobianPoint {
+    if (p.z === 0n) return q;
+    if (q.z === 0n) return p;
+
+    const pz2 = mod(p.z * p.z);
+    const qz2 = mod(q.z * q.z);
+    const u1 = mod(p.x * qz2);
+    const u2 = mod(q.x * pz2);
+    const s1 = mod(p.y * qz2 * q.z);
+    const s2 = mod(q.y * pz2 * p.z);
+
+    if (u1 === u2) return s1 === s2 ? double(p) : INFINITY;
+
+    const h = mod(u2 - u1);
+    const r = mod(s2 - s1);
+    const h2 = mod(h * h);
+    const h3 = mod(h * h2);
+    const x = mod(r * r - h3 - 2n * u1 * h2);
+    return { x, y: mod(r * (u1 * h2 - x) - s1 * h3), z: mod(h * p.z * q.z) };
+}
+
+function multiply(point: AffinePoint, scalar: bigint): JacobianPoint {
+    let result = INFINITY;
+    let addend: JacobianPoint = { ...point, z: 1n };
+    let k = scalar;
+    while (k > 0n) {
+        if (k & 1n) result = add(result, addend);
+        addend = double(addend);
+        k >>= 1n;
+    }
+    return result;
+}
+
+function toAffine(p: JacobianPoint): AffinePoint {
+    const zInv = invert(p.z);
+    const zInv2 = mod(zInv * zInv);
+    return { x: mod(p.x * zInv2), y: mod(p.y * zInv2 * zInv) };
+}
+
+/**
+ * Recover the address that produced a 65-byte r|s|v signature over a 32-byte hash
+ * v may be 27/28 or 0/1
+ */
+export function recoverAddress(hash: string, signature: string): string {
+    const sig = hexToBytes(signature);
+    if (sig.length !== 65) throw new Error("Signature must be 65 bytes");
+
+    const hex = signature.replace(/^0x/, "");
+    const r = BigInt("0x" + hex.slice(0, 64));
+    const s = BigInt("0x" + hex.slice(64, 128));
+    const v = sig[64] >= 27 ? sig[64] - 27 : sig[64];
+
+    if (v > 1 || r <= 0n || r >= N || s <= 0n || s >= N) throw new Error("Invalid signature values");
+
+    // R is the curve point with x = r and the y parity given by v
+    const ySquared = mod(r * r * r + 7n);
+    let y = pow(ySquared, (P + 1n) / 4n);
+    if (mod(y * y) !== ySquared) throw new Error("Signature r is not on the curve");
+    if (Number(y & 1n) !== v) y = P - y;
+
+    // Q = r⁻¹ (sR - eG)
+    const e = mod(BigInt(hash), N);
+    const rInv = invert(r, N);
+    const q = add(multiply(G, mod(-e * rInv, N)), multiply({ x: r, y }, mod(s * rInv, N)));
+    if (q.z === 0n) throw new Error("Recovered point at infinity");
+
+    const { x, y: qy } = toAffine(q);
+    const publicKey = x.toString(16).padStart(64, "0") + qy.toString(16).padStart(64, "0");
+    return "0x" + keccak256("0x" + publicKey).slice(-40);
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  SlackError,
+  handleSlackInteraction,
+  parseSlackInteraction,
+  slackAlertBlocks,
+  verifySlackSignature,
+  SLACK_ACK_ACTION,
+} from './slack';
+import type { SlackInteraction } from './slack';
+import { AlertStore } from './alert-store';
+import { hmacSha256Hex } from './utils';
+import type { Alert, AlertRecord, EcosystemEnv } from './types';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+const SECRET = 'slack-signing-secret';
+const NOW = Date.UTC(2026, 0, 15, 12, 0);
+const TIMESTAMP = Math.floor(NOW / 1000);
+
+function createEnv(): EcosystemEnv {
+  return { ECOSYSTEM_BUCKET: createMockBucket(), SLACK_SIGNING_SECRET: SECRET } as unknown as EcosystemEnv;
+}
+
+async function signedHeaders(body: string, timestamp: number = TIMESTAMP): Promise<Headers> {
+  return new Headers({
+    'X-Slack-Signature': `v0=${await hmacSha256Hex(SECRET, `v0:${timestamp}:${body}`)}`,
+    'X-Slack-Request-Timestamp': String(timestamp),
+  });
+}
+
+function formBody(payload: unknown): string {
+  return new URLSearchParams({ payload: JSON.stringify(payload) }).toString();
+}
+
+function alert(type: string): Alert {
+  return { id: type, type, source: 'USDGB', severity: 'HIGH', message: `${type} <check> & act`, timestamp: NOW };
+}
+
+let fetchMock: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  suppressConsole();
+  fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('ok'));
+});
+
+afterEach(() => {
+  fetchMock.mockRestore();
+});
+
+describe('slackAlertBlocks', () => {
+  it('renders a card per alert with Acknowledge buttons on open alerts only', () => {
+    const open = { id: 'ALT-1', state: 'OPEN' } as AlertRecord;
+    const resolved = { id: 'ALT-2', state: 'RESOLVED' } as AlertRecord;
+
+    const blocks = slackAlertBlocks('🚨 **ALERT UPDATES**', [
+      { text: '🔴 [OPEN] HIGH peg <off> (ALT-1)', alert: open },
+      { text: '✅ [RESOLVED] LOW reserve (ALT-2)', alert: resolved },
+    ]);
+
+    expect(blocks).toMatchSnapshot();
+  });
+
+  it('stays within the 50 block limit', () => {
+    const items = Array.from({ length: 60 }, (_, i) => ({ text: `line ${i}` }));
+    const blocks = slackAlertBlocks('header', items);
+
+    expect(blocks).toHaveLength(50);
+    expect(blocks[49]).toEqual({ type: 'context', elements: [{ type: 'mrkdwn', text: '+12 more' }] });
+  });
+});
+
+describe('verifySlackSignature', () => {
+  it('accepts the signing secret signature and rejects tampering and stale requests', async () => {
+    const body = 'payload=%7B%7D';
+    const headers = await signedHeaders(body);
+    const parts = { signature: headers.get('X-Slack-Signature'), timestamp: headers.get('X-Slack-Request-Timestamp') };
+
+    expect(await verifySlackSignature(SECRET, parts, body, 300, NOW)).toBe(true);
+    expect(await verifySlackSignature('other', parts, body, 300, NOW)).toBe(false);
+    expect(await verifySlackSignature(SECRET, parts, body + 'x', 300, NOW)).toBe(false);
+    expect(await verifySlackSignature(SECRET, parts, body, 300, NOW + 301 * 1000)).toBe(false);
+    expect(await verifySlackSignature(SECRET, { signature: null, timestamp: parts.timestamp }, body, 300, NOW)).toBe(false);
+  });
+});
+
+describe('parseSlackInteraction', () => {
+  it('rejects unsigned requests and malformed payloads', async () => {
+    const env = createEnv();
+    const body = formBody({ type: 'block_actions', user: { id: 'U1' }, actions: [] });
+
+    await expect(parseSlackInteraction(env, new Headers(), body, NOW)).rejects.toMatchObject({ status: 401 });
+    await expect(parseSlackInteraction(env, await signedHeaders('payload=nope'), 'payload=nope', NOW)).rejects.toMatchObject({ status: 400 });
+    await expect(parseSlackInteraction({ ...env, SLACK_SIGNING_SECRET: undefined }, await signedHeaders(body), body, NOW))
+      .rejects.toBeInstanceOf(SlackError);
+
+    expect((await parseSlackInteraction(env, await signedHeaders(body), body, NOW)).user.id).toBe('U1');
+  });
+});
+
+describe('handleSlackInteraction', () => {
+  it('acks the alert and replaces its button on the original card', async () => {
+    const env = createEnv();
+    const [record] = await new AlertStore(env).sync([alert('PEG_DEVIATION')], NOW);
+    const blocks = slackAlertBlocks('header', [{ text: 'line', alert: record }]);
+
+    const payload: SlackInteraction = {
+      type: 'block_actions',
+      user: { id: 'U1', username: 'ops' },
+      actions: [{ action_id: SLACK_ACK_ACTION, value: record.id }],
+      response_url: 'https://hooks.slack.test/actions/1',
+      message: { text: 'fallback', blocks },
+    };
+
+    const acked = await handleSlackInteraction(env, payload);
+
+    expect(acked.map(a => [a.id, a.state, a.ackedBy])).toEqual([[record.id, 'ACKED', 'slack:ops']]);
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://hooks.slack.test/actions/1');
+    const update = JSON.parse(init.body as string);
+    expect(update.replace_original).toBe(true);
+    expect(update.blocks[1].accessory).toBeUndefined();
+    expect(update.blocks[1].text.text).toBe('line\n✅ Acknowledged by <@U1>');
+  });
+
+  it('answers with an ephemeral error when the alert cannot be acknowledged', async () => {
+    const env = createEnv();
+    const payload: SlackInteraction = {
+      type: 'block_actions',
+      user: { id: 'U1' },
+      actions: [{ action_id: SLACK_ACK_ACTION, value: 'ALT-missing' }],
+      response_url: 'https://hooks.slack.test/actions/2',
+    };
+
+    expect(await handleSlackInteraction(env, payload)).toEqual([]);
+    const update = JSON.parse((fetchMock.mock.calls[0] as [string, RequestInit])[1].body as string);
+    expect(update).toEqual({
+      response_type: 'ephemeral',
+      replace_original: false,
+      text: 'Could not acknowledge ALT-missing: Alert ALT-missing not found',
+    });
+  });
+});
@@ -0,0 +1,200 @@
+// Slack - Alert cards and the signed Acknowledge button callback
+// Part of ChiefOS Ecosystem Manager
+
+import type { AlertRecord, EcosystemEnv } from './types';
+import type { SlackBlock } from './notifications';
+import { AlertStore, AlertStoreError } from './alert-store';
+import { StateConflictError } from './ecosystem-state';
+import { escapeSlackText } from './report-format';
+import { hmacSha256Hex, timingSafeEqual, HttpStatusError } from './utils';
+
+export const SLACK_SIGNATURE_HEADER = "X-Slack-Signature";
+export const SLACK_TIMESTAMP_HEADER = "X-Slack-Request-Timestamp";
+export const SLACK_ACK_ACTION = "ack_alert";
+
+const MAX_BLOCKS = 50;
+const SECTION_LIMIT = 3000;
+
+/**
+ * Error raised for Slack callbacks that cannot be handled
+ */
+export class SlackError extends HttpStatusError {
+    constructor(message: string, status: number) {
+        super(message, status);
+        this.name = "SlackError";
+    }
+}
+
+/**
+ * The parts of a block_actions payload the ecosystem reads
+ */
+export interface SlackInteraction {
+    type: string;
+    user: { id: string; username?: string };
+    actions: { action_id: string; value?: string }[];
+    response_url?: string;
+    message?: { text?: string; blocks?: SlackBlock[] };
+}
+
+/**
+ * Slack mrkdwn for notification text: escaped, with **bold** turned into *bold*
+ */
+export function toSlackMrkdwn(text: string): string {
+    return escapeSlackText(text).replace(/\*\*(.+?)\*\*/g, "*$1*");
+}
+
+/**
+ * Alert card message: the header, then one section per notification with an
+ * Acknowledge button on alerts that are still OPEN
+ */
+export function slackAlertBlocks(header: string, items: { text: string; alert?: AlertRecord }[]): SlackBlock[] {
+    const blocks: SlackBlock[] = [];
+    if (header) blocks.push(section(header));
+
+    const room = MAX_BLOCKS - blocks.length;
+    const shown = items.length > room ? items.slice(0, room - 1) : items;
+
+    for (const item of shown) {
+        const block = section(item.text);
+        if (item.alert?.state === "OPEN") {
+            block.block_id = `alert:${item.alert.id}`;
+            block.accessory = {
+                type: "button",
+                text: { type: "plain_text", text: "Acknowledge" },
+                style: "primary",
+                action_id: SLACK_ACK_ACTION,
+                value: item.alert.id
+            };
+        }
+        blocks.push(block);
+    }
+
+    if (shown.length < items.length) {
+        blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: `+${items.length - shown.length} more` }] });
+    }
+    return blocks;
+}
+
+/**
+ * Verify a Slack request signature: v0=HMAC-SHA256("v0:<timestamp>:<body>")
+ * Rejects timestamps further than toleranceSeconds from now to limit replays
+ */
+export async function verifySlackSignature(
+    secret: string,
+    headers: { signature: string | null; timestamp: string | null },
+    body: string,
+    toleranceSeconds: number = 300,
+    now: number = Date.now()
+): Promise<boolean> {
+    const timestamp = Number(headers.timestamp);
+    if (!headers.signature || !Number.isInteger(timestamp)) return false;
+    if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+    const expected = `v0=${await hmacSha256Hex(secret, `v0:${timestamp}:${body}`)}`;
+    return timingSafeEqual(expected, headers.signature);
+}
+
+/**
+ * Check the signature of an interactivity request and parse its payload
+ */
+export async function parseSlackInteraction(
+    env: EcosystemEnv,
+    headers: Headers,
+    body: string,
+    now: number = Date.now()
+): Promise<SlackInteraction> {
+    if (!env.SLACK_SIGNING_SECRET) throw new SlackError("SLACK_SIGNING_SECRET not set", 503);
+
+    const signed = await verifySlackSignature(env.SLACK_SIGNING_SECRET, {
+        signature: headers.get(SLACK_SIGNATURE_HEADER),
+        timestamp: headers.get(SLACK_TIMESTAMP_HEADER)
+    }, body, 300, now);
+    if (!signed) throw new SlackError("Invalid Slack signature", 401);
+
+    try {
+        const payload = JSON.parse(new URLSearchParams(body).get("payload") ?? "") as SlackInteraction;
+        if (!payload?.user?.id || !Array.isArray(payload.actions)) throw new Error("missing user or actions");
+        return payload;
+    } catch (error) {
+        throw new SlackError(`Invalid interaction payload: ${error instanceof Error ? error.message : error}`, 400);
+    }
+}
+
+/**
+ * Handle the Acknowledge buttons of a block_actions payload
+ *
+ * Each pressed alert is acked as "slack:<username>". The card is updated
+ * through response_url: acked alerts lose their button and show who acked
+ * them; failures (unknown or already resolved alerts) are answered with an
+ * ephemeral message to the user who pressed the button.
+ */
+export async function handleSlackInteraction(env: EcosystemEnv, payload: SlackInteraction): Promise<AlertRecord[]> {
+    if (payload.type !== "block_actions") return [];
+
+    const store = new AlertStore(env);
+    const by = `slack:${payload.user.username ?? payload.user.id}`;
+    let blocks = payload.message?.blocks;
+    const acked: AlertRecord[] = [];
+    const errors: string[] = [];
+
+    for (const action of payload.actions.filter(a => a.action_id === SLACK_ACK_ACTION && a.value)) {
+        try {
+            const record = await store.ack(action.value!, by);
+            acked.push(record);
+            blocks = blocks && markAcknowledged(blocks, record.id, payload.user.id);
+        } catch (error) {
+            if (!(error instanceof AlertStoreError || error instanceof StateConflictError)) throw error;
+            errors.push(`${action.value}: ${error.message}`);
+        }
+    }
+
+    if (payload.response_url) {
+        if (acked.length > 0 && blocks) {
+            await respond(payload.response_url, { replace_original: true, text: payload.message?.text ?? "", blocks });
+        }
+        if (errors.length > 0) {
+            await respond(payload.response_url, {
+                response_type: "ephemeral",
+                replace_original: false,
+                text: `Could not acknowledge ${errors.join("; ")}`
+            });
+        }
+    }
+
+    return acked;
+}
+
+/**
+ * Replace an alert's Acknowledge button with who acknowledged it
+ */
+export function markAcknowledged(blocks: SlackBlock[], alertId: string, userId: string): SlackBlock[] {
+    return blocks.map(block => {
+        const accessory = block.accessory as { action_id?: string; value?: string } | undefined;
+        if (accessory?.action_id !== SLACK_ACK_ACTION || accessory.value !== alertId) return block;
+
+        const { accessory: _button, ...rest } = block;
+        const text = (block.text as { text: string }).text;
+        return { ...rest, text: { type: "mrkdwn", text: `${text}\n✅ Acknowledged by <@${userId}>` } };
+    });
+}
+
+async function respond(responseUrl: string, message: Record<string, unknown>): Promise<void> {
+    try {
+        const response = await fetch(responseUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(message)
+        });
+        if (!response.ok) console.error(`[Slack] response_url error (${response.status}): ${await response.text()}`);
+    } catch (error) {
+        console.error("[Slack] response_url network error:", error);
+    }
+}
+
+function section(text: string): SlackBlock {
+    const mrkdwn = toSlackMrkdwn(text);
+    return {
+        type: "section",
+        text: { type: "mrkdwn", text: mrkdwn.length <= SECTION_LIMIT ? mrkdwn : mrkdwn.slice(0, SECTION_LIMIT - 1) + "…" }
+    };
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { SupplySnapshotStore, checkSupplyReadAlerts } from './snapshot-store';
+import type { EcosystemEnv, SupplySnapshot } from './types';
+import { createMockBucket } from '../test-utils';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15, 12, 0, 0);
+
+function createStore() {
+  const bucket = createMockBucket();
+  const env = { ECOSYSTEM_BUCKET: bucket } as unknown as EcosystemEnv;
+  return { bucket, store: new SupplySnapshotStore(env, 'USDGB') };
+}
+
+function snapshot(timestamp: number, totalSupply: bigint): SupplySnapshot {
+  return {
+    timestamp,
+    token: 'USDGB',
+    chains: [{ chainId: 8453, supply: totalSupply, change24h: 0n, changePercent: 0 }],
+    totalSupply,
+    totalChange24h: 0n,
+  };
+}
+
+describe('SupplySnapshotStore', () => {
+  it('stores snapshots under an hour bucket', async () => {
+    const { store, bucket } = createStore();
+
+    const key = await store.put(snapshot(NOW, 1n));
+
+    expect(key).toBe(`supply-snapshots/USDGB/${Math.floor(NOW / HOUR)}/${NOW}.json`);
+    expect(bucket.store.has(key)).toBe(true);
+  });
+
+  it('finds the nearest snapshot across neighbouring hour buckets', async () => {
+    const { store } = createStore();
+    const target = NOW - 24 * HOUR;
+    await store.put(snapshot(target - 50 * 60 * 1000, 100n));
+    await store.put(snapshot(target + 7 * 60 * 1000, 200n));
+    await store.put(snapshot(target + 90 * 60 * 1000, 300n));
+
+    const found = await store.findNearest(target);
+
+    expect(found?.totalSupply).toBe(200n);
+    expect(found?.chains[0].supply).toBe(200n);
+  });
+
+  it('returns null when nothing is within the allowed distance', async () => {
+    const { store } = createStore();
+    await store.put(snapshot(NOW - 5 * HOUR, 1n));
+
+    expect(await store.findNearest(NOW, 2 * HOUR)).toBeNull();
+  });
+
+  it('keeps recent snapshots, thins older ones to hourly and drops expired ones', async () => {
+    const { store, bucket } = createStore();
+    const policy = { rawRetentionMs: 2 * HOUR, hourlyRetentionMs: 10 * HOUR };
+    const hourStart = Math.floor(NOW / HOUR) * HOUR;
+
+    await store.put(snapshot(NOW - 30 * 60 * 1000, 1n));           // raw, kept
+    await store.put(snapshot(NOW - 40 * 60 * 1000, 1n));           // raw, kept
+    await store.put(snapshot(hourStart - 5 * HOUR + 1000, 1n));     // hourly, kept (earliest)
+    await store.put(snapshot(hourStart - 5 * HOUR + 2000, 1n));     // same hour, deleted
+    await store.put(snapshot(NOW - 20 * HOUR, 1n));                 // expired, deleted
+    bucket.store.set(`supply-snapshots/USDGB/${NOW - 30 * HOUR}.json`, '{}'); // legacy, expired
+
+    const result = await store.compact(policy, NOW);
+
+    expect(result).toEqual({ token: 'USDGB', scanned: 6, deleted: 3 });
+    expect(bucket.store.size).toBe(3);
+  });
+});
+
+describe('checkSupplyReadAlerts', () => {
+  it('raises an alert per chain left out of the snapshot', () => {
+    const partial = { ...snapshot(NOW, 1n), failed: [{ chainId: 1, error: 'RPC down' }] };
+
+    expect(checkSupplyReadAlerts(snapshot(NOW, 1n), 'USDGB')).toEqual([]);
+    expect(checkSupplyReadAlerts(partial, 'USDGB')).toEqual([expect.objectContaining({
+      type: 'SUPPLY_READ_FAILED',
+      severity: 'HIGH',
+      subject: 'chain-1',
+      message: 'USDGB supply on chain 1 could not be read: RPC down',
+    })]);
+  });
+});
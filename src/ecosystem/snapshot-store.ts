@@ -0,0 +1,176 @@
+// Supply Snapshot Store - Time-indexed history in R2
+// Part of ChiefOS Ecosystem Manager
+
+import type { Alert, EcosystemEnv, EcosystemToken, SupplySnapshot } from './types';
+import { serializeWithBigInt, parseSupplySnapshot } from './utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface SnapshotRetentionPolicy {
+    /** Keep every snapshot younger than this */
+    rawRetentionMs: number;
+    /** Beyond raw retention keep one snapshot per hour, up to this age */
+    hourlyRetentionMs: number;
+}
+
+export const DEFAULT_RETENTION: SnapshotRetentionPolicy = {
+    rawRetentionMs: 2 * DAY_MS,
+    hourlyRetentionMs: 90 * DAY_MS
+};
+
+export interface CompactionResult {
+    token: EcosystemToken;
+    scanned: number;
+    deleted: number;
+}
+
+/**
+ * Supply Snapshot Store: One R2 prefix per token, bucketed by hour
+ *
+ * Layout: supply-snapshots/<token>/<hour>/<timestamp>.json
+ * where <hour> = floor(timestamp / 1h). Looking up "the snapshot closest to T"
+ * only needs to list the hour buckets around T instead of the whole history,
+ * and concurrent writers never contend on a shared manifest.
+ *
+ * Legacy flat keys (supply-snapshots/<token>/<timestamp>.json) are not used
+ * for lookups but are still thinned and aged out by compact().
+ */
+export class SupplySnapshotStore {
+    private env: EcosystemEnv;
+    private token: EcosystemToken;
+
+    constructor(env: EcosystemEnv, token: EcosystemToken) {
+        this.env = env;
+        this.token = token;
+    }
+
+    private get prefix(): string {
+        return `supply-snapshots/${this.token}/`;
+    }
+
+    /**
+     * Store a snapshot in its hour bucket
+     */
+    async put(snapshot: SupplySnapshot): Promise<string> {
+        const key = `${this.prefix}${hourBucket(snapshot.timestamp)}/${snapshot.timestamp}.json`;
+        await this.env.ECOSYSTEM_BUCKET.put(key, serializeWithBigInt(snapshot));
+        return key;
+    }
+
+    /**
+     * Find the snapshot closest to a target time
+     * Returns null when nothing lies within maxDistanceMs of the target
+     */
+    async findNearest(target: number, maxDistanceMs: number = 2 * HOUR_MS): Promise<SupplySnapshot | null> {
+        const first = hourBucket(target - maxDistanceMs);
+        const last = hourBucket(target + maxDistanceMs);
+
+        let best: { key: string; distance: number } | null = null;
+
+        for (let hour = first; hour <= last; hour++) {
+            for (const key of await this.listKeys(`${this.prefix}${hour}/`)) {
+                const timestamp = timestampFromKey(key);
+                if (timestamp === null) continue;
+
+                const distance = Math.abs(timestamp - target);
+                if (distance <= maxDistanceMs && (!best || distance < best.distance)) {
+                    best = { key, distance };
+                }
+            }
+        }
+
+        if (!best) return null;
+
+        try {
+            const object = await this.env.ECOSYSTEM_BUCKET.get(best.key);
+            if (!object) return null;
+            return parseSupplySnapshot(await object.text());
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Apply the retention policy:
+     * - keep everything younger than rawRetentionMs
+     * - keep the earliest snapshot per hour up to hourlyRetentionMs
+     * - delete everything older
+     */
+    async compact(
+        policy: SnapshotRetentionPolicy = DEFAULT_RETENTION,
+        now: number = Date.now()
+    ): Promise<CompactionResult> {
+        const keys = await this.listKeys(this.prefix);
+        const keptHours = new Set<number>();
+        const toDelete: string[] = [];
+
+        const entries = keys
+            .map(key => ({ key, timestamp: timestampFromKey(key) }))
+            .filter((e): e is { key: string; timestamp: number } => e.timestamp !== null)
+            .sort((a, b) => a.timestamp - b.timestamp);
+
+        for (const { key, timestamp } of entries) {
+            const age = now - timestamp;
+            if (age <= policy.rawRetentionMs) continue;
+
+            if (age > policy.hourlyRetentionMs) {
+                toDelete.push(key);
+                continue;
+            }
+
+            const hour = hourBucket(timestamp);
+            if (keptHours.has(hour)) {
+                toDelete.push(key);
+            } else {
+                keptHours.add(hour);
+            }
+        }
+
+        // R2 accepts up to 1000 keys per delete call
+        for (let i = 0; i < toDelete.length; i += 1000) {
+            await this.env.ECOSYSTEM_BUCKET.delete(toDelete.slice(i, i + 1000));
+        }
+
+        return { token: this.token, scanned: entries.length, deleted: toDelete.length };
+    }
+
+    private async listKeys(prefix: string): Promise<string[]> {
+        const keys: string[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const listed = await this.env.ECOSYSTEM_BUCKET.list({ prefix, cursor });
+            keys.push(...listed.objects.map(o => o.key));
+            cursor = listed.truncated ? listed.cursor : undefined;
+        } while (cursor);
+
+        return keys;
+    }
+}
+
+function hourBucket(timestamp: number): number {
+    return Math.floor(timestamp / HOUR_MS);
+}
+
+function timestampFromKey(key: string): number | null {
+    const match = key.match(/\/(\d+)\.json$/);
+    return match ? Number(match[1]) : null;
+}
+
+/**
+ * Alerts for chains whose supply could not be read into a snapshot
+ */
+export function checkSupplyReadAlerts(snapshot: SupplySnapshot, source: "USDGB" | "USDCA"): Alert[] {
+    return (snapshot.failed ?? []).map(failure => ({
+        id: `${source}-SUPPLY-${Date.now()}`,
+        type: "SUPPLY_READ_FAILED",
+        source,
+        subject: `chain-${failure.chainId}`,
+        severity: "HIGH",
+        message: `${snapshot.token} supply on chain ${failure.chainId} could not be read: ${failure.error}`,
+        data: failure,
+        timestamp: Date.now(),
+        acknowledged: false
+    }));
+}
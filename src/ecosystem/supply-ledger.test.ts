@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { SupplyLedger, SupplyLedgerError, evaluateSupplyInvariant, checkSupplyInvariantAlerts } from './supply-ledger';
+import { AlertStore } from './alert-store';
+import type { ChainConfig, CrossChainMessageRecord, EcosystemEnv, SupplySnapshot } from './types';
+import { createMockBucket } from '../test-utils';
+
+const TOKEN = 10n ** 18n;
+const BASE_OFT = '0x' + 'aa'.repeat(20);
+const ETH_OFT = '0x' + 'bb'.repeat(20);
+
+const deployments: ChainConfig[] = [
+  { chainId: 8453, name: 'Base', lzEndpointId: 30184, rpcUrl: 'http://base', contracts: { usdgb: BASE_OFT } },
+  { chainId: 1, name: 'Ethereum', lzEndpointId: 30101, rpcUrl: 'http://eth', contracts: { usdgb: ETH_OFT } },
+];
+
+function snapshot(base: bigint, eth: bigint): SupplySnapshot {
+  return {
+    timestamp: 0,
+    token: 'USDGB',
+    chains: [
+      { chainId: 8453, supply: base, change24h: 0n, changePercent: 0 },
+      { chainId: 1, supply: eth, change24h: 0n, changePercent: 0 },
+    ],
+    totalSupply: base + eth,
+    totalChange24h: 0n,
+  };
+}
+
+function pending(amount: bigint, srcAddress = BASE_OFT): CrossChainMessageRecord {
+  return {
+    guid: '0x01',
+    nonce: 1n,
+    srcEid: 30184,
+    srcAddress: '0x' + srcAddress.slice(2).padStart(64, '0'),
+    dstEid: 30101,
+    dstAddress: ETH_OFT,
+    payload: '0x',
+    status: 'PENDING',
+    transfer: { sendTo: '0x02', amountSD: amount / 10n ** 12n, composed: false },
+    firstSeen: 0,
+    checkedAt: 0,
+    stuck: false,
+    issues: [],
+  };
+}
+
+describe('SupplyLedger', () => {
+  it('records mints and burns and nets them', async () => {
+    const env = { ECOSYSTEM_BUCKET: createMockBucket() } as unknown as EcosystemEnv;
+    const ledger = new SupplyLedger(env, 'USDGB');
+
+    expect(await ledger.getNetSupply()).toBeNull();
+
+    await ledger.record({ type: 'MINT', amount: (1000n * TOKEN).toString(), chainId: 8453, txHash: '0xAB' }, 'ops@example.com');
+    await ledger.record({ type: 'BURN', amount: (250n * TOKEN).toString(), chainId: 8453 }, 'ops@example.com');
+
+    expect(await ledger.getNetSupply()).toBe(750n * TOKEN);
+    expect((await ledger.list())[0]).toMatchObject({ txHash: '0xab', recordedBy: 'ops@example.com' });
+  });
+
+  it('rejects invalid and duplicate entries', async () => {
+    const env = { ECOSYSTEM_BUCKET: createMockBucket() } as unknown as EcosystemEnv;
+    const ledger = new SupplyLedger(env, 'USDGB');
+    await ledger.record({ type: 'MINT', amount: '1', chainId: 8453, txHash: '0xab' }, 'ops');
+
+    await expect(ledger.record({ type: 'MINT', amount: '1.5', chainId: 8453 }, 'ops')).rejects.toThrow('amount');
+    await expect(ledger.record({ type: 'REDEEM', amount: '1', chainId: 8453 }, 'ops')).rejects.toBeInstanceOf(SupplyLedgerError);
+    await expect(ledger.record({ type: 'BURN', amount: '1', chainId: 8453, txHash: '0xAB' }, 'ops')).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('gives entries recorded in the same millisecond distinct ids', async () => {
+    const env = { ECOSYSTEM_BUCKET: createMockBucket() } as unknown as EcosystemEnv;
+    const ledger = new SupplyLedger(env, 'USDGB');
+
+    const first = await ledger.record({ type: 'MINT', amount: '1', chainId: 8453 }, 'ops', 1000);
+    const second = await ledger.record({ type: 'MINT', amount: '2', chainId: 10 }, 'ops', 1000);
+
+    expect(first.id).toMatch(/^MINT-1000-/);
+    expect(second.id).not.toBe(first.id);
+  });
+});
+
+describe('supply invariant', () => {
+  it('counts in-flight OFT transfers toward conserved supply', () => {
+    const result = evaluateSupplyInvariant(snapshot(600n * TOKEN, 300n * TOKEN), deployments, 'usdgb', [pending(100n * TOKEN)], 1000n * TOKEN);
+
+    expect(result.state).toBe('OK');
+    expect(result.inFlight).toBe(100n * TOKEN);
+    expect(result.chains.map(c => [c.name, c.outboundPending, c.inboundPending])).toEqual([
+      ['Base', 100n * TOKEN, 0n],
+      ['Ethereum', 0n, 100n * TOKEN],
+    ]);
+    expect(checkSupplyInvariantAlerts(result)).toEqual([]);
+  });
+
+  it('raises a CRITICAL alert with a per-chain breakdown when supply is not conserved', () => {
+    const other = pending(100n * TOKEN, '0x' + 'cc'.repeat(20));
+    const result = evaluateSupplyInvariant(snapshot(600n * TOKEN, 450n * TOKEN), deployments, 'usdgb', [other], 1000n * TOKEN);
+
+    expect(result).toMatchObject({ state: 'BREACH', discrepancy: 50n * TOKEN, pendingMessages: 0 });
+
+    const [alert] = checkSupplyInvariantAlerts(result);
+    expect(alert).toMatchObject({ type: 'SUPPLY_INVARIANT_BREACH', severity: 'CRITICAL', subject: 'USDGB' });
+    expect(alert.message).toContain('50.00 unbacked');
+    expect(alert.message).toContain('Base 600.00, Ethereum 450.00');
+  });
+
+  it('stores the breach alert with its BigInt amounts in the alert store', async () => {
+    const result = evaluateSupplyInvariant(snapshot(600n * TOKEN, 450n * TOKEN), deployments, 'usdgb', [], 1000n * TOKEN);
+    const env = { ECOSYSTEM_BUCKET: createMockBucket() } as unknown as EcosystemEnv;
+
+    const [record] = await new AlertStore(env).sync(checkSupplyInvariantAlerts(result));
+
+    expect(record).toMatchObject({ type: 'SUPPLY_INVARIANT_BREACH', state: 'OPEN' });
+    const [stored] = await new AlertStore(env).list();
+    expect(stored.data).toMatchObject({ discrepancy: (50n * TOKEN).toString(), ledgerSupply: (1000n * TOKEN).toString() });
+  });
+
+  it('does not grade supply when a chain could not be read', () => {
+    const partial = { ...snapshot(600n * TOKEN, 0n), failed: [{ chainId: 1, error: 'RPC down' }] };
+    const result = evaluateSupplyInvariant(partial, deployments, 'usdgb', [], 1000n * TOKEN);
+
+    expect(result).toMatchObject({ state: 'INCOMPLETE', discrepancy: 0n });
+    expect(checkSupplyInvariantAlerts(result)).toEqual([]);
+  });
+
+  it('stays UNCONFIGURED until the ledger has entries', () => {
+    const result = evaluateSupplyInvariant(snapshot(1n, 0n), deployments, 'usdgb', [], null);
+
+    expect(result.state).toBe('UNCONFIGURED');
+    expect(checkSupplyInvariantAlerts(result)).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+// Supply Ledger - Canonical issuance and cross-chain supply conservation
+// Part of ChiefOS Ecosystem Manager
+
+import type {
+    Alert,
+    ChainConfig,
+    CrossChainMessageRecord,
+    EcosystemEnv,
+    EcosystemToken,
+    SupplyLedgerEntry,
+    SupplyInvariantChain,
+    SupplyInvariantResult,
+    SupplySnapshot
+} from './types';
+import { serializeWithBigInt, HttpStatusError } from './utils';
+import { StateDocument } from './ecosystem-state';
+
+const TOKEN_DECIMALS = 18;
+
+/**
+ * OFT default shared decimals; message amounts are scaled up by the difference
+ */
+const OFT_SHARED_DECIMALS = 6;
+
+/**
+ * Error raised for rejected ledger entries
+ */
+export class SupplyLedgerError extends HttpStatusError {
+    constructor(message: string, status: number) {
+        super(message, status);
+        this.name = "SupplyLedgerError";
+    }
+}
+
+/**
+ * Supply Ledger: Canonical mint/burn record for an OFT, kept in the ecosystem
+ * state document ledger/<token>.json
+ *
+ * Only issuance changes belong here (treasury mints, redemptions burns).
+ * OFT bridging burns on the source and mints on the destination, which
+ * conserves supply and is accounted for by in-flight LayerZero messages.
+ */
+export class SupplyLedger {
+    private document: StateDocument<SupplyLedgerEntry[]>;
+
+    constructor(env: EcosystemEnv, token: EcosystemToken) {
+        this.document = new StateDocument<SupplyLedgerEntry[]>(env, `ledger/${token}.json`, {
+            empty: () => [],
+            parse: text => (JSON.parse(text) as SupplyLedgerEntry[]).map(e => ({ ...e, amount: BigInt(e.amount) })),
+            serialize: entries => serializeWithBigInt(entries)
+        });
+    }
+
+    /**
+     * All entries, oldest first
+     */
+    async list(): Promise<SupplyLedgerEntry[]> {
+        return this.document.read();
+    }
+
+    /**
+     * Mints minus burns (null until the first entry is recorded)
+     */
+    async getNetSupply(): Promise<bigint | null> {
+        const entries = await this.list();
+        if (entries.length === 0) return null;
+        return entries.reduce((sum, e) => e.type === "MINT" ? sum + e.amount : sum - e.amount, 0n);
+    }
+
+    /**
+     * Append a mint or burn
+     */
+    async record(
+        input: { type: string; amount: string | number; chainId: number; txHash?: string; note?: string },
+        actor: string,
+        now: number = Date.now()
+    ): Promise<SupplyLedgerEntry> {
+        if (input?.type !== "MINT" && input?.type !== "BURN") {
+            throw new SupplyLedgerError("type must be MINT or BURN", 400);
+        }
+        if (!/^\d+$/.test(String(input.amount)) || BigInt(input.amount) === 0n) {
+            throw new SupplyLedgerError("amount must be a positive integer in base units", 400);
+        }
+        if (!Number.isInteger(input.chainId) || input.chainId <= 0) {
+            throw new SupplyLedgerError("chainId must be a positive integer", 400);
+        }
+
+        const txHash = input.txHash?.toLowerCase();
+        const entry: SupplyLedgerEntry = {
+            id: `${input.type}-${now}-${crypto.randomUUID().slice(0, 8)}`,
+            type: input.type,
+            amount: BigInt(input.amount),
+            chainId: input.chainId,
+            txHash,
+            note: input.note,
+            recordedAt: now,
+            recordedBy: actor
+        };
+
+        return this.document.update(entries => {
+            if (txHash && entries.some(e => e.txHash === txHash)) {
+                throw new SupplyLedgerError(`Transaction ${txHash} is already recorded`, 409);
+            }
+            entries.push(entry);
+            return entry;
+        });
+    }
+}
+
+/**
+ * Value of an in-flight OFT message in base units
+ * Prefers the amount the source OFT reported; otherwise scales the shared-decimals amount
+ */
+function pendingAmount(record: CrossChainMessageRecord): bigint {
+    if (!record.transfer) return 0n;
+    return record.transfer.amountReceivedLD
+        ?? record.transfer.amountSD * 10n ** BigInt(TOKEN_DECIMALS - OFT_SHARED_DECIMALS);
+}
+
+/**
+ * Check that chain supply plus in-flight transfers equals net issuance
+ *
+ * `pending` may include messages for other OApps; only those sent by the
+ * token's own OFT deployments are counted.
+ */
+export function evaluateSupplyInvariant(
+    supply: SupplySnapshot,
+    deployments: ChainConfig[],
+    contract: keyof ChainConfig["contracts"],
+    pending: CrossChainMessageRecord[],
+    ledgerSupply: bigint | null,
+    now: number = Date.now()
+): SupplyInvariantResult {
+    const bytes32 = (address: string) => address.replace(/^0x/, "").toLowerCase().padStart(64, "0");
+    const isOwnOft = (eid: number, address: string) => deployments.some(
+        c => c.lzEndpointId === eid && !!c.contracts[contract] && bytes32(c.contracts[contract]!) === bytes32(address)
+    );
+    const inFlight = pending.filter(m => m.status === "PENDING" && isOwnOft(m.srcEid, m.srcAddress));
+
+    const chains: SupplyInvariantChain[] = supply.chains.map(c => {
+        const eid = deployments.find(d => d.chainId === c.chainId)?.lzEndpointId;
+        return {
+            chainId: c.chainId,
+            name: deployments.find(d => d.chainId === c.chainId)?.name ?? `chain-${c.chainId}`,
+            supply: c.supply,
+            outboundPending: inFlight.filter(m => m.srcEid === eid).reduce((sum, m) => sum + pendingAmount(m), 0n),
+            inboundPending: inFlight.filter(m => m.dstEid === eid).reduce((sum, m) => sum + pendingAmount(m), 0n)
+        };
+    });
+
+    // A chain missing from the snapshot would read as burned supply
+    const incomplete = (supply.failed?.length ?? 0) > 0;
+    const chainSupply = supply.totalSupply;
+    const inFlightValue = inFlight.reduce((sum, m) => sum + pendingAmount(m), 0n);
+    const discrepancy = ledgerSupply === null || incomplete ? 0n : chainSupply + inFlightValue - ledgerSupply;
+
+    return {
+        token: supply.token,
+        state: ledgerSupply === null ? "UNCONFIGURED" : incomplete ? "INCOMPLETE" : discrepancy === 0n ? "OK" : "BREACH",
+        checkedAt: now,
+        ledgerSupply: ledgerSupply ?? 0n,
+        chainSupply,
+        inFlight: inFlightValue,
+        discrepancy,
+        pendingMessages: inFlight.length,
+        chains
+    };
+}
+
+/**
+ * Whole-token amount for messages (base units / 1e18, 2 decimals)
+ */
+export function formatTokenAmount(amount: bigint): string {
+    const cents = amount * 100n / 10n ** BigInt(TOKEN_DECIMALS);
+    return (Number(cents) / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * CRITICAL alert when supply is not conserved, with the per-chain breakdown
+ */
+export function checkSupplyInvariantAlerts(result: SupplyInvariantResult): Alert[] {
+    if (result.state !== "BREACH") return [];
+
+    const direction = result.discrepancy > 0n ? "unbacked" : "missing";
+    const magnitude = result.discrepancy > 0n ? result.discrepancy : -result.discrepancy;
+    const breakdown = result.chains
+        .map(c => `${c.name} ${formatTokenAmount(c.supply)}${c.outboundPending ? ` (+${formatTokenAmount(c.outboundPending)} in flight)` : ""}`)
+        .join(", ");
+
+    return [{
+        id: `GOV-SUPPLY-${Date.now()}`,
+        type: "SUPPLY_INVARIANT_BREACH",
+        source: "GOVERNOR",
+        subject: result.token,
+        severity: "CRITICAL",
+        message: `${result.token} supply not conserved: ${formatTokenAmount(magnitude)} ${direction} vs ledger ${formatTokenAmount(result.ledgerSupply)} - ${breakdown}`,
+        data: result,
+        timestamp: Date.now(),
+        acknowledged: false
+    }];
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  TelegramCommandHandler,
+  TelegramBotError,
+  isAllowedSender,
+  parseTelegramCommand,
+  parseTelegramUpdate,
+  TELEGRAM_SECRET_HEADER,
+} from './telegram-bot';
+import type { TelegramUpdate } from './telegram-bot';
+import type { EcosystemManager } from './index';
+import { AlertStore } from './alert-store';
+import { EmergencyPauseError } from './emergency-pause';
+import { operationalReportView, renderTelegramMarkdownV2 } from './report-format';
+import type { Alert, AlertOverview, EcosystemEnv, EcosystemStatus, OperationalReport, PauseProposal } from './types';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+const NOW = Date.UTC(2026, 0, 15, 12, 0);
+const CHAT = 1001;
+const USER = 42;
+
+function createEnv(overrides: Partial<EcosystemEnv> = {}): EcosystemEnv {
+  return {
+    ECOSYSTEM_BUCKET: createMockBucket(),
+    TELEGRAM_WEBHOOK_SECRET: 'telegram-secret',
+    TELEGRAM_ALLOWED_CHATS: String(CHAT),
+    ...overrides,
+  } as unknown as EcosystemEnv;
+}
+
+function update(text: string, chat: number = CHAT, user: number = USER): TelegramUpdate {
+  return { update_id: 1, message: { message_id: 7, from: { id: user, username: 'ops' }, chat: { id: chat }, text } };
+}
+
+function alert(type: string): Alert {
+  return { id: type, type, source: 'USDGB', severity: 'HIGH', message: `${type} check`, timestamp: NOW };
+}
+
+const status: EcosystemStatus = {
+  status: 'online',
+  risk: 'YELLOW',
+  emergency: 'STANDBY',
+  usdgb: { pegPrice: 0.9987, goldReserveRatio: 1.0234, stakingAPR: 0 },
+  usdca: { pegPrice: 1.0012, deltaCollateralization: 0.985, fundingRateAPY: 0.12 },
+  timestamp: NOW,
+};
+
+const report = {
+  timestamp: NOW,
+  period: '4h',
+  agents: {
+    usdgb: { pegPrice: 0.9987, goldReserveRatio: 1.0234 },
+    usdca: { pegPrice: 1.0012, deltaCollateralization: 0.985 },
+    marketplace: { activeLaunches: 3 },
+    governor: { riskStatus: { overall: 'GREEN', alerts: [] }, crossChainMessagesVerified: 12, supplyInvariant: null, emergencyStatus: 'STANDBY' },
+    observer: { skillsHarvested: 4, securityAlerts: 0 },
+  },
+  summary: '',
+} as unknown as OperationalReport;
+
+function createManager(overview?: Partial<AlertOverview>) {
+  const prepareEmergencyPause = vi.fn(async (contract: string, reason: string, actor: string) => ({
+    id: 'PAUSE-1',
+    contract,
+    reason,
+    proposedBy: actor,
+    threshold: 2,
+    safeTx: { nonce: 5, safeTxHash: '0xabc' },
+  }) as unknown as PauseProposal);
+  const manager = {
+    getStatus: vi.fn(async () => status),
+    getAlerts: vi.fn(async () => ({ count: 0, alerts: [], risk: 'GREEN', categories: null, assessedAt: NOW, ...overview })),
+    getAgents: () => ({ governor: { prepareEmergencyPause } }),
+  };
+  return { manager: manager as unknown as EcosystemManager, getAlerts: manager.getAlerts, prepareEmergencyPause };
+}
+
+beforeEach(() => {
+  suppressConsole();
+});
+
+describe('parseTelegramCommand', () => {
+  it('splits the command from its arguments and drops the bot name', () => {
+    expect(parseTelegramCommand('/ack@ChiefBot ALT-1')).toEqual({ command: 'ack', args: ['ALT-1'] });
+    expect(parseTelegramCommand('/pause 0xabc  peg broke ')).toEqual({ command: 'pause', args: ['0xabc', 'peg', 'broke'] });
+    expect(parseTelegramCommand('/STATUS')).toEqual({ command: 'status', args: [] });
+    expect(parseTelegramCommand('hello')).toBeNull();
+    expect(parseTelegramCommand(undefined)).toBeNull();
+  });
+});
+
+describe('parseTelegramUpdate', () => {
+  it('requires the webhook secret token', () => {
+    const env = createEnv();
+    const body = JSON.stringify(update('/status'));
+
+    expect(() => parseTelegramUpdate(env, new Headers(), body)).toThrow(TelegramBotError);
+    expect(() => parseTelegramUpdate({ ...env, TELEGRAM_WEBHOOK_SECRET: undefined }, new Headers(), body))
+      .toThrow(expect.objectContaining({ status: 503 }));
+
+    const headers = new Headers({ [TELEGRAM_SECRET_HEADER]: 'telegram-secret' });
+    expect(() => parseTelegramUpdate(env, headers, '{}')).toThrow(expect.objectContaining({ status: 400 }));
+    expect(parseTelegramUpdate(env, headers, body).message?.text).toBe('/status');
+  });
+});
+
+describe('isAllowedSender', () => {
+  it('allows listed chats, narrows to listed users and fails closed', () => {
+    const message = update('/status').message!;
+
+    expect(isAllowedSender(createEnv(), message)).toBe(true);
+    expect(isAllowedSender(createEnv(), update('/status', 2002).message!)).toBe(false);
+    expect(isAllowedSender(createEnv({ TELEGRAM_ALLOWED_USERS: '7, 8' }), message)).toBe(false);
+    expect(isAllowedSender(createEnv({ TELEGRAM_ALLOWED_USERS: `7,${USER}` }), message)).toBe(true);
+    expect(isAllowedSender(createEnv({ TELEGRAM_ALLOWED_CHATS: undefined, TELEGRAM_CHAT_ID: String(CHAT) }), message)).toBe(true);
+    expect(isAllowedSender(createEnv({ TELEGRAM_ALLOWED_CHATS: undefined }), message)).toBe(false);
+  });
+});
+
+describe('TelegramCommandHandler', () => {
+  it('ignores commands from chats that are not allowed', async () => {
+    const { manager } = createManager();
+    const handler = new TelegramCommandHandler(createEnv(), manager);
+
+    expect(await handler.handle(update('/status', 2002))).toBeNull();
+    expect(manager.getStatus).not.toHaveBeenCalled();
+  });
+
+  it('answers /status from the manager status', async () => {
+    const { manager } = createManager();
+    const reply = await new TelegramCommandHandler(createEnv(), manager).handle(update('/status'));
+
+    expect(reply).toEqual({
+      chatId: String(CHAT),
+      parseMode: 'MarkdownV2',
+      text: [
+        '🟡 *ECOSYSTEM STATUS: YELLOW*',
+        'Emergency: STANDBY',
+        'USDGB: $0\\.9987 \\| Reserve 102\\.3% \\| Staking APR 0\\.0%',
+        'USDca: $1\\.0012 \\| Delta 98\\.5% \\| Funding APY 12\\.0%',
+      ].join('\n'),
+    });
+  });
+
+  it('lists alerts filtered by state and rejects unknown states', async () => {
+    const env = createEnv();
+    const records = await new AlertStore(env).sync([alert('PEG_DEVIATION')], NOW);
+    const { manager, getAlerts } = createManager({ count: 1, alerts: records, risk: 'ORANGE' });
+    const handler = new TelegramCommandHandler(env, manager);
+
+    const reply = await handler.handle(update('/alerts open'));
+    expect(getAlerts).toHaveBeenCalledWith('open');
+    expect(reply?.text).toBe(`🟠 *1 OPEN alerts*\n🔴 \\[OPEN\\] HIGH PEG\\_DEVIATION check \\(${records[0].id.replace('-', '\\-')}\\)`);
+
+    expect((await handler.handle(update('/alerts bogus')))?.text).toContain('Unknown alert state bogus');
+  });
+
+  it('leaves out the risk before the first report has run', async () => {
+    const { manager } = createManager({ risk: null, assessedAt: null });
+
+    expect((await new TelegramCommandHandler(createEnv(), manager).handle(update('/alerts')))?.text).toBe('*0 alerts*');
+  });
+
+  it('acks alerts as the Telegram user and reports store errors', async () => {
+    const env = createEnv();
+    const [record] = await new AlertStore(env).sync([alert('PEG_DEVIATION')], NOW);
+    const handler = new TelegramCommandHandler(env, createManager().manager);
+
+    expect((await handler.handle(update(`/ack ${record.id}`)))?.text).toBe(`✅ ${record.id.replace('-', '\\-')} acknowledged by telegram:ops`);
+    expect((await new AlertStore(env).get(record.id))?.state).toBe('ACKED');
+    expect((await handler.handle(update('/ack ALT-missing')))?.text).toBe('⚠️ /ack failed: Alert ALT\\-missing not found');
+  });
+
+  it('renders the latest report', async () => {
+    const env = createEnv();
+    const handler = new TelegramCommandHandler(env, createManager().manager);
+
+    expect((await handler.handle(update('/report')))?.text).toBe('No report available yet');
+
+    await env.ECOSYSTEM_BUCKET.put('reports/latest.json', JSON.stringify(report));
+    const reply = await handler.handle(update('/report'));
+    expect(reply?.text).toBe(renderTelegramMarkdownV2(operationalReportView(report)));
+  });
+
+  it('proposes an emergency pause through the governor', async () => {
+    const { manager, prepareEmergencyPause } = createManager();
+    const handler = new TelegramCommandHandler(createEnv(), manager);
+    const contract = '0x' + '11'.repeat(20);
+
+    const reply = await handler.handle(update(`/pause ${contract} peg broke`));
+
+    expect(prepareEmergencyPause).toHaveBeenCalledWith(contract, 'peg broke', 'telegram:ops');
+    expect(reply?.text).toContain('*Pause proposed: PAUSE\\-1*');
+    expect(reply?.text).toContain('safeTxHash: `0xabc`');
+
+    prepareEmergencyPause.mockRejectedValueOnce(new EmergencyPauseError('contract must be an address', 400));
+    expect((await handler.handle(update('/pause nope')))?.text).toBe('⚠️ /pause failed: contract must be an address');
+    expect((await handler.handle(update('/pause')))?.text).toBe('Usage: /pause <contract\\> \\[reason\\]');
+  });
+});
@@ -0,0 +1,226 @@
+// Telegram Bot - Operator commands over the Telegram webhook
+// Part of ChiefOS Ecosystem Manager
+
+import type { EcosystemEnv, OperationalReport } from './types';
+import type { TelegramParseMode } from './notifications';
+import { EcosystemManager } from './index';
+import { AlertStore, AlertStoreError } from './alert-store';
+import { EmergencyPauseError } from './emergency-pause';
+import { StateConflictError } from './ecosystem-state';
+import { formatAlertLine } from './notification-router';
+import { RISK_EMOJI, escapeMarkdownV2, operationalReportView, renderTelegramMarkdownV2 } from './report-format';
+import { timingSafeEqual, HttpStatusError } from './utils';
+
+export const TELEGRAM_SECRET_HEADER = "X-Telegram-Bot-Api-Secret-Token";
+
+const MAX_ALERTS = 20;
+const ALERT_STATES = ["OPEN", "ACKED", "SNOOZED", "RESOLVED"];
+
+const HELP = [
+    "/status - Risk, emergency status and pegs",
+    "/alerts [open|acked|snoozed|resolved] - Current alerts",
+    "/ack <alert id> - Acknowledge an alert",
+    "/report - Latest 4h report",
+    "/pause <contract> [reason] - Propose an emergency pause to the Safe"
+].join("\n");
+
+/**
+ * Error raised for webhook requests that cannot be handled
+ */
+export class TelegramBotError extends HttpStatusError {
+    constructor(message: string, status: number) {
+        super(message, status);
+        this.name = "TelegramBotError";
+    }
+}
+
+/**
+ * The parts of a Telegram Update the bot reads
+ */
+export interface TelegramUpdate {
+    update_id: number;
+    message?: {
+        message_id: number;
+        from?: { id: number; username?: string };
+        chat: { id: number; type?: string };
+        text?: string;
+    };
+}
+
+/**
+ * Message to send back to the chat a command came from
+ */
+export interface TelegramReply {
+    chatId: string;
+    text: string;
+    parseMode: TelegramParseMode;
+}
+
+/**
+ * Split "/ack@ChiefBot ALT-1" into { command: "ack", args: ["ALT-1"] }
+ * Returns null for text that is not a command
+ */
+export function parseTelegramCommand(text: string | undefined): { command: string; args: string[] } | null {
+    const match = text?.trim().match(/^\/([a-zA-Z0-9_]+)(?:@\S+)?(?:\s+([\s\S]*))?$/);
+    if (!match) return null;
+    return { command: match[1].toLowerCase(), args: match[2] ? match[2].trim().split(/\s+/) : [] };
+}
+
+/**
+ * Check the webhook secret_token header and parse the update
+ */
+export function parseTelegramUpdate(env: EcosystemEnv, headers: Headers, body: string): TelegramUpdate {
+    if (!env.TELEGRAM_WEBHOOK_SECRET) throw new TelegramBotError("TELEGRAM_WEBHOOK_SECRET not set", 503);
+    if (!timingSafeEqual(headers.get(TELEGRAM_SECRET_HEADER) ?? "", env.TELEGRAM_WEBHOOK_SECRET)) {
+        throw new TelegramBotError("Invalid Telegram secret token", 401);
+    }
+
+    try {
+        const update = JSON.parse(body) as TelegramUpdate;
+        if (typeof update?.update_id !== "number") throw new Error("missing update_id");
+        return update;
+    } catch (error) {
+        throw new TelegramBotError(`Invalid update: ${error instanceof Error ? error.message : error}`, 400);
+    }
+}
+
+/**
+ * Whether the message comes from an allowed chat (TELEGRAM_ALLOWED_CHATS,
+ * default TELEGRAM_CHAT_ID) and, when TELEGRAM_ALLOWED_USERS is set, from an
+ * allowed user. Without any allowed chat every message is refused.
+ */
+export function isAllowedSender(env: EcosystemEnv, message: NonNullable<TelegramUpdate["message"]>): boolean {
+    const chats = idList(env.TELEGRAM_ALLOWED_CHATS ?? env.TELEGRAM_CHAT_ID);
+    if (!chats.includes(String(message.chat.id))) return false;
+
+    const users = idList(env.TELEGRAM_ALLOWED_USERS);
+    return users.length === 0 || (message.from !== undefined && users.includes(String(message.from.id)));
+}
+
+/**
+ * Telegram Command Handler: answers operator commands from allowed chats
+ *
+ * Commands reuse the API logic: /status and /alerts go through the
+ * EcosystemManager, /ack through the alert store and /pause proposes an
+ * emergency pause through the governor. Acks and proposals are attributed to
+ * "telegram:<username>". Updates from other chats or users are ignored.
+ */
+export class TelegramCommandHandler {
+    private env: EcosystemEnv;
+    private manager: EcosystemManager;
+
+    constructor(env: EcosystemEnv, manager: EcosystemManager = new EcosystemManager(env)) {
+        this.env = env;
+        this.manager = manager;
+    }
+
+    /**
+     * Handle an update; returns the reply, or null when there is nothing to answer
+     */
+    async handle(update: TelegramUpdate): Promise<TelegramReply | null> {
+        const message = update.message;
+        const parsed = parseTelegramCommand(message?.text);
+        if (!message || !parsed) return null;
+
+        if (!isAllowedSender(this.env, message)) {
+            console.warn(`[Telegram] Ignoring /${parsed.command} from chat ${message.chat.id} user ${message.from?.id ?? "unknown"}`);
+            return null;
+        }
+
+        const actor = `telegram:${message.from?.username ?? message.from?.id ?? "unknown"}`;
+        const reply = (text: string): TelegramReply => ({ chatId: String(message.chat.id), text, parseMode: "MarkdownV2" });
+
+        try {
+            switch (parsed.command) {
+                case "status":
+                    return reply(await this.status());
+                case "alerts":
+                    return reply(await this.alerts(parsed.args[0]));
+                case "ack":
+                    return reply(await this.ack(parsed.args[0], actor));
+                case "report":
+                    return reply(await this.report());
+                case "pause":
+                    return reply(await this.pause(parsed.args[0], parsed.args.slice(1).join(" "), actor));
+                case "start":
+                case "help":
+                    return reply(escapeMarkdownV2(HELP));
+                default:
+                    return reply(escapeMarkdownV2(`Unknown command /${parsed.command}\n\n${HELP}`));
+            }
+        } catch (error) {
+            if (!(error instanceof AlertStoreError || error instanceof EmergencyPauseError || error instanceof StateConflictError)) {
+                throw error;
+            }
+            return reply(escapeMarkdownV2(`⚠️ /${parsed.command} failed: ${error.message}`));
+        }
+    }
+
+    private async status(): Promise<string> {
+        const status = await this.manager.getStatus();
+        const { usdgb, usdca } = status;
+
+        return [
+            `${RISK_EMOJI[status.risk]} *${escapeMarkdownV2(`ECOSYSTEM STATUS: ${status.risk}`)}*`,
+            escapeMarkdownV2(`Emergency: ${status.emergency}`),
+            escapeMarkdownV2(`USDGB: $${usdgb.pegPrice.toFixed(4)} | Reserve ${percent(usdgb.goldReserveRatio)} | Staking APR ${percent(usdgb.stakingAPR)}`),
+            escapeMarkdownV2(`USDca: $${usdca.pegPrice.toFixed(4)} | Delta ${percent(usdca.deltaCollateralization)} | Funding APY ${percent(usdca.fundingRateAPY)}`)
+        ].join("\n");
+    }
+
+    private async alerts(state?: string): Promise<string> {
+        if (state && !ALERT_STATES.includes(state.toUpperCase())) {
+            return escapeMarkdownV2(`Unknown alert state ${state} (${ALERT_STATES.join(", ")})`);
+        }
+
+        const overview = await this.manager.getAlerts(state);
+        const emoji = overview.risk ? `${RISK_EMOJI[overview.risk]} ` : "";
+        const heading = `${emoji}*${escapeMarkdownV2(`${overview.count} ${state ? state.toUpperCase() + " " : ""}alerts`)}*`;
+        if (overview.count === 0) return heading;
+
+        const lines = overview.alerts.slice(0, MAX_ALERTS).map(record => escapeMarkdownV2(formatAlertLine(record)));
+        if (overview.count > MAX_ALERTS) lines.push(escapeMarkdownV2(`+${overview.count - MAX_ALERTS} more`));
+        return [heading, ...lines].join("\n");
+    }
+
+    private async ack(id: string | undefined, actor: string): Promise<string> {
+        if (!id) return escapeMarkdownV2("Usage: /ack <alert id>");
+
+        const record = await new AlertStore(this.env).ack(id, actor);
+        return escapeMarkdownV2(`✅ ${record.id} acknowledged by ${record.ackedBy}`);
+    }
+
+    private async report(): Promise<string> {
+        const obj = await this.env.ECOSYSTEM_BUCKET.get("reports/latest.json");
+        if (!obj) return escapeMarkdownV2("No report available yet");
+
+        const report: OperationalReport = JSON.parse(await obj.text());
+        return renderTelegramMarkdownV2(operationalReportView(report));
+    }
+
+    private async pause(contract: string | undefined, reason: string, actor: string): Promise<string> {
+        if (!contract) return escapeMarkdownV2("Usage: /pause <contract> [reason]");
+
+        const proposal = await this.manager.getAgents().governor.prepareEmergencyPause(
+            contract,
+            reason || `Emergency pause requested by ${actor}`,
+            actor
+        );
+
+        return [
+            `🛑 *${escapeMarkdownV2(`Pause proposed: ${proposal.id}`)}*`,
+            escapeMarkdownV2(`Contract: ${proposal.contract}`),
+            escapeMarkdownV2(`Reason: ${proposal.reason}`),
+            `safeTxHash: \`${proposal.safeTx.safeTxHash}\``,
+            escapeMarkdownV2(`Safe nonce ${proposal.safeTx.nonce}, ${proposal.threshold} owner signature(s) required`)
+        ].join("\n");
+    }
+}
+
+function idList(value: string | undefined): string[] {
+    return (value ?? "").split(",").map(id => id.trim()).filter(Boolean);
+}
+
+function percent(ratio: number): string {
+    return `${(ratio * 100).toFixed(1)}%`;
+}
@@ -37,6 +37,10 @@ export interface ChainConfig {
         usdgb?: string;
         usdca?: string;
         marketplace?: string;
+        /** Address the marketplace pays launch fees into */
+        feeReceiver?: string;
+        /** ERC-20 the fees are paid in (wrapped CAMP) */
+        feeToken?: string;
     };
 }
 
@@ -49,6 +53,8 @@ export interface SupplySnapshot {
     chains: ChainSupply[];
     totalSupply: bigint;
     totalChange24h: bigint;
+    /** Chains whose totalSupply() could not be read; not counted in totalSupply */
+    failed?: { chainId: number; error: string }[];
 }
 
 export interface ChainSupply {
@@ -71,6 +77,86 @@ export interface RiskStatus {
     };
     alerts: Alert[];
     lastUpdated: number;
+    /** Why each category is at its level */
+    explanations?: Record<RiskCategory, RiskCategoryExplanation>;
+}
+
+export type RiskCategory = keyof RiskStatus["categories"];
+
+/**
+ * One graded input to the risk engine
+ */
+export interface RiskSignal {
+    category: RiskCategory;
+    /** Provider that produced the signal */
+    source: string;
+    token?: EcosystemToken;
+    metric: string;
+    value: number | null;
+    level: RiskLevel;
+    thresholds?: RiskBands;
+    detail?: string;
+}
+
+/**
+ * Explainability for a category: the signal that set its level and everything considered
+ */
+export interface RiskCategoryExplanation {
+    level: RiskLevel;
+    /** Worst signal (first on ties); null when no input fed the category */
+    driver: RiskSignal | null;
+    signals: RiskSignal[];
+}
+
+/**
+ * Threshold set for one metric, ordered from healthiest to worst
+ * (ascending for deviations/drift, descending for backing ratios)
+ */
+export interface RiskBands {
+    green: number;
+    yellow: number;
+    orange: number;
+    red: number;
+}
+
+/**
+ * Versioned risk thresholds, per token and per category
+ */
+export interface RiskPolicy {
+    version: number;
+    updatedAt: number;
+    updatedBy: string;
+    reason?: string;
+    tokens: {
+        USDGB: {
+            /** Peg deviation from $1.00 */
+            peg: RiskBands;
+            /** Gold reserve backing ratio */
+            reserve: RiskBands;
+            /** Price impact of the reference sell (LIQUIDITY_REFERENCE_USD) */
+            liquidity: RiskBands;
+        };
+        USDca: {
+            peg: RiskBands;
+            /** Delta-neutral collateralization ratio */
+            collateral: RiskBands;
+            /** Worst per-asset unhedged fraction */
+            hedgeDrift: RiskBands;
+            liquidity: RiskBands;
+        };
+    };
+}
+
+/**
+ * One change to the risk policy
+ */
+export interface RiskPolicyAuditEntry {
+    version: number;
+    previousVersion: number;
+    changedBy: string;
+    changedAt: number;
+    reason: string;
+    changes: { path: string; from: number | null; to: number | null }[];
 }
 
 /**
@@ -81,12 +167,189 @@ export interface Alert {
     type: string;
     severity: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL" | "WARNING";
     source?: "GOVERNOR" | "USDGB" | "USDCA" | "MARKETPLACE" | "OBSERVER";
+    /** What the alert is about when a source can raise it for several things (token, contract, exploit) */
+    subject?: string;
     message: string;
     data?: unknown;
     timestamp: number;
     acknowledged?: boolean;
 }
 
+/**
+ * Simulated price impact of selling the token for a given USD size
+ */
+export interface PriceImpact {
+    sizeUsd: number;
+    /** Fraction lost versus the spot price (0.01 = 1%); 1 when the pool cannot fill */
+    priceImpact: number;
+}
+
+/**
+ * Depth of a single DEX pool
+ */
+export interface PoolDepth {
+    pool: string;
+    dex: "uniswap-v3" | "aerodrome";
+    chainId: number;
+    /** Spot price of the token in the pool's quote asset */
+    spotPrice: number;
+    impacts: PriceImpact[];
+}
+
+/**
+ * Liquidity picture for one token across its configured pools
+ */
+export interface LiquidityReport {
+    token: EcosystemToken;
+    /** UNCONFIGURED: no pools configured; DEGRADED: some pools could not be read or configured */
+    state: "OK" | "DEGRADED" | "UNCONFIGURED";
+    pools: PoolDepth[];
+    failed: { pool: string; error: string }[];
+    /** Best single-pool impact per size */
+    impacts: PriceImpact[];
+    referenceSizeUsd: number;
+    /** Impact at referenceSizeUsd, graded by the risk policy; null when nothing was read */
+    referenceImpact: number | null;
+}
+
+/**
+ * Alert lifecycle state
+ */
+export type AlertState = "OPEN" | "ACKED" | "SNOOZED" | "RESOLVED";
+
+/**
+ * Persisted alert, deduplicated by fingerprint (type + source + subject)
+ */
+export interface AlertRecord extends Alert {
+    fingerprint: string;
+    state: AlertState;
+    firstSeen: number;
+    lastSeen: number;
+    occurrences: number;
+    ackedAt?: number;
+    ackedBy?: string;
+    snoozedUntil?: number;
+    resolvedAt?: number;
+    resolvedBy?: string;
+    /** Last state that notifications were sent (or deliberately skipped) for */
+    notifiedState?: AlertState;
+    history: { state: AlertState; at: number; by?: string; note?: string }[];
+}
+
+/**
+ * Outbound alert webhook (ALERT_WEBHOOKS env var, JSON array)
+ */
+export interface WebhookEndpointConfig {
+    /** Unique name, used in dead-letter keys and logs */
+    name: string;
+    url: string;
+    /** HMAC-SHA256 key for the X-ChiefOS-Signature header */
+    secret: string;
+    /** Severities delivered to this endpoint (default CRITICAL and HIGH) */
+    severities?: Alert["severity"][];
+}
+
+/**
+ * Outcome of delivering one payload to one endpoint
+ */
+export interface WebhookDeliveryResult {
+    endpoint: string;
+    deliveryId: string;
+    delivered: boolean;
+    attempts: number;
+    /** HTTP status of the last attempt (null on network error or timeout) */
+    status: number | null;
+    error?: string;
+}
+
+/**
+ * A delivery that exhausted its retries (R2 webhooks/dead-letter/)
+ */
+export interface WebhookDeadLetter {
+    id: string;
+    endpoint: string;
+    url: string;
+    /** Exact body that was signed and sent */
+    body: string;
+    attempts: number;
+    status: number | null;
+    error: string;
+    failedAt: number;
+}
+
+/**
+ * Where a recipient's notifications are sent
+ * Webhook channels name an endpoint from ALERT_WEBHOOKS
+ */
+export type NotificationChannel =
+    | { type: "discord"; channelId: string }
+    | { type: "telegram"; chatId?: string }
+    /** Slack channel id (default SLACK_CHANNEL_OPS), posted with SLACK_BOT_TOKEN */
+    | { type: "slack"; channel?: string }
+    | { type: "webhook"; endpoint: string };
+
+/**
+ * Daily window (in timeZone, default UTC) in which a recipient's notifications are held
+ * Severities in `bypass` are still delivered immediately
+ */
+export interface QuietHours {
+    /** "HH:MM"; a window may wrap past midnight (22:00 - 07:00) */
+    start: string;
+    end: string;
+    timeZone?: string;
+    bypass?: Alert["severity"][];
+}
+
+/**
+ * A person or channel that receives notifications
+ */
+export interface NotificationRecipient {
+    name: string;
+    channel: NotificationChannel;
+    /** "digest" batches notifications into one message every digestMinutes (default immediate) */
+    delivery?: "immediate" | "digest";
+    digestMinutes?: number;
+    quietHours?: QuietHours;
+}
+
+/**
+ * Which alerts go to which recipients; an omitted match field matches everything
+ */
+export interface NotificationRule {
+    name: string;
+    match: {
+        severities?: Alert["severity"][];
+        /** Agent that raised the alert */
+        sources?: NonNullable<Alert["source"]>[];
+        types?: string[];
+        states?: AlertState[];
+    };
+    recipients: string[];
+    /** Notify more recipients when a matching alert stays OPEN (unacknowledged) this long */
+    escalation?: { afterMinutes: number; recipients: string[] };
+}
+
+/**
+ * Notification routing (NOTIFICATION_POLICY env var, JSON)
+ */
+export interface NotificationPolicy {
+    recipients: NotificationRecipient[];
+    rules: NotificationRule[];
+    /** Recipients of each operational report period */
+    reports: Partial<Record<OperationalReport["period"], string[]>>;
+}
+
+/**
+ * What happened to a notification for one recipient
+ * held = queued for quiet hours, digest = queued for the next digest,
+ * failed = send failed and queued for retry
+ */
+export interface NotificationDelivery {
+    recipient: string;
+    status: "sent" | "held" | "digest" | "failed";
+    items: number;
+}
+
 /**
  * LayerZero message for cross-chain verification
  */
@@ -99,6 +362,166 @@ export interface LayerZeroMessage {
     dstAddress: string;
     payload: string;
     status: "PENDING" | "DELIVERED" | "FAILED";
+    /** Source transaction, when known; otherwise located from the OFTSent log */
+    srcTxHash?: string;
+}
+
+/**
+ * OFT transfer carried in a LayerZero message payload
+ */
+export interface OftTransfer {
+    /** Recipient on the destination chain (bytes32) */
+    sendTo: string;
+    /** Amount in shared decimals, as encoded in the message */
+    amountSD: bigint;
+    /** Amount credited on the destination in local decimals (from OFTSent), once seen */
+    amountReceivedLD?: bigint;
+    composed: boolean;
+}
+
+/**
+ * A tracked LayerZero message and the outcome of checking it on both endpoints
+ */
+export interface CrossChainMessageRecord extends LayerZeroMessage {
+    /** Decoded payload; null when it is not an OFT message */
+    transfer: OftTransfer | null;
+    dstTxHash?: string;
+    firstSeen: number;
+    checkedAt: number;
+    failedAt?: number;
+    /** PENDING for longer than LZ_STUCK_TIMEOUT_MINUTES */
+    stuck: boolean;
+    /** Why the message failed verification or delivery */
+    issues: string[];
+}
+
+/**
+ * Cross-chain message tracking summary
+ */
+export interface CrossChainStatus {
+    /** Messages confirmed by PacketSent and PacketDelivered with matching contents */
+    messagesVerified: number;
+    pending: CrossChainMessageRecord[];
+    failed: CrossChainMessageRecord[];
+    /** Messages that could not be re-checked this run */
+    unchecked: { guid: string; error: string }[];
+    stuckTimeoutMinutes: number;
+}
+
+/**
+ * Canonical issuance event for an OFT (bridge burns/mints are not recorded here)
+ */
+export interface SupplyLedgerEntry {
+    id: string;
+    type: "MINT" | "BURN";
+    /** Base units (18 decimals) */
+    amount: bigint;
+    chainId: number;
+    txHash?: string;
+    note?: string;
+    recordedAt: number;
+    recordedBy: string;
+}
+
+/**
+ * Per-chain view of the supply conservation check
+ */
+export interface SupplyInvariantChain {
+    chainId: number;
+    name: string;
+    supply: bigint;
+    /** Burned here, not yet minted on the destination */
+    outboundPending: bigint;
+    /** Burned elsewhere, waiting to be minted here */
+    inboundPending: bigint;
+}
+
+/**
+ * Result of checking that supply across chains plus in-flight transfers
+ * equals net canonical issuance
+ * - UNCONFIGURED: no ledger entries recorded yet
+ */
+export interface SupplyInvariantResult {
+    token: EcosystemToken;
+    /** INCOMPLETE when a chain's supply could not be read (no discrepancy is computed) */
+    state: "OK" | "BREACH" | "UNCONFIGURED" | "INCOMPLETE";
+    checkedAt: number;
+    /** Mints minus burns from the ledger */
+    ledgerSupply: bigint;
+    /** Sum of totalSupply() across every chain the OFT is deployed on */
+    chainSupply: bigint;
+    /** Value of PENDING LayerZero messages */
+    inFlight: bigint;
+    /** chainSupply + inFlight - ledgerSupply; positive means unbacked tokens */
+    discrepancy: bigint;
+    pendingMessages: number;
+    chains: SupplyInvariantChain[];
+}
+
+/**
+ * Governor emergency posture
+ * - STANDBY: nothing proposed
+ * - ACTIVE: a pause proposal is collecting signatures or ready to execute
+ * - PAUSED: a proposed pause has been executed on-chain
+ */
+export type EmergencyStatus = "STANDBY" | "ACTIVE" | "PAUSED";
+
+/**
+ * Safe transaction, in the shape the Safe Transaction Service and execTransaction take
+ */
+export interface SafeTransaction {
+    safe: string;
+    chainId: number;
+    to: string;
+    value: string;
+    data: string;
+    /** 0 = CALL, 1 = DELEGATECALL */
+    operation: 0 | 1;
+    safeTxGas: string;
+    baseGas: string;
+    gasPrice: string;
+    gasToken: string;
+    refundReceiver: string;
+    nonce: number;
+    /** EIP-712 hash the owners sign */
+    safeTxHash: string;
+}
+
+export type PauseProposalState = "AWAITING_SIGNATURES" | "READY" | "EXECUTED" | "CANCELLED" | "STALE";
+
+/**
+ * Emergency pause() proposed to the governance Safe
+ */
+export interface PauseProposal {
+    id: string;
+    contract: string;
+    reason: string;
+    state: PauseProposalState;
+    proposedAt: number;
+    proposedBy: string;
+    safeTx: SafeTransaction;
+    /** Safe threshold when last checked */
+    threshold: number;
+    /** Owner signatures over safeTxHash, verified by signer recovery */
+    signatures: { signer: string; signature: string; at: number; submittedBy: string }[];
+    cancelledAt?: number;
+    cancelledBy?: string;
+    cancelReason?: string;
+    /** When an earlier proposal was cancelled and this one moved down to its nonce (signatures reset) */
+    renoncedAt?: number;
+    executedAt?: number;
+    /** When the contract was seen unpaused again after execution */
+    unpausedAt?: number;
+}
+
+/**
+ * Persisted emergency workflow state
+ */
+export interface EmergencyState {
+    status: EmergencyStatus;
+    updatedAt: number;
+    proposals: PauseProposal[];
+    transitions: { from: EmergencyStatus; to: EmergencyStatus; at: number; by: string; reason?: string }[];
 }
 
 /**
@@ -115,6 +538,207 @@ export interface BondcurveLaunch {
     progressPercent: number;
     status: "ACTIVE" | "COMPLETED" | "FAILED";
     createdAt: number;
+    /** Fields below are set by the launch indexer */
+    chainId?: number;
+    creator?: string;
+    /** Linear curve parameters: price = startPrice + slope * supply */
+    startPrice?: bigint;
+    slope?: bigint;
+    lastTradeAt?: number;
+    completedAt?: number;
+    /** Set when the launch missed its graduation deadline */
+    failedAt?: number;
+    /** DEX pool the launch graduated into */
+    pool?: string;
+    /** Transaction and block of the LaunchGraduated event */
+    graduationTx?: string;
+    graduationBlock?: number;
+    /** Trades from the last 24h, oldest first */
+    trades?: LaunchTrade[];
+}
+
+/**
+ * A single buy or sell on a bondcurve launch
+ */
+export interface LaunchTrade {
+    side: "BUY" | "SELL";
+    trader: string;
+    /** Tokens bought or sold */
+    amount: bigint;
+    /** CAMP paid or received */
+    value: bigint;
+    at: number;
+    block: number;
+}
+
+/**
+ * Thresholds for marketplace launch alerts
+ * (MARKETPLACE_ALERT_RULES env var overrides individual fields)
+ */
+export interface LaunchAlertRules {
+    /** Hours without a trade before an ACTIVE launch is stalled (LOW, then MEDIUM) */
+    stalledHours: { low: number; medium: number };
+    /** Single buy as a share of max supply (MEDIUM, then HIGH) */
+    whaleBuyShare: { medium: number; high: number };
+    /** Net tokens sold within the window as a share of supply before it (HIGH, then CRITICAL) */
+    sellOff: { windowMinutes: number; high: number; critical: number };
+    /** Hours an ACTIVE launch has to graduate before it is FAILED */
+    deadlineHours: number;
+}
+
+/**
+ * Outcome of one launch indexer pass
+ */
+export interface LaunchSyncResult {
+    /** ACTIVE and recently FAILED launches */
+    launches: BondcurveLaunch[];
+    /** Launches that graduated during this pass */
+    graduated: BondcurveLaunch[];
+    /** Marketplace events processed */
+    events: number;
+    /** Last indexed block per chain ID */
+    cursors: Record<number, number>;
+}
+
+/**
+ * Outcome of reconciling a fee ledger entry:
+ * - MATCHED: collected equals the expected fee (within rounding)
+ * - UNDERPAID / OVERPAID: collected differs from the expected fee
+ * - MISSING: a launch graduated and no fee reached the receiver
+ * - UNATTRIBUTED: a transfer into the receiver outside any graduation
+ */
+export type FeeReconciliationStatus = "MATCHED" | "UNDERPAID" | "OVERPAID" | "MISSING" | "UNATTRIBUTED";
+
+/**
+ * One line of the daily marketplace fee ledger
+ */
+export interface FeeLedgerEntry {
+    /** "<chainId>:<token>" for launches, "<chainId>:<txHash>:<logIndex>" for unattributed transfers */
+    id: string;
+    /** UTC day, YYYY-MM-DD */
+    date: string;
+    at: number;
+    chainId: number;
+    tokenAddress: string | null;
+    symbol: string | null;
+    txHash: string | null;
+    raised: bigint;
+    expectedFee: bigint;
+    collectedFee: bigint;
+    /** collectedFee - expectedFee */
+    difference: bigint;
+    status: FeeReconciliationStatus;
+}
+
+/**
+ * Result of one fee ledger sync
+ */
+export interface FeeSyncResult {
+    /** Entries added during this pass */
+    entries: FeeLedgerEntry[];
+    /** Last reconciled block per chain ID */
+    cursors: Record<number, number>;
+}
+
+/**
+ * A single price observation
+ */
+export interface PriceQuote {
+    /** Source identifier, e.g. "uniswap-v3:0xPool" */
+    source: string;
+    /** USD price of the pegged token */
+    price: number;
+    /** When the price was observed (ms) */
+    timestamp: number;
+    /** How the price was derived, e.g. "twap-1800s", "spot", "round-123" */
+    detail?: string;
+}
+
+/**
+ * Aggregated peg price with provenance
+ */
+export interface PegPriceResult {
+    price: number;
+    method: "median" | "single" | "unconfigured" | "unavailable";
+    /** Sources that contributed to the price */
+    sources: PriceQuote[];
+    /** Sources that were queried but failed */
+    failed: { source: string; error: string }[];
+}
+
+/**
+ * Signed proof-of-reserve document from the USDGB custodian
+ * The signature is Ed25519 over canonicalAttestationPayload()
+ */
+export interface ReserveAttestation {
+    custodian: string;
+    /** Attested reserve value in USD */
+    reserveValueUsd: number;
+    /** Point in time the reserves were measured (ms) */
+    asOf: number;
+    /** Link to the published custodian report */
+    documentUrl?: string;
+    /** Hex-encoded Ed25519 signature */
+    signature?: string;
+}
+
+/**
+ * Result of reserve verification
+ * - VALID: signed (or on-chain) and fresh
+ * - STALE: verified but older than the freshness window
+ * - UNSIGNED: missing or invalid signature
+ * - MISSING: no attestation available
+ * - UNCONFIGURED: no verification key or PoR feed set up yet
+ */
+export interface ReserveStatus {
+    /** INCOMPLETE: supply could not be read on every chain, so no ratio was computed */
+    state: "VALID" | "STALE" | "UNSIGNED" | "MISSING" | "UNCONFIGURED" | "INCOMPLETE";
+    source: "por-feed" | "attestation" | "none";
+    /** Reserve value / outstanding supply */
+    ratio: number;
+    reserveValueUsd: number | null;
+    asOf: number | null;
+    custodian?: string;
+    issues: string[];
+}
+
+/**
+ * Delta-neutral book metrics for USDca
+ * All USD values are plain numbers (venue APIs report floats)
+ */
+export interface DeltaNeutralMetrics {
+    /**
+     * - UNCONFIGURED: no position sources set up and nothing reported yet
+     * - DEGRADED: some sources failed, the book below is partial
+     * - UNAVAILABLE: no source answered, the book below is empty
+     * Only OK books are graded; the others undercount collateral
+     */
+    state: "OK" | "UNCONFIGURED" | "DEGRADED" | "UNAVAILABLE";
+    spotValueUsd: number;
+    shortNotionalUsd: number;
+    /** Spot exposure minus short exposure; 0 when perfectly hedged */
+    netDeltaUsd: number;
+    /** Spot value + perp margin + unrealised perp PnL */
+    collateralValueUsd: number;
+    /** collateralValueUsd / outstanding USDca */
+    collateralRatio: number;
+    /** Realised funding over the last 24h, annualised over short notional */
+    fundingAPY: number;
+    /** Value-weighted staking APR of the spot legs */
+    spotStakingAPR: number;
+    /** Funding + staking income annualised over outstanding USDca */
+    grossYieldAPY: number;
+    /** Worst per-asset |net delta| / spot value */
+    hedgeDrift: number;
+    perAsset: {
+        asset: string;
+        spotUsd: number;
+        shortUsd: number;
+        netDeltaUsd: number;
+        drift: number;
+    }[];
+    sources: string[];
+    failedSources: { source: string; error: string }[];
 }
 
 /**
@@ -131,6 +755,40 @@ export interface OperationalReport {
         observer: ObserverAgentReport;
     };
     summary: string;
+    /** Roll-up of the day's 4h reports (24h reports only) */
+    daily?: DailyRollup;
+}
+
+/**
+ * Low, high, mean and last value of a metric across a day's reports
+ */
+export interface MetricRange {
+    min: number;
+    max: number;
+    avg: number;
+    latest: number;
+}
+
+/**
+ * Daily roll-up of the 4h reports
+ */
+export interface DailyRollup {
+    from: number;
+    to: number;
+    /** 4h reports aggregated */
+    reportCount: number;
+    /** Peg prices; null when no report had a configured oracle */
+    peg: { USDGB: MetricRange | null; USDca: MetricRange | null };
+    /** USDGB gold reserve ratio, with change = latest - first */
+    reserve: (MetricRange & { change: number }) | null;
+    /** Distinct alerts raised during the day, by severity */
+    alertsBySeverity: Record<Alert["severity"], number>;
+    /** Worst overall risk level in any report */
+    worstRisk: RiskLevel;
+    launchesCompleted: number;
+    totalRaised: bigint;
+    feesCollected: bigint;
+    feeDiscrepancies: number;
 }
 
 /**
@@ -142,10 +800,16 @@ export interface USDGBAgentReport {
     supply: SupplySnapshot;
     /** Gold reserve backing ratio (target: 1.0+) */
     goldReserveRatio: number;
+    /** Where goldReserveRatio came from and whether it verified */
+    reserveStatus: ReserveStatus;
     /** Current USD peg price (target: $1.00) */
     pegPrice: number;
     /** Deviation from $1.00 peg */
     pegDeviation: number;
+    /** Which oracle sources produced pegPrice */
+    pegOracle: PegPriceResult;
+    /** DEX depth and simulated sell impact */
+    liquidity: LiquidityReport;
     /** Total value locked in staking programs */
     stakedTVL: bigint;
     /** Current staking APR */
@@ -164,12 +828,18 @@ export interface USDcaAgentReport {
     pegPrice: number;
     /** Deviation from $1.00 peg */
     pegDeviation: number;
+    /** Which oracle sources produced pegPrice */
+    pegOracle: PegPriceResult;
     /** Collateralization from delta-neutral positions */
     deltaCollateralization: number;
     /** Current funding rate yield */
     fundingRateAPY: number;
     /** sUSDca staking rewards APY */
     stakingRewardsAPY: number;
+    /** Delta-neutral position model behind the numbers above */
+    deltaNeutral: DeltaNeutralMetrics;
+    /** DEX depth and simulated sell impact */
+    liquidity: LiquidityReport;
     alertCount: number;
 }
 
@@ -178,12 +848,16 @@ export interface MarketplaceAgentReport {
     completedLaunches24h: number;
     totalRaised24h: bigint;
     feeCollected24h: bigint;
+    /** Fee ledger entries from the last 24h that did not reconcile */
+    feeDiscrepancies24h: number;
 }
 
 export interface GovernorAgentReport {
     riskStatus: RiskStatus;
     crossChainMessagesVerified: number;
-    emergencyStatus: "STANDBY" | "ACTIVE" | "PAUSED";
+    /** USDGB supply conservation across chains; null when it could not be checked */
+    supplyInvariant: SupplyInvariantResult | null;
+    emergencyStatus: EmergencyStatus;
 }
 
 export interface ObserverAgentReport {
@@ -196,6 +870,31 @@ export interface ObserverAgentReport {
     pendingPRs: number;
 }
 
+/**
+ * Quick status check (GET /ecosystem/status, Telegram /status)
+ */
+export interface EcosystemStatus {
+    status: "online";
+    risk: RiskLevel;
+    emergency: EmergencyStatus;
+    usdgb: { pegPrice: number; goldReserveRatio: number; stakingAPR: number };
+    usdca: { pegPrice: number; deltaCollateralization: number; fundingRateAPY: number };
+    timestamp: number;
+}
+
+/**
+ * Stored alerts with the risk of the latest 4h report (GET /ecosystem/alerts, Telegram /alerts)
+ * risk, categories and assessedAt are null until the first report has run
+ */
+export interface AlertOverview {
+    count: number;
+    alerts: AlertRecord[];
+    risk: RiskLevel | null;
+    categories: RiskStatus["categories"] | null;
+    /** When the report the risk comes from was generated */
+    assessedAt: number | null;
+}
+
 /**
  * Environment bindings for Ecosystem Manager
  */
@@ -206,16 +905,57 @@ export interface EcosystemEnv {
     // R2 bucket for ecosystem data
     ECOSYSTEM_BUCKET: R2Bucket;
 
+    // Durable Object holding shared state (alerts, emergency, cross-chain, launches)
+    // Falls back to reading and writing the same keys in ECOSYSTEM_BUCKET
+    ECOSYSTEM_STATE?: DurableObjectNamespace;
+
     // RPC endpoints
     BASE_RPC_URL: string;
 
-    // LayerZero configuration
+    // Chain registry override (JSON array of ChainConfig)
+    // Falls back to config/chains.json in ECOSYSTEM_BUCKET, then Base only
+    ECOSYSTEM_CHAINS?: string;
+
+    // Reserve attestation (hex Ed25519 public key of the custodian signer)
+    RESERVE_ATTESTATION_PUBLIC_KEY?: string;
+    // Attestations older than this raise STALE_RESERVE_ATTESTATION (default 168h)
+    RESERVE_ATTESTATION_MAX_AGE_HOURS?: string;
+    // Optional on-chain proof-of-reserve aggregator on Base (USD value)
+    USDGB_POR_FEED?: string;
+
+    // USDca position sources (JSON array of PositionSourceConfig, default: R2 usdca/positions.json)
+    USDCA_POSITION_SOURCES?: string;
+
+    // Peg price sources per token (JSON: { "USDGB": [PriceSourceConfig...], "USDca": [...] })
+    PRICE_ORACLES?: string;
+
+    // DEX pools to measure depth on (JSON: { "USDGB": [LiquidityPoolConfig...], "USDca": [...] })
+    LIQUIDITY_POOLS?: string;
+
+    // LayerZero configuration (EndpointV2, same address on every chain)
     LZ_ENDPOINT_ADDRESS: string;
+    // PENDING messages older than this raise CROSSCHAIN_MESSAGE_STUCK (default 60)
+    LZ_STUCK_TIMEOUT_MINUTES?: string;
+    // How far back to search endpoint and OFT logs (default 50000 blocks)
+    LZ_LOG_LOOKBACK_BLOCKS?: string;
+
+    // Governance Safe that executes emergency pauses, and the chain it lives on (default 8453)
+    EMERGENCY_SAFE_ADDRESS?: string;
+    EMERGENCY_SAFE_CHAIN_ID?: string;
 
     // Contract addresses (optional - filled when deployed)
     USDGB_TOKEN_ADDRESS?: string;
     USDCA_TOKEN_ADDRESS?: string;
     MARKETPLACE_ADDRESS?: string;
+    // First block the launch indexer scans when it has no cursor (default: the last 50000 blocks)
+    MARKETPLACE_START_BLOCK?: string;
+    // Launch alert thresholds (JSON, partial LaunchAlertRules merged over the defaults)
+    MARKETPLACE_ALERT_RULES?: string;
+    // Fee receiver and fee token on Base when no chain registry is configured
+    MARKETPLACE_FEE_RECEIVER?: string;
+    MARKETPLACE_FEE_TOKEN?: string;
+    // Marketplace fee on the amount raised, in basis points (default 250)
+    MARKETPLACE_FEE_BPS?: string;
 
     // API keys for external services
     MOLTBOOK_API_KEY?: string;
@@ -226,4 +966,25 @@ export interface EcosystemEnv {
     DISCORD_BOT_TOKEN?: string;
     DISCORD_CHANNEL_DAILY?: string;
     DISCORD_CHANNEL_OPS?: string;
+    // Slash commands: application id (command registration) and public key (verifies interaction requests)
+    DISCORD_APPLICATION_ID?: string;
+    DISCORD_PUBLIC_KEY?: string;
+    // Users and roles allowed to run slash commands (comma-separated ids; commands are refused when both are unset)
+    DISCORD_ALLOWED_USERS?: string;
+    DISCORD_ALLOWED_ROLES?: string;
+    SLACK_BOT_TOKEN?: string;
+    SLACK_CHANNEL_OPS?: string;
+    // Verifies the Acknowledge button callbacks (Slack app Basic Information > Signing Secret)
+    SLACK_SIGNING_SECRET?: string;
+    // Telegram bot commands: webhook secret_token, and the chats / users allowed to send commands
+    // (comma-separated ids; chats default to TELEGRAM_CHAT_ID, users are unrestricted when unset)
+    TELEGRAM_WEBHOOK_SECRET?: string;
+    TELEGRAM_ALLOWED_CHATS?: string;
+    TELEGRAM_ALLOWED_USERS?: string;
+
+    // Outbound alert webhooks, e.g. n8n (JSON array of WebhookEndpointConfig; set as a secret)
+    ALERT_WEBHOOKS?: string;
+
+    // Notification routing (JSON NotificationPolicy); defaults to the Discord / Telegram / Slack / webhook setup above
+    NOTIFICATION_POLICY?: string;
 }
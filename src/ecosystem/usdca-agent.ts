@@ -4,11 +4,26 @@
 import type {
     SupplySnapshot,
     ChainSupply,
+    ChainConfig,
     Alert,
     USDcaAgentReport,
-    EcosystemEnv
+    EcosystemEnv,
+    PegPriceResult,
+    LiquidityReport,
+    DeltaNeutralMetrics
 } from './types';
-import { serializeWithBigInt } from './utils';
+import { percentChange } from './utils';
+import { ChainRegistry } from './chains';
+import { SupplySnapshotStore, checkSupplyReadAlerts } from './snapshot-store';
+import { createPegOracle, unavailablePegPrice, checkPegReadAlerts, PriceSourcesError, type MedianPriceOracle } from './price-oracle';
+import { loadDeltaNeutralMetrics } from './delta-neutral';
+import { RiskPolicyStore } from './risk-policy';
+import { LiquidityMonitor, checkLiquidityAlerts } from './liquidity-monitor';
+
+/**
+ * USDca uses 18 decimals
+ */
+const USDCA_DECIMALS = 18;
 
 /**
  * USDca Agent: Read-only monitoring of CAMP DeFi synthetic dollar
@@ -29,107 +44,141 @@ import { serializeWithBigInt } from './utils';
  */
 export class USDcaAgent {
     private env: EcosystemEnv;
-    private lastSnapshot: SupplySnapshot | null = null;
-
-    // Peg thresholds
-    private readonly PEG_THRESHOLDS = {
-        green: 0.005,   // 0.5%
-        yellow: 0.01,   // 1%
-        orange: 0.02,   // 2%
-        red: 0.05       // 5%
-    };
-
-    // Delta-neutral collateralization thresholds
-    private readonly COLLATERAL_THRESHOLDS = {
-        green: 1.10,    // >= 110%
-        yellow: 1.05,   // >= 105%
-        orange: 1.02,   // >= 102%
-        red: 1.00       // < 100% = CRITICAL
-    };
-
-    constructor(env: EcosystemEnv) {
+    private chains: ChainRegistry;
+    private snapshots: SupplySnapshotStore;
+    private pegOracle: Promise<MedianPriceOracle | null> | null = null;
+    private deltaNeutral: Promise<DeltaNeutralMetrics> | null = null;
+    private policy: RiskPolicyStore;
+    private liquidityMonitor: LiquidityMonitor;
+    private liquidity: Promise<LiquidityReport> | null = null;
+    private currentSupply: Promise<SupplySnapshot> | null = null;
+
+    constructor(env: EcosystemEnv, chains?: ChainRegistry, policy?: RiskPolicyStore) {
         this.env = env;
+        this.chains = chains ?? new ChainRegistry(env);
+        this.policy = policy ?? new RiskPolicyStore(env);
+        this.liquidityMonitor = new LiquidityMonitor(env, "USDca", this.chains);
+        this.snapshots = new SupplySnapshotStore(env, "USDca");
     }
 
     /**
      * Get current USDca supply across all chains
      */
     async getSupplySnapshot(): Promise<SupplySnapshot> {
-        const chains: ChainSupply[] = [];
+        const deployments = await this.chains.getChainsFor("usdca");
+        const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
+        const historicalSnapshot = await this.getHistoricalSnapshot(dayAgo);
 
-        // Base chain (primary)
-        const baseSupply = await this.getChainSupply(8453);
-        chains.push(baseSupply);
+        // Fan out across every chain the token is deployed on; a chain that
+        // cannot be read is marked failed instead of failing the snapshot
+        const settled = await Promise.allSettled(
+            deployments.map(chain => this.getChainSupply(chain, historicalSnapshot))
+        );
+        const chains: ChainSupply[] = [];
+        const failed: NonNullable<SupplySnapshot["failed"]> = [];
+        settled.forEach((outcome, i) => {
+            if (outcome.status === "fulfilled") {
+                chains.push(outcome.value);
+            } else {
+                failed.push({ chainId: deployments[i].chainId, error: String(outcome.reason) });
+            }
+        });
 
         const totalSupply = chains.reduce((sum, c) => sum + c.supply, 0n);
-        const totalChange24h = await this.calculate24hChange(totalSupply);
+        // Totals are only comparable when both snapshots cover every chain
+        const comparable = failed.length === 0 && !historicalSnapshot?.failed?.length;
+        const totalChange24h = !historicalSnapshot
+            ? 0n
+            : comparable
+                ? totalSupply - historicalSnapshot.totalSupply
+                : chains.reduce((sum, c) => sum + c.change24h, 0n);
 
         const snapshot: SupplySnapshot = {
             timestamp: Date.now(),
             token: "USDca",
             chains,
             totalSupply,
-            totalChange24h
+            totalChange24h,
+            ...(failed.length > 0 ? { failed } : {})
         };
 
         await this.storeSnapshot(snapshot);
-        this.lastSnapshot = snapshot;
 
         return snapshot;
     }
 
     /**
-     * Get USDca supply for a specific chain
+     * Get the supply snapshot for this run (read and stored once per agent instance)
      */
-    private async getChainSupply(chainId: number): Promise<ChainSupply> {
-        // TODO: Implement actual RPC call when USDca contract is deployed
-        return {
-            chainId,
-            supply: 0n,
-            change24h: 0n,
-            changePercent: 0
-        };
+    async getCurrentSupply(): Promise<SupplySnapshot> {
+        this.currentSupply ??= this.getSupplySnapshot();
+        return this.currentSupply;
     }
 
     /**
-     * Calculate 24h supply change
+     * Get USDca supply for a specific chain, with change vs the 24h-old snapshot
      */
-    private async calculate24hChange(currentSupply: bigint): Promise<bigint> {
-        const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
-        const historicalSnapshot = await this.getHistoricalSnapshot(dayAgo);
+    private async getChainSupply(
+        chain: ChainConfig,
+        historicalSnapshot: SupplySnapshot | null
+    ): Promise<ChainSupply> {
+        const tokenAddress = chain.contracts.usdca!;
+        const [supply] = await this.chains.getClient(chain).getTotalSupplies([tokenAddress]);
+
+        const previous = historicalSnapshot?.chains.find(c => c.chainId === chain.chainId);
+        const change24h = previous ? supply - previous.supply : 0n;
 
-        if (!historicalSnapshot) return 0n;
-        return currentSupply - historicalSnapshot.totalSupply;
+        return {
+            chainId: chain.chainId,
+            supply,
+            change24h,
+            changePercent: previous ? percentChange(previous.supply, supply) : 0
+        };
     }
 
     /**
-     * Get historical snapshot from R2
+     * Get the stored snapshot closest to a point in time
      */
     private async getHistoricalSnapshot(timestamp: number): Promise<SupplySnapshot | null> {
-        try {
-            const key = `supply-snapshots/USDca/${timestamp}.json`;
-            const object = await this.env.ECOSYSTEM_BUCKET.get(key);
-            if (!object) return null;
-            return JSON.parse(await object.text());
-        } catch {
-            return null;
-        }
+        return this.snapshots.findNearest(timestamp);
     }
 
     /**
      * Store snapshot to R2
      */
     private async storeSnapshot(snapshot: SupplySnapshot): Promise<void> {
-        const key = `supply-snapshots/USDca/${snapshot.timestamp}.json`;
-        await this.env.ECOSYSTEM_BUCKET.put(key, serializeWithBigInt(snapshot));
+        await this.snapshots.put(snapshot);
+    }
+
+    /**
+     * Get peg price with the oracle sources that produced it
+     * Median of the sources configured in PRICE_ORACLES
+     */
+    async getPegPriceDetails(): Promise<PegPriceResult> {
+        this.pegOracle ??= createPegOracle(this.env, "USDca", this.chains);
+
+        try {
+            const oracle = await this.pegOracle;
+
+            // No sources configured yet (pre-launch) - assume on peg
+            if (!oracle) {
+                return { price: 1.00, method: "unconfigured", sources: [], failed: [] };
+            }
+
+            return await oracle.getPegPrice();
+        } catch (error) {
+            // Build the oracle again next time rather than keep a rejected promise
+            if (!(error instanceof PriceSourcesError)) this.pegOracle = null;
+            console.error("[USDcaAgent] Peg price unavailable:", String(error));
+            return unavailablePegPrice(error);
+        }
     }
 
     /**
      * Get current USD peg price
      */
     async getPegPrice(): Promise<number> {
-        // TODO: Implement when price oracle is configured
-        return 1.00;
+        return (await this.getPegPriceDetails()).price;
     }
 
     /**
@@ -140,14 +189,25 @@ export class USDcaAgent {
         return Math.abs(currentPrice - 1.00);
     }
 
+    /**
+     * Get the delta-neutral position model (spot legs + short perps)
+     * Loaded once per agent instance from the configured venue adapters
+     */
+    async getDeltaNeutralMetrics(): Promise<DeltaNeutralMetrics> {
+        this.deltaNeutral ??= (async () => {
+            const supply = await this.getCurrentSupply();
+            const outstandingUsd = Number(supply.totalSupply) / 10 ** USDCA_DECIMALS;
+            return loadDeltaNeutralMetrics(this.env, outstandingUsd, supply.failed);
+        })();
+        return this.deltaNeutral;
+    }
+
     /**
      * Get delta-neutral collateralization ratio
      * USDca is backed by staked ETH/BTC/SOL + short futures positions
      */
     async getDeltaCollateralization(): Promise<number> {
-        // TODO: Implement when protocol is deployed
-        // Query collateral value vs outstanding USDca
-        return 1.10; // 110% collateralized
+        return (await this.getDeltaNeutralMetrics()).collateralRatio;
     }
 
     /**
@@ -155,8 +215,7 @@ export class USDcaAgent {
      * USDca generates yield from perpetual funding rates
      */
     async getFundingRateAPY(): Promise<number> {
-        // TODO: Implement when protocol is deployed
-        return 0;
+        return (await this.getDeltaNeutralMetrics()).fundingAPY;
     }
 
     /**
@@ -164,8 +223,15 @@ export class USDcaAgent {
      * Distributed from funding rates + staking rewards
      */
     async getStakingRewardsAPY(): Promise<number> {
-        // TODO: Implement when protocol is deployed
-        return 0;
+        return (await this.getDeltaNeutralMetrics()).grossYieldAPY;
+    }
+
+    /**
+     * Get DEX depth and simulated sell impact (read once per agent instance)
+     */
+    async getLiquidity(): Promise<LiquidityReport> {
+        this.liquidity ??= this.liquidityMonitor.getLiquidity();
+        return this.liquidity;
     }
 
     /**
@@ -173,25 +239,30 @@ export class USDcaAgent {
      */
     async checkAlerts(): Promise<Alert[]> {
         const alerts: Alert[] = [];
+        const thresholds = (await this.policy.get()).tokens.USDca;
 
         const deviation = await this.getPegDeviation();
-        const collateralization = await this.getDeltaCollateralization();
+        const deltaNeutral = await this.getDeltaNeutralMetrics();
+        const collateralization = deltaNeutral.collateralRatio;
 
-        // Peg alerts
-        if (deviation > this.PEG_THRESHOLDS.red) {
+        // Peg alerts (a failed read raises its own alert instead)
+        alerts.push(...checkPegReadAlerts(await this.getPegPriceDetails(), "USDca"));
+        if (deviation > thresholds.peg.red) {
             alerts.push({
                 id: `USDca-PEG-${Date.now()}`,
                 type: "CRITICAL_PEG_DEVIATION",
+                source: "USDCA",
                 severity: "CRITICAL",
                 message: `USDca peg deviation at ${(deviation * 100).toFixed(2)}% - CRITICAL`,
                 data: { deviation },
                 timestamp: Date.now(),
                 acknowledged: false
             });
-        } else if (deviation > this.PEG_THRESHOLDS.orange) {
+        } else if (deviation > thresholds.peg.orange) {
             alerts.push({
                 id: `USDca-PEG-${Date.now()}`,
                 type: "HIGH_PEG_DEVIATION",
+                source: "USDCA",
                 severity: "HIGH",
                 message: `USDca peg deviation at ${(deviation * 100).toFixed(2)}%`,
                 data: { deviation },
@@ -200,19 +271,92 @@ export class USDcaAgent {
             });
         }
 
+        // A partial or empty book undercounts collateral: flag it instead of grading it
+        const graded = deltaNeutral.state === "OK" || deltaNeutral.state === "UNCONFIGURED";
+
         // Collateralization alerts
-        if (collateralization < this.COLLATERAL_THRESHOLDS.red) {
+        if (graded && collateralization < thresholds.collateral.red) {
             alerts.push({
                 id: `USDca-COLLAT-${Date.now()}`,
                 type: "CRITICAL_UNDERCOLLATERALIZATION",
+                source: "USDCA",
                 severity: "CRITICAL",
                 message: `USDca delta-neutral collateralization at ${(collateralization * 100).toFixed(1)}% - CRITICAL`,
                 data: { collateralization },
                 timestamp: Date.now(),
                 acknowledged: false
             });
+        } else if (graded && collateralization < thresholds.collateral.orange) {
+            alerts.push({
+                id: `USDca-COLLAT-${Date.now()}`,
+                type: "LOW_COLLATERALIZATION",
+                source: "USDCA",
+                severity: "HIGH",
+                message: `USDca delta-neutral collateralization at ${(collateralization * 100).toFixed(1)}%`,
+                data: { collateralization },
+                timestamp: Date.now(),
+                acknowledged: false
+            });
+        }
+
+        // Hedge drift alerts (book drifting away from delta-neutral)
+        const drift = deltaNeutral.hedgeDrift;
+        const driftData = { hedgeDrift: drift, netDeltaUsd: deltaNeutral.netDeltaUsd, perAsset: deltaNeutral.perAsset };
+        if (graded && drift > thresholds.hedgeDrift.red) {
+            alerts.push({
+                id: `USDca-DRIFT-${Date.now()}`,
+                type: "CRITICAL_HEDGE_DRIFT",
+                source: "USDCA",
+                severity: "CRITICAL",
+                message: `USDca hedge drift at ${(drift * 100).toFixed(1)}% - book is materially directional`,
+                data: driftData,
+                timestamp: Date.now(),
+                acknowledged: false
+            });
+        } else if (graded && drift > thresholds.hedgeDrift.orange) {
+            alerts.push({
+                id: `USDca-DRIFT-${Date.now()}`,
+                type: "HIGH_HEDGE_DRIFT",
+                source: "USDCA",
+                severity: "HIGH",
+                message: `USDca hedge drift at ${(drift * 100).toFixed(1)}%`,
+                data: driftData,
+                timestamp: Date.now(),
+                acknowledged: false
+            });
+        } else if (graded && drift > thresholds.hedgeDrift.yellow) {
+            alerts.push({
+                id: `USDca-DRIFT-${Date.now()}`,
+                type: "HEDGE_DRIFT",
+                source: "USDCA",
+                severity: "MEDIUM",
+                message: `USDca hedge drift at ${(drift * 100).toFixed(1)}%`,
+                data: driftData,
+                timestamp: Date.now(),
+                acknowledged: false
+            });
         }
 
+        // Position sources that could not be read leave the model incomplete
+        if (deltaNeutral.failedSources.length > 0) {
+            alerts.push({
+                id: `USDca-POSITIONS-${Date.now()}`,
+                type: "POSITION_SOURCE_FAILED",
+                source: "USDCA",
+                severity: "HIGH",
+                message: `USDca position book ${deltaNeutral.state} - collateral and hedge drift not graded; sources unavailable: ${deltaNeutral.failedSources.map(f => f.source).join(", ")}`,
+                data: deltaNeutral.failedSources,
+                timestamp: Date.now(),
+                acknowledged: false
+            });
+        }
+
+        // Chains left out of the supply snapshot
+        alerts.push(...checkSupplyReadAlerts(await this.getCurrentSupply(), "USDCA"));
+
+        // Liquidity alerts (sell-side depth on configured DEX pools)
+        alerts.push(...checkLiquidityAlerts(await this.getLiquidity(), thresholds.liquidity, "USDCA"));
+
         return alerts;
     }
 
@@ -220,21 +364,27 @@ export class USDcaAgent {
      * Generate 4-hour report
      */
     async generateReport(): Promise<USDcaAgentReport> {
-        const supply = await this.getSupplySnapshot();
-        const pegPrice = await this.getPegPrice();
+        const supply = await this.getCurrentSupply();
+        const pegOracle = await this.getPegPriceDetails();
+        const pegPrice = pegOracle.price;
         const pegDeviation = await this.getPegDeviation();
-        const deltaCollateralization = await this.getDeltaCollateralization();
-        const fundingRateAPY = await this.getFundingRateAPY();
-        const stakingRewardsAPY = await this.getStakingRewardsAPY();
+        const deltaNeutral = await this.getDeltaNeutralMetrics();
+        const deltaCollateralization = deltaNeutral.collateralRatio;
+        const fundingRateAPY = deltaNeutral.fundingAPY;
+        const stakingRewardsAPY = deltaNeutral.grossYieldAPY;
+        const liquidity = await this.getLiquidity();
         const alerts = await this.checkAlerts();
 
         return {
             supply,
             pegPrice,
             pegDeviation,
+            pegOracle,
             deltaCollateralization,
             fundingRateAPY,
             stakingRewardsAPY,
+            deltaNeutral,
+            liquidity,
             alertCount: alerts.length
         };
     }
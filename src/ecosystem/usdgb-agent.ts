@@ -4,11 +4,21 @@
 import type {
     SupplySnapshot,
     ChainSupply,
+    ChainConfig,
     Alert,
     USDGBAgentReport,
-    EcosystemEnv
+    EcosystemEnv,
+    PegPriceResult,
+    LiquidityReport,
+    ReserveStatus
 } from './types';
-import { serializeWithBigInt } from './utils';
+import { percentChange } from './utils';
+import { ChainRegistry } from './chains';
+import { SupplySnapshotStore, checkSupplyReadAlerts } from './snapshot-store';
+import { createPegOracle, unavailablePegPrice, checkPegReadAlerts, PriceSourcesError, type MedianPriceOracle } from './price-oracle';
+import { ReserveAttestationService } from './reserve-attestation';
+import { RiskPolicyStore } from './risk-policy';
+import { LiquidityMonitor, checkLiquidityAlerts } from './liquidity-monitor';
 
 /**
  * USDGB Agent: Read-only monitoring of Goldbackbond stablecoin
@@ -29,104 +39,128 @@ import { serializeWithBigInt } from './utils';
  */
 export class USDGBAgent {
     private env: EcosystemEnv;
-    private lastSnapshot: SupplySnapshot | null = null;
-
-    // Peg thresholds for gold-backed stablecoin
-    private readonly PEG_THRESHOLDS = {
-        green: 0.005,   // 0.5% deviation
-        yellow: 0.01,   // 1%
-        orange: 0.02,   // 2%
-        red: 0.05       // 5%
-    };
-
-    // Gold reserve thresholds
-    private readonly RESERVE_THRESHOLDS = {
-        green: 1.05,    // >= 105% backed
-        yellow: 1.02,   // >= 102%
-        orange: 1.00,   // >= 100%
-        red: 0.98       // < 98% = CRITICAL
-    };
-
-    constructor(env: EcosystemEnv) {
+    private chains: ChainRegistry;
+    private snapshots: SupplySnapshotStore;
+    private reserves: ReserveAttestationService;
+    private policy: RiskPolicyStore;
+    private liquidityMonitor: LiquidityMonitor;
+    private liquidity: Promise<LiquidityReport> | null = null;
+    private pegOracle: Promise<MedianPriceOracle | null> | null = null;
+    private currentSupply: Promise<SupplySnapshot> | null = null;
+
+    constructor(env: EcosystemEnv, chains?: ChainRegistry, policy?: RiskPolicyStore) {
         this.env = env;
+        this.chains = chains ?? new ChainRegistry(env);
+        this.policy = policy ?? new RiskPolicyStore(env);
+        this.liquidityMonitor = new LiquidityMonitor(env, "USDGB", this.chains);
+        this.snapshots = new SupplySnapshotStore(env, "USDGB");
+        this.reserves = new ReserveAttestationService(env, this.chains);
     }
 
     /**
      * Get current USDGB supply across all chains
      */
     async getSupplySnapshot(): Promise<SupplySnapshot> {
-        const chains: ChainSupply[] = [];
+        const deployments = await this.chains.getChainsFor("usdgb");
+        const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
+        const historicalSnapshot = await this.getHistoricalSnapshot(dayAgo);
 
-        // Base chain (primary - Uniswap launch)
-        const baseSupply = await this.getChainSupply(8453);
-        chains.push(baseSupply);
+        // Fan out across every chain the token is deployed on; a chain that
+        // cannot be read is marked failed instead of failing the snapshot
+        const settled = await Promise.allSettled(
+            deployments.map(chain => this.getChainSupply(chain, historicalSnapshot))
+        );
+        const chains: ChainSupply[] = [];
+        const failed: NonNullable<SupplySnapshot["failed"]> = [];
+        settled.forEach((outcome, i) => {
+            if (outcome.status === "fulfilled") {
+                chains.push(outcome.value);
+            } else {
+                failed.push({ chainId: deployments[i].chainId, error: String(outcome.reason) });
+            }
+        });
 
         // Calculate totals
         const totalSupply = chains.reduce((sum, c) => sum + c.supply, 0n);
-        const totalChange24h = await this.calculate24hChange(totalSupply);
+        // Totals are only comparable when both snapshots cover every chain
+        const comparable = failed.length === 0 && !historicalSnapshot?.failed?.length;
+        const totalChange24h = !historicalSnapshot
+            ? 0n
+            : comparable
+                ? totalSupply - historicalSnapshot.totalSupply
+                : chains.reduce((sum, c) => sum + c.change24h, 0n);
 
         const snapshot: SupplySnapshot = {
             timestamp: Date.now(),
             token: "USDGB",
             chains,
             totalSupply,
-            totalChange24h
+            totalChange24h,
+            ...(failed.length > 0 ? { failed } : {})
         };
 
         // Store snapshot
         await this.storeSnapshot(snapshot);
-        this.lastSnapshot = snapshot;
 
         return snapshot;
     }
 
     /**
-     * Get USDGB supply for a specific chain
+     * Get the supply snapshot for this run (read and stored once per agent instance)
      */
-    private async getChainSupply(chainId: number): Promise<ChainSupply> {
-        // TODO: Implement actual RPC call when USDGB contract is deployed
-        // Query USDGB OFT totalSupply on each chain
-
-        return {
-            chainId,
-            supply: 0n,
-            change24h: 0n,
-            changePercent: 0
-        };
+    async getCurrentSupply(): Promise<SupplySnapshot> {
+        this.currentSupply ??= this.getSupplySnapshot();
+        return this.currentSupply;
     }
 
     /**
-     * Calculate 24h supply change
+     * Get USDGB supply for a specific chain, with change vs the 24h-old snapshot
      */
-    private async calculate24hChange(currentSupply: bigint): Promise<bigint> {
-        const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
-        const historicalSnapshot = await this.getHistoricalSnapshot(dayAgo);
+    private async getChainSupply(
+        chain: ChainConfig,
+        historicalSnapshot: SupplySnapshot | null
+    ): Promise<ChainSupply> {
+        const tokenAddress = chain.contracts.usdgb!;
+        const [supply] = await this.chains.getClient(chain).getTotalSupplies([tokenAddress]);
 
-        if (!historicalSnapshot) return 0n;
+        const previous = historicalSnapshot?.chains.find(c => c.chainId === chain.chainId);
+        const change24h = previous ? supply - previous.supply : 0n;
 
-        return currentSupply - historicalSnapshot.totalSupply;
+        return {
+            chainId: chain.chainId,
+            supply,
+            change24h,
+            changePercent: previous ? percentChange(previous.supply, supply) : 0
+        };
     }
 
     /**
-     * Get historical snapshot from R2
+     * Get the stored snapshot closest to a point in time
      */
     private async getHistoricalSnapshot(timestamp: number): Promise<SupplySnapshot | null> {
-        try {
-            const key = `supply-snapshots/USDGB/${timestamp}.json`;
-            const object = await this.env.ECOSYSTEM_BUCKET.get(key);
-            if (!object) return null;
-            return JSON.parse(await object.text());
-        } catch {
-            return null;
-        }
+        return this.snapshots.findNearest(timestamp);
     }
 
     /**
      * Store snapshot to R2
      */
     private async storeSnapshot(snapshot: SupplySnapshot): Promise<void> {
-        const key = `supply-snapshots/USDGB/${snapshot.timestamp}.json`;
-        await this.env.ECOSYSTEM_BUCKET.put(key, serializeWithBigInt(snapshot));
+        await this.snapshots.put(snapshot);
+    }
+
+    /**
+     * Get verified reserve status against current supply
+     * Uses the PoR feed or the latest signed custodian attestation
+     * A supply snapshot missing chains would overstate backing, so the ratio is
+     * withheld (INCOMPLETE) rather than computed against the partial total
+     */
+    async getReserveStatus(): Promise<ReserveStatus> {
+        const supply = await this.getCurrentSupply();
+        const status = await this.reserves.getReserveStatus(supply.totalSupply);
+        if (!supply.failed?.length || (status.state !== "VALID" && status.state !== "STALE")) return status;
+
+        const chains = supply.failed.map(f => f.chainId).join(", ");
+        return { ...status, state: "INCOMPLETE", ratio: 0, issues: [...status.issues, `Supply unreadable on chain(s) ${chains}`] };
     }
 
     /**
@@ -135,10 +169,31 @@ export class USDGBAgent {
      * Target: >= 1.0 (100% or more backed by gold reserves)
      */
     async getGoldReserveRatio(): Promise<number> {
-        // TODO: Implement attestation verification
-        // This would query on-chain attestations or oracle for reserve data
-        // For MVP, return healthy ratio
-        return 1.05; // 105% backed
+        return (await this.getReserveStatus()).ratio;
+    }
+
+    /**
+     * Get peg price with the oracle sources that produced it
+     * Median of the sources configured in PRICE_ORACLES
+     */
+    async getPegPriceDetails(): Promise<PegPriceResult> {
+        this.pegOracle ??= createPegOracle(this.env, "USDGB", this.chains);
+
+        try {
+            const oracle = await this.pegOracle;
+
+            // No sources configured yet (pre-launch) - assume on peg
+            if (!oracle) {
+                return { price: 1.00, method: "unconfigured", sources: [], failed: [] };
+            }
+
+            return await oracle.getPegPrice();
+        } catch (error) {
+            // Build the oracle again next time rather than keep a rejected promise
+            if (!(error instanceof PriceSourcesError)) this.pegOracle = null;
+            console.error("[USDGBAgent] Peg price unavailable:", String(error));
+            return unavailablePegPrice(error);
+        }
     }
 
     /**
@@ -146,9 +201,7 @@ export class USDGBAgent {
      * USDGB targets $1.00 USD peg
      */
     async getPegPrice(): Promise<number> {
-        // TODO: Implement price oracle query
-        // Query Uniswap pool or price oracle for current USDGB/USD price
-        return 1.00;
+        return (await this.getPegPriceDetails()).price;
     }
 
     /**
@@ -178,28 +231,89 @@ export class USDGBAgent {
         return 0;
     }
 
+    /**
+     * Get DEX depth and simulated sell impact (read once per agent instance)
+     */
+    async getLiquidity(): Promise<LiquidityReport> {
+        this.liquidity ??= this.liquidityMonitor.getLiquidity();
+        return this.liquidity;
+    }
+
     /**
      * Check for alerts
      */
     async checkAlerts(): Promise<Alert[]> {
         const alerts: Alert[] = [];
+        const thresholds = (await this.policy.get()).tokens.USDGB;
+
+        // Check attestation itself before trusting the ratio derived from it
+        const reserveStatus = await this.getReserveStatus();
+        const reserveRatio = reserveStatus.ratio;
 
-        // Check gold reserve ratio
-        const reserveRatio = await this.getGoldReserveRatio();
-        if (reserveRatio < this.RESERVE_THRESHOLDS.red) {
+        if (reserveStatus.state === "UNSIGNED") {
+            alerts.push({
+                id: `USDGB-ATTESTATION-${Date.now()}`,
+                type: "UNSIGNED_RESERVE_ATTESTATION",
+                source: "USDGB",
+                severity: "CRITICAL",
+                message: `USDGB reserve attestation from ${reserveStatus.custodian} failed signature verification`,
+                data: reserveStatus,
+                timestamp: Date.now(),
+                acknowledged: false
+            });
+        } else if (reserveStatus.state === "MISSING") {
+            alerts.push({
+                id: `USDGB-ATTESTATION-${Date.now()}`,
+                type: "MISSING_RESERVE_ATTESTATION",
+                source: "USDGB",
+                severity: "HIGH",
+                message: "No verifiable USDGB reserve attestation or PoR feed reading",
+                data: reserveStatus,
+                timestamp: Date.now(),
+                acknowledged: false
+            });
+        } else if (reserveStatus.state === "STALE") {
+            alerts.push({
+                id: `USDGB-ATTESTATION-${Date.now()}`,
+                type: "STALE_RESERVE_ATTESTATION",
+                source: "USDGB",
+                severity: "HIGH",
+                message: `USDGB reserve attestation is stale (as of ${new Date(reserveStatus.asOf!).toISOString()})`,
+                data: reserveStatus,
+                timestamp: Date.now(),
+                acknowledged: false
+            });
+        } else if (reserveStatus.state === "INCOMPLETE") {
+            alerts.push({
+                id: `USDGB-RESERVE-${Date.now()}`,
+                type: "RESERVE_RATIO_UNAVAILABLE",
+                source: "USDGB",
+                severity: "HIGH",
+                message: `USDGB reserve ratio not computed: ${reserveStatus.issues[reserveStatus.issues.length - 1]}`,
+                data: reserveStatus,
+                timestamp: Date.now(),
+                acknowledged: false
+            });
+        }
+
+        // Check gold reserve ratio (only meaningful when backed by some evidence over the full supply)
+        const hasEvidence = reserveStatus.state !== "UNSIGNED" && reserveStatus.state !== "MISSING" && reserveStatus.state !== "INCOMPLETE";
+        if (hasEvidence && reserveRatio < thresholds.reserve.red) {
             alerts.push({
                 id: `USDGB-RESERVE-${Date.now()}`,
                 type: "CRITICAL_RESERVE_RATIO",
+                source: "USDGB",
                 severity: "CRITICAL",
-                message: `USDGB gold reserve ratio at ${(reserveRatio * 100).toFixed(1)}% - BELOW 100%`,
+                message: `USDGB gold reserve ratio at ${(reserveRatio * 100).toFixed(1)}% - BELOW ${(thresholds.reserve.red * 100).toFixed(0)}%`,
                 data: { reserveRatio },
                 timestamp: Date.now(),
                 acknowledged: false
             });
-        } else if (reserveRatio < this.RESERVE_THRESHOLDS.orange) {
+        } else if (hasEvidence && reserveRatio < thresholds.reserve.orange) {
             alerts.push({
                 id: `USDGB-RESERVE-${Date.now()}`,
                 type: "LOW_RESERVE_RATIO",
+                source: "USDGB",
                 severity: "HIGH",
                 message: `USDGB gold reserve ratio at ${(reserveRatio * 100).toFixed(1)}%`,
                 data: { reserveRatio },
@@ -208,22 +322,25 @@ export class USDGBAgent {
             });
         }
 
-        // Check peg deviation
+        // Check peg deviation (a failed read raises its own alert instead)
+        alerts.push(...checkPegReadAlerts(await this.getPegPriceDetails(), "USDGB"));
         const pegDeviation = await this.getPegDeviation();
-        if (pegDeviation > this.PEG_THRESHOLDS.red) {
+        if (pegDeviation > thresholds.peg.red) {
             alerts.push({
                 id: `USDGB-PEG-${Date.now()}`,
                 type: "CRITICAL_PEG_DEVIATION",
+                source: "USDGB",
                 severity: "CRITICAL",
                 message: `USDGB peg deviation at ${(pegDeviation * 100).toFixed(2)}% - CRITICAL`,
                 data: { pegDeviation },
                 timestamp: Date.now(),
                 acknowledged: false
             });
-        } else if (pegDeviation > this.PEG_THRESHOLDS.orange) {
+        } else if (pegDeviation > thresholds.peg.orange) {
             alerts.push({
                 id: `USDGB-PEG-${Date.now()}`,
                 type: "HIGH_PEG_DEVIATION",
+                source: "USDGB",
                 severity: "HIGH",
                 message: `USDGB peg deviation at ${(pegDeviation * 100).toFixed(2)}%`,
                 data: { pegDeviation },
@@ -232,6 +349,12 @@ export class USDGBAgent {
             });
         }
 
+        // Chains left out of the supply snapshot
+        alerts.push(...checkSupplyReadAlerts(await this.getCurrentSupply(), "USDGB"));
+
+        // Liquidity alerts (sell-side depth on configured DEX pools)
+        alerts.push(...checkLiquidityAlerts(await this.getLiquidity(), thresholds.liquidity, "USDGB"));
+
         return alerts;
     }
 
@@ -239,19 +362,25 @@ export class USDGBAgent {
      * Generate 4-hour report
      */
     async generateReport(): Promise<USDGBAgentReport> {
-        const supply = await this.getSupplySnapshot();
-        const goldReserveRatio = await this.getGoldReserveRatio();
-        const pegPrice = await this.getPegPrice();
+        const supply = await this.getCurrentSupply();
+        const reserveStatus = await this.getReserveStatus();
+        const goldReserveRatio = reserveStatus.ratio;
+        const pegOracle = await this.getPegPriceDetails();
+        const pegPrice = pegOracle.price;
         const pegDeviation = await this.getPegDeviation();
         const stakedTVL = await this.getStakedTVL();
         const stakingAPR = await this.getStakingAPR();
+        const liquidity = await this.getLiquidity();
         const alerts = await this.checkAlerts();
 
         return {
             supply,
             goldReserveRatio,
+            reserveStatus,
             pegPrice,
             pegDeviation,
+            pegOracle,
+            liquidity,
             stakedTVL,
             stakingAPR,
             alertCount: alerts.length
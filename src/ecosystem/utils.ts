@@ -1,6 +1,21 @@
 // Ecosystem Utilities
 // Shared helpers for the Ecosystem Manager
 
+import type { SupplySnapshot } from './types';
+
+/**
+ * Base for errors a route answers with their own HTTP status
+ */
+export class HttpStatusError extends Error {
+    readonly status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = "HttpStatusError";
+        this.status = status;
+    }
+}
+
 /**
  * Serialize data with BigInt support
  * JSON.stringify cannot handle BigInt natively, this converts them to strings
@@ -10,3 +25,70 @@ export function serializeWithBigInt(data: unknown): string {
         typeof value === 'bigint' ? value.toString() : value
     );
 }
+
+/**
+ * Parse a stored SupplySnapshot, restoring the BigInt fields
+ * that serializeWithBigInt wrote out as strings
+ */
+export function parseSupplySnapshot(json: string): SupplySnapshot {
+    const raw = JSON.parse(json);
+    return {
+        ...raw,
+        totalSupply: BigInt(raw.totalSupply),
+        totalChange24h: BigInt(raw.totalChange24h),
+        chains: (raw.chains || []).map((c: Record<string, string | number>) => ({
+            ...c,
+            supply: BigInt(c.supply),
+            change24h: BigInt(c.change24h)
+        }))
+    };
+}
+
+/**
+ * Percentage change between two supplies, to 2 decimal places
+ */
+export function percentChange(previous: bigint, current: bigint): number {
+    if (previous === 0n) return 0;
+    return Number(((current - previous) * 10000n) / previous) / 100;
+}
+
+/**
+ * Decode a hex string (with or without 0x) to bytes
+ */
+export function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+    const clean = hex.replace(/^0x/, "");
+    if (clean.length % 2 !== 0 || /[^0-9a-fA-F]/.test(clean)) {
+        throw new Error("Invalid hex string");
+    }
+    const bytes = new Uint8Array(clean.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+/**
+ * HMAC-SHA256 of a message as lowercase hex
+ */
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"]
+    );
+    const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+    return Array.from(new Uint8Array(mac), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Constant-time string comparison for signatures
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return diff === 0;
+}
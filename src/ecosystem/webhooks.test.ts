@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  WebhookDispatcher,
+  WebhookError,
+  loadWebhookEndpoints,
+  verifyWebhookSignature,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from './webhooks';
+import type { Alert, EcosystemEnv, WebhookEndpointConfig } from './types';
+import { createMockBucket, suppressConsole } from '../test-utils';
+
+interface Received { path: string; headers: Record<string, string | string[] | undefined>; body: string }
+
+/**
+ * Local HTTP stand-in for n8n: records requests and answers with queued status codes per path (default 200)
+ */
+let server: Server;
+let baseUrl: string;
+let received: Received[] = [];
+let statuses: Record<string, number[]> = {};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ path: req.url!, headers: req.headers, body });
+      res.statusCode = statuses[req.url!]?.shift() ?? 200;
+      res.end(res.statusCode < 300 ? 'ok' : 'nope');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+  statuses = {};
+  suppressConsole();
+});
+
+function createEnv(endpoints: Partial<WebhookEndpointConfig>[]): EcosystemEnv {
+  return {
+    ECOSYSTEM_BUCKET: createMockBucket(),
+    ALERT_WEBHOOKS: JSON.stringify(endpoints.map(e => ({ secret: 'shh', ...e, url: baseUrl + e.url }))),
+  } as unknown as EcosystemEnv;
+}
+
+function alert(severity: Alert['severity']): Alert {
+  return { id: `A-${severity}`, type: 'TEST', severity, message: severity, timestamp: 0, data: { amount: 10n } };
+}
+
+describe('WebhookDispatcher', () => {
+  it('signs each delivery and applies per-endpoint severity filters', async () => {
+    const env = createEnv([{ name: 'ops', url: '/ops', severities: ['CRITICAL'] }, { name: 'n8n', url: '/n8n' }]);
+
+    const results = await new WebhookDispatcher(env, { retryDelayMs: 1 }).dispatch([alert('CRITICAL'), alert('HIGH'), alert('LOW')]);
+
+    expect(results.map(r => [r.endpoint, r.delivered, r.attempts])).toEqual([['ops', true, 1], ['n8n', true, 1]]);
+    const [ops, n8n] = received;
+    expect(JSON.parse(ops.body).alerts.map((a: Alert) => a.severity)).toEqual(['CRITICAL']);
+    expect(JSON.parse(n8n.body)).toMatchObject({ event: 'alerts', alerts: [{ severity: 'CRITICAL', data: { amount: '10' } }, { severity: 'HIGH' }] });
+
+    const headers = (r: Received) => ({
+      signature: r.headers[SIGNATURE_HEADER.toLowerCase()] as string,
+      timestamp: r.headers[TIMESTAMP_HEADER.toLowerCase()] as string,
+    });
+    expect(await verifyWebhookSignature('shh', headers(n8n), n8n.body)).toBe(true);
+    expect(await verifyWebhookSignature('other', headers(n8n), n8n.body)).toBe(false);
+    expect(await verifyWebhookSignature('shh', headers(n8n), n8n.body.replace('HIGH', 'LOW'))).toBe(false);
+  });
+
+  it('retries transient failures with backoff', async () => {
+    const env = createEnv([{ name: 'n8n', url: '/n8n' }]);
+    statuses['/n8n'] = [503, 429];
+
+    const [result] = await new WebhookDispatcher(env, { retryDelayMs: 1 }).dispatch([alert('HIGH')]);
+
+    expect(result).toMatchObject({ delivered: true, attempts: 3, status: 200 });
+    expect(new Set(received.map(r => r.headers['x-chiefos-delivery'])).size).toBe(1);
+  });
+
+  it('dead-letters permanent and exhausted failures and redelivers them', async () => {
+    const env = createEnv([{ name: 'bad', url: '/bad' }, { name: 'down', url: '/down' }]);
+    statuses['/bad'] = [400];
+    statuses['/down'] = [500, 500, 500];
+    const dispatcher = new WebhookDispatcher(env, { retryDelayMs: 1, maxRetries: 2 });
+
+    const results = await dispatcher.dispatch([alert('CRITICAL')]);
+    expect(results.map(r => [r.endpoint, r.delivered, r.attempts, r.status])).toEqual([['bad', false, 1, 400], ['down', false, 3, 500]]);
+
+    const letters = await dispatcher.listDeadLetters();
+    expect(letters).toHaveLength(2);
+    expect(letters[0]).toMatchObject({ endpoint: 'bad', attempts: 1, status: 400, error: 'HTTP 400: nope' });
+    expect(JSON.parse(letters[0].body).alerts[0].id).toBe('A-CRITICAL');
+
+    const retried = await dispatcher.redeliver(letters[0].id);
+    expect(retried).toMatchObject({ delivered: true, deliveryId: letters[0].id });
+    expect((await dispatcher.listDeadLetters()).map(l => l.endpoint)).toEqual(['down']);
+
+    await expect(dispatcher.redeliver('missing')).rejects.toBeInstanceOf(WebhookError);
+  });
+});
+
+describe('loadWebhookEndpoints', () => {
+  it('skips incomplete endpoints and ignores invalid JSON', () => {
+    const env = createEnv([{ name: 'ok', url: '/ok' }, { name: 'no-secret', url: '/x', secret: '' }]);
+
+    expect(loadWebhookEndpoints(env).map(e => e.name)).toEqual(['ok']);
+    expect(loadWebhookEndpoints({ ALERT_WEBHOOKS: '[' } as EcosystemEnv)).toEqual([]);
+  });
+});
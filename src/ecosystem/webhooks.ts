@@ -0,0 +1,259 @@
+// Webhooks - Signed outbound alert delivery (n8n and generic receivers)
+// Part of ChiefOS Ecosystem Manager
+
+import type {
+    Alert,
+    EcosystemEnv,
+    WebhookDeadLetter,
+    WebhookDeliveryResult,
+    WebhookEndpointConfig
+} from './types';
+import { hmacSha256Hex, serializeWithBigInt, timingSafeEqual, HttpStatusError } from './utils';
+
+const DEAD_LETTER_PREFIX = "webhooks/dead-letter/";
+const DEFAULT_SEVERITIES: Alert["severity"][] = ["CRITICAL", "HIGH"];
+
+export const SIGNATURE_HEADER = "X-ChiefOS-Signature";
+export const TIMESTAMP_HEADER = "X-ChiefOS-Timestamp";
+export const DELIVERY_HEADER = "X-ChiefOS-Delivery";
+
+export interface WebhookDispatcherOptions {
+    /** Per-attempt timeout in milliseconds */
+    timeoutMs?: number;
+    /** Retries after the first attempt for transient failures */
+    maxRetries?: number;
+    /** Base backoff delay, doubled on each retry */
+    retryDelayMs?: number;
+}
+
+/**
+ * Error raised for dead-letter operations
+ */
+export class WebhookError extends HttpStatusError {
+    constructor(message: string, status: number) {
+        super(message, status);
+        this.name = "WebhookError";
+    }
+}
+
+/**
+ * Endpoints from ALERT_WEBHOOKS
+ * An unparseable value is logged and no webhooks are sent
+ */
+export function loadWebhookEndpoints(env: EcosystemEnv): WebhookEndpointConfig[] {
+    if (!env.ALERT_WEBHOOKS) return [];
+
+    try {
+        const endpoints = JSON.parse(env.ALERT_WEBHOOKS) as WebhookEndpointConfig[];
+        if (!Array.isArray(endpoints)) throw new Error("ALERT_WEBHOOKS must be a JSON array");
+
+        return endpoints.filter(e => {
+            const valid = !!e?.name && /^https?:\/\//.test(e.url ?? "") && !!e.secret;
+            if (!valid) console.error(`[Webhooks] Skipping endpoint without name, http(s) url and secret: ${e?.name ?? "?"}`);
+            return valid;
+        });
+    } catch (error) {
+        console.error("[Webhooks] Invalid ALERT_WEBHOOKS, no webhooks will be sent:", error);
+        return [];
+    }
+}
+
+/**
+ * HMAC-SHA256 of "<timestamp>.<body>" as lowercase hex
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+    return hmacSha256Hex(secret, `${timestamp}.${body}`);
+}
+
+/**
+ * Receiver-side check of the signature and timestamp headers
+ * Rejects timestamps further than toleranceSeconds from now to limit replays
+ */
+export async function verifyWebhookSignature(
+    secret: string,
+    headers: { signature: string | null; timestamp: string | null },
+    body: string,
+    toleranceSeconds: number = 300,
+    now: number = Date.now()
+): Promise<boolean> {
+    const timestamp = Number(headers.timestamp);
+    if (!headers.signature || !Number.isInteger(timestamp)) return false;
+    if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+    const expected = `sha256=${await signWebhookPayload(secret, timestamp, body)}`;
+    return timingSafeEqual(expected, headers.signature);
+}
+
+/**
+ * Webhook Dispatcher: POSTs alert notifications to every configured endpoint
+ *
+ * - One request per endpoint carrying the alerts that pass its severity filter
+ * - Body signed with the endpoint secret (X-ChiefOS-Signature: sha256=<hex>
+ *   over "<X-ChiefOS-Timestamp>.<body>")
+ * - Retries network errors, timeouts, HTTP 408/429/5xx with exponential backoff;
+ *   other 4xx responses are not retried
+ * - Deliveries that still fail are kept in R2 (webhooks/dead-letter/<id>.json)
+ *   until redelivered
+ */
+export class WebhookDispatcher {
+    private env: EcosystemEnv;
+    private endpoints: WebhookEndpointConfig[];
+    private timeoutMs: number;
+    private maxRetries: number;
+    private retryDelayMs: number;
+
+    constructor(env: EcosystemEnv, options: WebhookDispatcherOptions = {}) {
+        this.env = env;
+        this.endpoints = loadWebhookEndpoints(env);
+        this.timeoutMs = options.timeoutMs ?? 10000;
+        this.maxRetries = options.maxRetries ?? 3;
+        this.retryDelayMs = options.retryDelayMs ?? 1000;
+    }
+
+    /**
+     * Deliver alerts to each endpoint whose filter matches at least one of them
+     */
+    async dispatch(alerts: Alert[], now: number = Date.now()): Promise<WebhookDeliveryResult[]> {
+        return this.deliverAll(this.endpoints, alerts, now);
+    }
+
+    /**
+     * Deliver alerts to one named endpoint (its severity filter still applies)
+     * Returns null when the endpoint is unknown or no alert passes the filter
+     */
+    async dispatchTo(name: string, alerts: Alert[], now: number = Date.now()): Promise<WebhookDeliveryResult | null> {
+        const endpoint = this.endpoints.find(e => e.name === name);
+        if (!endpoint) return null;
+
+        const [result] = await this.deliverAll([endpoint], alerts, now);
+        return result ?? null;
+    }
+
+    /**
+     * Failed deliveries, oldest first
+     */
+    async listDeadLetters(): Promise<WebhookDeadLetter[]> {
+        const letters: WebhookDeadLetter[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const listed = await this.env.ECOSYSTEM_BUCKET.list({ prefix: DEAD_LETTER_PREFIX, cursor });
+            for (const object of listed.objects) {
+                const stored = await this.env.ECOSYSTEM_BUCKET.get(object.key);
+                if (stored) letters.push(JSON.parse(await stored.text()));
+            }
+            cursor = listed.truncated ? listed.cursor : undefined;
+        } while (cursor);
+
+        return letters.sort((a, b) => a.failedAt - b.failedAt);
+    }
+
+    /**
+     * Re-send a dead letter with a fresh signature; it is removed once delivered
+     */
+    async redeliver(id: string): Promise<WebhookDeliveryResult> {
+        const stored = await this.env.ECOSYSTEM_BUCKET.get(DEAD_LETTER_PREFIX + id + ".json");
+        if (!stored) throw new WebhookError(`Dead letter ${id} not found`, 404);
+
+        const letter = JSON.parse(await stored.text()) as WebhookDeadLetter;
+        const endpoint = this.endpoints.find(e => e.name === letter.endpoint);
+        if (!endpoint) throw new WebhookError(`Endpoint ${letter.endpoint} is no longer configured`, 409);
+
+        const result = await this.deliver(endpoint, letter.id, letter.body, letter.attempts);
+        if (result.delivered) await this.env.ECOSYSTEM_BUCKET.delete(DEAD_LETTER_PREFIX + id + ".json");
+        return result;
+    }
+
+    private async deliverAll(
+        endpoints: WebhookEndpointConfig[],
+        alerts: Alert[],
+        now: number
+    ): Promise<WebhookDeliveryResult[]> {
+        const results: WebhookDeliveryResult[] = [];
+
+        for (const endpoint of endpoints) {
+            const severities = endpoint.severities ?? DEFAULT_SEVERITIES;
+            const matching = alerts.filter(a => severities.includes(a.severity));
+            if (matching.length === 0) continue;
+
+            const deliveryId = crypto.randomUUID();
+            const body = serializeWithBigInt({ event: "alerts", deliveryId, sentAt: now, alerts: matching });
+            results.push(await this.deliver(endpoint, deliveryId, body));
+        }
+
+        return results;
+    }
+
+    private async deliver(
+        endpoint: WebhookEndpointConfig,
+        deliveryId: string,
+        body: string,
+        previousAttempts: number = 0
+    ): Promise<WebhookDeliveryResult> {
+        let attempt = 0;
+
+        while (true) {
+            attempt++;
+            const { status, error } = await this.send(endpoint, deliveryId, body);
+            if (!error) {
+                return { endpoint: endpoint.name, deliveryId, delivered: true, attempts: attempt, status };
+            }
+
+            const retryable = status === null || status === 408 || status === 429 || status >= 500;
+            if (!retryable || attempt > this.maxRetries) {
+                console.error(`[Webhooks] ${endpoint.name} delivery ${deliveryId} failed after ${attempt} attempts: ${error}`);
+                const letter: WebhookDeadLetter = {
+                    id: deliveryId,
+                    endpoint: endpoint.name,
+                    url: endpoint.url,
+                    body,
+                    attempts: previousAttempts + attempt,
+                    status,
+                    error,
+                    failedAt: Date.now()
+                };
+                await this.env.ECOSYSTEM_BUCKET.put(DEAD_LETTER_PREFIX + deliveryId + ".json", JSON.stringify(letter));
+                return { endpoint: endpoint.name, deliveryId, delivered: false, attempts: attempt, status, error };
+            }
+
+            const delay = this.retryDelayMs * 2 ** (attempt - 1);
+            console.warn(`[Webhooks] ${endpoint.name}: ${error} - retry ${attempt}/${this.maxRetries} in ${delay}ms`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+
+    private async send(
+        endpoint: WebhookEndpointConfig,
+        deliveryId: string,
+        body: string
+    ): Promise<{ status: number | null; error?: string }> {
+        const timestamp = Math.floor(Date.now() / 1000);
+        const signature = await signWebhookPayload(endpoint.secret, timestamp, body);
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+        try {
+            const response = await fetch(endpoint.url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    [SIGNATURE_HEADER]: `sha256=${signature}`,
+                    [TIMESTAMP_HEADER]: String(timestamp),
+                    [DELIVERY_HEADER]: deliveryId
+                },
+                body,
+                signal: controller.signal
+            });
+            if (response.ok) return { status: response.status };
+            return { status: response.status, error: `HTTP ${response.status}: ${(await response.text()).slice(0, 200)}` };
+        } catch (error) {
+            return {
+                status: null,
+                error: controller.signal.aborted ? `Timed out after ${this.timeoutMs}ms` : String(error)
+            };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
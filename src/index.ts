@@ -18,6 +18,10 @@
  * - TELEGRAM_BOT_TOKEN: Telegram bot token
  * - DISCORD_BOT_TOKEN: Discord bot token
  * - SLACK_BOT_TOKEN + SLACK_APP_TOKEN: Slack tokens
+ * - SLACK_SIGNING_SECRET: Verifies ecosystem Slack button callbacks
+ * - TELEGRAM_WEBHOOK_SECRET: Verifies ecosystem Telegram bot command updates
+ * - DISCORD_PUBLIC_KEY: Verifies ecosystem Discord slash command interactions
+ * - DISCORD_ALLOWED_USERS / DISCORD_ALLOWED_ROLES: Who may run the Discord slash commands
  */
 
 import { Hono } from 'hono';
@@ -56,6 +60,7 @@ function transformErrorMessage(message: string, host: string): string {
 }
 
 export { Sandbox };
+export { EcosystemStateObject } from './ecosystem/ecosystem-state';
 
 /**
  * Validate required environment variables.
@@ -153,6 +158,24 @@ app.route('/', publicRoutes);
 // Mount CDP routes (uses shared secret auth via query param, not CF Access)
 app.route('/cdp', cdp);
 
+// Slack interactivity callbacks (verified with SLACK_SIGNING_SECRET, not CF Access)
+app.post('/ecosystem/slack/interactions', async (c) => {
+  const ecosystemEnv = c.env as unknown as EcosystemEnv;
+  return handleEcosystemRequest(c.req.raw, ecosystemEnv);
+});
+
+// Telegram bot command webhook (verified with TELEGRAM_WEBHOOK_SECRET, not CF Access)
+app.post('/ecosystem/telegram/webhook', async (c) => {
+  const ecosystemEnv = c.env as unknown as EcosystemEnv;
+  return handleEcosystemRequest(c.req.raw, ecosystemEnv);
+});
+
+// Discord slash command interactions (verified with DISCORD_PUBLIC_KEY, not CF Access)
+app.post('/ecosystem/discord/interactions', async (c) => {
+  const ecosystemEnv = c.env as unknown as EcosystemEnv;
+  return handleEcosystemRequest(c.req.raw, ecosystemEnv, c.executionCtx);
+});
+
 // =============================================================================
 // PROTECTED ROUTES: Cloudflare Access authentication required
 // =============================================================================
@@ -489,24 +512,24 @@ app.all('*', async (c) => {
 /**
  * Scheduled handler for cron triggers.
  * Syncs moltbot config/state from container to R2 for persistence.
- * Also runs Ecosystem Manager 4-hour reports.
+ * Also runs Ecosystem Manager 4-hour reports and the daily brief.
  */
 async function scheduled(
   event: ScheduledEvent,
   env: MoltbotEnv,
   ctx: ExecutionContext
 ): Promise<void> {
-  // Check if this is for ecosystem manager (every 4 hours)
+  // Ecosystem manager: 4-hour report, daily brief and 5-minute notification tick, by cron
   const ecosystemEnv = env as unknown as EcosystemEnv;
   if (ecosystemEnv.ECOSYSTEM_ENABLED === 'true') {
-    console.log('[cron] Running Ecosystem Manager 4-hour report...');
+    console.log(`[cron] Running Ecosystem Manager for ${event.cron}...`);
     try {
       // Cast to the correct type for the scheduler controller
       const controller = { scheduledTime: event.scheduledTime, cron: event.cron } as import('@cloudflare/workers-types').ScheduledController;
       await handleEcosystemScheduled(controller, ecosystemEnv, ctx);
-      console.log('[cron] Ecosystem report generated successfully');
+      console.log(`[cron] Ecosystem Manager ${event.cron} run completed`);
     } catch (err) {
-      console.error('[cron] Ecosystem report failed:', err);
+      console.error(`[cron] Ecosystem Manager ${event.cron} run failed:`, err);
     }
   }
 
@@ -4,6 +4,7 @@
 import { vi } from 'vitest';
 import type { Sandbox, Process } from '@cloudflare/sandbox';
 import type { MoltbotEnv } from './types';
+import type { RpcRequest } from './ecosystem/rpc';
 
 /**
  * Create a minimal MoltbotEnv object for testing
@@ -89,3 +90,73 @@ export function suppressConsole() {
   vi.spyOn(console, 'error').mockImplementation(() => {});
   vi.spyOn(console, 'warn').mockImplementation(() => {});
 }
+
+/**
+ * In-memory R2 bucket whose backing map tests can read and seed directly
+ */
+export type MockBucket = R2Bucket & { store: Map<string, string> };
+
+/**
+ * Create an in-memory R2 bucket supporting get/put/delete/list
+ */
+export function createMockBucket(initial: Record<string, string> = {}): MockBucket {
+  const store = new Map<string, string>(Object.entries(initial));
+
+  const toObject = (key: string, value: string) => ({
+    key,
+    size: value.length,
+    uploaded: new Date(),
+    text: async () => value,
+    json: async () => JSON.parse(value),
+  });
+
+  const bucket = {
+    store,
+    get: vi.fn(async (key: string) => (store.has(key) ? toObject(key, store.get(key)!) : null)),
+    head: vi.fn(async (key: string) => (store.has(key) ? toObject(key, store.get(key)!) : null)),
+    put: vi.fn(async (key: string, value: string) => {
+      store.set(key, String(value));
+      return toObject(key, String(value));
+    }),
+    delete: vi.fn(async (keys: string | string[]) => {
+      for (const key of ([] as string[]).concat(keys)) store.delete(key);
+    }),
+    list: vi.fn(async (options: { prefix?: string; startAfter?: string; cursor?: string; limit?: number } = {}) => {
+      const keys = Array.from(store.keys())
+        .filter(k => k.startsWith(options.prefix || '') && (!options.startAfter || k > options.startAfter))
+        .sort();
+      const start = options.cursor ? Number(options.cursor) : 0;
+      const limit = options.limit ?? 1000;
+      const page = keys.slice(start, start + limit);
+      const truncated = start + limit < keys.length;
+      return {
+        objects: page.map(k => toObject(k, store.get(k)!)),
+        truncated,
+        cursor: truncated ? String(start + limit) : undefined,
+        delimitedPrefixes: [],
+      };
+    }),
+  };
+
+  return bucket as unknown as MockBucket;
+}
+
+/**
+ * Answer to one stubbed JSON-RPC request: a result, or an RPC error
+ */
+export type RpcStubReply = { result: unknown } | { error: { code: number; message: string } };
+
+/**
+ * Stub global fetch as a JSON-RPC node answering single and batched requests
+ * The responder is called per request with the RPC URL it was sent to
+ */
+export function stubJsonRpc(responder: (request: RpcRequest, url: string) => RpcStubReply) {
+  const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string) as (RpcRequest & { id: number }) | (RpcRequest & { id: number })[];
+    const requests = Array.isArray(body) ? body : [body];
+    const replies = requests.map(request => ({ jsonrpc: '2.0', id: request.id, ...responder(request, url) }));
+    return new Response(JSON.stringify(Array.isArray(body) ? replies : replies[0]));
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}